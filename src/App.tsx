@@ -13,6 +13,7 @@ import Auth from "./pages/Auth";
 import Onboarding from "./pages/Onboarding";
 import MainApp from "./pages/Index";
 import Admin from "./pages/Admin";
+import JoinTeam from "./pages/JoinTeam";
 import NotFound from "./pages/NotFound";
 
 const App = () => (
@@ -36,6 +37,9 @@ const App = () => (
               {/* Main app for authenticated users with profile */}
               <Route path="/app" element={<MainApp />} />
               
+              {/* Team invite links */}
+              <Route path="/join/:code" element={<JoinTeam />} />
+              
               {/* Admin dashboard - role-gated */}
               <Route path="/admin" element={<Admin />} />
               
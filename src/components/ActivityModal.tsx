@@ -4,13 +4,16 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Badge } from '@/components/ui/badge';
 import { ScrollArea } from '@/components/ui/scroll-area';
-import { RotateCcw, Heart, X, Users, User } from 'lucide-react';
-import { UserProfile, Team } from '@/types';
+import { RotateCcw, Heart, X, Bookmark, Users, User, Send } from 'lucide-react';
+import { UserProfile, Team, SwipeDirection } from '@/types';
+import { canUndoSwipe, describeUndoRefusal } from '@/lib/undo';
+import { OutgoingRequestsList } from './OutgoingRequestsList';
 
 interface SwipeHistory {
   type: 'user' | 'team';
   item: UserProfile | Team;
-  direction: 'left' | 'right';
+  direction: SwipeDirection;
+  swipedAt?: string;
 }
 
 interface ActivityModalProps {
@@ -21,6 +24,38 @@ interface ActivityModalProps {
   activeTabContext: 'individuals' | 'teams';
 }
 
+const directionIcons: Record<SwipeDirection, { icon: typeof Heart; className: string }> = {
+  right: { icon: Heart, className: 'bg-green-500' },
+  left: { icon: X, className: 'bg-muted-foreground/50' },
+  up: { icon: Bookmark, className: 'bg-amber-500' },
+};
+
+const DirectionIndicator = ({ direction }: { direction: SwipeDirection }) => {
+  const { icon: Icon, className } = directionIcons[direction];
+  return (
+    <div className={`absolute -bottom-1 -right-1 w-5 h-5 rounded-full flex items-center justify-center ${className}`}>
+      <Icon className="w-3 h-3 text-white" />
+    </div>
+  );
+};
+
+const UndoButton = ({ item, onUndo }: { item: SwipeHistory; onUndo: () => void }) => {
+  const undoable = canUndoSwipe(item);
+  return (
+    <Button
+      variant="outline"
+      size="sm"
+      onClick={onUndo}
+      disabled={!undoable}
+      title={undoable ? undefined : describeUndoRefusal('expired')}
+      className="gap-1"
+    >
+      <RotateCcw className="w-3 h-3" />
+      Undo
+    </Button>
+  );
+};
+
 export const ActivityModal = ({
   open,
   onOpenChange,
@@ -46,19 +81,7 @@ export const ActivityModal = ({
               <AvatarImage src={profile.avatar} alt={profile.name} />
               <AvatarFallback>{profile.name.charAt(0)}</AvatarFallback>
             </Avatar>
-            <div
-              className={`absolute -bottom-1 -right-1 w-5 h-5 rounded-full flex items-center justify-center ${
-                item.direction === 'right'
-                  ? 'bg-green-500'
-                  : 'bg-muted-foreground/50'
-              }`}
-            >
-              {item.direction === 'right' ? (
-                <Heart className="w-3 h-3 text-white" />
-              ) : (
-                <X className="w-3 h-3 text-white" />
-              )}
-            </div>
+            <DirectionIndicator direction={item.direction} />
           </div>
           <div>
             <p className="font-medium text-foreground">{profile.name}</p>
@@ -67,19 +90,11 @@ export const ActivityModal = ({
               variant={item.direction === 'right' ? 'default' : 'secondary'}
               className="mt-1 text-xs"
             >
-              {item.direction === 'right' ? 'Interest Sent' : 'Passed'}
+              {item.direction === 'right' ? 'Interest Sent' : item.direction === 'up' ? 'Saved' : 'Passed'}
             </Badge>
           </div>
         </div>
-        <Button
-          variant="outline"
-          size="sm"
-          onClick={() => onUndo(originalIndex)}
-          className="gap-1"
-        >
-          <RotateCcw className="w-3 h-3" />
-          Undo
-        </Button>
+        <UndoButton item={item} onUndo={() => onUndo(originalIndex)} />
       </div>
     );
   };
@@ -98,19 +113,7 @@ export const ActivityModal = ({
             <div className="w-12 h-12 rounded-full bg-primary/20 flex items-center justify-center">
               <Users className="w-6 h-6 text-primary" />
             </div>
-            <div
-              className={`absolute -bottom-1 -right-1 w-5 h-5 rounded-full flex items-center justify-center ${
-                item.direction === 'right'
-                  ? 'bg-green-500'
-                  : 'bg-muted-foreground/50'
-              }`}
-            >
-              {item.direction === 'right' ? (
-                <Heart className="w-3 h-3 text-white" />
-              ) : (
-                <X className="w-3 h-3 text-white" />
-              )}
-            </div>
+            <DirectionIndicator direction={item.direction} />
           </div>
           <div>
             <p className="font-medium text-foreground">{team.name}</p>
@@ -119,19 +122,11 @@ export const ActivityModal = ({
               variant={item.direction === 'right' ? 'default' : 'secondary'}
               className="mt-1 text-xs"
             >
-              {item.direction === 'right' ? 'Request Sent' : 'Passed'}
+              {item.direction === 'right' ? 'Request Sent' : item.direction === 'up' ? 'Saved' : 'Passed'}
             </Badge>
           </div>
         </div>
-        <Button
-          variant="outline"
-          size="sm"
-          onClick={() => onUndo(originalIndex)}
-          className="gap-1"
-        >
-          <RotateCcw className="w-3 h-3" />
-          Undo
-        </Button>
+        <UndoButton item={item} onUndo={() => onUndo(originalIndex)} />
       </div>
     );
   };
@@ -144,7 +139,7 @@ export const ActivityModal = ({
         </DialogHeader>
 
         <Tabs defaultValue={activeTabContext === 'individuals' ? 'people' : 'teams'}>
-          <TabsList className="grid w-full grid-cols-2">
+          <TabsList className="grid w-full grid-cols-3">
             <TabsTrigger value="people" className="gap-2">
               <User className="w-4 h-4" />
               People ({peopleHistory.length})
@@ -153,6 +148,10 @@ export const ActivityModal = ({
               <Users className="w-4 h-4" />
               Teams ({teamHistory.length})
             </TabsTrigger>
+            <TabsTrigger value="outgoing" className="gap-2">
+              <Send className="w-4 h-4" />
+              Outgoing
+            </TabsTrigger>
           </TabsList>
 
           <TabsContent value="people" className="mt-4">
@@ -194,6 +193,12 @@ export const ActivityModal = ({
               )}
             </ScrollArea>
           </TabsContent>
+
+          <TabsContent value="outgoing" className="mt-4">
+            <ScrollArea className="h-[400px] pr-4">
+              <OutgoingRequestsList enabled={open} />
+            </ScrollArea>
+          </TabsContent>
         </Tabs>
       </DialogContent>
     </Dialog>
@@ -0,0 +1,20 @@
+import { ApplicationAnswer } from '@/lib/applicationQuestions';
+
+interface ApplicationAnswersListProps {
+  answers: ApplicationAnswer[];
+}
+
+export const ApplicationAnswersList = ({ answers }: ApplicationAnswersListProps) => {
+  if (answers.length === 0) return null;
+
+  return (
+    <dl className="space-y-1 rounded-lg bg-muted/50 p-2 text-xs">
+      {answers.map(({ question, answer }) => (
+        <div key={question}>
+          <dt className="font-medium text-foreground">{question}</dt>
+          <dd className="text-muted-foreground whitespace-pre-wrap break-words">{answer}</dd>
+        </div>
+      ))}
+    </dl>
+  );
+};
@@ -0,0 +1,81 @@
+import { useEffect, useState } from 'react';
+import { Send } from 'lucide-react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Team } from '@/types';
+import {
+  ApplicationAnswer,
+  MAX_ANSWER_LENGTH,
+  buildApplicationAnswers,
+  isApplicationComplete,
+} from '@/lib/applicationQuestions';
+
+interface ApplicationFormModalProps {
+  /** The team being applied to and its questions (null hides the modal) */
+  application: { team: Team; questions: string[] } | null;
+  onSubmit: (answers: ApplicationAnswer[]) => void;
+  onCancel: () => void;
+}
+
+export const ApplicationFormModal = ({ application, onSubmit, onCancel }: ApplicationFormModalProps) => {
+  const [answers, setAnswers] = useState<string[]>([]);
+  const questions = application?.questions || [];
+
+  useEffect(() => {
+    setAnswers([]);
+  }, [application]);
+
+  const setAnswer = (index: number, answer: string) => {
+    setAnswers(prev => {
+      const next = [...prev];
+      next[index] = answer;
+      return next;
+    });
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!isApplicationComplete(questions, answers)) return;
+    onSubmit(buildApplicationAnswers(questions, answers));
+  };
+
+  return (
+    <Dialog open={!!application} onOpenChange={(open) => !open && onCancel()}>
+      <DialogContent className="sm:max-w-md max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Apply to {application?.team.name}</DialogTitle>
+          <DialogDescription>
+            The team asks a few questions before you join. They'll see your answers with your request.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {questions.map((question, index) => (
+            <div key={question} className="space-y-2">
+              <Label htmlFor={`application-answer-${index}`}>{question}</Label>
+              <Textarea
+                id={`application-answer-${index}`}
+                value={answers[index] || ''}
+                onChange={(e) => setAnswer(index, e.target.value)}
+                maxLength={MAX_ANSWER_LENGTH}
+                rows={2}
+              />
+            </div>
+          ))}
+
+          <div className="flex gap-2 pt-2">
+            <Button type="button" variant="outline" onClick={onCancel} className="flex-1">
+              Cancel
+            </Button>
+            <Button type="submit" disabled={!isApplicationComplete(questions, answers)} className="flex-1">
+              <Send className="w-4 h-4 mr-2" />
+              Send Request
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,82 @@
+import { useState } from 'react';
+import { Plus, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { MAX_APPLICATION_QUESTIONS, MAX_QUESTION_LENGTH } from '@/lib/applicationQuestions';
+
+interface ApplicationQuestionsEditorProps {
+  value: string[];
+  onChange: (questions: string[]) => void;
+  disabled?: boolean;
+}
+
+export const ApplicationQuestionsEditor = ({ value, onChange, disabled = false }: ApplicationQuestionsEditorProps) => {
+  const [draft, setDraft] = useState('');
+
+  const canAdd = value.length < MAX_APPLICATION_QUESTIONS;
+
+  const addQuestion = () => {
+    const question = draft.trim();
+    if (!question || !canAdd || value.includes(question)) return;
+    onChange([...value, question]);
+    setDraft('');
+  };
+
+  const removeQuestion = (index: number) => {
+    onChange(value.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div className="space-y-2">
+      {value.map((question, index) => (
+        <div key={question} className="flex items-center gap-2 rounded-lg border border-border px-3 py-2">
+          <span className="flex-1 text-sm">{question}</span>
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            className="h-6 w-6 shrink-0"
+            onClick={() => removeQuestion(index)}
+            disabled={disabled}
+            aria-label={`Remove question "${question}"`}
+          >
+            <X className="w-3 h-3" />
+          </Button>
+        </div>
+      ))}
+
+      {canAdd && (
+        <div className="flex gap-2">
+          <Input
+            placeholder="e.g. Which idea excites you?"
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') {
+                e.preventDefault();
+                addQuestion();
+              }
+            }}
+            maxLength={MAX_QUESTION_LENGTH}
+            disabled={disabled}
+          />
+          <Button
+            type="button"
+            variant="outline"
+            size="icon"
+            className="shrink-0"
+            onClick={addQuestion}
+            disabled={disabled || !draft.trim()}
+            aria-label="Add question"
+          >
+            <Plus className="w-4 h-4" />
+          </Button>
+        </div>
+      )}
+
+      <p className="text-xs text-muted-foreground">
+        {value.length}/{MAX_APPLICATION_QUESTIONS} questions
+      </p>
+    </div>
+  );
+};
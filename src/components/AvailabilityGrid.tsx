@@ -0,0 +1,79 @@
+import { cn } from '@/lib/utils';
+import {
+  AVAILABILITY_DAYS,
+  AVAILABILITY_BLOCK_STARTS,
+  slotIndex,
+  formatBlockStart,
+  toggleSlots,
+} from '@/lib/availability';
+
+interface AvailabilityGridProps {
+  /** Selected slots */
+  value: number[];
+  /** Makes the grid editable; day and time labels toggle a whole row or column */
+  onChange?: (slots: number[]) => void;
+  /** Slots to emphasise; other selected slots are shown faded */
+  highlight?: number[];
+}
+
+const blocks = AVAILABILITY_BLOCK_STARTS.map((_, block) => block);
+const days = AVAILABILITY_DAYS.map((_, day) => day);
+
+export const AvailabilityGrid = ({ value, onChange, highlight }: AvailabilityGridProps) => {
+  const selected = new Set(value);
+  const emphasised = highlight ? new Set(highlight) : selected;
+  const editable = !!onChange;
+
+  const toggle = (group: number[]) => onChange?.(toggleSlots(value, group));
+
+  const label = 'text-[10px] font-medium text-muted-foreground';
+
+  return (
+    <div className="grid grid-cols-[auto_repeat(7,minmax(0,1fr))] gap-1 items-center select-none">
+      <span />
+      {blocks.map(block => (
+        <button
+          key={block}
+          type="button"
+          disabled={!editable}
+          onClick={() => toggle(days.map(day => slotIndex(day, block)))}
+          className={cn(label, 'text-center', editable && 'hover:text-foreground')}
+        >
+          {formatBlockStart(block)}
+        </button>
+      ))}
+
+      {days.map(day => (
+        <div key={day} className="contents">
+          <button
+            type="button"
+            disabled={!editable}
+            onClick={() => toggle(blocks.map(block => slotIndex(day, block)))}
+            className={cn(label, 'pr-1 text-left', editable && 'hover:text-foreground')}
+          >
+            {AVAILABILITY_DAYS[day]}
+          </button>
+          {blocks.map(block => {
+            const slot = slotIndex(day, block);
+            return (
+              <button
+                key={slot}
+                type="button"
+                disabled={!editable}
+                aria-pressed={selected.has(slot)}
+                aria-label={`${AVAILABILITY_DAYS[day]} ${formatBlockStart(block)}`}
+                onClick={() => toggle([slot])}
+                className={cn(
+                  'h-6 rounded-md transition-colors',
+                  !selected.has(slot) && 'bg-secondary',
+                  selected.has(slot) && (emphasised.has(slot) ? 'bg-primary' : 'bg-primary/25'),
+                  editable && !selected.has(slot) && 'hover:bg-secondary/60'
+                )}
+              />
+            );
+          })}
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,141 @@
+import { Columns3 } from 'lucide-react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea, ScrollBar } from '@/components/ui/scroll-area';
+import { programColors, studioInfo } from '@/data/mockData';
+import {
+  ComparisonCandidate,
+  answerFor,
+  comparisonQuestions,
+  describeComparisonSource,
+  markNeededSkills,
+} from '@/lib/comparison';
+
+interface CandidateComparisonModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  candidates: ComparisonCandidate[];
+  /** The team's needed skills, highlighted in each candidate's list */
+  skillsNeeded: string[];
+}
+
+export const CandidateComparisonModal = ({
+  open,
+  onOpenChange,
+  candidates,
+  skillsNeeded,
+}: CandidateComparisonModalProps) => {
+  const questions = comparisonQuestions(candidates);
+  const gridStyle = { gridTemplateColumns: `6rem repeat(${candidates.length}, minmax(10rem, 1fr))` };
+
+  // One labelled row with a cell per candidate
+  const renderRow = (label: string, cell: (candidate: ComparisonCandidate) => React.ReactNode) => (
+    <div className="grid gap-3 py-2 border-t border-border/50" style={gridStyle}>
+      <p className="text-xs font-medium text-muted-foreground">{label}</p>
+      {candidates.map(candidate => (
+        <div key={candidate.profile.id} className="min-w-0 text-sm">
+          {cell(candidate)}
+        </div>
+      ))}
+    </div>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Columns3 className="w-5 h-5" />
+            Compare Candidates
+          </DialogTitle>
+          <DialogDescription>
+            {skillsNeeded.length > 0
+              ? 'Skills your team needs are highlighted.'
+              : 'Add needed skills to your team to highlight them here.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <ScrollArea className="max-h-[70vh]">
+          <div className="min-w-max pr-4 pb-2">
+            <div className="grid gap-3 pb-2" style={gridStyle}>
+              <span />
+              {candidates.map(({ profile, source }) => (
+                <div key={profile.id} className="flex items-center gap-2 min-w-0">
+                  <Avatar className="w-9 h-9 shrink-0">
+                    <AvatarImage src={profile.avatar} alt={profile.name} />
+                    <AvatarFallback>{profile.name.charAt(0)}</AvatarFallback>
+                  </Avatar>
+                  <div className="min-w-0">
+                    <p className="font-medium text-foreground truncate">{profile.name}</p>
+                    <p className="text-xs text-muted-foreground">{describeComparisonSource(source)}</p>
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            {renderRow('Program', ({ profile }) => (
+              <span className={`px-2 py-0.5 rounded-full text-xs font-semibold ${programColors[profile.program]} text-primary-foreground`}>
+                {profile.program}
+              </span>
+            ))}
+
+            {renderRow('Skills', ({ profile }) => {
+              const fits = markNeededSkills(profile.skills, skillsNeeded);
+              const neededCount = fits.filter(f => f.needed).length;
+              return (
+                <div className="space-y-1">
+                  {skillsNeeded.length > 0 && (
+                    <p className="text-xs text-muted-foreground">
+                      {neededCount} of {skillsNeeded.length} needed
+                    </p>
+                  )}
+                  <div className="flex flex-wrap gap-1">
+                    {fits.map(({ skill, needed }) => (
+                      <Badge key={skill} variant={needed ? 'default' : 'secondary'} className="text-xs px-2 py-0.5">
+                        {skill}
+                      </Badge>
+                    ))}
+                  </div>
+                </div>
+              );
+            })}
+
+            {renderRow('Studios', ({ profile }) => (
+              <div className="flex flex-wrap gap-1">
+                {(profile.studioPreferences.length ? profile.studioPreferences : [profile.studioPreference]).map(studio => (
+                  <span
+                    key={studio}
+                    className={`px-2 py-0.5 rounded-full text-xs font-semibold ${studioInfo[studio].color} text-primary-foreground`}
+                  >
+                    {studioInfo[studio].name}
+                  </span>
+                ))}
+              </div>
+            ))}
+
+            {renderRow('Bio', ({ profile }) => (
+              <p className="text-xs text-muted-foreground whitespace-pre-wrap break-words">
+                {profile.bio || 'No bio yet'}
+              </p>
+            ))}
+
+            {questions.map(question => (
+              <div key={question}>
+                {renderRow(question, candidate => {
+                  const answer = answerFor(candidate, question);
+                  return answer ? (
+                    <p className="text-xs text-foreground whitespace-pre-wrap break-words">{answer}</p>
+                  ) : (
+                    <p className="text-xs text-muted-foreground/70 italic">Not asked</p>
+                  );
+                })}
+              </div>
+            ))}
+          </div>
+          <ScrollBar orientation="horizontal" />
+        </ScrollArea>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -6,8 +6,12 @@ import { Textarea } from '@/components/ui/textarea';
 import { Label } from '@/components/ui/label';
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
 import { Badge } from '@/components/ui/badge';
-import { Studio } from '@/types';
+import { Studio, ProgramNeeds } from '@/types';
 import { Users, Loader2, X } from 'lucide-react';
+import { ProgramNeedsEditor } from './ProgramNeedsEditor';
+import { ApplicationQuestionsEditor } from './ApplicationQuestionsEditor';
+import { SkillAutocomplete } from './SkillAutocomplete';
+import { useSkillTaxonomy } from '@/hooks/useSkillTaxonomy';
 
 interface CreateTeamModalProps {
   isOpen: boolean;
@@ -18,6 +22,8 @@ interface CreateTeamModalProps {
     studio: Studio;
     lookingFor: string;
     skillsNeeded: string[];
+    programNeeds: ProgramNeeds;
+    applicationQuestions: string[];
   }) => Promise<void>;
 }
 
@@ -27,20 +33,7 @@ const studioOptions: { value: Studio; label: string; description: string }[] = [
   { value: 'pitech', label: 'PiTech Studio', description: 'Tech for social good' },
 ];
 
-const skillOptions = [
-  'Full-Stack Development',
-  'Frontend Development',
-  'Backend Development',
-  'Machine Learning',
-  'Data Science',
-  'Product Management',
-  'UI/UX Design',
-  'Marketing',
-  'Finance',
-  'Operations',
-  'Sales',
-  'Business Development',
-];
+const SUGGESTED_SKILL_COUNT = 12;
 
 export const CreateTeamModal = ({ isOpen, onClose, onCreateTeam }: CreateTeamModalProps) => {
   const [name, setName] = useState('');
@@ -48,7 +41,14 @@ export const CreateTeamModal = ({ isOpen, onClose, onCreateTeam }: CreateTeamMod
   const [studio, setStudio] = useState<Studio>('startup');
   const [lookingFor, setLookingFor] = useState('');
   const [skillsNeeded, setSkillsNeeded] = useState<string[]>([]);
+  const [programNeeds, setProgramNeeds] = useState<ProgramNeeds>({});
+  const [applicationQuestions, setApplicationQuestions] = useState<string[]>([]);
   const [isCreating, setIsCreating] = useState(false);
+  const { skills } = useSkillTaxonomy();
+
+  // Chosen skills stay visible even when they aren't among the suggestions
+  const suggestedSkills = skills.slice(0, SUGGESTED_SKILL_COUNT).map(s => s.name);
+  const skillOptions = [...skillsNeeded.filter(s => !suggestedSkills.includes(s)), ...suggestedSkills];
 
   const getWordCount = (text: string) => {
     return text.trim().split(/\s+/).filter(word => word.length > 0).length;
@@ -77,6 +77,8 @@ export const CreateTeamModal = ({ isOpen, onClose, onCreateTeam }: CreateTeamMod
         studio,
         lookingFor: lookingFor.trim(),
         skillsNeeded,
+        programNeeds,
+        applicationQuestions,
       });
       // Reset form
       setName('');
@@ -84,6 +86,8 @@ export const CreateTeamModal = ({ isOpen, onClose, onCreateTeam }: CreateTeamMod
       setStudio('startup');
       setLookingFor('');
       setSkillsNeeded([]);
+      setProgramNeeds({});
+      setApplicationQuestions([]);
       onClose();
     } catch (error) {
       console.error('Error creating team:', error);
@@ -137,6 +141,14 @@ export const CreateTeamModal = ({ isOpen, onClose, onCreateTeam }: CreateTeamMod
             </div>
           </div>
 
+          <div className="space-y-2">
+            <Label>Programs Needed</Label>
+            <p className="text-xs text-muted-foreground">
+              How many teammates you need from each program. Counts go down as people join.
+            </p>
+            <ProgramNeedsEditor value={programNeeds} onChange={setProgramNeeds} />
+          </div>
+
           <div className="space-y-2">
             <Label htmlFor="looking-for">Looking For</Label>
             <Textarea
@@ -166,6 +178,19 @@ export const CreateTeamModal = ({ isOpen, onClose, onCreateTeam }: CreateTeamMod
                 </Badge>
               ))}
             </div>
+            <SkillAutocomplete
+              selected={skillsNeeded}
+              onAdd={(skill) => setSkillsNeeded(prev => [...prev, skill])}
+              placeholder="Search for another skill..."
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Application Questions</Label>
+            <p className="text-xs text-muted-foreground">
+              Short questions people answer when they ask to join.
+            </p>
+            <ApplicationQuestionsEditor value={applicationQuestions} onChange={setApplicationQuestions} />
           </div>
 
           <div className="space-y-3">
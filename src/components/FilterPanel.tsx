@@ -5,29 +5,8 @@ import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Program, Studio } from "@/types";
 import { studioInfo, programColors } from "@/data/mockData";
-
-const ALL_SKILLS = [
-  "Product Strategy",
-  "Marketing",
-  "Finance",
-  "Full-Stack Development",
-  "Machine Learning",
-  "Cloud Architecture",
-  "IP Law",
-  "Contract Negotiation",
-  "Regulatory Compliance",
-  "Data Science",
-  "Python",
-  "Statistical Analysis",
-  "Healthcare Operations",
-  "UX Research",
-  "Clinical Workflows",
-  "Product Management",
-  "Backend Development",
-  "Frontend Development",
-  "UI/UX Design",
-  "Business Development",
-];
+import { useSkillTaxonomy } from "@/hooks/useSkillTaxonomy";
+import { OVERLAP_FILTER_HOURS } from "@/lib/availability";
 
 const ALL_PROGRAMS: Program[] = ["MEng-CS", "MEng-DSDA", "MEng-ECE", "CM", "DesignTech", "HealthTech", "UrbanTech", "MBA", "LLM"];
 const ALL_STUDIOS: Studio[] = ["bigco", "startup", "pitech"];
@@ -36,6 +15,7 @@ export interface PeopleFilters {
   skills: string[];
   programs: Program[];
   studios: Studio[];
+  minOverlapHours: number | null; // null means no filter
 }
 
 export interface TeamFilters {
@@ -51,6 +31,8 @@ interface FilterPanelProps {
   teamFilters?: TeamFilters;
   onPeopleFiltersChange?: (filters: PeopleFilters) => void;
   onTeamFiltersChange?: (filters: TeamFilters) => void;
+  /** Whether the viewer (or their team) has a schedule to compare against */
+  hasSchedule?: boolean;
 }
 
 export const FilterPanel = ({
@@ -59,14 +41,17 @@ export const FilterPanel = ({
   teamFilters,
   onPeopleFiltersChange,
   onTeamFiltersChange,
+  hasSchedule = false,
 }: FilterPanelProps) => {
   const [isExpanded, setIsExpanded] = useState(false);
+  const { skills } = useSkillTaxonomy();
 
   const hasActiveFilters =
     type === "people"
       ? (peopleFilters?.skills.length || 0) > 0 ||
         (peopleFilters?.programs.length || 0) > 0 ||
-        (peopleFilters?.studios.length || 0) > 0
+        (peopleFilters?.studios.length || 0) > 0 ||
+        (peopleFilters?.minOverlapHours ?? null) !== null
       : (teamFilters?.skillsNeeded.length || 0) > 0 ||
         (teamFilters?.lookingFor.length || 0) > 0 ||
         (teamFilters?.studios.length || 0) > 0 ||
@@ -76,7 +61,8 @@ export const FilterPanel = ({
     type === "people"
       ? (peopleFilters?.skills.length || 0) +
         (peopleFilters?.programs.length || 0) +
-        (peopleFilters?.studios.length || 0)
+        (peopleFilters?.studios.length || 0) +
+        ((peopleFilters?.minOverlapHours ?? null) !== null ? 1 : 0)
       : (teamFilters?.skillsNeeded.length || 0) +
         (teamFilters?.lookingFor.length || 0) +
         (teamFilters?.studios.length || 0) +
@@ -84,7 +70,7 @@ export const FilterPanel = ({
 
   const clearAllFilters = () => {
     if (type === "people" && onPeopleFiltersChange) {
-      onPeopleFiltersChange({ skills: [], programs: [], studios: [] });
+      onPeopleFiltersChange({ skills: [], programs: [], studios: [], minOverlapHours: null });
     } else if (type === "teams" && onTeamFiltersChange) {
       onTeamFiltersChange({ skillsNeeded: [], lookingFor: [], studios: [], teamSize: null });
     }
@@ -132,6 +118,12 @@ export const FilterPanel = ({
     }
   };
 
+  const setMinOverlapHours = (hours: number | null) => {
+    if (type === "people" && peopleFilters && onPeopleFiltersChange) {
+      onPeopleFiltersChange({ ...peopleFilters, minOverlapHours: hours });
+    }
+  };
+
   const setTeamSize = (size: number | null) => {
     if (type === "teams" && teamFilters && onTeamFiltersChange) {
       onTeamFiltersChange({ ...teamFilters, teamSize: size });
@@ -182,7 +174,7 @@ export const FilterPanel = ({
                   {type === "people" ? "Skills" : "Skills Needed"}
                 </h4>
                 <div className="flex flex-wrap gap-1.5 max-h-24 overflow-y-auto">
-                  {ALL_SKILLS.slice(0, 12).map((skill) => {
+                  {skills.map(({ name: skill }) => {
                     const isSelected =
                       type === "people"
                         ? peopleFilters?.skills.includes(skill)
@@ -256,6 +248,36 @@ export const FilterPanel = ({
                 </div>
               </div>
 
+              {/* Schedule Overlap Filter (People only) */}
+              {type === "people" && (
+                <div>
+                  <h4 className="text-sm font-medium mb-2">Schedule Overlap</h4>
+                  {hasSchedule ? (
+                    <div className="flex flex-wrap gap-1.5">
+                      {[
+                        { label: "Any", value: null },
+                        ...OVERLAP_FILTER_HOURS.map((hours) => ({ label: `${hours}+ hrs/week`, value: hours })),
+                      ].map((option) => (
+                        <Badge
+                          key={option.label}
+                          variant={peopleFilters?.minOverlapHours === option.value ? "default" : "outline"}
+                          className={`cursor-pointer text-xs transition-all hover:scale-105 ${
+                            peopleFilters?.minOverlapHours !== option.value ? "hover:bg-orange-100 hover:border-orange-300 hover:text-orange-700" : ""
+                          }`}
+                          onClick={() => setMinOverlapHours(option.value)}
+                        >
+                          {option.label}
+                        </Badge>
+                      ))}
+                    </div>
+                  ) : (
+                    <p className="text-xs text-muted-foreground">
+                      Add your availability to your profile to filter by shared free time.
+                    </p>
+                  )}
+                </div>
+              )}
+
               {/* Team Size Filter (Teams only) */}
               {type === "teams" && (
                 <div>
@@ -0,0 +1,89 @@
+import { useState } from 'react';
+import { ThumbsUp, ThumbsDown, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { JoinRequestVote, JoinVote, tallyJoinVotes, describeJoinVoteTally } from '@/lib/joinVotes';
+
+interface JoinVotePanelProps {
+  votes: JoinRequestVote[];
+  quorum: number;
+  memberIds: string[];
+  currentUserId: string;
+  /** Display names for voters, keyed by user id */
+  voterNames?: Record<string, string>;
+  onVote: (vote: JoinVote, comment: string) => Promise<void>;
+}
+
+export const JoinVotePanel = ({
+  votes,
+  quorum,
+  memberIds,
+  currentUserId,
+  voterNames = {},
+  onVote,
+}: JoinVotePanelProps) => {
+  const myVote = votes.find(v => v.voterId === currentUserId);
+  const [comment, setComment] = useState(myVote?.comment || '');
+  const [submitting, setSubmitting] = useState<JoinVote | null>(null);
+
+  const tally = tallyJoinVotes(votes, quorum, memberIds);
+  const comments = votes.filter(v => v.comment);
+
+  const handleVote = async (vote: JoinVote) => {
+    setSubmitting(vote);
+    try {
+      await onVote(vote, comment.trim());
+    } finally {
+      setSubmitting(null);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <p className="text-xs text-muted-foreground">{describeJoinVoteTally(tally)}</p>
+
+      {comments.length > 0 && (
+        <ul className="space-y-1">
+          {comments.map(v => (
+            <li key={v.voterId} className="text-xs">
+              <span className={v.vote === 'approve' ? 'text-green-600' : 'text-destructive'}>
+                {voterNames[v.voterId] || 'Member'}:
+              </span>{' '}
+              <span className="text-muted-foreground">{v.comment}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex items-center gap-2">
+        <Input
+          value={comment}
+          onChange={e => setComment(e.target.value)}
+          placeholder="Comment (optional)"
+          maxLength={500}
+          className="h-8 text-xs"
+        />
+        <Button
+          size="sm"
+          variant={myVote?.vote === 'approve' ? 'default' : 'outline'}
+          onClick={() => handleVote('approve')}
+          disabled={!!submitting}
+          className="h-8 px-2"
+          aria-label="Approve"
+        >
+          {submitting === 'approve' ? <Loader2 className="w-4 h-4 animate-spin" /> : <ThumbsUp className="w-4 h-4" />}
+        </Button>
+        <Button
+          size="sm"
+          variant={myVote?.vote === 'reject' ? 'destructive' : 'outline'}
+          onClick={() => handleVote('reject')}
+          disabled={!!submitting}
+          className="h-8 px-2"
+          aria-label="Reject"
+        >
+          {submitting === 'reject' ? <Loader2 className="w-4 h-4 animate-spin" /> : <ThumbsDown className="w-4 h-4" />}
+        </Button>
+      </div>
+    </div>
+  );
+};
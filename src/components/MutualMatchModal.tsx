@@ -0,0 +1,52 @@
+import { motion } from 'framer-motion';
+import { Heart, MessageCircle } from 'lucide-react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { InitialsAvatar } from '@/components/InitialsAvatar';
+import { UserProfile } from '@/types';
+
+interface MutualMatchModalProps {
+  /** The person the viewer just matched with (null hides the modal) */
+  match: UserProfile | null;
+  viewerName: string;
+  viewerAvatar?: string;
+  onClose: () => void;
+  onOpenChat: () => void;
+}
+
+export const MutualMatchModal = ({ match, viewerName, viewerAvatar, onClose, onOpenChat }: MutualMatchModalProps) => {
+  return (
+    <Dialog open={!!match} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-sm text-center">
+        <DialogHeader className="items-center">
+          <DialogTitle className="text-3xl font-bold text-gradient">It's a match!</DialogTitle>
+          <DialogDescription>
+            You and {match?.name} both want to work together.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center justify-center gap-3 py-4">
+          <motion.div initial={{ x: -40, opacity: 0 }} animate={{ x: 0, opacity: 1 }} transition={{ type: 'spring', damping: 15 }}>
+            <InitialsAvatar name={viewerName} src={viewerAvatar} className="w-20 h-20 rounded-full text-2xl ring-4 ring-primary/30" />
+          </motion.div>
+          <motion.div initial={{ scale: 0 }} animate={{ scale: 1 }} transition={{ delay: 0.2, type: 'spring' }}>
+            <Heart className="w-8 h-8 text-primary fill-primary" />
+          </motion.div>
+          <motion.div initial={{ x: 40, opacity: 0 }} animate={{ x: 0, opacity: 1 }} transition={{ type: 'spring', damping: 15 }}>
+            <InitialsAvatar name={match?.name || ''} src={match?.avatar} className="w-20 h-20 rounded-full text-2xl ring-4 ring-primary/30" />
+          </motion.div>
+        </div>
+
+        <div className="flex flex-col gap-2">
+          <Button onClick={() => { onClose(); onOpenChat(); }}>
+            <MessageCircle className="w-4 h-4 mr-2" />
+            Send a message
+          </Button>
+          <Button variant="ghost" onClick={onClose}>
+            Keep swiping
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -2,7 +2,7 @@ import { useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { UserProfile, Program, Studio } from '@/types';
 import { studioInfo, programColors } from '@/data/mockData';
-import { X, Pencil, Save, Sparkles, Linkedin, Camera } from 'lucide-react';
+import { X, Pencil, Save, Sparkles, Linkedin, Camera, CalendarClock } from 'lucide-react';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -11,6 +11,9 @@ import { toast } from 'sonner';
 import { InitialsAvatar } from '@/components/InitialsAvatar';
 import { useAuth } from '@/contexts/AuthContext';
 import { uploadAvatar } from '@/lib/avatarUpload';
+import { SkillAutocomplete } from '@/components/SkillAutocomplete';
+import { AvailabilityGrid } from '@/components/AvailabilityGrid';
+import { SLOT_HOURS } from '@/lib/availability';
 
 interface MyProfileModalProps {
   profile: Omit<UserProfile, 'id'> | null;
@@ -41,7 +44,6 @@ export const MyProfileModal = ({ profile, isOpen, onClose, onSave }: MyProfileMo
   const { user } = useAuth();
   const [isEditing, setIsEditing] = useState(false);
   const [editedProfile, setEditedProfile] = useState<Omit<UserProfile, 'id'> | null>(profile);
-  const [newSkill, setNewSkill] = useState('');
 
   if (!profile) return null;
 
@@ -66,13 +68,12 @@ export const MyProfileModal = ({ profile, isOpen, onClose, onSave }: MyProfileMo
     setIsEditing(false);
   };
 
-  const handleAddSkill = () => {
-    if (newSkill.trim() && editedProfile && editedProfile.skills.length < 5) {
+  const handleAddSkill = (skill: string) => {
+    if (editedProfile && editedProfile.skills.length < 5) {
       setEditedProfile({
         ...editedProfile,
-        skills: [...editedProfile.skills, newSkill.trim()],
+        skills: [...editedProfile.skills, skill],
       });
-      setNewSkill('');
     }
   };
 
@@ -321,18 +322,36 @@ export const MyProfileModal = ({ profile, isOpen, onClose, onSave }: MyProfileMo
                       ))}
                     </div>
                     {isEditing && displayProfile.skills.length < 5 && (
-                      <div className="flex gap-2">
-                        <Input
-                          value={newSkill}
-                          onChange={(e) => setNewSkill(e.target.value)}
-                          placeholder="Add a skill"
-                          className="bg-secondary border-border"
-                          onKeyDown={(e) => e.key === 'Enter' && handleAddSkill()}
+                      <SkillAutocomplete
+                        selected={displayProfile.skills}
+                        onAdd={handleAddSkill}
+                        placeholder="Add a skill"
+                      />
+                    )}
+                  </div>
+
+                  {/* Availability */}
+                  <div className="space-y-3">
+                    <div className="flex items-center gap-2">
+                      <CalendarClock className="w-4 h-4 text-primary" />
+                      <h3 className="text-sm font-semibold text-muted-foreground uppercase tracking-wide">Availability</h3>
+                    </div>
+                    {isEditing || displayProfile.availability?.length ? (
+                      <>
+                        <AvailabilityGrid
+                          value={displayProfile.availability || []}
+                          onChange={isEditing
+                            ? (slots) => setEditedProfile(prev => prev ? { ...prev, availability: slots } : null)
+                            : undefined}
                         />
-                        <Button onClick={handleAddSkill} variant="secondary" size="sm">
-                          Add
-                        </Button>
-                      </div>
+                        <p className="text-xs text-muted-foreground">
+                          {isEditing
+                            ? 'Tap the times you can usually meet'
+                            : `Free ${(displayProfile.availability?.length || 0) * SLOT_HOURS} hours a week`}
+                        </p>
+                      </>
+                    ) : (
+                      <p className="text-muted-foreground text-sm">No availability added yet.</p>
                     )}
                   </div>
 
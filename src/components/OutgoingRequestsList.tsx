@@ -0,0 +1,141 @@
+import { useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { Loader2, Send, Undo2, Users } from 'lucide-react';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { useOutgoingRequests } from '@/hooks/useOutgoingRequests';
+import {
+  OutgoingRequest,
+  OutgoingRequestStatus,
+  countByStatus,
+  describeOutgoingStatus,
+} from '@/lib/outgoingRequests';
+
+interface OutgoingRequestsListProps {
+  /** Load only while visible */
+  enabled: boolean;
+}
+
+const statusVariants: Record<OutgoingRequestStatus, 'default' | 'secondary' | 'outline'> = {
+  pending: 'outline',
+  accepted: 'default',
+  rejected: 'secondary',
+  expired: 'secondary',
+};
+
+const FILTERS: Array<OutgoingRequestStatus | 'all'> = ['all', 'pending', 'accepted', 'rejected', 'expired'];
+
+const timeAgo = (date: string) => formatDistanceToNow(new Date(date), { addSuffix: true });
+
+export const OutgoingRequestsList = ({ enabled }: OutgoingRequestsListProps) => {
+  const { requests, loading, withdrawRequest } = useOutgoingRequests(enabled);
+  const [filter, setFilter] = useState<OutgoingRequestStatus | 'all'>('all');
+  const [withdrawingId, setWithdrawingId] = useState<string | null>(null);
+
+  const counts = countByStatus(requests);
+  const visible = filter === 'all' ? requests : requests.filter(r => r.status === filter);
+
+  const handleWithdraw = async (matchId: string) => {
+    setWithdrawingId(matchId);
+    try {
+      await withdrawRequest(matchId);
+    } finally {
+      setWithdrawingId(null);
+    }
+  };
+
+  const renderRequest = (request: OutgoingRequest) => (
+    <div
+      key={request.id}
+      className="flex items-center justify-between gap-2 p-3 rounded-lg bg-card/50 border border-border/50"
+    >
+      <div className="flex items-center gap-3 flex-1 min-w-0">
+        {request.toTeam ? (
+          <div className="w-10 h-10 rounded-full bg-primary/20 flex items-center justify-center shrink-0">
+            <Users className="w-5 h-5 text-primary" />
+          </div>
+        ) : (
+          <Avatar className="w-10 h-10 shrink-0">
+            <AvatarImage src={request.targetAvatar} alt={request.targetName} />
+            <AvatarFallback>{request.targetName.charAt(0)}</AvatarFallback>
+          </Avatar>
+        )}
+        <div className="min-w-0">
+          <p className="font-medium text-foreground truncate">{request.targetName}</p>
+          <p className="text-xs text-muted-foreground">
+            {request.sentByTeam ? `Sent by ${request.sentByTeam} ` : 'Sent '}
+            {timeAgo(request.sentAt)}
+          </p>
+          <div className="flex items-center gap-2 mt-1">
+            <Badge variant={statusVariants[request.status]} className="text-xs">
+              {describeOutgoingStatus(request.status)}
+            </Badge>
+            {request.respondedAt && (
+              <span className="text-xs text-muted-foreground">{timeAgo(request.respondedAt)}</span>
+            )}
+            {request.expiresAt && (
+              <span className="text-xs text-muted-foreground">Expires {timeAgo(request.expiresAt)}</span>
+            )}
+          </div>
+        </div>
+      </div>
+      {request.status === 'pending' && (
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => handleWithdraw(request.id)}
+          disabled={withdrawingId === request.id}
+          className="gap-1 shrink-0"
+        >
+          {withdrawingId === request.id ? (
+            <Loader2 className="w-3 h-3 animate-spin" />
+          ) : (
+            <Undo2 className="w-3 h-3" />
+          )}
+          Withdraw
+        </Button>
+      )}
+    </div>
+  );
+
+  if (loading && requests.length === 0) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="w-6 h-6 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (requests.length === 0) {
+    return (
+      <div className="flex flex-col items-center justify-center h-full text-center py-12">
+        <Send className="w-12 h-12 text-muted-foreground/50 mb-3" />
+        <p className="text-muted-foreground">No requests sent yet</p>
+        <p className="text-xs text-muted-foreground/70">
+          People and teams you like show up here with their status
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap gap-1">
+        {FILTERS.map(f => (
+          <Badge
+            key={f}
+            variant={filter === f ? 'default' : 'outline'}
+            className="cursor-pointer"
+            onClick={() => setFilter(f)}
+          >
+            {f === 'all' ? `All (${requests.length})` : `${describeOutgoingStatus(f)} (${counts[f]})`}
+          </Badge>
+        ))}
+      </div>
+      <div className="space-y-2">
+        {visible.map(renderRequest)}
+      </div>
+    </div>
+  );
+};
@@ -199,7 +199,7 @@ export const PrivacySettingsModal = ({ isOpen, onClose }: PrivacySettingsModalPr
                     <div className="flex-1">
                       <h4 className="font-medium">Export Your Data</h4>
                       <p className="text-sm text-muted-foreground mt-1">
-                        Download a copy of all your data including your profile, teams, matches, and messages.
+                        Download a copy of all your data including your profile, teams, matches, messages, and private notes.
                       </p>
                       <Button 
                         variant="outline" 
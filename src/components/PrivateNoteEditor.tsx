@@ -0,0 +1,59 @@
+import { useEffect, useState } from 'react';
+import { Loader2, Lock, StickyNote } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { MAX_PRIVATE_NOTE_LENGTH } from '@/lib/privateNotes';
+
+interface PrivateNoteEditorProps {
+  note?: string;
+  onSave: (note: string) => Promise<boolean>;
+}
+
+export const PrivateNoteEditor = ({ note = '', onSave }: PrivateNoteEditorProps) => {
+  const [draft, setDraft] = useState(note);
+  const [saving, setSaving] = useState(false);
+
+  // Follow the saved note when the modal switches to someone else
+  useEffect(() => {
+    setDraft(note);
+  }, [note]);
+
+  const isDirty = draft.trim() !== note;
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      await onSave(draft);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <StickyNote className="w-4 h-4 text-primary" />
+          <h3 className="text-sm font-semibold text-muted-foreground uppercase tracking-wide">Your Note</h3>
+        </div>
+        <span className="flex items-center gap-1 text-xs text-muted-foreground">
+          <Lock className="w-3 h-3" />
+          Only you can see this
+        </span>
+      </div>
+      <Textarea
+        value={draft}
+        onChange={e => setDraft(e.target.value)}
+        placeholder="Where you met, what stood out…"
+        maxLength={MAX_PRIVATE_NOTE_LENGTH}
+        rows={3}
+      />
+      {isDirty && (
+        <Button size="sm" className="w-full" onClick={handleSave} disabled={saving}>
+          {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+          {draft.trim() ? 'Save Note' : 'Remove Note'}
+        </Button>
+      )}
+    </div>
+  );
+};
@@ -1,16 +1,26 @@
 import { motion } from 'framer-motion';
 import { UserProfile } from '@/types';
+import { CompatibilityScore } from '@/lib/compatibility';
 import { programColors, studioInfo } from '@/data/mockData';
-import { Briefcase, GraduationCap, Sparkles } from 'lucide-react';
+import { Briefcase, GraduationCap, Sparkles, Lightbulb, History, ThumbsUp, StickyNote } from 'lucide-react';
 import { Badge } from '@/components/ui/badge';
 import { InitialsAvatar } from '@/components/InitialsAvatar';
+import { notePreview } from '@/lib/privateNotes';
 
 interface ProfileCardProps {
   profile: UserProfile;
+  /** Optional ranking breakdown shown as "why you're seeing this" */
+  compatibility?: CompatibilityScore;
+  /** What changed since the viewer passed (second-look deck) */
+  changeHighlights?: string[];
+  /** Teammates' likes so far (team deck) */
+  teamSupport?: string | null;
+  /** The viewer's private note, shown when this person resurfaces */
+  privateNote?: string;
   style?: React.CSSProperties;
 }
 
-export const ProfileCard = ({ profile, style }: ProfileCardProps) => {
+export const ProfileCard = ({ profile, compatibility, changeHighlights, teamSupport, privateNote, style }: ProfileCardProps) => {
   const studioPrefs = profile.studioPreferences || [profile.studioPreference];
   const primaryStudio = studioInfo[studioPrefs[0]];
 
@@ -64,6 +74,54 @@ export const ProfileCard = ({ profile, style }: ProfileCardProps) => {
             {profile.bio}
           </p>
 
+          {/* Changes since the viewer passed */}
+          {changeHighlights && changeHighlights.length > 0 && (
+            <div className="flex items-start gap-2 p-2 rounded-lg bg-amber-500/10 border border-amber-500/30">
+              <History className="w-3.5 h-3.5 text-amber-500 mt-0.5 shrink-0" />
+              <div className="min-w-0">
+                <p className="text-xs font-semibold text-foreground">Since you passed</p>
+                <p className="text-xs text-muted-foreground line-clamp-2">
+                  {changeHighlights.join(' · ')}
+                </p>
+              </div>
+            </div>
+          )}
+
+          {/* The viewer's own note */}
+          {privateNote && (
+            <div className="flex items-start gap-2 p-2 rounded-lg bg-secondary/60 border border-border/50">
+              <StickyNote className="w-3.5 h-3.5 text-primary mt-0.5 shrink-0" />
+              <p className="text-xs text-muted-foreground line-clamp-2">
+                <span className="font-semibold text-foreground">Your note: </span>
+                {notePreview(privateNote)}
+              </p>
+            </div>
+          )}
+
+          {/* Partial support from teammates */}
+          {teamSupport && (
+            <div className="flex items-start gap-2 p-2 rounded-lg bg-green-500/10 border border-green-500/30">
+              <ThumbsUp className="w-3.5 h-3.5 text-green-500 mt-0.5 shrink-0" />
+              <p className="text-xs text-muted-foreground line-clamp-2">{teamSupport}</p>
+            </div>
+          )}
+
+          {/* Why you're seeing this */}
+          {compatibility && compatibility.reasons.length > 0 && (
+            <div className="flex items-start gap-2 p-2 rounded-lg bg-primary/10 border border-primary/20">
+              <Lightbulb className="w-3.5 h-3.5 text-primary mt-0.5 shrink-0" />
+              <div className="min-w-0">
+                <p className="text-xs font-semibold text-foreground">
+                  Why you're seeing this
+                  <span className="ml-1.5 font-normal text-muted-foreground">{compatibility.total}% match</span>
+                </p>
+                <p className="text-xs text-muted-foreground line-clamp-2">
+                  {compatibility.reasons.slice(0, 2).join(' · ')}
+                </p>
+              </div>
+            </div>
+          )}
+
           {/* Skills */}
           <div className="space-y-1.5">
             <div className="flex items-center gap-2 text-xs text-muted-foreground">
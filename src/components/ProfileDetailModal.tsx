@@ -2,10 +2,13 @@ import { forwardRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { UserProfile } from '@/types';
 import { programColors, studioInfo } from '@/data/mockData';
-import { X, Sparkles, MapPin, Linkedin, GraduationCap } from 'lucide-react';
+import { X, Sparkles, MapPin, Linkedin, GraduationCap, Bookmark, ListPlus, ListChecks, CalendarClock } from 'lucide-react';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { InitialsAvatar } from '@/components/InitialsAvatar';
+import { PrivateNoteEditor } from '@/components/PrivateNoteEditor';
+import { AvailabilityGrid } from '@/components/AvailabilityGrid';
+import { ScheduleOverlap, describeOverlap } from '@/lib/availability';
 
 interface ProfileDetailModalProps {
   profile: UserProfile | null;
@@ -13,11 +16,22 @@ interface ProfileDetailModalProps {
   onClose: () => void;
   onLike?: () => void;
   onPass?: () => void;
+  /** Save for later instead of deciding now */
+  onSave?: () => void;
   showActions?: boolean;
+  /** Add to the viewer's team shortlist; omitted when not in a team */
+  onShortlist?: () => void;
+  isShortlisted?: boolean;
+  /** The viewer's private note on this person */
+  privateNote?: string;
+  onSavePrivateNote?: (note: string) => Promise<boolean>;
+  /** Free time shared with the viewer (or the viewer's whole team); null when either has no schedule */
+  scheduleOverlap?: ScheduleOverlap | null;
+  overlapWithTeam?: boolean;
 }
 
 export const ProfileDetailModal = forwardRef<HTMLDivElement, ProfileDetailModalProps>(
-  ({ profile, isOpen, onClose, onLike, onPass, showActions = true }, ref) => {
+  ({ profile, isOpen, onClose, onLike, onPass, onSave, showActions = true, onShortlist, isShortlisted = false, privateNote, onSavePrivateNote, scheduleOverlap, overlapWithTeam = false }, ref) => {
   if (!profile) return null;
 
   const studioPrefs = profile.studioPreferences || [profile.studioPreference];
@@ -139,6 +153,36 @@ export const ProfileDetailModal = forwardRef<HTMLDivElement, ProfileDetailModalP
                     </div>
                   </div>
 
+                  {/* Schedule overlap */}
+                  {scheduleOverlap && (
+                    <div className="space-y-3">
+                      <div className="flex items-center gap-2">
+                        <CalendarClock className="w-4 h-4 text-primary" />
+                        <h3 className="text-sm font-semibold text-muted-foreground uppercase tracking-wide">Schedule Overlap</h3>
+                      </div>
+                      <p className="text-sm text-foreground">{describeOverlap(scheduleOverlap, overlapWithTeam)}</p>
+                      <AvailabilityGrid value={profile.availability || []} highlight={scheduleOverlap.slots} />
+                    </div>
+                  )}
+
+                  {/* Private note */}
+                  {onSavePrivateNote && (
+                    <PrivateNoteEditor note={privateNote} onSave={onSavePrivateNote} />
+                  )}
+
+                  {/* Team shortlist */}
+                  {onShortlist && (
+                    <Button
+                      variant="outline"
+                      className="w-full gap-2"
+                      onClick={onShortlist}
+                      disabled={isShortlisted}
+                    >
+                      {isShortlisted ? <ListChecks className="w-4 h-4" /> : <ListPlus className="w-4 h-4" />}
+                      {isShortlisted ? 'On your team shortlist' : 'Add to team shortlist'}
+                    </Button>
+                  )}
+
                   {/* LinkedIn */}
                   {profile.linkedIn && (
                     <a
@@ -166,6 +210,16 @@ export const ProfileDetailModal = forwardRef<HTMLDivElement, ProfileDetailModalP
                     <X className="w-5 h-5 mr-2" />
                     Pass
                   </Button>
+                  {onSave && (
+                    <Button
+                      variant="outline"
+                      size="lg"
+                      onClick={() => { onSave(); onClose(); }}
+                      aria-label="Save for later"
+                    >
+                      <Bookmark className="w-5 h-5" />
+                    </Button>
+                  )}
                   <Button
                     size="lg"
                     onClick={() => { onLike(); onClose(); }}
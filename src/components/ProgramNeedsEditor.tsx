@@ -0,0 +1,70 @@
+import { Minus, Plus } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Program, ProgramNeeds } from '@/types';
+import { programColors } from '@/data/mockData';
+import { MAX_PROGRAM_NEED } from '@/lib/programNeeds';
+import { cn } from '@/lib/utils';
+
+interface ProgramNeedsEditorProps {
+  value: ProgramNeeds;
+  onChange: (needs: ProgramNeeds) => void;
+  disabled?: boolean;
+}
+
+const ALL_PROGRAMS = Object.keys(programColors) as Program[];
+
+export const ProgramNeedsEditor = ({ value, onChange, disabled = false }: ProgramNeedsEditorProps) => {
+  const setCount = (program: Program, count: number) => {
+    const next = { ...value };
+    if (count > 0) {
+      next[program] = Math.min(count, MAX_PROGRAM_NEED);
+    } else {
+      delete next[program];
+    }
+    onChange(next);
+  };
+
+  return (
+    <div className="grid grid-cols-2 gap-2">
+      {ALL_PROGRAMS.map((program) => {
+        const count = value[program] || 0;
+        return (
+          <div
+            key={program}
+            className={cn(
+              "flex items-center justify-between rounded-lg border px-2 py-1",
+              count > 0 ? "border-primary/40 bg-primary/5" : "border-border"
+            )}
+          >
+            <span className="text-sm truncate">{program}</span>
+            <div className="flex items-center gap-1">
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6"
+                onClick={() => setCount(program, count - 1)}
+                disabled={disabled || count === 0}
+                aria-label={`Need one fewer ${program}`}
+              >
+                <Minus className="w-3 h-3" />
+              </Button>
+              <span className="w-4 text-center text-sm font-medium">{count}</span>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6"
+                onClick={() => setCount(program, count + 1)}
+                disabled={disabled || count >= MAX_PROGRAM_NEED}
+                aria-label={`Need one more ${program}`}
+              >
+                <Plus className="w-3 h-3" />
+              </Button>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
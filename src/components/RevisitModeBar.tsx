@@ -0,0 +1,41 @@
+import { History } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { REVISIT_COOLDOWN_OPTIONS } from '@/lib/revisit';
+
+interface RevisitModeBarProps {
+  enabled: boolean;
+  onToggle: () => void;
+  cooldownDays: number;
+  onCooldownChange: (days: number) => void;
+}
+
+export const RevisitModeBar = ({ enabled, onToggle, cooldownDays, onCooldownChange }: RevisitModeBarProps) => {
+  return (
+    <div className="flex items-center justify-center gap-2 mb-4 max-w-sm mx-auto">
+      <Button
+        variant={enabled ? 'default' : 'outline'}
+        size="sm"
+        onClick={onToggle}
+        className="gap-2"
+      >
+        <History className="w-4 h-4" />
+        {enabled ? 'Back to discover' : 'Revisit passed'}
+      </Button>
+      {enabled && (
+        <Select value={String(cooldownDays)} onValueChange={value => onCooldownChange(Number(value))}>
+          <SelectTrigger className="h-9 w-40 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {REVISIT_COOLDOWN_OPTIONS.map(option => (
+              <SelectItem key={option.days} value={String(option.days)}>
+                Passed over {option.label} ago
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,144 @@
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Heart, X, Bookmark, Users, User } from 'lucide-react';
+import { UserProfile, Team } from '@/types';
+import { studioInfo } from '@/data/mockData';
+
+interface SavedItemsModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  profiles: UserProfile[];
+  teams: Team[];
+  onProfileDecision: (profile: UserProfile, direction: 'left' | 'right') => void;
+  onTeamDecision: (team: Team, direction: 'left' | 'right') => void;
+  onProfileTap: (profile: UserProfile) => void;
+  onTeamTap: (team: Team) => void;
+  activeTabContext: 'individuals' | 'teams';
+}
+
+export const SavedItemsModal = ({
+  open,
+  onOpenChange,
+  profiles,
+  teams,
+  onProfileDecision,
+  onTeamDecision,
+  onProfileTap,
+  onTeamTap,
+  activeTabContext,
+}: SavedItemsModalProps) => {
+  const renderDecisionButtons = (onDecide: (direction: 'left' | 'right') => void) => (
+    <div className="flex gap-2 shrink-0">
+      <Button variant="outline" size="icon" onClick={() => onDecide('left')} aria-label="Pass">
+        <X className="w-4 h-4" />
+      </Button>
+      <Button size="icon" onClick={() => onDecide('right')} aria-label="Like">
+        <Heart className="w-4 h-4" />
+      </Button>
+    </div>
+  );
+
+  const renderEmpty = (Icon: typeof User) => (
+    <div className="flex flex-col items-center justify-center h-full text-center py-12">
+      <Icon className="w-12 h-12 text-muted-foreground/50 mb-3" />
+      <p className="text-muted-foreground">Nothing saved yet</p>
+      <p className="text-xs text-muted-foreground/70">
+        Swipe up on a card to decide later
+      </p>
+    </div>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Bookmark className="w-5 h-5" />
+            Saved
+          </DialogTitle>
+        </DialogHeader>
+
+        <Tabs defaultValue={activeTabContext === 'individuals' ? 'people' : 'teams'}>
+          <TabsList className="grid w-full grid-cols-2">
+            <TabsTrigger value="people" className="gap-2">
+              <User className="w-4 h-4" />
+              People ({profiles.length})
+            </TabsTrigger>
+            <TabsTrigger value="teams" className="gap-2">
+              <Users className="w-4 h-4" />
+              Teams ({teams.length})
+            </TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="people" className="mt-4">
+            <ScrollArea className="h-[400px] pr-4">
+              {profiles.length > 0 ? (
+                <div className="space-y-2">
+                  {profiles.map(profile => (
+                    <div
+                      key={profile.id}
+                      className="flex items-center justify-between gap-3 p-3 rounded-lg bg-card/50 border border-border/50"
+                    >
+                      <button
+                        className="flex items-center gap-3 flex-1 min-w-0 text-left"
+                        onClick={() => onProfileTap(profile)}
+                      >
+                        <Avatar className="w-12 h-12">
+                          <AvatarImage src={profile.avatar} alt={profile.name} />
+                          <AvatarFallback>{profile.name.charAt(0)}</AvatarFallback>
+                        </Avatar>
+                        <div className="min-w-0">
+                          <p className="font-medium text-foreground truncate">{profile.name}</p>
+                          <p className="text-xs text-muted-foreground">{profile.program}</p>
+                        </div>
+                      </button>
+                      {renderDecisionButtons(direction => onProfileDecision(profile, direction))}
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                renderEmpty(User)
+              )}
+            </ScrollArea>
+          </TabsContent>
+
+          <TabsContent value="teams" className="mt-4">
+            <ScrollArea className="h-[400px] pr-4">
+              {teams.length > 0 ? (
+                <div className="space-y-2">
+                  {teams.map(team => (
+                    <div
+                      key={team.id}
+                      className="flex items-center justify-between gap-3 p-3 rounded-lg bg-card/50 border border-border/50"
+                    >
+                      <button
+                        className="flex items-center gap-3 flex-1 min-w-0 text-left"
+                        onClick={() => onTeamTap(team)}
+                      >
+                        <div className="w-12 h-12 rounded-full bg-primary/20 flex items-center justify-center shrink-0">
+                          <Users className="w-6 h-6 text-primary" />
+                        </div>
+                        <div className="min-w-0">
+                          <p className="font-medium text-foreground truncate">{team.name}</p>
+                          <p className="text-xs text-muted-foreground">
+                            {studioInfo[team.studio]?.name || team.studio} · {team.members.length} members
+                          </p>
+                        </div>
+                      </button>
+                      {renderDecisionButtons(direction => onTeamDecision(team, direction))}
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                renderEmpty(Users)
+              )}
+            </ScrollArea>
+          </TabsContent>
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  );
+};
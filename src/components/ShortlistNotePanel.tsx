@@ -0,0 +1,89 @@
+import { useState } from 'react';
+import { Star, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { MAX_SHORTLIST_NOTE_LENGTH, ShortlistNote } from '@/lib/shortlist';
+
+interface ShortlistNotePanelProps {
+  notes: ShortlistNote[];
+  currentUserId: string;
+  onSave: (rating: number | null, note: string) => Promise<boolean>;
+}
+
+const Stars = ({ rating, onChange }: { rating: number | null; onChange?: (rating: number | null) => void }) => (
+  <div className="flex items-center">
+    {[1, 2, 3, 4, 5].map(n => (
+      <button
+        key={n}
+        type="button"
+        disabled={!onChange}
+        // Clicking the current rating clears it
+        onClick={() => onChange?.(rating === n ? null : n)}
+        className="p-0.5 disabled:cursor-default"
+        aria-label={`${n} ${n === 1 ? 'star' : 'stars'}`}
+      >
+        <Star
+          className={`w-3.5 h-3.5 ${rating !== null && n <= rating ? 'fill-amber-400 text-amber-400' : 'text-muted-foreground/40'}`}
+        />
+      </button>
+    ))}
+  </div>
+);
+
+export const ShortlistNotePanel = ({ notes, currentUserId, onSave }: ShortlistNotePanelProps) => {
+  const myNote = notes.find(n => n.authorId === currentUserId);
+  const [rating, setRating] = useState<number | null>(myNote?.rating ?? null);
+  const [note, setNote] = useState(myNote?.note ?? '');
+  const [saving, setSaving] = useState(false);
+
+  const others = notes.filter(n => n.authorId !== currentUserId);
+  const isDirty = rating !== (myNote?.rating ?? null) || note.trim() !== (myNote?.note ?? '');
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      await onSave(rating, note);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      {others.length > 0 && (
+        <ul className="space-y-1">
+          {others.map(n => (
+            <li key={n.authorId} className="text-xs">
+              <div className="flex items-center gap-2">
+                <span className="font-medium text-foreground">{n.authorName}</span>
+                {n.rating !== null && <Stars rating={n.rating} />}
+              </div>
+              {n.note && <p className="text-muted-foreground">{n.note}</p>}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="space-y-1">
+        <div className="flex items-center justify-between">
+          <span className="text-xs text-muted-foreground">Your rating</span>
+          <Stars rating={rating} onChange={setRating} />
+        </div>
+        <Textarea
+          value={note}
+          onChange={e => setNote(e.target.value)}
+          placeholder="Private note for your team"
+          maxLength={MAX_SHORTLIST_NOTE_LENGTH}
+          rows={2}
+          className="text-sm"
+        />
+        {isDirty && (
+          <Button size="sm" className="w-full" onClick={handleSave} disabled={saving}>
+            {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Save Note
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,115 @@
+import { useState } from 'react';
+import { Plus } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { useSkillTaxonomy } from '@/hooks/useSkillTaxonomy';
+import { canonicalizeSkill, searchSkills } from '@/lib/skills';
+import { cn } from '@/lib/utils';
+
+interface SkillAutocompleteProps {
+  /** Skills already chosen (hidden from suggestions) */
+  selected: string[];
+  /** Called with the canonical name when a skill is picked or typed */
+  onAdd: (skill: string) => void;
+  disabled?: boolean;
+  placeholder?: string;
+  className?: string;
+}
+
+export const SkillAutocomplete = ({
+  selected,
+  onAdd,
+  disabled = false,
+  placeholder = 'Add a skill...',
+  className,
+}: SkillAutocompleteProps) => {
+  const { skills, skillIndex } = useSkillTaxonomy();
+  const [query, setQuery] = useState('');
+  const [highlighted, setHighlighted] = useState(0);
+  const [isFocused, setIsFocused] = useState(false);
+
+  const selectedLower = new Set(selected.map(s => s.toLowerCase()));
+  const suggestions = searchSkills(query, skills).filter(s => !selectedLower.has(s.name.toLowerCase()));
+  const showSuggestions = isFocused && suggestions.length > 0;
+
+  const add = (raw: string) => {
+    const skill = canonicalizeSkill(raw, skillIndex);
+    if (!skill || selectedLower.has(skill.toLowerCase())) return;
+    onAdd(skill);
+    setQuery('');
+    setHighlighted(0);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown' && showSuggestions) {
+      e.preventDefault();
+      setHighlighted(i => Math.min(i + 1, suggestions.length - 1));
+    } else if (e.key === 'ArrowUp' && showSuggestions) {
+      e.preventDefault();
+      setHighlighted(i => Math.max(i - 1, 0));
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      add(showSuggestions ? suggestions[highlighted].name : query);
+    } else if (e.key === 'Escape') {
+      setQuery('');
+    }
+  };
+
+  return (
+    <div className={cn('relative flex gap-2', className)}>
+      <div className="relative flex-1">
+        <Input
+          type="text"
+          value={query}
+          onChange={(e) => {
+            setQuery(e.target.value);
+            setHighlighted(0);
+          }}
+          onKeyDown={handleKeyDown}
+          onFocus={() => setIsFocused(true)}
+          onBlur={() => setIsFocused(false)}
+          placeholder={placeholder}
+          disabled={disabled}
+          role="combobox"
+          aria-expanded={showSuggestions}
+          aria-autocomplete="list"
+        />
+        {showSuggestions && (
+          <ul
+            role="listbox"
+            className="absolute z-50 mt-1 w-full rounded-md border border-border bg-popover py-1 shadow-md"
+          >
+            {suggestions.map((skill, i) => (
+              <li
+                key={skill.id}
+                role="option"
+                aria-selected={i === highlighted}
+                className={cn(
+                  'flex items-center justify-between px-3 py-1.5 text-sm cursor-pointer',
+                  i === highlighted && 'bg-accent'
+                )}
+                // Keep focus in the input so the list stays open through the click
+                onMouseDown={(e) => e.preventDefault()}
+                onMouseEnter={() => setHighlighted(i)}
+                onClick={() => add(skill.name)}
+              >
+                <span>{skill.name}</span>
+                <span className="text-xs text-muted-foreground">{skill.category}</span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+      <Button
+        type="button"
+        variant="outline"
+        size="icon"
+        onClick={() => add(query)}
+        disabled={disabled || !query.trim()}
+        aria-label="Add skill"
+      >
+        <Plus className="w-4 h-4" />
+      </Button>
+    </div>
+  );
+};
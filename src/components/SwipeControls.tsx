@@ -1,16 +1,17 @@
 import { motion } from 'framer-motion';
-import { X, Heart, RotateCcw } from 'lucide-react';
+import { X, Heart, Bookmark, RotateCcw } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 
 interface SwipeControlsProps {
   onSwipeLeft: () => void;
   onSwipeRight: () => void;
+  onSave?: () => void;
   onUndo?: () => void;
   canUndo?: boolean;
   isLastCard?: boolean;
 }
 
-export const SwipeControls = ({ onSwipeLeft, onSwipeRight, onUndo, canUndo, isLastCard }: SwipeControlsProps) => {
+export const SwipeControls = ({ onSwipeLeft, onSwipeRight, onSave, onUndo, canUndo, isLastCard }: SwipeControlsProps) => {
   return (
     <motion.div
       className="flex items-center justify-center gap-8 py-4"
@@ -36,6 +37,18 @@ export const SwipeControls = ({ onSwipeLeft, onSwipeRight, onUndo, canUndo, isLa
         <X className="w-7 h-7 text-muted-foreground" />
       </Button>
 
+      {onSave && (
+        <Button
+          variant="glass"
+          size="icon"
+          onClick={onSave}
+          className="w-12 h-12 rounded-full"
+          aria-label="Save for later"
+        >
+          <Bookmark className="w-5 h-5 text-amber-500" />
+        </Button>
+      )}
+
       <Button
         variant="swipe-like"
         onClick={onSwipeRight}
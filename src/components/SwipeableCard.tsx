@@ -1,25 +1,36 @@
 import { motion, useMotionValue, useTransform, PanInfo, animate } from 'framer-motion';
-import { UserProfile } from '@/types';
+import { UserProfile, SwipeDirection } from '@/types';
+import { CompatibilityScore } from '@/lib/compatibility';
 import { ProfileCard } from './ProfileCard';
 
 interface SwipeableCardProps {
   profile: UserProfile;
-  onSwipe: (direction: 'left' | 'right') => void;
+  compatibility?: CompatibilityScore;
+  changeHighlights?: string[];
+  teamSupport?: string | null;
+  privateNote?: string;
+  onSwipe: (direction: SwipeDirection) => void;
   onTap: () => void;
   isTop: boolean;
 }
 
-export const SwipeableCard = ({ profile, onSwipe, onTap, isTop }: SwipeableCardProps) => {
+export const SwipeableCard = ({ profile, compatibility, changeHighlights, teamSupport, privateNote, onSwipe, onTap, isTop }: SwipeableCardProps) => {
   const x = useMotionValue(0);
+  const y = useMotionValue(0);
   const rotate = useTransform(x, [-200, 200], [-15, 15]);
   
   const likeOpacity = useTransform(x, [0, 100], [0, 1]);
   const nopeOpacity = useTransform(x, [-100, 0], [1, 0]);
+  const saveOpacity = useTransform(y, [-100, 0], [1, 0]);
 
   const handleDragEnd = (_event: MouseEvent | TouchEvent | PointerEvent, info: PanInfo) => {
     const threshold = 120;
     
-    if (info.offset.x > threshold) {
+    // Mostly-vertical upward drag saves the card for later
+    if (info.offset.y < -threshold && Math.abs(info.offset.y) > Math.abs(info.offset.x)) {
+      animate(y, -600, { duration: 0.3 });
+      setTimeout(() => onSwipe('up'), 300);
+    } else if (info.offset.x > threshold) {
       animate(x, 500, { duration: 0.3 });
       setTimeout(() => onSwipe('right'), 300);
     } else if (info.offset.x < -threshold) {
@@ -27,6 +38,7 @@ export const SwipeableCard = ({ profile, onSwipe, onTap, isTop }: SwipeableCardP
       setTimeout(() => onSwipe('left'), 300);
     } else {
       animate(x, 0, { type: 'spring', stiffness: 500, damping: 30 });
+      animate(y, 0, { type: 'spring', stiffness: 500, damping: 30 });
     }
   };
 
@@ -37,7 +49,7 @@ export const SwipeableCard = ({ profile, onSwipe, onTap, isTop }: SwipeableCardP
         initial={{ scale: 0.95, y: 10 }}
         animate={{ scale: 0.95, y: 10 }}
       >
-        <ProfileCard profile={profile} />
+        <ProfileCard profile={profile} compatibility={compatibility} changeHighlights={changeHighlights} teamSupport={teamSupport} privateNote={privateNote} />
       </motion.div>
     );
   }
@@ -45,22 +57,22 @@ export const SwipeableCard = ({ profile, onSwipe, onTap, isTop }: SwipeableCardP
   return (
     <motion.div
       className="absolute w-full max-w-sm mx-auto cursor-grab active:cursor-grabbing z-10"
-      style={{ x, rotate }}
-      drag="x"
-      dragConstraints={{ left: 0, right: 0 }}
+      style={{ x, y, rotate }}
+      drag
+      dragConstraints={{ left: 0, right: 0, top: 0, bottom: 0 }}
       dragElastic={0.9}
       onDragEnd={handleDragEnd}
       whileTap={{ cursor: 'grabbing' }}
-      initial={{ scale: 1, y: 0 }}
-      animate={{ scale: 1, y: 0 }}
+      initial={{ scale: 1 }}
+      animate={{ scale: 1 }}
       exit={{ 
-        x: x.get() > 0 ? 500 : -500,
+        ...(y.get() < -50 ? { y: -600 } : { x: x.get() > 0 ? 500 : -500 }),
         opacity: 0,
         transition: { duration: 0.3 }
       }}
       onTap={(e) => {
         // Only trigger tap if not dragging
-        if (Math.abs(x.get()) < 10) {
+        if (Math.abs(x.get()) < 10 && Math.abs(y.get()) < 10) {
           onTap();
         }
       }}
@@ -81,7 +93,15 @@ export const SwipeableCard = ({ profile, onSwipe, onTap, isTop }: SwipeableCardP
         PASS
       </motion.div>
 
-      <ProfileCard profile={profile} />
+      {/* Save indicator */}
+      <motion.div
+        className="absolute bottom-24 left-1/2 -translate-x-1/2 z-20 px-4 py-2 rounded-lg border-4 border-amber-500 bg-amber-500/20 text-amber-500 font-bold text-2xl"
+        style={{ opacity: saveOpacity }}
+      >
+        SAVE
+      </motion.div>
+
+      <ProfileCard profile={profile} compatibility={compatibility} changeHighlights={changeHighlights} teamSupport={teamSupport} privateNote={privateNote} />
     </motion.div>
   );
 };
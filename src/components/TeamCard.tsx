@@ -1,15 +1,18 @@
 import { motion } from 'framer-motion';
 import { Team } from '@/types';
 import { programColors, studioInfo } from '@/data/mockData';
-import { Users, Target, Sparkles } from 'lucide-react';
+import { Users, Target, Sparkles, StickyNote } from 'lucide-react';
 import { Badge } from '@/components/ui/badge';
 import { Avatar, AvatarImage, AvatarFallback } from '@/components/ui/avatar';
+import { notePreview } from '@/lib/privateNotes';
 
 interface TeamCardProps {
   team: Team;
+  /** The viewer's private note, shown when this team resurfaces */
+  privateNote?: string;
 }
 
-export const TeamCard = ({ team }: TeamCardProps) => {
+export const TeamCard = ({ team, privateNote }: TeamCardProps) => {
   const studioData = studioInfo[team.studio];
 
   return (
@@ -63,6 +66,17 @@ export const TeamCard = ({ team }: TeamCardProps) => {
             {team.description}
           </p>
 
+          {/* The viewer's own note */}
+          {privateNote && (
+            <div className="flex items-start gap-2 p-2 rounded-lg bg-secondary/60 border border-border/50 flex-shrink-0">
+              <StickyNote className="w-4 h-4 text-primary mt-0.5 shrink-0" />
+              <p className="text-sm text-muted-foreground line-clamp-2">
+                <span className="font-semibold text-foreground">Your note: </span>
+                {notePreview(privateNote)}
+              </p>
+            </div>
+          )}
+
           {/* Looking For */}
           <div className="space-y-2 flex-shrink-0">
             <div className="flex items-center gap-2 text-sm text-muted-foreground">
@@ -75,7 +89,7 @@ export const TeamCard = ({ team }: TeamCardProps) => {
                   key={program}
                   className={`px-3 py-1 rounded-full text-sm font-semibold ${programColors[program]} text-primary-foreground`}
                 >
-                  {program}
+                  {(team.programNeeds[program] || 0) > 1 ? `${team.programNeeds[program]} × ${program}` : program}
                 </span>
               ))}
             </div>
@@ -2,11 +2,12 @@ import { useState, forwardRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { Team, UserProfile } from '@/types';
 import { programColors, studioInfo } from '@/data/mockData';
-import { X, Users, Target, Sparkles, Building2, Rocket, Heart } from 'lucide-react';
+import { X, Users, Target, Sparkles, Building2, Rocket, Heart, Merge, Bookmark } from 'lucide-react';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Avatar, AvatarImage, AvatarFallback } from '@/components/ui/avatar';
 import { MemberProfileModal } from '@/components/MemberProfileModal';
+import { PrivateNoteEditor } from '@/components/PrivateNoteEditor';
 
 interface TeamDetailModalProps {
   team: Team | null;
@@ -14,6 +15,13 @@ interface TeamDetailModalProps {
   onClose: () => void;
   onJoin: () => void;
   onPass: () => void;
+  /** Save for later instead of deciding now */
+  onSave?: () => void;
+  /** Viewer's own small team can propose a merge instead of joining */
+  canMerge?: boolean;
+  /** The viewer's private note on this team */
+  privateNote?: string;
+  onSavePrivateNote?: (note: string) => Promise<boolean>;
 }
 
 const studioIcons = {
@@ -23,7 +31,7 @@ const studioIcons = {
 };
 
 export const TeamDetailModal = forwardRef<HTMLDivElement, TeamDetailModalProps>(
-  ({ team, isOpen, onClose, onJoin, onPass }, ref) => {
+  ({ team, isOpen, onClose, onJoin, onPass, onSave, canMerge = false, privateNote, onSavePrivateNote }, ref) => {
   const [selectedMember, setSelectedMember] = useState<UserProfile | null>(null);
   const [isMemberModalOpen, setIsMemberModalOpen] = useState(false);
 
@@ -159,7 +167,7 @@ export const TeamDetailModal = forwardRef<HTMLDivElement, TeamDetailModalProps>(
                           key={program}
                           className={`px-3 py-1.5 rounded-full text-sm font-semibold ${programColors[program]} text-primary-foreground`}
                         >
-                          {program}
+                          {(team.programNeeds[program] || 0) > 1 ? `${team.programNeeds[program]} × ${program}` : program}
                         </span>
                       ))}
                     </div>
@@ -179,6 +187,11 @@ export const TeamDetailModal = forwardRef<HTMLDivElement, TeamDetailModalProps>(
                       ))}
                     </div>
                   </div>
+
+                  {/* Private note */}
+                  {onSavePrivateNote && (
+                    <PrivateNoteEditor note={privateNote} onSave={onSavePrivateNote} />
+                  )}
                 </div>
               </div>
 
@@ -193,12 +206,29 @@ export const TeamDetailModal = forwardRef<HTMLDivElement, TeamDetailModalProps>(
                   <X className="w-5 h-5 mr-2" />
                   Pass
                 </Button>
+                {onSave && (
+                  <Button
+                    variant="outline"
+                    size="lg"
+                    onClick={() => { onSave(); onClose(); }}
+                    aria-label="Save for later"
+                  >
+                    <Bookmark className="w-5 h-5" />
+                  </Button>
+                )}
                 <Button
                   size="lg"
                   onClick={() => { onJoin(); onClose(); }}
                   className="flex-1"
                 >
-                  Request to Join
+                  {canMerge ? (
+                    <>
+                      <Merge className="w-5 h-5 mr-2" />
+                      Propose Merge
+                    </>
+                  ) : (
+                    'Request to Join'
+                  )}
                 </Button>
               </div>
             </div>
@@ -0,0 +1,150 @@
+import { useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { Copy, Link2, Loader2, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useTeamInvites } from '@/hooks/useTeamInvites';
+import {
+  INVITE_EXPIRY_OPTIONS,
+  buildInviteLink,
+  isInviteActive,
+  describeInviteUsage,
+} from '@/lib/teamInvites';
+
+const MAX_USES_OPTIONS = [1, 5, 10, 25];
+const TEAM_SIZE_OPTIONS = [2, 3, 4, 5, 6, 8];
+
+interface TeamInvitesPanelProps {
+  teamId: string;
+  memberCount: number;
+  /** Most confirmed members allowed; null for no limit */
+  maxMembers: number | null;
+  onMaxMembersChange: (maxMembers: number | null) => void;
+}
+
+const copyInviteLink = async (code: string) => {
+  try {
+    await navigator.clipboard.writeText(buildInviteLink(code));
+    toast.success('Invite link copied', { description: `Or share the code ${code}` });
+  } catch (error) {
+    console.error('Error copying invite link:', error);
+    toast.info(`Invite code: ${code}`);
+  }
+};
+
+export const TeamInvitesPanel = ({
+  teamId,
+  memberCount,
+  maxMembers,
+  onMaxMembersChange,
+}: TeamInvitesPanelProps) => {
+  const { invites, createInvite, revokeInvite } = useTeamInvites(teamId);
+  const [expiresInHours, setExpiresInHours] = useState<number>(72);
+  const [maxUses, setMaxUses] = useState<number | null>(null);
+  const [creating, setCreating] = useState(false);
+
+  const activeInvites = invites.filter(i => isInviteActive(i));
+  const isFull = maxMembers !== null && memberCount >= maxMembers;
+
+  const handleCreate = async () => {
+    setCreating(true);
+    try {
+      const code = await createInvite({ expiresInHours, maxUses });
+      if (code) await copyInviteLink(code);
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  return (
+    <div className="p-3 rounded-lg bg-accent/30 space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-sm font-medium">Invite Links</p>
+        <Select
+          value={maxMembers ? String(maxMembers) : 'none'}
+          onValueChange={value => onMaxMembersChange(value === 'none' ? null : Number(value))}
+        >
+          <SelectTrigger className="h-8 w-36 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="none">No size limit</SelectItem>
+            {TEAM_SIZE_OPTIONS.filter(n => n >= memberCount).map(n => (
+              <SelectItem key={n} value={String(n)}>Up to {n} members</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <Select value={String(expiresInHours)} onValueChange={value => setExpiresInHours(Number(value))}>
+          <SelectTrigger className="h-8 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {INVITE_EXPIRY_OPTIONS.map(o => (
+              <SelectItem key={o.hours} value={String(o.hours)}>Expires in {o.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select
+          value={maxUses ? String(maxUses) : 'unlimited'}
+          onValueChange={value => setMaxUses(value === 'unlimited' ? null : Number(value))}
+        >
+          <SelectTrigger className="h-8 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="unlimited">Unlimited uses</SelectItem>
+            {MAX_USES_OPTIONS.map(n => (
+              <SelectItem key={n} value={String(n)}>{n} {n === 1 ? 'use' : 'uses'}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button size="sm" className="h-8" onClick={handleCreate} disabled={creating}>
+          {creating ? <Loader2 className="w-4 h-4 animate-spin" /> : <Link2 className="w-4 h-4" />}
+        </Button>
+      </div>
+
+      {isFull && (
+        <p className="text-xs text-muted-foreground">The team is full, so invites can't be used right now.</p>
+      )}
+
+      {activeInvites.length > 0 && (
+        <div className="space-y-1">
+          {activeInvites.map(invite => (
+            <div key={invite.id} className="flex items-center justify-between gap-2 p-2 rounded-lg bg-background">
+              <div>
+                <p className="text-sm font-mono font-medium">{invite.code}</p>
+                <p className="text-xs text-muted-foreground">
+                  {describeInviteUsage(invite)} · expires {formatDistanceToNow(new Date(invite.expiresAt), { addSuffix: true })}
+                </p>
+              </div>
+              <div className="flex gap-1">
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  className="h-8 w-8"
+                  onClick={() => copyInviteLink(invite.code)}
+                  aria-label="Copy invite link"
+                >
+                  <Copy className="w-4 h-4" />
+                </Button>
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  className="h-8 w-8 text-destructive"
+                  onClick={() => revokeInvite(invite.id)}
+                  aria-label="Revoke invite"
+                >
+                  <X className="w-4 h-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
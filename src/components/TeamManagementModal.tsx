@@ -6,11 +6,38 @@ import { Avatar, AvatarImage, AvatarFallback } from '@/components/ui/avatar';
 import { Badge } from '@/components/ui/badge';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
-import { Team, UserProfile, Program, Studio } from '@/types';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Team, UserProfile, Program, Studio, ProgramNeeds } from '@/types';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from 'sonner';
-import { Users, Crown, MoreVertical, UserPlus, Shield, UserMinus, Loader2, MessageSquare, Trash2, LogOut, Check, X } from 'lucide-react';
+import { Users, Crown, MoreVertical, UserPlus, Shield, UserMinus, Loader2, MessageSquare, Trash2, LogOut, Check, X, ArrowRightLeft, Columns3, Merge } from 'lucide-react';
 import { MemberProfileModal } from './MemberProfileModal';
+import { ProgramNeedsEditor } from './ProgramNeedsEditor';
+import { ApplicationQuestionsEditor } from './ApplicationQuestionsEditor';
+import { ApplicationAnswersList } from './ApplicationAnswersList';
+import { JoinVotePanel } from './JoinVotePanel';
+import { TeamInvitesPanel } from './TeamInvitesPanel';
+import { CandidateComparisonModal } from './CandidateComparisonModal';
+import { formatProgramNeeds } from '@/lib/programNeeds';
+import { ApplicationAnswer, normalizeApplicationAnswers } from '@/lib/applicationQuestions';
+import { JoinRequestResolution, JoinVote } from '@/lib/joinVotes';
+import {
+  MAX_COMPARED,
+  canCompare,
+  describeComparisonSource,
+  mergeComparisonPool,
+  toggleCompared,
+} from '@/lib/comparison';
+import {
+  OWNER_RECRUITING_STATUSES,
+  RecruitingStatus,
+  describeRecruitingStatus,
+  explainRecruitingStatus,
+  normalizeRecruitingStatus,
+} from '@/lib/recruitingStatus';
+import { useJoinRequestVotes } from '@/hooks/useJoinRequestVotes';
+import { useOwnershipTransfer } from '@/hooks/useOwnershipTransfer';
 
 interface TeamMember extends UserProfile {
   role: string;
@@ -24,6 +51,10 @@ interface TeamManagementModalProps {
   currentUserId: string;
   onOpenChat: () => void;
   onTeamDeleted?: () => void;
+  /** Called after team details change (e.g. program needs) so the caller can refresh */
+  onTeamUpdated?: () => void;
+  /** Shortlisted candidates, offered alongside pending requests for comparison */
+  shortlist?: UserProfile[];
 }
 
 export const TeamManagementModal = ({ 
@@ -32,7 +63,9 @@ export const TeamManagementModal = ({
   team, 
   currentUserId,
   onOpenChat,
-  onTeamDeleted
+  onTeamDeleted,
+  onTeamUpdated,
+  shortlist = [],
 }: TeamManagementModalProps) => {
   const [members, setMembers] = useState<TeamMember[]>([]);
   const [pendingRequests, setPendingRequests] = useState<Array<{
@@ -40,6 +73,11 @@ export const TeamManagementModal = ({
     userId: string;
     matchType: 'team_to_individual' | 'individual_to_team';
     profile: UserProfile;
+    applicationAnswers: ApplicationAnswer[];
+  }>>([]);
+  const [mergeRequests, setMergeRequests] = useState<Array<{
+    matchId: string;
+    teamName: string;
   }>>([]);
   const [loading, setLoading] = useState(false);
   const [showRequests, setShowRequests] = useState(false);
@@ -47,6 +85,17 @@ export const TeamManagementModal = ({
   const [selectedMember, setSelectedMember] = useState<UserProfile | null>(null);
   const [deleting, setDeleting] = useState(false);
   const [leaving, setLeaving] = useState(false);
+  const [programNeeds, setProgramNeeds] = useState<ProgramNeeds>({});
+  const [savingNeeds, setSavingNeeds] = useState(false);
+  const [applicationQuestions, setApplicationQuestions] = useState<string[]>([]);
+  const [savingQuestions, setSavingQuestions] = useState(false);
+  const [voteQuorum, setVoteQuorum] = useState<number | null>(null);
+  const [swipeQuorum, setSwipeQuorum] = useState<number | null>(null);
+  const [maxMembers, setMaxMembers] = useState<number | null>(null);
+  const [recruitingStatus, setRecruitingStatus] = useState<RecruitingStatus>('open');
+  const [showCompare, setShowCompare] = useState(false);
+  const [comparedIds, setComparedIds] = useState<string[]>([]);
+  const [isComparisonOpen, setIsComparisonOpen] = useState(false);
 
   const isTeamOwner = team?.createdBy === currentUserId;
   
@@ -54,14 +103,52 @@ export const TeamManagementModal = ({
   const currentMember = members.find(m => m.id === currentUserId);
   const isAdmin = currentMember?.role === 'admin' || isTeamOwner;
   
-  // Only team owner can manage members (enforced by RLS policies)
-  // The 'admin' role in database is UI-only and doesn't grant actual database privileges
-  const canManageMembers = isTeamOwner;
+  // Mirrors the team RLS policies: admins answer requests, remove regular
+  // members and edit details; roles and deleting the team are the owner's
+  const canManageMembers = isAdmin;
+  const canManageRoles = isTeamOwner;
+
+  // Applications are decided by vote when the team sets a quorum
+  const votingMatchIds = voteQuorum
+    ? pendingRequests.filter(r => r.matchType === 'individual_to_team').map(r => r.matchId)
+    : [];
+  const { votesByMatch, castVote } = useJoinRequestVotes(votingMatchIds);
+  const memberIds = members.map(m => m.id);
+  const memberNames = Object.fromEntries(members.map(m => [m.id, m.name]));
+
+  // Ownership moves only once the chosen member accepts
+  const { pendingTransfer, offerOwnership, respondToOffer, cancelOffer } =
+    useOwnershipTransfer(isOpen ? team?.id : undefined);
+  const isTransferTarget = pendingTransfer?.toUserId === currentUserId;
+  // The owner can't leave a team that still has other members
+  const mustTransferToLeave = isTeamOwner && members.length > 1;
+
+  // Applicants, invitees and shortlisted people the team can line up side by side
+  const comparisonPool = mergeComparisonPool(
+    pendingRequests.map(r => ({
+      profile: r.profile,
+      source: r.matchType === 'individual_to_team' ? 'applied' as const : 'invited' as const,
+      applicationAnswers: r.applicationAnswers,
+    })),
+    shortlist
+  );
+  // Someone who joined or withdrew since being picked drops out
+  const comparedCandidates = comparedIds
+    .map(id => comparisonPool.find(c => c.profile.id === id))
+    .filter((c): c is NonNullable<typeof c> => !!c);
 
   useEffect(() => {
     if (isOpen && team) {
       fetchMembers();
       fetchPendingRequests();
+      fetchMergeRequests();
+      setProgramNeeds(team.programNeeds);
+      setApplicationQuestions(team.applicationQuestions ?? []);
+      setVoteQuorum(team.joinVoteQuorum ?? null);
+      setSwipeQuorum(team.swipeQuorum ?? null);
+      setMaxMembers(team.maxMembers ?? null);
+      setRecruitingStatus(team.recruitingStatus ?? 'open');
+      setComparedIds([]);
     }
   }, [isOpen, team]);
 
@@ -129,7 +216,7 @@ export const TeamManagementModal = ({
       // Fetch pending matches involving this team
       const { data: matches, error: matchesError } = await supabase
         .from('matches')
-        .select('id, user_id, target_user_id, match_type')
+        .select('id, user_id, target_user_id, match_type, application_answers')
         .eq('team_id', team.id)
         .eq('status', 'pending')
         .in('match_type', ['team_to_individual', 'individual_to_team']);
@@ -171,6 +258,7 @@ export const TeamManagementModal = ({
             avatar: profile?.avatar || '',
             linkedIn: profile?.linkedin,
           },
+          applicationAnswers: normalizeApplicationAnswers(m.application_answers),
         };
       });
 
@@ -181,84 +269,289 @@ export const TeamManagementModal = ({
   };
 
   /**
-   * Accept a pending join request - adds user to team
+   * Fetch merge proposals other teams have sent to this team
    */
-  const handleAcceptRequest = async (matchId: string, userId: string) => {
+  const fetchMergeRequests = async () => {
     if (!team) return;
-    
-    setProcessingRequest(matchId);
+
     try {
-      // Update match status to accepted
-      const { error: matchError } = await supabase
+      const { data: merges, error: mergesError } = await supabase
         .from('matches')
-        .update({ status: 'accepted' })
-        .eq('id', matchId);
+        .select('id, team_id')
+        .eq('target_team_id', team.id)
+        .eq('match_type', 'team_to_team')
+        .eq('status', 'pending');
 
-      if (matchError) throw matchError;
+      if (mergesError) throw mergesError;
 
-      // Add to team_members
-      const { error: memberError } = await supabase
-        .from('team_members')
-        .insert({
-          team_id: team.id,
-          user_id: userId,
-          role: 'member',
-          status: 'confirmed',
-        });
+      const teamIds = (merges || []).map(m => m.team_id).filter((id): id is string => !!id);
+      if (teamIds.length === 0) {
+        setMergeRequests([]);
+        return;
+      }
 
-      if (memberError) throw memberError;
+      const { data: teams, error: teamsError } = await supabase
+        .from('teams')
+        .select('id, name')
+        .in('id', teamIds);
 
-      // Add to team conversation if exists
-      const { data: conversation } = await supabase
-        .from('conversations')
-        .select('id')
-        .eq('team_id', team.id)
-        .eq('type', 'team')
-        .maybeSingle();
+      if (teamsError) throw teamsError;
 
-      if (conversation) {
-        await supabase
-          .from('conversation_participants')
-          .insert({
-            conversation_id: conversation.id,
-            user_id: userId,
-          });
-      }
+      setMergeRequests((merges || []).map(m => ({
+        matchId: m.id,
+        teamName: teams?.find(t => t.id === m.team_id)?.name || 'Unknown team',
+      })));
+    } catch (error) {
+      console.error('Error fetching merge requests:', error);
+    }
+  };
 
-      toast.success('Request accepted! Member added to team');
-      await fetchMembers();
-      await fetchPendingRequests();
+  /**
+   * Accept or decline a merge proposal. Admins only; enforced by
+   * respond_to_team_merge, which moves the members and chat across.
+   */
+  const handleRespondToMerge = async (matchId: string, accept: boolean) => {
+    setProcessingRequest(matchId);
+    try {
+      const { error } = await supabase.rpc('respond_to_team_merge', {
+        p_match_id: matchId,
+        p_accept: accept,
+      });
+
+      if (error) throw error;
+
+      if (accept) {
+        toast.success('Teams merged!');
+        // Either team may be the one that remains
+        onTeamUpdated?.();
+      } else {
+        toast.info('Merge declined');
+      }
+      await fetchMergeRequests();
     } catch (error) {
-      console.error('Error accepting request:', error);
-      toast.error('Failed to accept request');
+      console.error('Error responding to merge:', error);
+      toast.error(accept ? 'Failed to merge teams' : 'Failed to decline merge');
     } finally {
       setProcessingRequest(null);
     }
   };
 
   /**
-   * Reject a pending join request
+   * Accept or decline a pending application. Admins only; enforced by
+   * respond_to_join_request, which also adds the person to the team chat.
    */
-  const handleRejectRequest = async (matchId: string) => {
+  const handleRespondToRequest = async (matchId: string, accept: boolean) => {
     setProcessingRequest(matchId);
     try {
-      const { error } = await supabase
-        .from('matches')
-        .update({ status: 'rejected' })
-        .eq('id', matchId);
+      const { data, error } = await supabase.rpc('respond_to_join_request', {
+        p_match_id: matchId,
+        p_accept: accept,
+      });
 
       if (error) throw error;
 
-      toast.success('Request rejected');
+      const result = data as unknown as JoinRequestResolution;
+      if (result.reason === 'already_on_team') {
+        toast.info('They already joined another team - request closed');
+      } else if (accept) {
+        toast.success('Request accepted! Member added to team');
+        await fetchMembers();
+        // Joining lowers the team's program needs
+        onTeamUpdated?.();
+      } else {
+        toast.success('Request rejected');
+      }
       await fetchPendingRequests();
     } catch (error) {
-      console.error('Error rejecting request:', error);
-      toast.error('Failed to reject request');
+      console.error('Error responding to request:', error);
+      toast.error(accept ? 'Failed to accept request' : 'Failed to reject request');
     } finally {
       setProcessingRequest(null);
     }
   };
 
+  const handleVote = async (matchId: string, vote: JoinVote, comment: string) => {
+    const result = await castVote(matchId, vote, comment);
+    if (!result || result.status === 'pending') return;
+
+    await fetchPendingRequests();
+    if (result.status === 'accepted') {
+      await fetchMembers();
+      onTeamUpdated?.();
+    }
+  };
+
+  /**
+   * Switch between owner decisions and a team vote with the given quorum
+   */
+  const handleVoteQuorumChange = async (value: string) => {
+    if (!team) return;
+
+    const quorum = value === 'owner' ? null : Number(value);
+    const previous = voteQuorum;
+    setVoteQuorum(quorum);
+
+    try {
+      const { error } = await supabase
+        .from('teams')
+        .update({ join_vote_quorum: quorum })
+        .eq('id', team.id);
+
+      if (error) throw error;
+
+      toast.success(quorum ? `Join requests now need ${quorum} ${quorum === 1 ? 'vote' : 'votes'}` : 'Team admins decide join requests');
+      onTeamUpdated?.();
+    } catch (error) {
+      console.error('Error updating join request voting:', error);
+      toast.error('Failed to update join request voting');
+      setVoteQuorum(previous);
+    }
+  };
+
+  /**
+   * Switch between one member's like sending a request and the team deck
+   * with the given quorum
+   */
+  const handleSwipeQuorumChange = async (value: string) => {
+    if (!team) return;
+
+    const quorum = value === 'anyone' ? null : Number(value);
+    const previous = swipeQuorum;
+    setSwipeQuorum(quorum);
+
+    try {
+      const { error } = await supabase
+        .from('teams')
+        .update({ swipe_quorum: quorum })
+        .eq('id', team.id);
+
+      if (error) throw error;
+
+      toast.success(quorum ? `Requests now need ${quorum} likes from the team` : 'Any member can send requests');
+      onTeamUpdated?.();
+    } catch (error) {
+      console.error('Error updating team deck:', error);
+      toast.error('Failed to update team deck');
+      setSwipeQuorum(previous);
+    }
+  };
+
+  /**
+   * Cap how many members invite links can bring the team to
+   */
+  const handleMaxMembersChange = async (value: number | null) => {
+    if (!team) return;
+
+    const previous = maxMembers;
+    setMaxMembers(value);
+
+    try {
+      const { data, error } = await supabase
+        .from('teams')
+        .update({ max_members: value })
+        .eq('id', team.id)
+        .select('recruiting_status')
+        .single();
+
+      if (error) throw error;
+
+      // Reaching the new limit marks the team full
+      setRecruitingStatus(normalizeRecruitingStatus(data.recruiting_status));
+      toast.success(value ? `Team size limited to ${value} members` : 'Team size limit removed');
+      onTeamUpdated?.();
+    } catch (error) {
+      console.error('Error updating team size limit:', error);
+      toast.error('Failed to update team size limit');
+      setMaxMembers(previous);
+    }
+  };
+
+  /**
+   * Open or pause recruiting. Owner-only; a team at its size limit stays full.
+   */
+  const handleRecruitingStatusChange = async (value: string) => {
+    if (!team) return;
+
+    const previous = recruitingStatus;
+    setRecruitingStatus(value as RecruitingStatus);
+
+    try {
+      const { data, error } = await supabase
+        .from('teams')
+        .update({ recruiting_status: value })
+        .eq('id', team.id)
+        .select('recruiting_status')
+        .single();
+
+      if (error) throw error;
+
+      const status = normalizeRecruitingStatus(data.recruiting_status);
+      setRecruitingStatus(status);
+      if (status === 'full') {
+        toast.info('The team is at its size limit, so it stays full');
+      } else {
+        toast.success(status === 'paused' ? 'Recruiting paused' : 'Team is open to new members');
+      }
+      onTeamUpdated?.();
+    } catch (error) {
+      console.error('Error updating recruiting status:', error);
+      toast.error('Failed to update recruiting status');
+      setRecruitingStatus(previous);
+    }
+  };
+
+  const handleRespondToOwnership = async (accept: boolean) => {
+    const ok = await respondToOffer(accept);
+    if (ok && accept) {
+      await fetchMembers();
+      onTeamUpdated?.();
+    }
+  };
+
+  const handleSaveProgramNeeds = async () => {
+    if (!team) return;
+
+    setSavingNeeds(true);
+    try {
+      const { error } = await supabase
+        .from('teams')
+        .update({ program_needs: programNeeds })
+        .eq('id', team.id);
+
+      if (error) throw error;
+
+      toast.success('Program needs updated');
+      onTeamUpdated?.();
+    } catch (error) {
+      console.error('Error updating program needs:', error);
+      toast.error('Failed to update program needs');
+    } finally {
+      setSavingNeeds(false);
+    }
+  };
+
+  const handleSaveApplicationQuestions = async () => {
+    if (!team) return;
+
+    setSavingQuestions(true);
+    try {
+      const { error } = await supabase
+        .from('teams')
+        .update({ application_questions: applicationQuestions })
+        .eq('id', team.id);
+
+      if (error) throw error;
+
+      toast.success('Application questions updated');
+      onTeamUpdated?.();
+    } catch (error) {
+      console.error('Error updating application questions:', error);
+      toast.error('Failed to update application questions');
+    } finally {
+      setSavingQuestions(false);
+    }
+  };
+
   const handlePromoteToAdmin = async (memberId: string, memberName: string) => {
     try {
       const { error } = await supabase
@@ -332,98 +625,21 @@ export const TeamManagementModal = ({
 
   const handleLeaveTeam = async () => {
     if (!team || !currentMember) return;
+
+    // Owners hand the team over first; see the transfer flow
+    if (mustTransferToLeave) {
+      toast.error('Transfer ownership to another member before leaving');
+      return;
+    }
     
     setLeaving(true);
     try {
-      const otherMembers = members.filter(m => m.id !== currentUserId);
-      
-      // If this is the last member, delete the team instead
-      if (otherMembers.length === 0) {
-        // Delete team conversation if exists
-        const { data: conversation } = await supabase
-          .from('conversations')
-          .select('id')
-          .eq('team_id', team.id)
-          .eq('type', 'team')
-          .maybeSingle();
-
-        if (conversation) {
-          await supabase
-            .from('conversation_participants')
-            .delete()
-            .eq('conversation_id', conversation.id);
-          
-          await supabase
-            .from('messages')
-            .delete()
-            .eq('conversation_id', conversation.id);
-          
-          await supabase
-            .from('conversations')
-            .delete()
-            .eq('id', conversation.id);
-        }
-
-        // Delete team members (just this user)
-        await supabase
-          .from('team_members')
-          .delete()
-          .eq('team_id', team.id);
-
-        // Delete the team
-        await supabase
-          .from('teams')
-          .delete()
-          .eq('id', team.id);
-
-        toast.success('Team disbanded as you were the last member');
-        onClose();
-        onTeamDeleted?.();
-        return;
-      }
-      
-      // If leaving member is admin and there are other members, reassign admin
-      if (currentMember.role === 'admin') {
-        // Check if there's another admin
-        const hasOtherAdmin = otherMembers.some(m => m.role === 'admin');
-        
-        if (!hasOtherAdmin) {
-          // Randomly pick another member to be admin
-          const randomMember = otherMembers[Math.floor(Math.random() * otherMembers.length)];
-          await supabase
-            .from('team_members')
-            .update({ role: 'admin' })
-            .eq('id', randomMember.memberId);
-          
-          toast.info(`${randomMember.name} is now the team admin`);
-        }
-      }
-      
-      // Remove from team_members
-      const { error: removeError } = await supabase
-        .from('team_members')
-        .delete()
-        .eq('id', currentMember.memberId);
-
-      if (removeError) throw removeError;
+      const { data, error } = await supabase.rpc('leave_team', { p_team_id: team.id });
 
-      // Remove from team conversation
-      const { data: conversation } = await supabase
-        .from('conversations')
-        .select('id')
-        .eq('team_id', team.id)
-        .eq('type', 'team')
-        .maybeSingle();
-
-      if (conversation) {
-        await supabase
-          .from('conversation_participants')
-          .delete()
-          .eq('conversation_id', conversation.id)
-          .eq('user_id', currentUserId);
-      }
+      if (error) throw error;
 
-      toast.success('You have left the team');
+      const result = data as { disbanded: boolean } | null;
+      toast.success(result?.disbanded ? 'Team disbanded as you were the last member' : 'You have left the team');
       onClose();
       onTeamDeleted?.();
     } catch (error) {
@@ -435,49 +651,12 @@ export const TeamManagementModal = ({
   };
 
   const handleDeleteTeam = async () => {
-    if (!team || !isAdmin) return;
+    if (!team || !isTeamOwner) return;
     
     setDeleting(true);
     try {
-      // 1. Delete conversation participants for team conversation
-      const { data: conversation } = await supabase
-        .from('conversations')
-        .select('id')
-        .eq('team_id', team.id)
-        .eq('type', 'team')
-        .maybeSingle();
-
-      if (conversation) {
-        // Delete all participants
-        await supabase
-          .from('conversation_participants')
-          .delete()
-          .eq('conversation_id', conversation.id);
-        
-        // Delete messages (if any)
-        await supabase
-          .from('messages')
-          .delete()
-          .eq('conversation_id', conversation.id);
-        
-        // Delete the conversation
-        await supabase
-          .from('conversations')
-          .delete()
-          .eq('id', conversation.id);
-      }
-
-      // 2. Delete team members
-      await supabase
-        .from('team_members')
-        .delete()
-        .eq('team_id', team.id);
-
-      // 3. Delete the team
-      const { error } = await supabase
-        .from('teams')
-        .delete()
-        .eq('id', team.id);
+      // Removes members, chats and join requests in one transaction
+      const { error } = await supabase.rpc('delete_team', { p_team_id: team.id });
 
       if (error) throw error;
 
@@ -514,68 +693,286 @@ export const TeamManagementModal = ({
               <MessageSquare className="w-4 h-4 mr-2" />
               Team Chat
             </Button>
-            {canManageMembers && (
-              <Button 
-                variant="outline" 
-                className="flex-1"
-                onClick={() => setShowRequests(!showRequests)}
-              >
-                <UserPlus className="w-4 h-4 mr-2" />
-                Requests {pendingRequests.length > 0 && `(${pendingRequests.length})`}
+            <Button 
+              variant="outline" 
+              className="flex-1"
+              onClick={() => setShowRequests(!showRequests)}
+            >
+              <UserPlus className="w-4 h-4 mr-2" />
+              Requests {pendingRequests.length + mergeRequests.length > 0 && `(${pendingRequests.length + mergeRequests.length})`}
+            </Button>
+            <Button
+              variant="outline"
+              className="flex-1"
+              onClick={() => setShowCompare(!showCompare)}
+            >
+              <Columns3 className="w-4 h-4 mr-2" />
+              Compare
+            </Button>
+          </div>
+
+          {/* Pick two to four candidates to compare */}
+          {showCompare && (
+            <div className="p-3 rounded-lg bg-accent/30 space-y-2">
+              <div className="flex items-center justify-between gap-2">
+                <p className="text-sm font-medium">Compare Candidates</p>
+                <span className="text-xs text-muted-foreground">Pick up to {MAX_COMPARED}</span>
+              </div>
+              {comparisonPool.length < 2 ? (
+                <p className="text-sm text-muted-foreground">
+                  Pending requests and shortlisted people show up here once there are at least two
+                </p>
+              ) : (
+                <>
+                  <ScrollArea className="max-h-48">
+                    <div className="space-y-1">
+                      {comparisonPool.map(({ profile, source }) => {
+                        const checked = comparedIds.includes(profile.id);
+                        return (
+                          <label
+                            key={profile.id}
+                            className="flex items-center gap-2 p-2 rounded-lg bg-background cursor-pointer"
+                          >
+                            <Checkbox
+                              checked={checked}
+                              disabled={!checked && comparedIds.length >= MAX_COMPARED}
+                              onCheckedChange={() => setComparedIds(prev => toggleCompared(prev, profile.id))}
+                            />
+                            <span className="text-sm font-medium flex-1 truncate">{profile.name}</span>
+                            <span className="text-xs text-muted-foreground">
+                              {profile.program} • {describeComparisonSource(source)}
+                            </span>
+                          </label>
+                        );
+                      })}
+                    </div>
+                  </ScrollArea>
+                  <Button
+                    size="sm"
+                    className="w-full"
+                    disabled={!canCompare(comparedCandidates.map(c => c.profile.id))}
+                    onClick={() => setIsComparisonOpen(true)}
+                  >
+                    Compare {comparedCandidates.length > 0 && `(${comparedCandidates.length})`}
+                  </Button>
+                </>
+              )}
+            </div>
+          )}
+
+          {/* Ownership offer */}
+          {pendingTransfer && isTransferTarget && (
+            <div className="p-3 rounded-lg bg-primary/10 border border-primary/20 space-y-2">
+              <p className="text-sm">
+                <span className="font-medium">{memberNames[pendingTransfer.fromUserId] || 'The owner'}</span>
+                {' wants to make you the team owner.'}
+              </p>
+              <div className="flex gap-2">
+                <Button size="sm" className="flex-1" onClick={() => handleRespondToOwnership(true)}>
+                  <Check className="w-4 h-4 mr-1" />
+                  Accept
+                </Button>
+                <Button size="sm" variant="outline" className="flex-1" onClick={() => handleRespondToOwnership(false)}>
+                  <X className="w-4 h-4 mr-1" />
+                  Decline
+                </Button>
+              </div>
+            </div>
+          )}
+          {pendingTransfer && isTeamOwner && (
+            <div className="p-3 rounded-lg bg-accent/30 flex items-center justify-between gap-2">
+              <p className="text-sm text-muted-foreground">
+                Waiting for <span className="font-medium text-foreground">{memberNames[pendingTransfer.toUserId] || 'them'}</span> to accept ownership
+              </p>
+              <Button size="sm" variant="ghost" onClick={cancelOffer}>
+                Withdraw
               </Button>
+            </div>
+          )}
+
+          {/* Recruiting status - the owner opens or pauses */}
+          <div className="flex items-center justify-between gap-2">
+            <div>
+              <p className="text-sm font-medium">Recruiting</p>
+              <p className="text-xs text-muted-foreground">{explainRecruitingStatus(recruitingStatus)}</p>
+            </div>
+            {isTeamOwner && recruitingStatus !== 'full' ? (
+              <Select value={recruitingStatus} onValueChange={handleRecruitingStatusChange}>
+                <SelectTrigger className="h-8 w-28 text-xs shrink-0">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {OWNER_RECRUITING_STATUSES.map(status => (
+                    <SelectItem key={status} value={status}>{describeRecruitingStatus(status)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            ) : (
+              <Badge variant={recruitingStatus === 'open' ? 'default' : 'secondary'} className="shrink-0">
+                {describeRecruitingStatus(recruitingStatus)}
+              </Badge>
             )}
           </div>
 
-          {/* Pending Requests section */}
-          {showRequests && canManageMembers && (
+          {/* Team deck - admins choose how many likes send a request */}
+          <div className="flex items-center justify-between gap-2">
+            <div>
+              <p className="text-sm font-medium">Team deck</p>
+              <p className="text-xs text-muted-foreground">
+                {swipeQuorum
+                  ? `A request goes out once ${swipeQuorum} members like the same person`
+                  : "Any member's like sends a request"}
+              </p>
+            </div>
+            {canManageMembers ? (
+              <Select value={swipeQuorum ? String(swipeQuorum) : 'anyone'} onValueChange={handleSwipeQuorumChange}>
+                <SelectTrigger className="h-8 w-28 text-xs shrink-0">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="anyone">Anyone</SelectItem>
+                  {Array.from({ length: Math.max(members.length - 1, 0) }, (_, i) => i + 2).map(n => (
+                    <SelectItem key={n} value={String(n)}>{n} likes</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            ) : (
+              <Badge variant="secondary" className="shrink-0">
+                {swipeQuorum ? `${swipeQuorum} likes` : 'Anyone'}
+              </Badge>
+            )}
+          </div>
+
+          {/* Invite links - admins only */}
+          {canManageMembers && (
+            <TeamInvitesPanel
+              teamId={team.id}
+              memberCount={members.length}
+              maxMembers={maxMembers}
+              onMaxMembersChange={handleMaxMembersChange}
+            />
+          )}
+
+          {/* Pending Requests section - shared inbox, admins decide */}
+          {showRequests && (
             <div className="p-3 rounded-lg bg-accent/30 space-y-2">
-              <p className="text-sm font-medium">Pending Requests</p>
+              <div className="flex items-center justify-between gap-2">
+                <p className="text-sm font-medium">Pending Requests</p>
+                {canManageMembers ? (
+                  <Select value={voteQuorum ? String(voteQuorum) : 'owner'} onValueChange={handleVoteQuorumChange}>
+                    <SelectTrigger className="h-8 w-44 text-xs">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="owner">Admins decide</SelectItem>
+                      {Array.from({ length: Math.max(members.length, 1) }, (_, i) => i + 1).map(n => (
+                        <SelectItem key={n} value={String(n)}>
+                          Team vote: {n} {n === 1 ? 'vote' : 'votes'}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                ) : (
+                  <span className="text-xs text-muted-foreground">
+                    {voteQuorum ? `Team vote: ${voteQuorum} needed` : 'Admins decide'}
+                  </span>
+                )}
+              </div>
+              {mergeRequests.map((merge) => (
+                <div key={merge.matchId} className="p-2 rounded-lg bg-background flex items-center justify-between">
+                  <div className="flex items-center gap-2">
+                    <Merge className="w-4 h-4 text-primary" />
+                    <div>
+                      <p className="text-sm font-medium">{merge.teamName}</p>
+                      <p className="text-xs text-muted-foreground">Wants to merge teams</p>
+                    </div>
+                  </div>
+                  {canManageMembers && (
+                    <div className="flex gap-1">
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        className="h-8 w-8 text-green-500 hover:text-green-600 hover:bg-green-500/10"
+                        onClick={() => handleRespondToMerge(merge.matchId, true)}
+                        disabled={processingRequest === merge.matchId}
+                      >
+                        {processingRequest === merge.matchId ? (
+                          <Loader2 className="w-4 h-4 animate-spin" />
+                        ) : (
+                          <Check className="w-4 h-4" />
+                        )}
+                      </Button>
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        className="h-8 w-8 text-red-500 hover:text-red-600 hover:bg-red-500/10"
+                        onClick={() => handleRespondToMerge(merge.matchId, false)}
+                        disabled={processingRequest === merge.matchId}
+                      >
+                        <X className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              ))}
               {pendingRequests.length === 0 ? (
-                <p className="text-sm text-muted-foreground">No pending requests</p>
+                mergeRequests.length === 0 && <p className="text-sm text-muted-foreground">No pending requests</p>
               ) : (
-                <ScrollArea className="h-40">
+                <ScrollArea className={voteQuorum ? 'h-64' : 'h-40'}>
                   <div className="space-y-2">
                     {pendingRequests.map((request) => (
-                      <div 
-                        key={request.matchId} 
-                        className="flex items-center justify-between p-2 rounded-lg bg-background"
-                      >
-                        <div className="flex items-center gap-2">
-                          <Avatar className="w-8 h-8">
-                            <AvatarImage src={request.profile.avatar} />
-                            <AvatarFallback>{request.profile.name[0]}</AvatarFallback>
-                          </Avatar>
-                          <div>
-                            <p className="text-sm font-medium">{request.profile.name}</p>
-                            <p className="text-xs text-muted-foreground">
-                              {request.profile.program} • {request.matchType === 'individual_to_team' ? 'Wants to join' : 'Invited'}
-                            </p>
+                      <div key={request.matchId} className="p-2 rounded-lg bg-background space-y-2">
+                        <div className="flex items-center justify-between">
+                          <div className="flex items-center gap-2">
+                            <Avatar className="w-8 h-8">
+                              <AvatarImage src={request.profile.avatar} />
+                              <AvatarFallback>{request.profile.name[0]}</AvatarFallback>
+                            </Avatar>
+                            <div>
+                              <p className="text-sm font-medium">{request.profile.name}</p>
+                              <p className="text-xs text-muted-foreground">
+                                {request.profile.program} • {request.matchType === 'individual_to_team' ? 'Wants to join' : 'Invited, awaiting reply'}
+                              </p>
+                            </div>
                           </div>
+                          {canManageMembers && !voteQuorum && request.matchType === 'individual_to_team' && (
+                            <div className="flex gap-1">
+                              <Button 
+                                size="icon"
+                                variant="ghost"
+                                className="h-8 w-8 text-green-500 hover:text-green-600 hover:bg-green-500/10"
+                                onClick={() => handleRespondToRequest(request.matchId, true)}
+                                disabled={processingRequest === request.matchId}
+                              >
+                                {processingRequest === request.matchId ? (
+                                  <Loader2 className="w-4 h-4 animate-spin" />
+                                ) : (
+                                  <Check className="w-4 h-4" />
+                                )}
+                              </Button>
+                              <Button 
+                                size="icon"
+                                variant="ghost"
+                                className="h-8 w-8 text-red-500 hover:text-red-600 hover:bg-red-500/10"
+                                onClick={() => handleRespondToRequest(request.matchId, false)}
+                                disabled={processingRequest === request.matchId}
+                              >
+                                <X className="w-4 h-4" />
+                              </Button>
+                            </div>
+                          )}
                         </div>
-                        <div className="flex gap-1">
-                          <Button 
-                            size="icon"
-                            variant="ghost"
-                            className="h-8 w-8 text-green-500 hover:text-green-600 hover:bg-green-500/10"
-                            onClick={() => handleAcceptRequest(request.matchId, request.userId)}
-                            disabled={processingRequest === request.matchId}
-                          >
-                            {processingRequest === request.matchId ? (
-                              <Loader2 className="w-4 h-4 animate-spin" />
-                            ) : (
-                              <Check className="w-4 h-4" />
-                            )}
-                          </Button>
-                          <Button 
-                            size="icon"
-                            variant="ghost"
-                            className="h-8 w-8 text-red-500 hover:text-red-600 hover:bg-red-500/10"
-                            onClick={() => handleRejectRequest(request.matchId)}
-                            disabled={processingRequest === request.matchId}
-                          >
-                            <X className="w-4 h-4" />
-                          </Button>
-                        </div>
+                        <ApplicationAnswersList answers={request.applicationAnswers} />
+                        {voteQuorum && request.matchType === 'individual_to_team' && (
+                          <JoinVotePanel
+                            votes={votesByMatch[request.matchId] || []}
+                            quorum={voteQuorum}
+                            memberIds={memberIds}
+                            currentUserId={currentUserId}
+                            voterNames={memberNames}
+                            onVote={(vote, comment) => handleVote(request.matchId, vote, comment)}
+                          />
+                        )}
                       </div>
                     ))}
                   </div>
@@ -584,6 +981,52 @@ export const TeamManagementModal = ({
             </div>
           )}
 
+          {/* Program needs */}
+          <div className="space-y-2">
+            <p className="text-sm font-medium">Programs Needed</p>
+            {canManageMembers ? (
+              <>
+                <ProgramNeedsEditor value={programNeeds} onChange={setProgramNeeds} disabled={savingNeeds} />
+                {JSON.stringify(programNeeds) !== JSON.stringify(team.programNeeds) && (
+                  <Button size="sm" className="w-full" onClick={handleSaveProgramNeeds} disabled={savingNeeds}>
+                    {savingNeeds && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                    Save Program Needs
+                  </Button>
+                )}
+              </>
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                {formatProgramNeeds(team.programNeeds) || 'No open program needs'}
+              </p>
+            )}
+          </div>
+
+          {/* Application questions */}
+          <div className="space-y-2">
+            <p className="text-sm font-medium">Application Questions</p>
+            {canManageMembers ? (
+              <>
+                <ApplicationQuestionsEditor
+                  value={applicationQuestions}
+                  onChange={setApplicationQuestions}
+                  disabled={savingQuestions}
+                />
+                {JSON.stringify(applicationQuestions) !== JSON.stringify(team.applicationQuestions ?? []) && (
+                  <Button size="sm" className="w-full" onClick={handleSaveApplicationQuestions} disabled={savingQuestions}>
+                    {savingQuestions && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                    Save Questions
+                  </Button>
+                )}
+              </>
+            ) : (team.applicationQuestions ?? []).length > 0 ? (
+              <ul className="list-disc pl-5 text-sm text-muted-foreground space-y-1">
+                {team.applicationQuestions?.map(question => <li key={question}>{question}</li>)}
+              </ul>
+            ) : (
+              <p className="text-sm text-muted-foreground">No application questions</p>
+            )}
+          </div>
+
           {/* Team members */}
           <div className="space-y-2">
             <p className="text-sm font-medium">Team Members</p>
@@ -608,6 +1051,9 @@ export const TeamManagementModal = ({
                         <div>
                           <div className="flex items-center gap-2">
                             <p className="font-medium">{member.name}</p>
+                            {member.id === team.createdBy && (
+                              <Badge className="text-xs">Owner</Badge>
+                            )}
                             {member.role === 'admin' && (
                               <Badge variant="secondary" className="text-xs">
                                 <Crown className="w-3 h-3 mr-1" />
@@ -622,7 +1068,8 @@ export const TeamManagementModal = ({
                         </div>
                       </div>
 
-                      {canManageMembers && member.id !== currentUserId && (
+                      {canManageMembers && member.id !== currentUserId && member.id !== team.createdBy &&
+                        (canManageRoles || member.role === 'member') && (
                         <DropdownMenu>
                           <DropdownMenuTrigger asChild>
                             <Button 
@@ -634,26 +1081,40 @@ export const TeamManagementModal = ({
                             </Button>
                           </DropdownMenuTrigger>
                           <DropdownMenuContent align="end">
-                            {member.role === 'admin' ? (
-                              <DropdownMenuItem 
-                                onClick={(e) => {
-                                  e.stopPropagation();
-                                  handleDemoteFromAdmin(member.memberId, member.name);
-                                }}
-                              >
-                                <Shield className="w-4 h-4 mr-2" />
-                                Remove Admin
-                              </DropdownMenuItem>
-                            ) : (
-                              <DropdownMenuItem 
-                                onClick={(e) => {
-                                  e.stopPropagation();
-                                  handlePromoteToAdmin(member.memberId, member.name);
-                                }}
-                              >
-                                <Crown className="w-4 h-4 mr-2" />
-                                Make Admin
-                              </DropdownMenuItem>
+                            {canManageRoles && (
+                              <>
+                                {member.role === 'admin' ? (
+                                  <DropdownMenuItem 
+                                    onClick={(e) => {
+                                      e.stopPropagation();
+                                      handleDemoteFromAdmin(member.memberId, member.name);
+                                    }}
+                                  >
+                                    <Shield className="w-4 h-4 mr-2" />
+                                    Remove Admin
+                                  </DropdownMenuItem>
+                                ) : (
+                                  <DropdownMenuItem 
+                                    onClick={(e) => {
+                                      e.stopPropagation();
+                                      handlePromoteToAdmin(member.memberId, member.name);
+                                    }}
+                                  >
+                                    <Crown className="w-4 h-4 mr-2" />
+                                    Make Admin
+                                  </DropdownMenuItem>
+                                )}
+                                <DropdownMenuItem 
+                                  disabled={pendingTransfer?.toUserId === member.id}
+                                  onClick={(e) => {
+                                    e.stopPropagation();
+                                    offerOwnership(member.id);
+                                  }}
+                                >
+                                  <ArrowRightLeft className="w-4 h-4 mr-2" />
+                                  {pendingTransfer?.toUserId === member.id ? 'Ownership Offered' : 'Make Owner'}
+                                </DropdownMenuItem>
+                              </>
                             )}
                             <DropdownMenuItem 
                               className="text-destructive"
@@ -703,25 +1164,28 @@ export const TeamManagementModal = ({
                         <br /><br />
                         <strong>Since you're the last member, the team will be disbanded.</strong>
                       </>
-                    ) : currentMember?.role === 'admin' && (
+                    ) : mustTransferToLeave && (
                       <>
                         <br /><br />
-                        Since you're an admin, another member will be randomly assigned as the new admin.
+                        <strong>You own this team.</strong> Choose a new owner with "Make Owner" in a
+                        member's menu. You can leave once they accept, or delete the team instead.
                       </>
                     )}
                   </AlertDialogDescription>
                 </AlertDialogHeader>
                 <AlertDialogFooter>
-                  <AlertDialogCancel>Cancel</AlertDialogCancel>
-                  <AlertDialogAction onClick={handleLeaveTeam}>
-                    Leave Team
-                  </AlertDialogAction>
+                  <AlertDialogCancel>{mustTransferToLeave ? 'Close' : 'Cancel'}</AlertDialogCancel>
+                  {!mustTransferToLeave && (
+                    <AlertDialogAction onClick={handleLeaveTeam}>
+                      Leave Team
+                    </AlertDialogAction>
+                  )}
                 </AlertDialogFooter>
               </AlertDialogContent>
             </AlertDialog>
 
-            {/* Delete Team - only available to admins */}
-            {isAdmin && (
+            {/* Delete Team - only available to the owner */}
+            {isTeamOwner && (
               <AlertDialog>
                 <AlertDialogTrigger asChild>
                   <Button 
@@ -768,6 +1232,13 @@ export const TeamManagementModal = ({
           isOpen={!!selectedMember}
           onClose={() => setSelectedMember(null)}
         />
+
+        <CandidateComparisonModal
+          open={isComparisonOpen}
+          onOpenChange={setIsComparisonOpen}
+          candidates={comparedCandidates}
+          skillsNeeded={team.skillsNeeded}
+        />
       </DialogContent>
     </Dialog>
   );
@@ -0,0 +1,176 @@
+import { useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { ListChecks, Loader2, Send, Star, Trash2, ChevronDown, ChevronUp } from 'lucide-react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { ShortlistNotePanel } from './ShortlistNotePanel';
+import { UserProfile } from '@/types';
+import {
+  ShortlistCandidate,
+  averageRating,
+  describeShortlistRequestStatus,
+  sortByRating,
+} from '@/lib/shortlist';
+
+interface TeamShortlistModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  teamName: string;
+  candidates: ShortlistCandidate[];
+  loading: boolean;
+  currentUserId: string;
+  onCandidateTap: (profile: UserProfile) => void;
+  onSendRequest: (candidate: ShortlistCandidate) => Promise<void>;
+  onRemove: (entryId: string) => Promise<void>;
+  onSaveNote: (entryId: string, rating: number | null, note: string) => Promise<boolean>;
+}
+
+export const TeamShortlistModal = ({
+  open,
+  onOpenChange,
+  teamName,
+  candidates,
+  loading,
+  currentUserId,
+  onCandidateTap,
+  onSendRequest,
+  onRemove,
+  onSaveNote,
+}: TeamShortlistModalProps) => {
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [sendingId, setSendingId] = useState<string | null>(null);
+
+  const handleSend = async (candidate: ShortlistCandidate) => {
+    setSendingId(candidate.id);
+    try {
+      await onSendRequest(candidate);
+    } finally {
+      setSendingId(null);
+    }
+  };
+
+  const renderCandidate = (candidate: ShortlistCandidate) => {
+    const { profile } = candidate;
+    const rating = averageRating(candidate.notes);
+    const isExpanded = expandedId === candidate.id;
+
+    return (
+      <div key={candidate.id} className="p-3 rounded-lg bg-card/50 border border-border/50 space-y-2">
+        <div className="flex items-center justify-between gap-2">
+          <button
+            type="button"
+            className="flex items-center gap-3 flex-1 min-w-0 text-left"
+            onClick={() => onCandidateTap(profile)}
+          >
+            <Avatar className="w-10 h-10 shrink-0">
+              <AvatarImage src={profile.avatar} alt={profile.name} />
+              <AvatarFallback>{profile.name.charAt(0)}</AvatarFallback>
+            </Avatar>
+            <div className="min-w-0">
+              <div className="flex items-center gap-2">
+                <p className="font-medium text-foreground truncate">{profile.name}</p>
+                {rating !== null && (
+                  <span className="flex items-center gap-0.5 text-xs text-muted-foreground shrink-0">
+                    <Star className="w-3 h-3 fill-amber-400 text-amber-400" />
+                    {rating}
+                  </span>
+                )}
+              </div>
+              <p className="text-xs text-muted-foreground truncate">
+                {profile.program} • Added by {candidate.addedBy === currentUserId ? 'you' : candidate.addedByName}{' '}
+                {formatDistanceToNow(new Date(candidate.addedAt), { addSuffix: true })}
+              </p>
+            </div>
+          </button>
+          {candidate.requestStatus === 'none' ? (
+            <Button
+              size="sm"
+              onClick={() => handleSend(candidate)}
+              disabled={sendingId === candidate.id}
+              className="gap-1 shrink-0"
+            >
+              {sendingId === candidate.id ? (
+                <Loader2 className="w-3 h-3 animate-spin" />
+              ) : (
+                <Send className="w-3 h-3" />
+              )}
+              Request
+            </Button>
+          ) : (
+            <Badge variant="secondary" className="text-xs shrink-0">
+              {describeShortlistRequestStatus(candidate.requestStatus)}
+            </Badge>
+          )}
+        </div>
+
+        <div className="flex items-center justify-between">
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 px-2 text-xs gap-1"
+            onClick={() => setExpandedId(isExpanded ? null : candidate.id)}
+          >
+            {isExpanded ? <ChevronUp className="w-3 h-3" /> : <ChevronDown className="w-3 h-3" />}
+            Notes ({candidate.notes.length})
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7 text-muted-foreground hover:text-destructive"
+            onClick={() => onRemove(candidate.id)}
+            aria-label="Remove from shortlist"
+          >
+            <Trash2 className="w-3.5 h-3.5" />
+          </Button>
+        </div>
+
+        {isExpanded && (
+          <ShortlistNotePanel
+            notes={candidate.notes}
+            currentUserId={currentUserId}
+            onSave={(noteRating, note) => onSaveNote(candidate.id, noteRating, note)}
+          />
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ListChecks className="w-5 h-5" />
+            Shortlist
+          </DialogTitle>
+          <DialogDescription>
+            Candidates {teamName} is considering. Notes and ratings are only visible to your team.
+          </DialogDescription>
+        </DialogHeader>
+
+        <ScrollArea className="h-[420px] pr-4">
+          {loading && candidates.length === 0 ? (
+            <div className="flex justify-center py-12">
+              <Loader2 className="w-6 h-6 animate-spin text-primary" />
+            </div>
+          ) : candidates.length > 0 ? (
+            <div className="space-y-2">
+              {sortByRating(candidates).map(renderCandidate)}
+            </div>
+          ) : (
+            <div className="flex flex-col items-center justify-center h-full text-center py-12">
+              <ListChecks className="w-12 h-12 text-muted-foreground/50 mb-3" />
+              <p className="text-muted-foreground">No one shortlisted yet</p>
+              <p className="text-xs text-muted-foreground/70">
+                Add people from the deck or their profile to discuss them with your team
+              </p>
+            </div>
+          )}
+        </ScrollArea>
+      </DialogContent>
+    </Dialog>
+  );
+};
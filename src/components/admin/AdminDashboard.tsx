@@ -1,11 +1,14 @@
 import { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { Users, UserCheck, Layers, ScrollText, Download, ArrowLeft } from 'lucide-react';
+import { Users, UserCheck, Layers, Wand2, Tags, ScrollText, Download, ArrowLeft } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { AdminStudents } from './AdminStudents';
 import { AdminTeams } from './AdminTeams';
+import { AdminTeamFormation } from './AdminTeamFormation';
 import { AdminMatches } from './AdminMatches';
+import { AdminRequestExpiry } from './AdminRequestExpiry';
+import { AdminSkills } from './AdminSkills';
 import { AdminAuditLog } from './AdminAuditLog';
 import { AdminExport } from './AdminExport';
 
@@ -34,7 +37,7 @@ export const AdminDashboard = () => {
 
       <main className="container mx-auto px-4 py-6">
         <Tabs value={activeTab} onValueChange={setActiveTab}>
-          <TabsList className="grid w-full grid-cols-5 mb-6">
+          <TabsList className="grid w-full grid-cols-7 mb-6">
             <TabsTrigger value="students" className="gap-1 text-xs sm:text-sm">
               <Users className="w-4 h-4" />
               <span className="hidden sm:inline">Students</span>
@@ -43,10 +46,18 @@ export const AdminDashboard = () => {
               <Layers className="w-4 h-4" />
               <span className="hidden sm:inline">Teams</span>
             </TabsTrigger>
+            <TabsTrigger value="formation" className="gap-1 text-xs sm:text-sm">
+              <Wand2 className="w-4 h-4" />
+              <span className="hidden sm:inline">Formation</span>
+            </TabsTrigger>
             <TabsTrigger value="matches" className="gap-1 text-xs sm:text-sm">
               <UserCheck className="w-4 h-4" />
               <span className="hidden sm:inline">Matches</span>
             </TabsTrigger>
+            <TabsTrigger value="skills" className="gap-1 text-xs sm:text-sm">
+              <Tags className="w-4 h-4" />
+              <span className="hidden sm:inline">Skills</span>
+            </TabsTrigger>
             <TabsTrigger value="audit" className="gap-1 text-xs sm:text-sm">
               <ScrollText className="w-4 h-4" />
               <span className="hidden sm:inline">Audit</span>
@@ -59,7 +70,9 @@ export const AdminDashboard = () => {
 
           <TabsContent value="students"><AdminStudents /></TabsContent>
           <TabsContent value="teams"><AdminTeams /></TabsContent>
-          <TabsContent value="matches"><AdminMatches /></TabsContent>
+          <TabsContent value="formation"><AdminTeamFormation /></TabsContent>
+          <TabsContent value="matches" className="space-y-4"><AdminRequestExpiry /><AdminMatches /></TabsContent>
+          <TabsContent value="skills"><AdminSkills /></TabsContent>
           <TabsContent value="audit"><AdminAuditLog /></TabsContent>
           <TabsContent value="export"><AdminExport /></TabsContent>
         </Tabs>
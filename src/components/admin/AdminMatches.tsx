@@ -65,6 +65,8 @@ export const AdminMatches = () => {
     switch (status) {
       case 'accepted': return 'bg-green-500/20 text-green-400 border-green-500/30';
       case 'rejected': return 'bg-destructive/20 text-destructive border-destructive/30';
+      case 'expired':
+      case 'withdrawn': return 'bg-muted text-muted-foreground border-border';
       default: return 'bg-yellow-500/20 text-yellow-400 border-yellow-500/30';
     }
   };
@@ -0,0 +1,123 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Timer, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+
+const EXPIRY_DAY_OPTIONS = [2, 3, 5, 7, 10, 14, 30];
+const REMINDER_HOUR_OPTIONS = [72, 48, 24, 6];
+
+const describeHours = (hours: number) =>
+  hours % 24 === 0 ? `${hours / 24}d before` : `${hours}h before`;
+
+export const AdminRequestExpiry = () => {
+  const [expireAfterDays, setExpireAfterDays] = useState(5);
+  const [reminderHours, setReminderHours] = useState<number[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    const fetchSettings = async () => {
+      const { data, error } = await supabase
+        .from('request_expiry_settings')
+        .select('expire_after_days, reminder_hours')
+        .single();
+
+      if (error) {
+        console.error('Error loading request expiry settings:', error);
+      } else {
+        setExpireAfterDays(data.expire_after_days);
+        setReminderHours(data.reminder_hours);
+      }
+      setLoading(false);
+    };
+    fetchSettings();
+  }, []);
+
+  const toggleReminder = (hours: number) => {
+    setReminderHours(prev =>
+      prev.includes(hours) ? prev.filter(h => h !== hours) : [...prev, hours].sort((a, b) => b - a)
+    );
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const { error } = await supabase
+        .from('request_expiry_settings')
+        .update({
+          expire_after_days: expireAfterDays,
+          reminder_hours: reminderHours,
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', true);
+
+      if (error) throw error;
+      toast.success('Request expiry updated');
+    } catch (error) {
+      console.error('Error saving request expiry settings:', error);
+      toast.error('Failed to save request expiry');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Timer className="w-5 h-5" />
+          Request Expiry
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <Skeleton className="h-16 w-full" />
+        ) : (
+          <div className="flex flex-wrap items-end gap-6">
+            <div className="space-y-2">
+              <Label>Pending requests expire after</Label>
+              <Select value={String(expireAfterDays)} onValueChange={v => setExpireAfterDays(Number(v))}>
+                <SelectTrigger className="w-32">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {EXPIRY_DAY_OPTIONS.map(days => (
+                    <SelectItem key={days} value={String(days)}>{days} days</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Remind both sides</Label>
+              <div className="flex flex-wrap gap-1">
+                {REMINDER_HOUR_OPTIONS.map(hours => (
+                  <Badge
+                    key={hours}
+                    variant={reminderHours.includes(hours) ? 'default' : 'outline'}
+                    className="cursor-pointer"
+                    onClick={() => toggleReminder(hours)}
+                  >
+                    {describeHours(hours)}
+                  </Badge>
+                ))}
+              </div>
+            </div>
+            <Button onClick={handleSave} disabled={saving}>
+              {saving && <Loader2 className="w-4 h-4 mr-1 animate-spin" />}
+              Save
+            </Button>
+          </div>
+        )}
+        <p className="text-xs text-muted-foreground mt-3">
+          Applies to requests sent from now on. Reminders go out before the deadline; unanswered requests then move to expired.
+        </p>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,242 @@
+import { useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Tags, Plus, Pencil, Trash2, Check, X } from 'lucide-react';
+import { Skeleton } from '@/components/ui/skeleton';
+import { toast } from 'sonner';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { useSkillTaxonomy } from '@/hooks/useSkillTaxonomy';
+import { queryKeys } from '@/lib/queryClient';
+import { Skill } from '@/lib/skills';
+
+interface SkillDraft {
+  name: string;
+  category: string;
+  aliases: string;
+}
+
+const EMPTY_DRAFT: SkillDraft = { name: '', category: '', aliases: '' };
+
+const toDraft = (skill: Skill): SkillDraft => ({
+  name: skill.name,
+  category: skill.category,
+  aliases: skill.aliases.join(', '),
+});
+
+const fromDraft = (draft: SkillDraft) => ({
+  name: draft.name.trim(),
+  category: draft.category.trim() || 'Other',
+  aliases: draft.aliases.split(',').map(a => a.trim()).filter(Boolean),
+});
+
+export const AdminSkills = () => {
+  const queryClient = useQueryClient();
+  const { skills, loading } = useSkillTaxonomy();
+  const [newSkill, setNewSkill] = useState<SkillDraft>(EMPTY_DRAFT);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editDraft, setEditDraft] = useState<SkillDraft>(EMPTY_DRAFT);
+  const [saving, setSaving] = useState(false);
+
+  const refresh = () => queryClient.invalidateQueries({ queryKey: queryKeys.skills.all });
+
+  const handleAdd = async () => {
+    if (!newSkill.name.trim()) return;
+
+    setSaving(true);
+    try {
+      const { error } = await supabase.from('skills').insert(fromDraft(newSkill));
+      if (error) throw error;
+
+      toast.success(`Added "${newSkill.name.trim()}"`);
+      setNewSkill(EMPTY_DRAFT);
+      refresh();
+    } catch (error) {
+      console.error('Error adding skill:', error);
+      toast.error('Failed to add skill', { description: 'The name may already exist' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleUpdate = async (skillId: string) => {
+    if (!editDraft.name.trim()) return;
+
+    setSaving(true);
+    try {
+      const { error } = await supabase.from('skills').update(fromDraft(editDraft)).eq('id', skillId);
+      if (error) throw error;
+
+      toast.success('Skill updated');
+      setEditingId(null);
+      refresh();
+    } catch (error) {
+      console.error('Error updating skill:', error);
+      toast.error('Failed to update skill');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (skill: Skill) => {
+    try {
+      const { error } = await supabase.from('skills').delete().eq('id', skill.id);
+      if (error) throw error;
+
+      toast.success(`Removed "${skill.name}"`);
+      refresh();
+    } catch (error) {
+      console.error('Error deleting skill:', error);
+      toast.error('Failed to delete skill');
+    }
+  };
+
+  const startEditing = (skill: Skill) => {
+    setEditingId(skill.id);
+    setEditDraft(toDraft(skill));
+  };
+
+  const renderDraftInputs = (draft: SkillDraft, onChange: (draft: SkillDraft) => void) => (
+    <>
+      <TableCell>
+        <Input
+          value={draft.name}
+          onChange={e => onChange({ ...draft, name: e.target.value })}
+          placeholder="Skill name"
+          maxLength={50}
+          className="h-8"
+        />
+      </TableCell>
+      <TableCell>
+        <Input
+          value={draft.category}
+          onChange={e => onChange({ ...draft, category: e.target.value })}
+          placeholder="Category"
+          className="h-8"
+        />
+      </TableCell>
+      <TableCell>
+        <Input
+          value={draft.aliases}
+          onChange={e => onChange({ ...draft, aliases: e.target.value })}
+          placeholder="Comma-separated aliases"
+          className="h-8"
+        />
+      </TableCell>
+    </>
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Tags className="w-5 h-5" />
+          Skills ({skills.length})
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="space-y-2">
+            {Array.from({ length: 5 }).map((_, i) => <Skeleton key={i} className="h-12 w-full" />)}
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Skill</TableHead>
+                  <TableHead>Category</TableHead>
+                  <TableHead>Aliases</TableHead>
+                  <TableHead>Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                <TableRow>
+                  {renderDraftInputs(newSkill, setNewSkill)}
+                  <TableCell>
+                    <Button size="sm" onClick={handleAdd} disabled={saving || !newSkill.name.trim()}>
+                      <Plus className="w-4 h-4 mr-1" />
+                      Add
+                    </Button>
+                  </TableCell>
+                </TableRow>
+                {skills.map(skill =>
+                  editingId === skill.id ? (
+                    <TableRow key={skill.id}>
+                      {renderDraftInputs(editDraft, setEditDraft)}
+                      <TableCell className="whitespace-nowrap">
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => handleUpdate(skill.id)}
+                          disabled={saving || !editDraft.name.trim()}
+                        >
+                          <Check className="w-4 h-4" />
+                        </Button>
+                        <Button variant="ghost" size="icon" onClick={() => setEditingId(null)}>
+                          <X className="w-4 h-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    <TableRow key={skill.id}>
+                      <TableCell className="font-medium">{skill.name}</TableCell>
+                      <TableCell><Badge variant="secondary">{skill.category}</Badge></TableCell>
+                      <TableCell className="text-sm text-muted-foreground max-w-[260px] truncate">
+                        {skill.aliases.join(', ') || '—'}
+                      </TableCell>
+                      <TableCell className="whitespace-nowrap">
+                        <Button variant="ghost" size="icon" onClick={() => startEditing(skill)}>
+                          <Pencil className="w-4 h-4" />
+                        </Button>
+                        <AlertDialog>
+                          <AlertDialogTrigger asChild>
+                            <Button variant="ghost" size="icon" className="text-destructive hover:text-destructive">
+                              <Trash2 className="w-4 h-4" />
+                            </Button>
+                          </AlertDialogTrigger>
+                          <AlertDialogContent>
+                            <AlertDialogHeader>
+                              <AlertDialogTitle>Remove "{skill.name}"?</AlertDialogTitle>
+                              <AlertDialogDescription>
+                                Existing profiles and teams keep the skill as free text, but its
+                                aliases will no longer be mapped to it.
+                              </AlertDialogDescription>
+                            </AlertDialogHeader>
+                            <AlertDialogFooter>
+                              <AlertDialogCancel>Cancel</AlertDialogCancel>
+                              <AlertDialogAction
+                                className="bg-destructive text-destructive-foreground"
+                                onClick={() => handleDelete(skill)}
+                              >
+                                Remove Skill
+                              </AlertDialogAction>
+                            </AlertDialogFooter>
+                          </AlertDialogContent>
+                        </AlertDialog>
+                      </TableCell>
+                    </TableRow>
+                  )
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
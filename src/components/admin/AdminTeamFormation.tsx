@@ -0,0 +1,356 @@
+import { useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Wand2, Loader2, Plus, AlertTriangle, Check } from 'lucide-react';
+import { toast } from 'sonner';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { Studio, UserProfile } from '@/types';
+import { studioInfo } from '@/data/mockData';
+import { transformProfile, transformTeam } from '@/lib/transforms';
+import {
+  DEFAULT_FORMATION_OPTIONS,
+  FormationLike,
+  FormationOptions,
+  FormationProposal,
+  ProposedTeam,
+  getProposedTeamIssues,
+  proposeTeamFormation,
+} from '@/lib/teamFormation';
+
+const UNASSIGNED = 'unassigned';
+
+interface FormationData {
+  profiles: Record<string, unknown>[];
+  team_members: { team_id: string; user_id: string }[];
+  teams: Record<string, unknown>[];
+  likes: { user_id: string; target_user_id: string; team_id: string | null; match_type: string }[];
+}
+
+export const AdminTeamFormation = () => {
+  const [options, setOptions] = useState<FormationOptions>(DEFAULT_FORMATION_OPTIONS);
+  const [proposal, setProposal] = useState<FormationProposal | null>(null);
+  const [generating, setGenerating] = useState(false);
+  const [committing, setCommitting] = useState(false);
+
+  const handleGenerate = async () => {
+    if (options.minSize < 1 || options.maxSize < options.minSize) {
+      toast.error('Maximum size must be at least the minimum size');
+      return;
+    }
+
+    setGenerating(true);
+    try {
+      const { data, error } = await supabase.functions.invoke('admin-actions', {
+        body: { action: 'team_formation_data' },
+      });
+
+      if (error) throw error;
+      const { profiles, team_members, teams, likes } = data as FormationData;
+
+      const profilesById = new Map<string, UserProfile>();
+      profiles.forEach(p => {
+        const profile = transformProfile(p);
+        profilesById.set(profile.id, profile);
+      });
+
+      const membersByTeam = new Map<string, UserProfile[]>();
+      const assigned = new Set<string>();
+      team_members.forEach(m => {
+        assigned.add(m.user_id);
+        const profile = profilesById.get(m.user_id);
+        if (!profile) return;
+        membersByTeam.set(m.team_id, [...(membersByTeam.get(m.team_id) || []), profile]);
+      });
+
+      const students = [...profilesById.values()].filter(p => !assigned.has(p.id));
+      const existingTeams = teams.map(t => {
+        const team = transformTeam(t);
+        return { ...team, members: membersByTeam.get(team.id) || [] };
+      });
+      const formationLikes: FormationLike[] = likes.map(l => ({
+        from: l.user_id,
+        to: l.match_type === 'individual_to_team' && l.team_id ? l.team_id : l.target_user_id,
+      }));
+
+      setProposal(proposeTeamFormation(students, existingTeams, formationLikes, options));
+    } catch (error) {
+      console.error('Error generating team formation:', error);
+      toast.error('Failed to generate proposal');
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  const updateTeam = (key: string, changes: Partial<Pick<ProposedTeam, 'name' | 'studio'>>) => {
+    setProposal(prev => prev && {
+      ...prev,
+      teams: prev.teams.map(t => (t.key === key ? { ...t, ...changes } : t)),
+    });
+  };
+
+  const handleAddTeam = () => {
+    setProposal(prev => prev && {
+      ...prev,
+      teams: [
+        ...prev.teams,
+        {
+          key: `new-${Date.now()}`,
+          name: `New Team ${prev.teams.filter(t => !t.teamId).length + 1}`,
+          studio: 'startup',
+          existingMembers: [],
+          newMembers: [],
+        },
+      ],
+    });
+  };
+
+  const moveStudent = (student: UserProfile, toKey: string) => {
+    setProposal(prev => {
+      if (!prev) return prev;
+      const without = (list: UserProfile[]) => list.filter(s => s.id !== student.id);
+
+      return {
+        teams: prev.teams.map(t => ({
+          ...t,
+          newMembers: t.key === toKey ? [...without(t.newMembers), student] : without(t.newMembers),
+        })),
+        unassigned: toKey === UNASSIGNED ? [...without(prev.unassigned), student] : without(prev.unassigned),
+      };
+    });
+  };
+
+  const handleCommit = async () => {
+    if (!proposal) return;
+
+    setCommitting(true);
+    try {
+      const { data, error } = await supabase.functions.invoke('admin-actions', {
+        body: {
+          action: 'commit_team_formation',
+          max_size: options.maxSize,
+          teams: proposal.teams
+            .filter(t => t.newMembers.length > 0)
+            .map(t => ({
+              team_id: t.teamId ?? null,
+              name: t.name,
+              studio: t.studio,
+              member_ids: t.newMembers.map(m => m.id),
+            })),
+        },
+      });
+
+      if (error) throw error;
+
+      toast.success(`Assigned ${data.students_assigned} students`, {
+        description: `${data.teams_created} new team${data.teams_created !== 1 ? 's' : ''} created`,
+      });
+      setProposal(null);
+    } catch (error) {
+      console.error('Error committing team formation:', error);
+      toast.error('Failed to commit team formation');
+    } finally {
+      setCommitting(false);
+    }
+  };
+
+  const assignedCount = proposal?.teams.reduce((sum, t) => sum + t.newMembers.length, 0) ?? 0;
+
+  const renderMoveSelect = (student: UserProfile, currentKey: string) => (
+    <Select value={currentKey} onValueChange={key => moveStudent(student, key)}>
+      <SelectTrigger className="h-8 w-40 text-xs">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {proposal?.teams.map(t => (
+          <SelectItem key={t.key} value={t.key}>{t.name}</SelectItem>
+        ))}
+        <SelectItem value={UNASSIGNED}>Unassigned</SelectItem>
+      </SelectContent>
+    </Select>
+  );
+
+  const renderStudentRow = (student: UserProfile, currentKey: string) => (
+    <div key={student.id} className="flex items-center justify-between gap-2 py-1">
+      <div className="min-w-0">
+        <p className="text-sm font-medium truncate">{student.name}</p>
+        <p className="text-xs text-muted-foreground truncate">
+          {student.program} · {student.studioPreferences.map(s => studioInfo[s]?.name || s).join(', ')}
+        </p>
+      </div>
+      {renderMoveSelect(student, currentKey)}
+    </div>
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-wrap items-end justify-between gap-4">
+          <CardTitle className="flex items-center gap-2">
+            <Wand2 className="w-5 h-5" />
+            Team Formation
+          </CardTitle>
+          <div className="flex items-end gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="formation-min" className="text-xs">Min size</Label>
+              <Input
+                id="formation-min"
+                type="number"
+                min={1}
+                value={options.minSize}
+                onChange={e => setOptions(prev => ({ ...prev, minSize: Number(e.target.value) }))}
+                className="w-20"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="formation-max" className="text-xs">Max size</Label>
+              <Input
+                id="formation-max"
+                type="number"
+                min={1}
+                value={options.maxSize}
+                onChange={e => setOptions(prev => ({ ...prev, maxSize: Number(e.target.value) }))}
+                className="w-20"
+              />
+            </div>
+            <Button onClick={handleGenerate} disabled={generating || committing}>
+              {generating ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Wand2 className="w-4 h-4 mr-2" />}
+              {proposal ? 'Regenerate' : 'Generate proposal'}
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {!proposal ? (
+          <p className="text-center text-muted-foreground py-8">
+            Generate a proposal to place every student without a team into new or under-filled teams.
+          </p>
+        ) : (
+          <div className="space-y-4">
+            <div className="grid gap-4 md:grid-cols-2 xl:grid-cols-3">
+              {proposal.teams.map(team => {
+                const issues = getProposedTeamIssues(team, options);
+                const size = team.existingMembers.length + team.newMembers.length;
+
+                return (
+                  <Card key={team.key} className="border-border/60">
+                    <CardContent className="p-4 space-y-3">
+                      <div className="flex items-center gap-2">
+                        <Input
+                          value={team.name}
+                          onChange={e => updateTeam(team.key, { name: e.target.value })}
+                          disabled={!!team.teamId}
+                          className="h-8"
+                        />
+                        <Badge variant={team.teamId ? 'secondary' : 'default'}>
+                          {team.teamId ? 'Existing' : 'New'}
+                        </Badge>
+                      </div>
+                      <div className="flex items-center justify-between gap-2">
+                        <Select
+                          value={team.studio}
+                          onValueChange={studio => updateTeam(team.key, { studio: studio as Studio })}
+                          disabled={!!team.teamId}
+                        >
+                          <SelectTrigger className="h-8 w-40 text-xs">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {(Object.keys(studioInfo) as Studio[]).map(s => (
+                              <SelectItem key={s} value={s}>{studioInfo[s].name}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <span className="text-xs text-muted-foreground">{size} members</span>
+                      </div>
+
+                      {issues.length > 0 ? (
+                        <div className="flex flex-wrap gap-1">
+                          {issues.map(issue => (
+                            <Badge key={issue} variant="outline" className="text-[10px] text-amber-600 border-amber-500/40">
+                              <AlertTriangle className="w-3 h-3 mr-1" />
+                              {issue}
+                            </Badge>
+                          ))}
+                        </div>
+                      ) : (
+                        <Badge variant="outline" className="text-[10px] text-green-600 border-green-500/40">
+                          <Check className="w-3 h-3 mr-1" />
+                          Balanced
+                        </Badge>
+                      )}
+
+                      <div className="divide-y divide-border/50">
+                        {team.existingMembers.map(member => (
+                          <div key={member.id} className="py-1">
+                            <p className="text-sm text-muted-foreground truncate">{member.name}</p>
+                            <p className="text-xs text-muted-foreground/70">{member.program} · already on team</p>
+                          </div>
+                        ))}
+                        {team.newMembers.map(student => renderStudentRow(student, team.key))}
+                      </div>
+                    </CardContent>
+                  </Card>
+                );
+              })}
+            </div>
+
+            <Button variant="outline" size="sm" onClick={handleAddTeam}>
+              <Plus className="w-4 h-4 mr-1" />
+              Add team
+            </Button>
+
+            {proposal.unassigned.length > 0 && (
+              <Card className="border-dashed">
+                <CardContent className="p-4">
+                  <p className="text-sm font-medium mb-2">Unassigned ({proposal.unassigned.length})</p>
+                  <div className="divide-y divide-border/50">
+                    {proposal.unassigned.map(student => renderStudentRow(student, UNASSIGNED))}
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+
+            <div className="flex justify-end">
+              <AlertDialog>
+                <AlertDialogTrigger asChild>
+                  <Button disabled={committing || assignedCount === 0}>
+                    {committing && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                    Commit {assignedCount} assignment{assignedCount !== 1 ? 's' : ''}
+                  </Button>
+                </AlertDialogTrigger>
+                <AlertDialogContent>
+                  <AlertDialogHeader>
+                    <AlertDialogTitle>Commit team formation?</AlertDialogTitle>
+                    <AlertDialogDescription>
+                      {assignedCount} students will be added to their proposed teams. New teams are created
+                      with the first listed student as owner. Nothing is saved if any assignment fails.
+                    </AlertDialogDescription>
+                  </AlertDialogHeader>
+                  <AlertDialogFooter>
+                    <AlertDialogCancel>Cancel</AlertDialogCancel>
+                    <AlertDialogAction onClick={handleCommit}>Commit</AlertDialogAction>
+                  </AlertDialogFooter>
+                </AlertDialogContent>
+              </AlertDialog>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -1,5 +1,5 @@
 import { motion } from 'framer-motion';
-import { MessageCircle, Users, ChevronLeft, UserPlus } from 'lucide-react';
+import { MessageCircle, Users, ChevronLeft, UserPlus, Heart, Merge } from 'lucide-react';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -32,12 +32,50 @@ export const ChatList = ({
   onTabChange,
   currentUserId,
 }: ChatListProps) => {
-  // Show pending matches that the user can start chatting with
-  const pendingMatches = matches.filter(m => m.status === 'pending' || m.status === 'matched');
+  const getOtherUserId = (match: Match) =>
+    match.user_id === currentUserId ? match.target_user_id : match.user_id;
+
+  // Mutual matches: both sides liked each other. Each pair has two rows,
+  // so keep only the earliest (the one the shared conversation hangs off).
+  const mutualMatches = matches
+    .filter(m => m.status === 'matched')
+    .sort((a, b) => a.created_at.localeCompare(b.created_at))
+    .filter((m, index, all) => all.findIndex(o => getOtherUserId(o) === getOtherUserId(m)) === index);
+  const mutualUserIds = new Set(mutualMatches.map(getOtherUserId));
+
+  // One-sided interest: pending likes in either direction
+  const oneSidedMatches = matches.filter(
+    m => m.status === 'pending' && !mutualUserIds.has(getOtherUserId(m))
+  );
+  const matchesTabCount = mutualMatches.length + oneSidedMatches.length;
   
   // Calculate total unread count for chats tab badge
   const totalUnread = Object.values(unreadCounts).reduce((sum, count) => sum + count, 0);
 
+  const renderMatchRow = (match: Match, status: React.ReactNode) => (
+    <motion.button
+      key={match.id}
+      onClick={() => onStartChat(match)}
+      className="w-full p-4 flex items-center gap-3 hover:bg-accent/50 transition-colors text-left"
+      whileTap={{ scale: 0.98 }}
+    >
+      <InitialsAvatar
+        name={match.target_profile?.name || 'Unknown'}
+        src={match.target_profile?.avatar}
+        className="w-12 h-12 rounded-full text-lg"
+      />
+      <div className="flex-1 min-w-0">
+        <h3 className="font-medium text-foreground truncate">
+          {match.target_profile?.name}
+        </h3>
+        <p className="text-sm text-muted-foreground truncate">
+          {match.target_profile?.program} • Tap to start chatting
+        </p>
+      </div>
+      {status}
+    </motion.button>
+  );
+
   return (
     <div className="flex flex-col h-full bg-background">
       {/* Header */}
@@ -78,9 +116,9 @@ export const ChatList = ({
         >
           <Users className="w-4 h-4 inline mr-2" />
           Matches
-          {pendingMatches.length > 0 && (
+          {matchesTabCount > 0 && (
             <span className="absolute top-2 right-4 w-5 h-5 bg-primary text-primary-foreground rounded-full text-xs flex items-center justify-center">
-              {pendingMatches.length}
+              {matchesTabCount}
             </span>
           )}
         </button>
@@ -98,14 +136,19 @@ export const ChatList = ({
             ) : (
               conversations.map((conversation) => {
                 const isJoinRequest = !!conversation.match;
-                const isPending = conversation.match?.status === 'pending';
+                const isMerge = !!conversation.merge;
+                const isPending = (conversation.match || conversation.merge)?.status === 'pending';
                 
                 // Determine display name based on perspective
                 let displayName = '';
                 let displayAvatar = '';
                 let showAsTeam = false;
                 
-                if (isJoinRequest && conversation.match) {
+                if (isMerge) {
+                  // Merge proposals show the team on the other side
+                  displayName = conversation.team?.name || 'Unknown Team';
+                  showAsTeam = true;
+                } else if (isJoinRequest && conversation.match) {
                   // Check if current user is the individual who initiated the request
                   const isCurrentUserTheIndividual = 
                     (conversation.match.match_type === 'individual_to_team' && conversation.match.user_id === currentUserId) ||
@@ -156,6 +199,11 @@ export const ChatList = ({
                           <UserPlus className="w-3 h-3 text-primary-foreground" />
                         </div>
                       )}
+                      {isMerge && (
+                        <div className="absolute -bottom-1 -right-1 w-5 h-5 bg-primary rounded-full flex items-center justify-center">
+                          <Merge className="w-3 h-3 text-primary-foreground" />
+                        </div>
+                      )}
                     </div>
                     <div className="flex-1 min-w-0">
                       <div className="flex items-center gap-2">
@@ -167,6 +215,16 @@ export const ChatList = ({
                             Request
                           </Badge>
                         )}
+                        {isMerge && isPending && (
+                          <Badge variant="secondary" className="text-[10px] px-1.5 py-0">
+                            Merge
+                          </Badge>
+                        )}
+                        {conversation.merge?.status === 'accepted' && (
+                          <Badge className="text-[10px] px-1.5 py-0 bg-green-500/20 text-green-600 dark:text-green-400">
+                            Merged
+                          </Badge>
+                        )}
                         {conversation.match?.status === 'accepted' && (
                           <Badge className="text-[10px] px-1.5 py-0 bg-green-500/20 text-green-600 dark:text-green-400">
                             Joined
@@ -195,37 +253,45 @@ export const ChatList = ({
             )}
           </div>
         ) : (
-          <div className="divide-y divide-border">
-            {pendingMatches.length === 0 ? (
+          <div>
+            {matchesTabCount === 0 ? (
               <div className="p-8 text-center text-muted-foreground">
                 <Users className="w-12 h-12 mx-auto mb-3 opacity-50" />
                 <p>No matches yet</p>
                 <p className="text-sm mt-1">Keep swiping to find your teammates!</p>
               </div>
             ) : (
-              pendingMatches.map((match) => (
-                <motion.button
-                  key={match.id}
-                  onClick={() => onStartChat(match)}
-                  className="w-full p-4 flex items-center gap-3 hover:bg-accent/50 transition-colors text-left"
-                  whileTap={{ scale: 0.98 }}
-                >
-                  <InitialsAvatar
-                    name={match.target_profile?.name || 'Unknown'}
-                    src={match.target_profile?.avatar}
-                    className="w-12 h-12 rounded-full text-lg"
-                  />
-                  <div className="flex-1 min-w-0">
-                    <h3 className="font-medium text-foreground truncate">
-                      {match.target_profile?.name}
+              <>
+                {mutualMatches.length > 0 && (
+                  <div>
+                    <h3 className="px-4 pt-4 pb-2 text-xs font-semibold text-muted-foreground uppercase tracking-wide flex items-center gap-1.5">
+                      <Heart className="w-3 h-3 text-primary fill-primary" />
+                      Mutual matches
                     </h3>
-                    <p className="text-sm text-muted-foreground truncate">
-                      {match.target_profile?.program} • Tap to start chatting
-                    </p>
+                    <div className="divide-y divide-border">
+                      {mutualMatches.map((match) => renderMatchRow(
+                        match,
+                        <Badge className="text-[10px] px-1.5 py-0">Match</Badge>
+                      ))}
+                    </div>
+                  </div>
+                )}
+                {oneSidedMatches.length > 0 && (
+                  <div>
+                    <h3 className="px-4 pt-4 pb-2 text-xs font-semibold text-muted-foreground uppercase tracking-wide">
+                      Interest
+                    </h3>
+                    <div className="divide-y divide-border">
+                      {oneSidedMatches.map((match) => renderMatchRow(
+                        match,
+                        <span className="text-xs text-muted-foreground">
+                          {match.target_user_id === currentUserId ? 'Likes you' : 'You liked'}
+                        </span>
+                      ))}
+                    </div>
                   </div>
-                  <span className="text-xs text-primary font-medium">NEW</span>
-                </motion.button>
-              ))
+                )}
+              </>
             )}
           </div>
         )}
@@ -7,6 +7,8 @@ import { supabase } from '@/integrations/supabase/client';
 import { toast } from 'sonner';
 import { Loader2 } from 'lucide-react';
 import { messageSchema, validateInput } from '@/lib/validation';
+import { normalizeApplicationAnswers } from '@/lib/applicationQuestions';
+import { JoinRequestResolution } from '@/lib/joinVotes';
 
 interface ChatModalProps {
   isOpen: boolean;
@@ -60,10 +62,11 @@ export const ChatModal = ({ isOpen, onClose, currentUserId, onMemberAdded }: Cha
         (userMatchesRes.data || []).forEach((m: any) => allMatchesMap.set(m.id, m));
 
         if (teamIds.length > 0) {
+          const teamIdList = teamIds.join(',');
           const { data: teamMatches } = await supabase
             .from('matches')
             .select('*')
-            .in('team_id', teamIds);
+            .or(`team_id.in.(${teamIdList}),target_team_id.in.(${teamIdList})`);
           (teamMatches || []).forEach((m: any) => allMatchesMap.set(m.id, m));
         }
 
@@ -96,6 +99,7 @@ export const ChatModal = ({ isOpen, onClose, currentUserId, onMemberAdded }: Cha
           userIdsNeeded.add(m.user_id);
           userIdsNeeded.add(m.target_user_id);
           if (m.team_id) teamIdsNeeded.add(m.team_id);
+          if (m.target_team_id) teamIdsNeeded.add(m.target_team_id);
         });
         userIdsNeeded.delete(currentUserId);
 
@@ -111,10 +115,10 @@ export const ChatModal = ({ isOpen, onClose, currentUserId, onMemberAdded }: Cha
             .select('user_id, name, avatar, program')
             .in('user_id', Array.from(userIdsNeeded)),
           teamIdsNeeded.size > 0
-            ? supabase.from('teams').select('id, name').in('id', Array.from(teamIdsNeeded))
+            ? supabase.from('teams').select('id, name, created_by, join_vote_quorum').in('id', Array.from(teamIdsNeeded))
             : Promise.resolve({ data: [] }),
           teamIdsNeeded.size > 0
-            ? supabase.from('team_members').select('team_id').in('team_id', Array.from(teamIdsNeeded)).eq('status', 'confirmed')
+            ? supabase.from('team_members').select('team_id, user_id, role').in('team_id', Array.from(teamIdsNeeded)).eq('status', 'confirmed')
             : Promise.resolve({ data: [] }),
         ]);
 
@@ -144,8 +148,10 @@ export const ChatModal = ({ isOpen, onClose, currentUserId, onMemberAdded }: Cha
         (teamsRes.data || []).forEach((t: any) => teamsMap.set(t.id, t));
 
         const memberCountMap = new Map<string, number>();
+        const membersByTeam = new Map<string, { user_id: string; role: string }[]>();
         (memberCountsRes.data || []).forEach((row: any) => {
           memberCountMap.set(row.team_id, (memberCountMap.get(row.team_id) || 0) + 1);
+          membersByTeam.set(row.team_id, [...(membersByTeam.get(row.team_id) || []), row]);
         });
 
         const matchesById = new Map<string, any>();
@@ -163,11 +169,36 @@ export const ChatModal = ({ isOpen, onClose, currentUserId, onMemberAdded }: Cha
           let otherUser = undefined;
           let team = undefined;
           let match = undefined;
+          let merge = undefined;
 
           if (conv.match_id) {
             const matchData = matchesById.get(conv.match_id);
             if (matchData) {
-              if (matchData.match_type === 'individual_to_individual') {
+              if (matchData.match_type === 'team_to_team') {
+                const proposingTeam = matchData.team_id ? teamsMap.get(matchData.team_id) : null;
+                const targetTeam = matchData.target_team_id ? teamsMap.get(matchData.target_team_id) : null;
+
+                merge = {
+                  id: matchData.id,
+                  user_id: matchData.user_id,
+                  team_id: matchData.team_id,
+                  target_team_id: matchData.target_team_id,
+                  status: matchData.status as 'pending' | 'matched' | 'rejected' | 'accepted' | 'expired',
+                  team: proposingTeam ? { id: proposingTeam.id, name: proposingTeam.name, created_by: proposingTeam.created_by } : undefined,
+                  target_team: targetTeam ? {
+                    id: targetTeam.id,
+                    name: targetTeam.name,
+                    created_by: targetTeam.created_by,
+                    admin_ids: (membersByTeam.get(targetTeam.id) || []).filter(m => m.role === 'admin').map(m => m.user_id),
+                  } : undefined,
+                };
+
+                // Show the team on the other side of the proposal
+                const otherTeam = proposingTeam && teamIds.includes(proposingTeam.id) ? targetTeam : proposingTeam;
+                if (otherTeam) {
+                  team = { id: otherTeam.id, name: otherTeam.name, member_count: memberCountMap.get(otherTeam.id) || 0 };
+                }
+              } else if (matchData.match_type === 'individual_to_individual') {
                 const otherUserId = matchData.user_id === currentUserId
                   ? matchData.target_user_id : matchData.user_id;
                 const profile = profilesMap.get(otherUserId);
@@ -186,12 +217,23 @@ export const ChatModal = ({ isOpen, onClose, currentUserId, onMemberAdded }: Cha
                   target_user_id: matchData.target_user_id,
                   team_id: matchData.team_id,
                   match_type: matchData.match_type as 'team_to_individual' | 'individual_to_team',
-                  status: matchData.status as 'pending' | 'matched' | 'rejected' | 'accepted',
-                  team: teamData ? { id: teamData.id, name: teamData.name } : undefined,
+                  status: matchData.status as 'pending' | 'matched' | 'rejected' | 'accepted' | 'expired',
+                  team: teamData ? {
+                    id: teamData.id,
+                    name: teamData.name,
+                    created_by: teamData.created_by,
+                    join_vote_quorum: teamData.join_vote_quorum,
+                    members: (membersByTeam.get(teamData.id) || []).map(m => ({
+                      id: m.user_id,
+                      name: m.user_id === currentUserId ? 'You' : profilesMap.get(m.user_id)?.name || 'Member',
+                      role: m.role,
+                    })),
+                  } : undefined,
                   individual_profile: individualProfile ? {
                     id: individualProfile.user_id, name: individualProfile.name,
                     avatar: individualProfile.avatar || '', program: individualProfile.program,
                   } : undefined,
+                  application_answers: normalizeApplicationAnswers(matchData.application_answers),
                 };
 
                 if (individualProfile) {
@@ -220,7 +262,7 @@ export const ChatModal = ({ isOpen, onClose, currentUserId, onMemberAdded }: Cha
 
           return {
             ...conv, type: conv.type as 'direct' | 'team' | 'match',
-            other_user: otherUser, team, match,
+            other_user: otherUser, team, match, merge,
           };
         });
 
@@ -257,7 +299,7 @@ export const ChatModal = ({ isOpen, onClose, currentUserId, onMemberAdded }: Cha
         return {
           ...match,
           match_type: match.match_type as 'individual' | 'individual_to_individual' | 'team_to_individual' | 'individual_to_team',
-          status: match.status as 'pending' | 'matched' | 'rejected' | 'accepted',
+          status: match.status as 'pending' | 'matched' | 'rejected' | 'accepted' | 'expired',
           target_profile: profile ? {
             id: profile.user_id, name: profile.name, avatar: profile.avatar || '', program: profile.program,
           } : undefined,
@@ -459,94 +501,37 @@ export const ChatModal = ({ isOpen, onClose, currentUserId, onMemberAdded }: Cha
     }
   };
 
+  const updateJoinRequestStatus = (status: 'accepted' | 'rejected') => {
+    if (!joinRequestMatch) return;
+    const updated = { ...joinRequestMatch, status };
+    setJoinRequestMatch(updated);
+    setConversations(prev => prev.map(c =>
+      c.id === selectedConversation?.id ? { ...c, match: updated } : c
+    ));
+  };
+
   const handleAcceptRequest = async () => {
     if (!joinRequestMatch) return;
 
     try {
-      // Determine who to add to the team
-      const userToAdd = joinRequestMatch.match_type === 'team_to_individual'
-        ? joinRequestMatch.target_user_id
-        : joinRequestMatch.user_id;
-
-      // Check if user is already a team member (prevent duplicates)
-      const { data: existingMember } = await supabase
-        .from('team_members')
-        .select('id')
-        .eq('team_id', joinRequestMatch.team_id)
-        .eq('user_id', userToAdd)
-        .eq('status', 'confirmed')
-        .maybeSingle();
-
-      if (existingMember) {
-        toast.error('This user is already a team member');
-        // Still update the match status to accepted
-        await supabase
-          .from('matches')
-          .update({ status: 'accepted' })
-          .eq('id', joinRequestMatch.id);
-        
-        setJoinRequestMatch({ ...joinRequestMatch, status: 'accepted' });
-        return;
-      }
-
-      // Update match status
-      const { error: matchError } = await supabase
-        .from('matches')
-        .update({ status: 'accepted' })
-        .eq('id', joinRequestMatch.id);
-
-      if (matchError) throw matchError;
-
-      // Add user to team
-      const { error: memberError } = await supabase
-        .from('team_members')
-        .insert({
-          team_id: joinRequestMatch.team_id,
-          user_id: userToAdd,
-          role: 'member',
-          status: 'confirmed',
-        });
+      const { data, error } = await supabase.rpc('respond_to_join_request', {
+        p_match_id: joinRequestMatch.id,
+        p_accept: true,
+      });
 
-      if (memberError) throw memberError;
+      if (error) throw error;
 
-      // Add user to team conversation (check for duplicates)
-      const { data: teamConv } = await supabase
-        .from('conversations')
-        .select('id')
-        .eq('team_id', joinRequestMatch.team_id)
-        .eq('type', 'team')
-        .maybeSingle();
-
-      if (teamConv) {
-        // Check if already a participant
-        const { data: existingParticipant } = await supabase
-          .from('conversation_participants')
-          .select('id')
-          .eq('conversation_id', teamConv.id)
-          .eq('user_id', userToAdd)
-          .maybeSingle();
-
-        if (!existingParticipant) {
-          await supabase
-            .from('conversation_participants')
-            .insert({
-              conversation_id: teamConv.id,
-              user_id: userToAdd,
-            });
-        }
+      const result = data as unknown as JoinRequestResolution;
+      if (result.reason === 'already_on_team') {
+        updateJoinRequestStatus('rejected');
+        toast.info(joinRequestMatch.match_type === 'team_to_individual'
+          ? "You're already on another team. Leave it before joining this one"
+          : 'They already joined another team - request closed');
+        return;
       }
 
-      // Update local state
-      setJoinRequestMatch({ ...joinRequestMatch, status: 'accepted' });
-      
-      // Update conversation in list
-      setConversations(prev => prev.map(c => 
-        c.id === selectedConversation?.id 
-          ? { ...c, match: { ...joinRequestMatch, status: 'accepted' as const } }
-          : c
-      ));
-
-      toast.success('Member added to team!');
+      updateJoinRequestStatus('accepted');
+      toast.success(joinRequestMatch.match_type === 'team_to_individual' ? 'Joined the team!' : 'Member added to team!');
       onMemberAdded?.();
     } catch (error) {
       console.error('Error accepting request:', error);
@@ -554,25 +539,23 @@ export const ChatModal = ({ isOpen, onClose, currentUserId, onMemberAdded }: Cha
     }
   };
 
+  const handleJoinVoteResolved = (status: 'accepted' | 'rejected') => {
+    updateJoinRequestStatus(status);
+    if (status === 'accepted') onMemberAdded?.();
+  };
+
   const handleRejectRequest = async () => {
     if (!joinRequestMatch) return;
 
     try {
-      const { error } = await supabase
-        .from('matches')
-        .update({ status: 'rejected' })
-        .eq('id', joinRequestMatch.id);
+      const { error } = await supabase.rpc('respond_to_join_request', {
+        p_match_id: joinRequestMatch.id,
+        p_accept: false,
+      });
 
       if (error) throw error;
 
-      setJoinRequestMatch({ ...joinRequestMatch, status: 'rejected' });
-      
-      setConversations(prev => prev.map(c => 
-        c.id === selectedConversation?.id 
-          ? { ...c, match: { ...joinRequestMatch, status: 'rejected' as const } }
-          : c
-      ));
-
+      updateJoinRequestStatus('rejected');
       toast.info('Request declined');
     } catch (error) {
       console.error('Error rejecting request:', error);
@@ -580,6 +563,52 @@ export const ChatModal = ({ isOpen, onClose, currentUserId, onMemberAdded }: Cha
     }
   };
 
+  const updateSelectedMerge = (status: 'accepted' | 'rejected') => {
+    if (!selectedConversation?.merge) return;
+    const updated = { ...selectedConversation, merge: { ...selectedConversation.merge, status } };
+    setSelectedConversation(updated);
+    setConversations(prev => prev.map(c => c.id === updated.id ? updated : c));
+  };
+
+  const handleAcceptMerge = async () => {
+    if (!selectedConversation?.merge) return;
+
+    try {
+      const { error } = await supabase.rpc('respond_to_team_merge', {
+        p_match_id: selectedConversation.merge.id,
+        p_accept: true,
+      });
+
+      if (error) throw error;
+
+      updateSelectedMerge('accepted');
+      toast.success('Teams merged!');
+      onMemberAdded?.();
+    } catch (error) {
+      console.error('Error accepting merge:', error);
+      toast.error('Failed to merge teams');
+    }
+  };
+
+  const handleRejectMerge = async () => {
+    if (!selectedConversation?.merge) return;
+
+    try {
+      const { error } = await supabase.rpc('respond_to_team_merge', {
+        p_match_id: selectedConversation.merge.id,
+        p_accept: false,
+      });
+
+      if (error) throw error;
+
+      updateSelectedMerge('rejected');
+      toast.info('Merge declined');
+    } catch (error) {
+      console.error('Error declining merge:', error);
+      toast.error('Failed to decline merge');
+    }
+  };
+
   const handleBack = () => {
     if (view === 'room') {
       setView('list');
@@ -595,6 +624,11 @@ export const ChatModal = ({ isOpen, onClose, currentUserId, onMemberAdded }: Cha
   const isTeamMember = joinRequestMatch 
     ? userTeamIds.includes(joinRequestMatch.team_id)
     : false;
+  // Every member sees the team's requests; the owner and admins decide
+  const isTeamAdmin = !!joinRequestMatch && (
+    joinRequestMatch.team?.created_by === currentUserId ||
+    !!joinRequestMatch.team?.members?.some(m => m.id === currentUserId && m.role === 'admin')
+  );
 
   return (
     <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
@@ -626,8 +660,12 @@ export const ChatModal = ({ isOpen, onClose, currentUserId, onMemberAdded }: Cha
             isLoading={isLoading}
             joinRequestMatch={joinRequestMatch || undefined}
             isTeamMember={isTeamMember}
+            isTeamAdmin={isTeamAdmin}
             onAcceptRequest={handleAcceptRequest}
             onRejectRequest={handleRejectRequest}
+            onJoinVoteResolved={handleJoinVoteResolved}
+            onAcceptMerge={handleAcceptMerge}
+            onRejectMerge={handleRejectMerge}
           />
         ) : null}
       </DialogContent>
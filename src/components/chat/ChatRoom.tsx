@@ -6,6 +6,7 @@ import { Input } from '@/components/ui/input';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Message, Conversation, JoinRequestMatch } from '@/types/chat';
 import { JoinRequestBanner } from './JoinRequestBanner';
+import { TeamMergeBanner } from './TeamMergeBanner';
 import { InitialsAvatar } from '@/components/InitialsAvatar';
 import { cn } from '@/lib/utils';
 
@@ -19,8 +20,14 @@ interface ChatRoomProps {
   // Join request specific props
   joinRequestMatch?: JoinRequestMatch;
   isTeamMember?: boolean;
+  /** Whether the current user owns or admins the requested team (and so decides) */
+  isTeamAdmin?: boolean;
   onAcceptRequest?: () => Promise<void>;
   onRejectRequest?: () => Promise<void>;
+  onJoinVoteResolved?: (status: 'accepted' | 'rejected') => void;
+  // Team merge specific props
+  onAcceptMerge?: () => Promise<void>;
+  onRejectMerge?: () => Promise<void>;
 }
 
 export const ChatRoom = ({
@@ -32,8 +39,12 @@ export const ChatRoom = ({
   isLoading,
   joinRequestMatch,
   isTeamMember = false,
+  isTeamAdmin = false,
   onAcceptRequest,
   onRejectRequest,
+  onJoinVoteResolved,
+  onAcceptMerge,
+  onRejectMerge,
 }: ChatRoomProps) => {
   const [newMessage, setNewMessage] = useState('');
   const scrollRef = useRef<HTMLDivElement>(null);
@@ -61,11 +72,17 @@ export const ChatRoom = ({
     }
   };
 
-  const chatName = (conversation.type === 'direct' || conversation.type === 'match')
+  // An expired request keeps its history but takes no new messages
+  const isClosed = joinRequestMatch?.status === 'expired';
+
+  // Merge conversations are match-type but between two teams
+  const isPersonChat = (conversation.type === 'direct' || conversation.type === 'match') && !conversation.merge;
+
+  const chatName = isPersonChat
     ? conversation.other_user?.name 
     : conversation.team?.name;
 
-  const chatAvatar = (conversation.type === 'direct' || conversation.type === 'match')
+  const chatAvatar = isPersonChat
     ? conversation.other_user?.avatar
     : undefined;
 
@@ -86,7 +103,7 @@ export const ChatRoom = ({
         <Button variant="ghost" size="icon" onClick={onBack}>
           <ChevronLeft className="w-5 h-5" />
         </Button>
-        {(conversation.type === 'direct' || conversation.type === 'match') ? (
+        {isPersonChat ? (
           <InitialsAvatar
             name={chatName || 'Unknown'}
             src={chatAvatar}
@@ -113,8 +130,20 @@ export const ChatRoom = ({
           match={joinRequestMatch}
           currentUserId={currentUserId}
           isTeamMember={isTeamMember}
+          isTeamAdmin={isTeamAdmin}
           onAccept={onAcceptRequest}
           onReject={onRejectRequest}
+          onVoteResolved={onJoinVoteResolved}
+        />
+      )}
+
+      {/* Team Merge Banner */}
+      {conversation.merge && onAcceptMerge && onRejectMerge && (
+        <TeamMergeBanner
+          merge={conversation.merge}
+          currentUserId={currentUserId}
+          onAccept={onAcceptMerge}
+          onReject={onRejectMerge}
         />
       )}
 
@@ -170,7 +199,7 @@ export const ChatRoom = ({
                             : "bg-muted text-foreground rounded-bl-md"
                         )}
                       >
-                        {!isOwn && conversation.type === 'team' && showAvatar && (
+                        {!isOwn && !isPersonChat && showAvatar && (
                           <p className="text-xs font-medium mb-1 opacity-70">
                             {message.sender?.name}
                           </p>
@@ -212,14 +241,14 @@ export const ChatRoom = ({
             value={newMessage}
             onChange={(e) => setNewMessage(e.target.value)}
             onKeyPress={handleKeyPress}
-            placeholder="Type a message..."
+            placeholder={isClosed ? 'This request has expired' : 'Type a message...'}
             className="flex-1 rounded-full bg-muted border-0"
-            disabled={isLoading}
+            disabled={isLoading || isClosed}
           />
           <Button 
             size="icon" 
             onClick={handleSend}
-            disabled={!newMessage.trim() || isLoading}
+            disabled={!newMessage.trim() || isLoading || isClosed}
             className="rounded-full w-10 h-10"
           >
             <Send className="w-4 h-4" />
@@ -3,26 +3,35 @@ import { Check, X, Loader2, UserPlus, Users } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { JoinRequestMatch } from '@/types/chat';
 import { motion } from 'framer-motion';
+import { JoinVotePanel } from '@/components/JoinVotePanel';
+import { ApplicationAnswersList } from '@/components/ApplicationAnswersList';
+import { useJoinRequestVotes } from '@/hooks/useJoinRequestVotes';
+import { JoinVote } from '@/lib/joinVotes';
 
 interface JoinRequestBannerProps {
   match: JoinRequestMatch;
   currentUserId: string;
   isTeamMember: boolean;
+  isTeamAdmin: boolean;
   onAccept: () => Promise<void>;
   onReject: () => Promise<void>;
+  /** Called when a vote closes the request */
+  onVoteResolved?: (status: 'accepted' | 'rejected') => void;
 }
 
 export const JoinRequestBanner = ({
   match,
   currentUserId,
   isTeamMember,
+  isTeamAdmin,
   onAccept,
   onReject,
+  onVoteResolved,
 }: JoinRequestBannerProps) => {
   const [isAccepting, setIsAccepting] = useState(false);
   const [isRejecting, setIsRejecting] = useState(false);
 
-  // Determine who can take action
+  // Determine who can take action - the whole team sees requests, admins decide
   const isTeamSide = isTeamMember;
   const isIndividualSide = match.match_type === 'individual_to_team' 
     ? match.user_id === currentUserId 
@@ -33,7 +42,18 @@ export const JoinRequestBanner = ({
   // Individual initiated the request - team needs to accept
   const individualInitiated = match.match_type === 'individual_to_team';
 
-  const canTakeAction = (teamInitiated && isIndividualSide) || (individualInitiated && isTeamSide);
+  // Teams with a quorum vote instead of leaving it to the admins
+  const voteQuorum = match.team?.join_vote_quorum ?? null;
+  const isTeamVote = individualInitiated && isTeamSide && !!voteQuorum && match.status === 'pending';
+  const { votesByMatch, castVote } = useJoinRequestVotes(isTeamVote ? [match.id] : []);
+
+  const canTakeAction = (teamInitiated && isIndividualSide) || (individualInitiated && isTeamAdmin && !voteQuorum);
+  const waitingOnAdmins = individualInitiated && isTeamSide && !isTeamAdmin && !voteQuorum;
+
+  const handleVote = async (vote: JoinVote, comment: string) => {
+    const result = await castVote(match.id, vote, comment);
+    if (result && result.status !== 'pending') onVoteResolved?.(result.status);
+  };
 
   const handleAccept = async () => {
     setIsAccepting(true);
@@ -61,7 +81,9 @@ export const JoinRequestBanner = ({
         className={`px-4 py-3 text-center text-sm font-medium ${
           match.status === 'accepted' 
             ? 'bg-green-500/10 text-green-600 dark:text-green-400' 
-            : 'bg-destructive/10 text-destructive'
+            : match.status === 'expired'
+              ? 'bg-muted text-muted-foreground'
+              : 'bg-destructive/10 text-destructive'
         }`}
       >
         {match.status === 'accepted' ? (
@@ -69,6 +91,8 @@ export const JoinRequestBanner = ({
             <UserPlus className="w-4 h-4" />
             Request accepted! Member added to team.
           </span>
+        ) : match.status === 'expired' ? (
+          'Request expired without an answer'
         ) : (
           'Request was declined'
         )}
@@ -136,12 +160,31 @@ export const JoinRequestBanner = ({
           </div>
         )}
         
-        {!canTakeAction && (
+        {!canTakeAction && !isTeamVote && (
           <span className="text-xs text-muted-foreground bg-muted px-2 py-1 rounded">
-            Waiting for response
+            {waitingOnAdmins ? 'Admins decide' : 'Waiting for response'}
           </span>
         )}
       </div>
+
+      {individualInitiated && match.application_answers && match.application_answers.length > 0 && (
+        <div className="mt-2">
+          <ApplicationAnswersList answers={match.application_answers} />
+        </div>
+      )}
+
+      {isTeamVote && voteQuorum && (
+        <div className="mt-2">
+          <JoinVotePanel
+            votes={votesByMatch[match.id] || []}
+            quorum={voteQuorum}
+            memberIds={(match.team?.members || []).map(m => m.id)}
+            currentUserId={currentUserId}
+            voterNames={Object.fromEntries((match.team?.members || []).map(m => [m.id, m.name]))}
+            onVote={handleVote}
+          />
+        </div>
+      )}
     </motion.div>
   );
 };
@@ -0,0 +1,127 @@
+import { useState } from 'react';
+import { Check, X, Loader2, Merge } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { TeamMergeMatch } from '@/types/chat';
+import { motion } from 'framer-motion';
+
+interface TeamMergeBannerProps {
+  merge: TeamMergeMatch;
+  currentUserId: string;
+  onAccept: () => Promise<void>;
+  onReject: () => Promise<void>;
+}
+
+export const TeamMergeBanner = ({
+  merge,
+  currentUserId,
+  onAccept,
+  onReject,
+}: TeamMergeBannerProps) => {
+  const [isAccepting, setIsAccepting] = useState(false);
+  const [isRejecting, setIsRejecting] = useState(false);
+
+  // The owner or an admin of the team that received the proposal decides
+  const canTakeAction = merge.target_team?.created_by === currentUserId ||
+    !!merge.target_team?.admin_ids?.includes(currentUserId);
+
+  const handleAccept = async () => {
+    setIsAccepting(true);
+    try {
+      await onAccept();
+    } finally {
+      setIsAccepting(false);
+    }
+  };
+
+  const handleReject = async () => {
+    setIsRejecting(true);
+    try {
+      await onReject();
+    } finally {
+      setIsRejecting(false);
+    }
+  };
+
+  if (merge.status !== 'pending') {
+    return (
+      <motion.div
+        initial={{ opacity: 0, y: -10 }}
+        animate={{ opacity: 1, y: 0 }}
+        className={`px-4 py-3 text-center text-sm font-medium ${
+          merge.status === 'accepted'
+            ? 'bg-green-500/10 text-green-600 dark:text-green-400'
+            : merge.status === 'expired'
+              ? 'bg-muted text-muted-foreground'
+              : 'bg-destructive/10 text-destructive'
+        }`}
+      >
+        {merge.status === 'accepted' ? (
+          <span className="flex items-center justify-center gap-2">
+            <Merge className="w-4 h-4" />
+            Teams merged!
+          </span>
+        ) : merge.status === 'expired' ? (
+          'Merge expired without an answer'
+        ) : (
+          'Merge was declined'
+        )}
+      </motion.div>
+    );
+  }
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: -10 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="bg-primary/5 border-b border-primary/20 px-4 py-3"
+    >
+      <div className="flex items-center justify-between gap-3">
+        <div className="flex items-center gap-2 flex-1 min-w-0">
+          <Merge className="w-4 h-4 text-primary shrink-0" />
+          <p className="text-sm text-foreground truncate">
+            <span className="font-medium">{merge.team?.name}</span>
+            {' wants to merge with '}
+            <span className="font-medium">{merge.target_team?.name}</span>
+          </p>
+        </div>
+
+        {canTakeAction ? (
+          <div className="flex items-center gap-2 shrink-0">
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={handleReject}
+              disabled={isAccepting || isRejecting}
+              className="h-8 px-3 text-destructive hover:text-destructive hover:bg-destructive/10"
+            >
+              {isRejecting ? (
+                <Loader2 className="w-4 h-4 animate-spin" />
+              ) : (
+                <X className="w-4 h-4" />
+              )}
+            </Button>
+            <Button
+              size="sm"
+              onClick={handleAccept}
+              disabled={isAccepting || isRejecting}
+              className="h-8 px-4"
+            >
+              {isAccepting ? (
+                <Loader2 className="w-4 h-4 animate-spin" />
+              ) : (
+                <>
+                  <Check className="w-4 h-4 mr-1" />
+                  Merge
+                </>
+              )}
+            </Button>
+          </div>
+        ) : (
+          <span className="text-xs text-muted-foreground bg-muted px-2 py-1 rounded">
+            Waiting for response
+          </span>
+        )}
+      </div>
+    </motion.div>
+  );
+};
@@ -6,6 +6,7 @@ import { PhotoStep } from './steps/PhotoStep';
 import { ProgramStep } from './steps/ProgramStep';
 import { SkillsStep } from './steps/SkillsStep';
 import { BioStep } from './steps/BioStep';
+import { AvailabilityStep } from './steps/AvailabilityStep';
 import { StudioStep } from './steps/StudioStep';
 import { UserProfile, Program, Studio } from '@/types';
 import { Users } from 'lucide-react';
@@ -14,7 +15,7 @@ interface OnboardingWizardProps {
   onComplete: (profile: Omit<UserProfile, 'id'>) => void;
 }
 
-const TOTAL_STEPS = 7;
+const TOTAL_STEPS = 8;
 
 export const OnboardingWizard = ({ onComplete }: OnboardingWizardProps) => {
   const [step, setStep] = useState(0);
@@ -27,6 +28,7 @@ export const OnboardingWizard = ({ onComplete }: OnboardingWizardProps) => {
     bio: '',
     linkedIn: '',
     studioPreferences: [] as Studio[],
+    availability: [] as number[],
   });
 
   const nextStep = () => {
@@ -39,7 +41,7 @@ export const OnboardingWizard = ({ onComplete }: OnboardingWizardProps) => {
     setStep((prev) => Math.max(prev - 1, 0));
   };
 
-  const updateFormData = (field: string, value: string | string[] | Studio[]) => {
+  const updateFormData = (field: string, value: string | string[] | Studio[] | number[]) => {
     setFormData((prev) => ({ ...prev, [field]: value }));
   };
 
@@ -67,6 +69,7 @@ export const OnboardingWizard = ({ onComplete }: OnboardingWizardProps) => {
       studioPreferences: formData.studioPreferences,
       avatar: formData.avatar || '', // Empty string triggers initials avatar
       linkedIn: formData.linkedIn || undefined,
+      availability: formData.availability,
     });
   };
 
@@ -137,6 +140,15 @@ export const OnboardingWizard = ({ onComplete }: OnboardingWizardProps) => {
           />
         );
       case 6:
+        return (
+          <AvailabilityStep
+            value={formData.availability}
+            onChange={(value) => updateFormData('availability', value)}
+            onNext={nextStep}
+            onBack={prevStep}
+          />
+        );
+      case 7:
         return (
           <StudioStep
             value={formData.studioPreferences}
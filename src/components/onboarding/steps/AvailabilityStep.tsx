@@ -0,0 +1,44 @@
+import { Button } from '@/components/ui/button';
+import { ArrowLeft, ArrowRight } from 'lucide-react';
+import { AvailabilityGrid } from '@/components/AvailabilityGrid';
+import { SLOT_HOURS } from '@/lib/availability';
+
+interface AvailabilityStepProps {
+  value: number[];
+  onChange: (value: number[]) => void;
+  onNext: () => void;
+  onBack: () => void;
+}
+
+export const AvailabilityStep = ({ value, onChange, onNext, onBack }: AvailabilityStepProps) => {
+  const hours = value.length * SLOT_HOURS;
+
+  return (
+    <div className="space-y-8">
+      <div className="text-center space-y-2">
+        <h2 className="text-3xl font-bold text-foreground">When are you free?</h2>
+        <p className="text-muted-foreground">
+          Tap the times you can usually meet so we can find people on your schedule
+        </p>
+      </div>
+
+      <div className="space-y-2">
+        <AvailabilityGrid value={value} onChange={onChange} />
+        <p className="text-center text-xs text-muted-foreground">
+          {hours > 0 ? `${hours} hours a week selected` : 'Tap a day or time to fill the whole row'}
+        </p>
+      </div>
+
+      <div className="flex gap-3">
+        <Button variant="outline" size="lg" onClick={onBack} className="flex-1">
+          <ArrowLeft className="w-4 h-4 mr-2" />
+          Back
+        </Button>
+        <Button size="lg" onClick={onNext} className="flex-1">
+          {value.length > 0 ? 'Continue' : 'Skip for now'}
+          <ArrowRight className="w-4 h-4 ml-2" />
+        </Button>
+      </div>
+    </div>
+  );
+};
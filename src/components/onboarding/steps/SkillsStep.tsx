@@ -1,8 +1,8 @@
-import { useState } from 'react';
 import { Button } from '@/components/ui/button';
-import { Input } from '@/components/ui/input';
-import { ArrowLeft, ArrowRight, X, Plus } from 'lucide-react';
+import { ArrowLeft, ArrowRight, X } from 'lucide-react';
 import { Badge } from '@/components/ui/badge';
+import { SkillAutocomplete } from '@/components/SkillAutocomplete';
+import { useSkillTaxonomy } from '@/hooks/useSkillTaxonomy';
 import { cn } from '@/lib/utils';
 
 interface SkillsStepProps {
@@ -12,23 +12,11 @@ interface SkillsStepProps {
   onBack: () => void;
 }
 
-const suggestedSkills = [
-  'Product Management',
-  'Full-Stack Development',
-  'Machine Learning',
-  'UX/UI Design',
-  'Data Science',
-  'Marketing',
-  'Finance',
-  'Legal/IP',
-  'Healthcare',
-  'Cloud Architecture',
-  'Business Strategy',
-  'Sales',
-];
+const SUGGESTION_COUNT = 12;
 
 export const SkillsStep = ({ value, onChange, onNext, onBack }: SkillsStepProps) => {
-  const [customSkill, setCustomSkill] = useState('');
+  const { skills } = useSkillTaxonomy();
+  const suggestedSkills = skills.map((s) => s.name);
 
   const toggleSkill = (skill: string) => {
     if (value.includes(skill)) {
@@ -38,10 +26,9 @@ export const SkillsStep = ({ value, onChange, onNext, onBack }: SkillsStepProps)
     }
   };
 
-  const addCustomSkill = () => {
-    if (customSkill.trim() && !value.includes(customSkill.trim()) && value.length < 5) {
-      onChange([...value, customSkill.trim()]);
-      setCustomSkill('');
+  const addSkill = (skill: string) => {
+    if (!value.includes(skill) && value.length < 5) {
+      onChange([...value, skill]);
     }
   };
 
@@ -77,6 +64,7 @@ export const SkillsStep = ({ value, onChange, onNext, onBack }: SkillsStepProps)
         <div className="flex flex-wrap gap-2">
           {suggestedSkills
             .filter((skill) => !value.includes(skill))
+            .slice(0, SUGGESTION_COUNT)
             .map((skill) => (
               <Badge
                 key={skill}
@@ -93,25 +81,13 @@ export const SkillsStep = ({ value, onChange, onNext, onBack }: SkillsStepProps)
         </div>
       </div>
 
-      {/* Custom skill input */}
-      <div className="flex gap-2">
-        <Input
-          type="text"
-          placeholder="Add a custom skill..."
-          value={customSkill}
-          onChange={(e) => setCustomSkill(e.target.value)}
-          onKeyDown={(e) => e.key === 'Enter' && addCustomSkill()}
-          className="flex-1 bg-secondary border-border"
-        />
-        <Button
-          variant="outline"
-          size="icon"
-          onClick={addCustomSkill}
-          disabled={!customSkill.trim() || value.length >= 5}
-        >
-          <Plus className="w-4 h-4" />
-        </Button>
-      </div>
+      {/* Skill search */}
+      <SkillAutocomplete
+        selected={value}
+        onAdd={addSkill}
+        disabled={value.length >= 5}
+        placeholder="Search or add a skill..."
+      />
 
       <p className="text-xs text-muted-foreground text-center">
         {value.length}/5 skills selected
@@ -8,6 +8,7 @@ import { createContext, useContext, useEffect, useState, ReactNode, useCallback,
 import { User, Session } from '@supabase/supabase-js';
 import { supabase } from '@/integrations/supabase/client';
 import { UserProfile } from '@/types';
+import { normalizeAvailability } from '@/lib/availability';
 
 interface AuthContextType {
   user: User | null;
@@ -88,6 +89,7 @@ export const AuthProvider = ({ children }: AuthProviderProps) => {
           studioPreferences: data.studio_preferences || [data.studio_preference],
           avatar: data.avatar || '',
           linkedIn: data.linkedin,
+          availability: normalizeAvailability(data.availability),
         } as UserProfile;
       }
       return null;
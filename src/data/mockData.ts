@@ -61,6 +61,7 @@ export const mockTeams: Team[] = [
     description: 'Building AI-powered diagnostics for rural healthcare. Looking for passionate individuals who want to make healthcare accessible.',
     members: [mockUsers[0], mockUsers[1]],
     lookingFor: ['LLM', 'HealthTech'],
+    programNeeds: { LLM: 1, HealthTech: 1 },
     skillsNeeded: ['Healthcare Domain', 'Legal Expertise'],
     createdBy: '1',
   },
@@ -71,6 +72,7 @@ export const mockTeams: Team[] = [
     description: 'Partnering with major banks to revolutionize payment systems. Join us to work with Fortune 500 companies.',
     members: [mockUsers[2]],
     lookingFor: ['MBA', 'MEng-CS', 'CM'],
+    programNeeds: { MBA: 1, 'MEng-CS': 1, CM: 1 },
     skillsNeeded: ['Product Management', 'Backend Development'],
     createdBy: '3',
   },
@@ -11,13 +11,19 @@
 
 import { useState, useEffect, useCallback, useRef } from 'react';
 import { supabase } from '@/integrations/supabase/client';
-import { UserProfile, Team } from '@/types';
+import { UserProfile, Team, SwipeDirection } from '@/types';
 import { transformProfile, transformTeam } from '@/lib/transforms';
 
 export interface SwipeHistory {
   type: 'user' | 'team';
   item: UserProfile | Team;
-  direction: 'left' | 'right';
+  direction: SwipeDirection;
+  /** Match recorded by the swipe (absent for saves) */
+  matchId?: string;
+  /** Team the swipe was a vote for, when made in the team deck */
+  teamVote?: string;
+  /** When the swipe was made, for the undo window */
+  swipedAt?: string;
 }
 
 interface UseActivityHistoryResult {
@@ -52,11 +58,12 @@ export function useActivityHistory(
     setLoading(true);
     
     try {
-      // Fetch all matches made by the user
+      // Fetch all matches made by the user (withdrawn requests are no longer swipes)
       const { data: matchesData, error } = await supabase
         .from('matches')
-        .select('target_user_id, team_id, match_type, status, created_at')
+        .select('id, target_user_id, team_id, match_type, status, created_at, swiped_at')
         .eq('user_id', userId)
+        .neq('status', 'withdrawn')
         .order('created_at', { ascending: false })
         .limit(50); // Reduced limit for faster loading
 
@@ -88,7 +95,7 @@ export function useActivityHistory(
           ? supabase.from('profiles').select('user_id, name, program, skills, bio, studio_preference, studio_preferences, avatar, linkedin').in('user_id', targetUserIds)
           : Promise.resolve({ data: [] }),
         teamIds.length > 0
-          ? supabase.from('teams').select('id, name, description, studio, skills_needed, created_by').in('id', teamIds)
+          ? supabase.from('teams').select('id, name, description, studio, skills_needed, program_needs, created_by').in('id', teamIds)
           : Promise.resolve({ data: [] }),
       ]);
 
@@ -110,6 +117,8 @@ export function useActivityHistory(
               type: 'team' as const,
               item: transformTeam(team),
               direction: match.status === 'rejected' ? 'left' as const : 'right' as const,
+              matchId: match.id,
+              swipedAt: match.swiped_at,
             };
           } else {
             const profile = profilesMap.get(match.target_user_id);
@@ -118,6 +127,8 @@ export function useActivityHistory(
               type: 'user' as const,
               item: transformProfile(profile),
               direction: match.status === 'rejected' ? 'left' as const : 'right' as const,
+              matchId: match.id,
+              swipedAt: match.swiped_at,
             };
           }
         })
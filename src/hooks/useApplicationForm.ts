@@ -0,0 +1,63 @@
+/**
+ * useApplicationForm Hook
+ *
+ * Drives the application form shown when a student asks to join a team
+ * with application questions. `requestApplication` opens the form and
+ * resolves once the student submits or cancels, so a swipe can wait on it.
+ *
+ * @returns {Object} The open application and handlers to request, submit or cancel it
+ */
+
+import { useState, useCallback, useRef, useEffect } from 'react';
+import { Team } from '@/types';
+import { ApplicationAnswer } from '@/lib/applicationQuestions';
+
+interface PendingApplication {
+  team: Team;
+  questions: string[];
+}
+
+interface UseApplicationFormResult {
+  /** The team being applied to and its questions (null when the form is closed) */
+  application: PendingApplication | null;
+  /** Open the form; resolves to the answers, or null if cancelled */
+  requestApplication: (team: Team, questions: string[]) => Promise<ApplicationAnswer[] | null>;
+  /** Send the answers and close the form */
+  submitApplication: (answers: ApplicationAnswer[]) => void;
+  /** Close the form without applying */
+  cancelApplication: () => void;
+}
+
+export function useApplicationForm(): UseApplicationFormResult {
+  const [application, setApplication] = useState<PendingApplication | null>(null);
+  const resolveRef = useRef<((answers: ApplicationAnswer[] | null) => void) | null>(null);
+
+  const settle = useCallback((answers: ApplicationAnswer[] | null) => {
+    resolveRef.current?.(answers);
+    resolveRef.current = null;
+    setApplication(null);
+  }, []);
+
+  const requestApplication = useCallback((team: Team, questions: string[]) => {
+    // Only one form at a time; a newer swipe cancels the older one
+    resolveRef.current?.(null);
+
+    return new Promise<ApplicationAnswer[] | null>(resolve => {
+      resolveRef.current = resolve;
+      setApplication({ team, questions });
+    });
+  }, []);
+
+  const submitApplication = useCallback((answers: ApplicationAnswer[]) => settle(answers), [settle]);
+  const cancelApplication = useCallback(() => settle(null), [settle]);
+
+  // Don't leave a swipe waiting forever
+  useEffect(() => () => resolveRef.current?.(null), []);
+
+  return {
+    application,
+    requestApplication,
+    submitApplication,
+    cancelApplication,
+  };
+}
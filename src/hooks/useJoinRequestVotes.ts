@@ -0,0 +1,125 @@
+/**
+ * useJoinRequestVotes Hook
+ *
+ * Loads team votes on pending join requests and casts the current
+ * member's vote. The database resolves a request once its quorum is met.
+ *
+ * @param matchIds - Join requests (match ids) to load votes for
+ * @returns {Object} Votes by request and a function to cast a vote
+ */
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import { JoinRequestResolution, JoinRequestVote, JoinVote } from '@/lib/joinVotes';
+
+/** Result of cast_join_request_vote */
+export interface CastVoteResult {
+  status: 'pending' | 'accepted' | 'rejected';
+  approvals: number;
+  rejections: number;
+  quorum: number;
+  reason?: JoinRequestResolution['reason'];
+}
+
+interface UseJoinRequestVotesResult {
+  /** Votes keyed by match id */
+  votesByMatch: Record<string, JoinRequestVote[]>;
+  /** Whether votes are loading */
+  loading: boolean;
+  /** Cast or change the current member's vote */
+  castVote: (matchId: string, vote: JoinVote, comment?: string) => Promise<CastVoteResult | null>;
+  /** Reload votes */
+  refresh: () => Promise<void>;
+}
+
+export function useJoinRequestVotes(matchIds: string[]): UseJoinRequestVotesResult {
+  const [votesByMatch, setVotesByMatch] = useState<Record<string, JoinRequestVote[]>>({});
+  const [loading, setLoading] = useState(false);
+  const isMountedRef = useRef(true);
+
+  const idsKey = [...matchIds].sort().join(',');
+
+  const fetchVotes = useCallback(async () => {
+    const ids = idsKey ? idsKey.split(',') : [];
+    if (ids.length === 0) {
+      setVotesByMatch({});
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from('join_request_votes')
+        .select('match_id, voter_id, vote, comment, created_at')
+        .in('match_id', ids)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+
+      const grouped: Record<string, JoinRequestVote[]> = {};
+      (data || []).forEach(v => {
+        const list = grouped[v.match_id] || [];
+        list.push({
+          matchId: v.match_id,
+          voterId: v.voter_id,
+          vote: v.vote as JoinVote,
+          comment: v.comment,
+          createdAt: v.created_at,
+        });
+        grouped[v.match_id] = list;
+      });
+
+      if (isMountedRef.current) setVotesByMatch(grouped);
+    } catch (error) {
+      console.error('Error loading join request votes:', error);
+    } finally {
+      if (isMountedRef.current) setLoading(false);
+    }
+  }, [idsKey]);
+
+  useEffect(() => {
+    isMountedRef.current = true;
+    fetchVotes();
+    return () => {
+      isMountedRef.current = false;
+    };
+  }, [fetchVotes]);
+
+  const castVote = useCallback(async (matchId: string, vote: JoinVote, comment?: string) => {
+    try {
+      const { data, error } = await supabase.rpc('cast_join_request_vote', {
+        p_match_id: matchId,
+        p_vote: vote,
+        p_comment: comment || null,
+      });
+
+      if (error) throw error;
+
+      const result = data as unknown as CastVoteResult;
+      if (result.reason === 'already_on_team') {
+        toast.info('They already joined another team - request closed');
+      } else if (result.status === 'accepted') {
+        toast.success('Vote passed - member added to team!');
+      } else if (result.status === 'rejected') {
+        toast.info('Vote closed - request declined');
+      } else {
+        toast.success('Vote recorded');
+      }
+
+      await fetchVotes();
+      return result;
+    } catch (error) {
+      console.error('Error casting vote:', error);
+      toast.error('Failed to record vote');
+      return null;
+    }
+  }, [fetchVotes]);
+
+  return {
+    votesByMatch,
+    loading,
+    castVote,
+    refresh: fetchVotes,
+  };
+}
@@ -0,0 +1,86 @@
+/**
+ * useMutualMatches Hook
+ *
+ * Drives the "It's a match" moment for individual-to-individual likes.
+ * The second liker triggers it directly from the swipe result; the first
+ * liker hears about it through a realtime update on their own match row.
+ *
+ * @param userId - Current authenticated user's ID (undefined to skip)
+ * @returns {Object} The profile to celebrate and show/dismiss handlers
+ */
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { UserProfile } from '@/types';
+import { transformProfile } from '@/lib/transforms';
+
+interface UseMutualMatchesResult {
+  /** Profile of the person just matched with (null when nothing to show) */
+  mutualMatch: UserProfile | null;
+  /** Show the match moment for a profile */
+  showMutualMatch: (profile: UserProfile) => void;
+  /** Dismiss the match moment */
+  dismissMutualMatch: () => void;
+}
+
+export function useMutualMatches(userId: string | undefined): UseMutualMatchesResult {
+  const [mutualMatch, setMutualMatch] = useState<UserProfile | null>(null);
+  const isMountedRef = useRef(true);
+  // Match rows already celebrated; realtime `old` rows only carry the key,
+  // so a repeat update can't be told apart from the flip itself
+  const celebratedRef = useRef(new Set<string>());
+
+  const showMutualMatch = useCallback((profile: UserProfile) => {
+    setMutualMatch(profile);
+  }, []);
+
+  const dismissMutualMatch = useCallback(() => {
+    setMutualMatch(null);
+  }, []);
+
+  useEffect(() => {
+    isMountedRef.current = true;
+    if (!userId) return;
+
+    // Our own pending like flipping to 'matched' means the other person liked us back
+    const channel = supabase
+      .channel(`mutual-matches:${userId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'matches',
+          filter: `user_id=eq.${userId}`,
+        },
+        async (payload) => {
+          const updated = payload.new as { id: string; target_user_id: string; match_type: string; status: string };
+          if (updated.match_type !== 'individual_to_individual' || updated.status !== 'matched') return;
+          if (celebratedRef.current.has(updated.id)) return;
+          celebratedRef.current.add(updated.id);
+
+          const { data: profile } = await supabase
+            .from('profiles')
+            .select('user_id, name, program, skills, bio, studio_preference, studio_preferences, avatar, linkedin')
+            .eq('user_id', updated.target_user_id)
+            .maybeSingle();
+
+          if (profile && isMountedRef.current) {
+            setMutualMatch(transformProfile(profile));
+          }
+        }
+      )
+      .subscribe();
+
+    return () => {
+      isMountedRef.current = false;
+      supabase.removeChannel(channel);
+    };
+  }, [userId]);
+
+  return {
+    mutualMatch,
+    showMutualMatch,
+    dismissMutualMatch,
+  };
+}
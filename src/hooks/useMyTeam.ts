@@ -11,9 +11,13 @@
 
 import { useState, useEffect, useCallback, useRef } from 'react';
 import { supabase } from '@/integrations/supabase/client';
-import { Team, UserProfile, Program, Studio } from '@/types';
+import { Team, UserProfile, Program, Studio, ProgramNeeds } from '@/types';
 import { toast } from 'sonner';
 import { validateInput, teamSchema } from '@/lib/validation';
+import { normalizeProgramNeeds, programsNeeded } from '@/lib/programNeeds';
+import { normalizeApplicationQuestions } from '@/lib/applicationQuestions';
+import { normalizeRecruitingStatus } from '@/lib/recruitingStatus';
+import { normalizeAvailability } from '@/lib/availability';
 
 interface UseMyTeamResult {
   /** The user's current team (null if not in a team) */
@@ -34,6 +38,8 @@ interface CreateTeamData {
   studio: Studio;
   lookingFor: string;
   skillsNeeded: string[];
+  programNeeds: ProgramNeeds;
+  applicationQuestions: string[];
 }
 
 export function useMyTeam(
@@ -60,6 +66,7 @@ export function useMyTeam(
       studioPreferences: (p.studio_preferences as Studio[]) || [p.studio_preference as Studio],
       avatar: p.avatar || '',
       linkedIn: p.linkedin,
+      availability: normalizeAvailability(p.availability),
     }));
   }, []);
 
@@ -99,7 +106,7 @@ export function useMyTeam(
       const [teamRes, membersRes] = await Promise.all([
         supabase
           .from('teams')
-          .select('id, name, description, studio, skills_needed, created_by')
+          .select('id, name, description, studio, skills_needed, program_needs, created_by, join_vote_quorum, max_members, application_questions, recruiting_status, swipe_quorum')
           .eq('id', membership.team_id)
           .single(),
         supabase
@@ -127,22 +134,29 @@ export function useMyTeam(
       if (memberUserIds.length > 0) {
         const { data: profiles } = await supabase
           .from('profiles')
-          .select('user_id, name, program, skills, bio, studio_preference, studio_preferences, avatar, linkedin')
+          .select('user_id, name, program, skills, bio, studio_preference, studio_preferences, avatar, linkedin, availability')
           .in('user_id', memberUserIds);
 
         teamMembers = transformMemberProfiles(profiles || []);
       }
 
       if (isMountedRef.current) {
+        const programNeeds = normalizeProgramNeeds(teamData.program_needs);
         setMyTeam({
           id: teamData.id,
           name: teamData.name,
           description: teamData.description || '',
           studio: teamData.studio as Studio,
           members: teamMembers,
-          lookingFor: [],
+          lookingFor: programsNeeded(programNeeds),
+          programNeeds,
           skillsNeeded: teamData.skills_needed || [],
           createdBy: teamData.created_by,
+          joinVoteQuorum: teamData.join_vote_quorum,
+          maxMembers: teamData.max_members,
+          applicationQuestions: normalizeApplicationQuestions(teamData.application_questions),
+          recruitingStatus: normalizeRecruitingStatus(teamData.recruiting_status),
+          swipeQuorum: teamData.swipe_quorum,
         });
         initialFetchDone.current = true;
       }
@@ -181,6 +195,8 @@ export function useMyTeam(
         p_studio: validatedData.studio,
         p_looking_for: validatedData.lookingFor,
         p_skills_needed: validatedData.skillsNeeded,
+        p_program_needs: validatedData.programNeeds,
+        p_application_questions: validatedData.applicationQuestions,
         p_user_id: userId,
       });
 
@@ -212,9 +228,11 @@ export function useMyTeam(
         description: validatedData.description || '',
         studio: validatedData.studio,
         members: [creatorProfile],
-        lookingFor: [],
+        lookingFor: programsNeeded(validatedData.programNeeds),
+        programNeeds: validatedData.programNeeds,
         skillsNeeded: validatedData.skillsNeeded,
         createdBy: userId,
+        applicationQuestions: validatedData.applicationQuestions,
       });
 
       toast.success('Team created!', {
@@ -242,6 +260,8 @@ export function useMyTeam(
         studio: validatedData.studio,
         looking_for: validatedData.lookingFor,
         skills_needed: validatedData.skillsNeeded,
+        program_needs: validatedData.programNeeds,
+        application_questions: validatedData.applicationQuestions,
         created_by: userId,
       })
       .select()
@@ -298,9 +318,11 @@ export function useMyTeam(
       description: newTeam.description || '',
       studio: newTeam.studio as Studio,
       members: [creatorProfile],
-      lookingFor: [],
+      lookingFor: programsNeeded(validatedData.programNeeds),
+      programNeeds: validatedData.programNeeds,
       skillsNeeded: validatedData.skillsNeeded,
       createdBy: userId,
+      applicationQuestions: validatedData.applicationQuestions,
     });
 
     toast.success('Team created!', {
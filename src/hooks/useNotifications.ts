@@ -0,0 +1,80 @@
+/**
+ * useNotifications Hook
+ *
+ * Shows notifications written by the database (e.g. a withdrawn request)
+ * as toasts: unread ones on load, new ones in real time. Each is marked
+ * read once shown.
+ *
+ * @param userId - Current authenticated user's ID (undefined to skip)
+ */
+
+import { useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+
+interface NotificationRow {
+  id: string;
+  title: string;
+  body: string | null;
+}
+
+export function useNotifications(userId: string | undefined): void {
+  const showAndMarkRead = useCallback(async (notifications: NotificationRow[]) => {
+    if (notifications.length === 0) return;
+
+    notifications.forEach(n => {
+      toast.info(n.title, { description: n.body ?? undefined });
+    });
+
+    const { error } = await supabase
+      .from('notifications')
+      .update({ read_at: new Date().toISOString() })
+      .in('id', notifications.map(n => n.id));
+
+    if (error) console.error('Error marking notifications read:', error);
+  }, []);
+
+  useEffect(() => {
+    if (!userId) return;
+
+    let cancelled = false;
+
+    const loadUnread = async () => {
+      const { data, error } = await supabase
+        .from('notifications')
+        .select('id, title, body')
+        .eq('user_id', userId)
+        .is('read_at', null)
+        .order('created_at');
+
+      if (error) {
+        console.error('Error loading notifications:', error);
+        return;
+      }
+      if (!cancelled) await showAndMarkRead(data || []);
+    };
+
+    loadUnread();
+
+    const channel = supabase
+      .channel(`notifications:${userId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'notifications',
+          filter: `user_id=eq.${userId}`,
+        },
+        (payload) => {
+          showAndMarkRead([payload.new as NotificationRow]);
+        }
+      )
+      .subscribe();
+
+    return () => {
+      cancelled = true;
+      supabase.removeChannel(channel);
+    };
+  }, [userId, showAndMarkRead]);
+}
@@ -0,0 +1,91 @@
+/**
+ * useOutgoingRequests Hook
+ *
+ * Lists the requests the current user, or their team, has sent and lets
+ * the sender withdraw one that is still pending. Withdrawing removes the
+ * conversation and notifies the other side.
+ *
+ * @param enabled - Whether to load (e.g. while the Activity modal is open)
+ * @returns {Object} Sent requests and a withdraw action
+ */
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import {
+  OutgoingRequest,
+  OutgoingRequestRow,
+  WithdrawRefusal,
+  transformOutgoingRequest,
+  describeWithdrawRefusal,
+} from '@/lib/outgoingRequests';
+
+interface UseOutgoingRequestsResult {
+  /** Sent requests, newest first */
+  requests: OutgoingRequest[];
+  /** Whether requests are loading */
+  loading: boolean;
+  /** Withdraw a pending request */
+  withdrawRequest: (matchId: string) => Promise<boolean>;
+  /** Reload requests */
+  refresh: () => Promise<void>;
+}
+
+export function useOutgoingRequests(enabled: boolean): UseOutgoingRequestsResult {
+  const [requests, setRequests] = useState<OutgoingRequest[]>([]);
+  const [loading, setLoading] = useState(false);
+  const isMountedRef = useRef(true);
+
+  const fetchRequests = useCallback(async () => {
+    setLoading(true);
+    try {
+      const { data, error } = await supabase.rpc('get_outgoing_requests');
+      if (error) throw error;
+
+      if (isMountedRef.current) {
+        setRequests(((data as unknown as OutgoingRequestRow[]) || []).map(transformOutgoingRequest));
+      }
+    } catch (error) {
+      console.error('Error loading outgoing requests:', error);
+    } finally {
+      if (isMountedRef.current) setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    isMountedRef.current = true;
+    if (enabled) fetchRequests();
+    return () => {
+      isMountedRef.current = false;
+    };
+  }, [enabled, fetchRequests]);
+
+  const withdrawRequest = useCallback(async (matchId: string) => {
+    try {
+      const { data, error } = await supabase.rpc('withdraw_request', { p_match_id: matchId });
+      if (error) throw error;
+
+      const result = data as unknown as { withdrawn: boolean; reason?: WithdrawRefusal };
+      if (!result.withdrawn) {
+        toast.error(describeWithdrawRefusal(result.reason));
+        await fetchRequests();
+        return false;
+      }
+
+      setRequests(prev => prev.filter(r => r.id !== matchId));
+      toast.info('Request withdrawn');
+      return true;
+    } catch (error) {
+      console.error('Error withdrawing request:', error);
+      toast.error('Failed to withdraw request');
+      return false;
+    }
+  }, [fetchRequests]);
+
+  return {
+    requests,
+    loading,
+    withdrawRequest,
+    refresh: fetchRequests,
+  };
+}
@@ -0,0 +1,154 @@
+/**
+ * useOwnershipTransfer Hook
+ *
+ * Tracks the team's open ownership offer and wraps the transfer functions.
+ * Ownership only moves once the chosen member accepts.
+ *
+ * @param teamId - Team to manage, if any
+ * @returns {Object} Pending transfer and actions to offer, answer or withdraw it
+ */
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+
+export interface OwnershipTransfer {
+  id: string;
+  teamId: string;
+  fromUserId: string;
+  toUserId: string;
+  createdAt: string;
+}
+
+interface UseOwnershipTransferResult {
+  /** The team's open offer, if any */
+  pendingTransfer: OwnershipTransfer | null;
+  /** Offer ownership to a confirmed member */
+  offerOwnership: (newOwnerId: string) => Promise<boolean>;
+  /** Accept or decline an offer made to the current user */
+  respondToOffer: (accept: boolean) => Promise<boolean>;
+  /** Withdraw the current user's offer */
+  cancelOffer: () => Promise<boolean>;
+  /** Reload the open offer */
+  refresh: () => Promise<void>;
+}
+
+export function useOwnershipTransfer(teamId: string | undefined): UseOwnershipTransferResult {
+  const [pendingTransfer, setPendingTransfer] = useState<OwnershipTransfer | null>(null);
+  const isMountedRef = useRef(true);
+
+  const fetchPendingTransfer = useCallback(async () => {
+    if (!teamId) {
+      setPendingTransfer(null);
+      return;
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('team_ownership_transfers')
+        .select('id, team_id, from_user_id, to_user_id, created_at')
+        .eq('team_id', teamId)
+        .eq('status', 'pending')
+        .maybeSingle();
+
+      if (error) throw error;
+
+      if (isMountedRef.current) {
+        setPendingTransfer(data ? {
+          id: data.id,
+          teamId: data.team_id,
+          fromUserId: data.from_user_id,
+          toUserId: data.to_user_id,
+          createdAt: data.created_at,
+        } : null);
+      }
+    } catch (error) {
+      console.error('Error loading ownership transfer:', error);
+    }
+  }, [teamId]);
+
+  useEffect(() => {
+    isMountedRef.current = true;
+    fetchPendingTransfer();
+    return () => {
+      isMountedRef.current = false;
+    };
+  }, [fetchPendingTransfer]);
+
+  const offerOwnership = useCallback(async (newOwnerId: string) => {
+    if (!teamId) return false;
+
+    try {
+      const { error } = await supabase.rpc('transfer_team_ownership', {
+        p_team_id: teamId,
+        p_new_owner_id: newOwnerId,
+      });
+
+      if (error) throw error;
+
+      toast.success('Ownership offered', {
+        description: 'They become the owner once they accept.',
+      });
+      await fetchPendingTransfer();
+      return true;
+    } catch (error) {
+      console.error('Error offering ownership:', error);
+      toast.error('Failed to offer ownership');
+      return false;
+    }
+  }, [teamId, fetchPendingTransfer]);
+
+  const respondToOffer = useCallback(async (accept: boolean) => {
+    if (!pendingTransfer) return false;
+
+    try {
+      const { error } = await supabase.rpc('respond_to_ownership_transfer', {
+        p_transfer_id: pendingTransfer.id,
+        p_accept: accept,
+      });
+
+      if (error) throw error;
+
+      if (accept) {
+        toast.success("You're now the team owner");
+      } else {
+        toast.info('Ownership offer declined');
+      }
+      await fetchPendingTransfer();
+      return true;
+    } catch (error) {
+      console.error('Error responding to ownership offer:', error);
+      toast.error('Failed to respond to ownership offer');
+      await fetchPendingTransfer();
+      return false;
+    }
+  }, [pendingTransfer, fetchPendingTransfer]);
+
+  const cancelOffer = useCallback(async () => {
+    if (!pendingTransfer) return false;
+
+    try {
+      const { error } = await supabase.rpc('cancel_ownership_transfer', {
+        p_transfer_id: pendingTransfer.id,
+      });
+
+      if (error) throw error;
+
+      toast.info('Ownership offer withdrawn');
+      await fetchPendingTransfer();
+      return true;
+    } catch (error) {
+      console.error('Error withdrawing ownership offer:', error);
+      toast.error('Failed to withdraw ownership offer');
+      return false;
+    }
+  }, [pendingTransfer, fetchPendingTransfer]);
+
+  return {
+    pendingTransfer,
+    offerOwnership,
+    respondToOffer,
+    cancelOffer,
+    refresh: fetchPendingTransfer,
+  };
+}
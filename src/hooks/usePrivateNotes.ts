@@ -0,0 +1,124 @@
+/**
+ * usePrivateNotes Hook
+ *
+ * The current user's private notes on profiles and teams, loaded once so
+ * cards can show a note when someone resurfaces. Nobody else can read them.
+ *
+ * @param userId - Current authenticated user's ID
+ * @returns {Object} Note lookup and a save function
+ */
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import { NoteTarget, noteKey, noteTargetFromRow } from '@/lib/privateNotes';
+
+interface StoredNote {
+  id: string;
+  note: string;
+}
+
+interface UsePrivateNotesResult {
+  /** The user's note on a profile or team, if any */
+  getNote: (target: NoteTarget) => string | undefined;
+  /** Save a note; saving an empty note deletes it */
+  saveNote: (target: NoteTarget, note: string) => Promise<boolean>;
+}
+
+export function usePrivateNotes(userId: string | undefined): UsePrivateNotesResult {
+  const [notes, setNotes] = useState<Map<string, StoredNote>>(new Map());
+  const isMountedRef = useRef(true);
+
+  useEffect(() => {
+    isMountedRef.current = true;
+
+    if (!userId) {
+      setNotes(new Map());
+      return;
+    }
+
+    const fetchNotes = async () => {
+      try {
+        const { data, error } = await supabase
+          .from('private_notes')
+          .select('id, target_user_id, team_id, note')
+          .eq('user_id', userId);
+
+        if (error) throw error;
+        if (!isMountedRef.current) return;
+
+        const next = new Map<string, StoredNote>();
+        for (const row of data || []) {
+          const target = noteTargetFromRow(row);
+          if (target) next.set(noteKey(target), { id: row.id, note: row.note });
+        }
+        setNotes(next);
+      } catch (error) {
+        console.error('Error loading private notes:', error);
+      }
+    };
+
+    fetchNotes();
+
+    return () => {
+      isMountedRef.current = false;
+    };
+  }, [userId]);
+
+  const getNote = useCallback((target: NoteTarget) => notes.get(noteKey(target))?.note, [notes]);
+
+  const saveNote = useCallback(async (target: NoteTarget, note: string) => {
+    if (!userId) return false;
+
+    const key = noteKey(target);
+    const existing = notes.get(key);
+    const trimmed = note.trim();
+
+    try {
+      if (!trimmed) {
+        if (existing) {
+          const { error } = await supabase.from('private_notes').delete().eq('id', existing.id);
+          if (error) throw error;
+        }
+
+        setNotes(prev => {
+          const next = new Map(prev);
+          next.delete(key);
+          return next;
+        });
+        toast.success('Note removed');
+        return true;
+      }
+
+      const { data, error } = existing
+        ? await supabase
+            .from('private_notes')
+            .update({ note: trimmed })
+            .eq('id', existing.id)
+            .select('id, note')
+            .single()
+        : await supabase
+            .from('private_notes')
+            .insert({
+              user_id: userId,
+              target_user_id: target.type === 'profile' ? target.id : null,
+              team_id: target.type === 'team' ? target.id : null,
+              note: trimmed,
+            })
+            .select('id, note')
+            .single();
+
+      if (error) throw error;
+
+      setNotes(prev => new Map(prev).set(key, data));
+      toast.success('Note saved');
+      return true;
+    } catch (error) {
+      console.error('Error saving private note:', error);
+      toast.error('Failed to save note');
+      return false;
+    }
+  }, [userId, notes]);
+
+  return { getNote, saveNote };
+}
@@ -1,11 +1,16 @@
 /**
  * useProfiles Hook
- * 
- * Fetches and manages user profiles for the matching system.
- * Optimized with single consolidated query and proper cleanup.
- * 
+ *
+ * Pages through the people discovery deck served by `get_discovery_deck`,
+ * or by `get_team_swipe_deck` when the viewer's team swipes together.
+ * Exclusions, filters and ordering (compatibility plus shared free time)
+ * happen in the database, which also returns each card's compatibility
+ * points; the next page is prefetched as the local stack runs low.
+ *
  * @param userId - Current authenticated user's ID
  * @param hasProfile - Whether the current user has completed their profile
+ * @param filters - Active people filters (changing them restarts the deck)
+ * @param source - Which deck to serve (changing it restarts the deck)
  * @returns {Object} profiles state and loading indicator
  */
 
@@ -13,91 +18,159 @@ import { useState, useEffect, useCallback, useRef } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { UserProfile } from '@/types';
 import { transformProfile } from '@/lib/transforms';
+import { TeamSupport } from '@/lib/teamDeck';
+import { CompatibilityPoints } from '@/lib/compatibility';
+import type { PeopleFilters } from '@/components/FilterPanel';
+
+/** Cards fetched per request */
+export const DECK_PAGE_SIZE = 20;
+/** Fetch the next page once this many cards are left */
+export const DECK_PREFETCH_THRESHOLD = 5;
+
+/**
+ * `people` is the viewer's own deck; `team` is the collective deck where
+ * likes count towards the team's swipe quorum
+ */
+export type DeckSource = 'people' | 'team';
+
+/** Fields of a deck row beyond the profile itself */
+interface DeckRow {
+  user_id: string;
+  score: number;
+  skills_score: number;
+  program_score: number;
+  studio_score: number;
+  /** Team deck only */
+  support?: number;
+  supporters?: string[];
+}
+
+interface DeckCursor {
+  /** Teammates' likes (team deck only) */
+  support?: number;
+  score: number;
+  id: string;
+}
 
 interface UseProfilesResult {
-  /** List of available user profiles to swipe on */
+  /** Loaded profiles in deck order */
   profiles: UserProfile[];
-  /** Whether profiles are currently being loaded */
+  /** Whether the first page is loading */
   loading: boolean;
+  /** Whether more pages are available */
+  hasMore: boolean;
+  /** Teammates' likes by profile id (team deck only) */
+  supportById: Map<string, TeamSupport>;
+  /** Compatibility points the deck scored each profile with */
+  pointsById: Map<string, CompatibilityPoints>;
   /** Remove a profile from the list (after swipe) */
   removeProfile: (profileId: string) => void;
   /** Add a profile back to the list (for undo) */
   addProfile: (profile: UserProfile) => void;
-  /** Refresh the profiles list */
+  /** Restart the deck from the first page */
   refresh: () => Promise<void>;
 }
 
-export function useProfiles(userId: string | undefined, hasProfile: boolean): UseProfilesResult {
+export function useProfiles(
+  userId: string | undefined,
+  hasProfile: boolean,
+  filters: PeopleFilters,
+  source: DeckSource = 'people'
+): UseProfilesResult {
   const [profiles, setProfiles] = useState<UserProfile[]>([]);
   const [loading, setLoading] = useState(true);
+  const [hasMore, setHasMore] = useState(false);
+  const [supportById, setSupportById] = useState<Map<string, TeamSupport>>(new Map());
+  const [pointsById, setPointsById] = useState<Map<string, CompatibilityPoints>>(new Map());
   const isMountedRef = useRef(true);
   const fetchingRef = useRef(false);
-  const initialFetchDone = useRef(false);
+  const cursorRef = useRef<DeckCursor | null>(null);
+  // Bumped on every restart so pages from an older filter set are dropped
+  const generationRef = useRef(0);
+
+  const filtersKey = JSON.stringify(filters);
 
   /**
-   * Fetches profiles from the database using optimized single query approach
+   * Fetches one page of the deck. `reset` starts over from the first page.
    */
-  const fetchProfiles = useCallback(async () => {
-    if (!userId || fetchingRef.current) return;
+  const fetchPage = useCallback(async (reset: boolean) => {
+    if (!userId) return;
+    if (!reset && fetchingRef.current) return;
 
-    fetchingRef.current = true;
-    
-    // Only show loading on initial fetch
-    if (!initialFetchDone.current) {
+    if (reset) {
+      generationRef.current += 1;
+      cursorRef.current = null;
       setLoading(true);
     }
-    
+    const generation = generationRef.current;
+    const { skills, programs, studios, minOverlapHours }: PeopleFilters = JSON.parse(filtersKey);
+
+    fetchingRef.current = true;
+
     try {
-      // Single consolidated query: fetch all needed data in parallel
-      const [teamMembersRes, swipedMatchesRes, profilesRes] = await Promise.all([
-        supabase
-          .from('team_members')
-          .select('user_id')
-          .eq('status', 'confirmed'),
-        supabase
-          .from('matches')
-          .select('target_user_id')
-          .eq('user_id', userId)
-          .in('match_type', ['individual_to_individual', 'team_to_individual']),
-        supabase
-          .from('profiles')
-          .select('user_id, name, program, skills, bio, studio_preference, studio_preferences, avatar, linkedin')
-          .neq('user_id', userId),
-      ]);
-
-      if (profilesRes.error) {
-        console.error('Error fetching profiles:', profilesRes.error);
+      const args = {
+        p_skills: skills,
+        p_programs: programs,
+        p_studios: studios,
+        p_min_overlap_hours: minOverlapHours ?? null,
+        p_cursor_score: cursorRef.current?.score ?? null,
+        p_cursor_id: cursorRef.current?.id ?? null,
+        p_limit: DECK_PAGE_SIZE,
+      };
+      const { data, error } = source === 'team'
+        ? await supabase.rpc('get_team_swipe_deck', { ...args, p_cursor_support: cursorRef.current?.support ?? null })
+        : await supabase.rpc('get_discovery_deck', args);
+
+      if (!isMountedRef.current || generation !== generationRef.current) return;
+
+      if (error) {
+        console.error('Error fetching profiles:', error);
         return;
       }
 
-      const usersInTeams = new Set((teamMembersRes.data || []).map(tm => tm.user_id));
-      const swipedUserIds = new Set((swipedMatchesRes.data || []).map(m => m.target_user_id));
+      const rows: DeckRow[] = data || [];
+      const last = rows[rows.length - 1];
+      if (last) cursorRef.current = { support: last.support, score: last.score, id: last.user_id };
 
-      // Filter and transform profiles
-      const availableProfiles = (profilesRes.data || [])
-        .filter(p => !usersInTeams.has(p.user_id) && !swipedUserIds.has(p.user_id))
-        .map(transformProfile);
-
-      if (isMountedRef.current) {
-        setProfiles(availableProfiles);
-        initialFetchDone.current = true;
-      }
+      const page = rows.map(transformProfile);
+      setProfiles(prev => {
+        if (reset) return page;
+        const seen = new Set(prev.map(p => p.id));
+        return [...prev, ...page.filter(p => !seen.has(p.id))];
+      });
+      setSupportById(prev => {
+        const next = new Map(reset ? [] : prev);
+        for (const row of rows) {
+          if (row.supporters?.length) {
+            next.set(row.user_id, { supporters: row.supporters });
+          }
+        }
+        return next;
+      });
+      setPointsById(prev => {
+        const next = new Map(reset ? [] : prev);
+        for (const row of rows) {
+          next.set(row.user_id, { skills: row.skills_score, program: row.program_score, studio: row.studio_score });
+        }
+        return next;
+      });
+      setHasMore(rows.length === DECK_PAGE_SIZE);
     } catch (error) {
       console.error('Error fetching profiles:', error);
     } finally {
-      if (isMountedRef.current) {
+      if (isMountedRef.current && generation === generationRef.current) {
         setLoading(false);
+        fetchingRef.current = false;
       }
-      fetchingRef.current = false;
     }
-  }, [userId]);
+  }, [userId, filtersKey, source]);
 
-  // Initial fetch and cleanup
+  // Initial fetch, restart on filter change, and cleanup
   useEffect(() => {
     isMountedRef.current = true;
-    
+
     if (hasProfile && userId) {
-      fetchProfiles();
+      fetchPage(true);
     } else {
       setLoading(false);
     }
@@ -105,7 +178,14 @@ export function useProfiles(userId: string | undefined, hasProfile: boolean): Us
     return () => {
       isMountedRef.current = false;
     };
-  }, [hasProfile, userId, fetchProfiles]);
+  }, [hasProfile, userId, fetchPage]);
+
+  // Prefetch the next page as the stack runs low
+  useEffect(() => {
+    if (!loading && hasMore && profiles.length <= DECK_PREFETCH_THRESHOLD) {
+      fetchPage(false);
+    }
+  }, [loading, hasMore, profiles.length, fetchPage]);
 
   const removeProfile = useCallback((profileId: string) => {
     setProfiles(prev => prev.filter(p => p.id !== profileId));
@@ -115,11 +195,16 @@ export function useProfiles(userId: string | undefined, hasProfile: boolean): Us
     setProfiles(prev => [profile, ...prev]);
   }, []);
 
+  const refresh = useCallback(() => fetchPage(true), [fetchPage]);
+
   return {
     profiles,
     loading,
+    hasMore,
+    supportById,
+    pointsById,
     removeProfile,
     addProfile,
-    refresh: fetchProfiles,
+    refresh,
   };
-}
\ No newline at end of file
+}
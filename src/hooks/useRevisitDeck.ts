@@ -0,0 +1,171 @@
+/**
+ * useRevisitDeck Hook
+ *
+ * Builds a second-look deck from the viewer's own passes that are older
+ * than the cooldown, with highlights of what changed since each pass.
+ * Only loads while revisit mode is on.
+ *
+ * @param userId - Current authenticated user's ID
+ * @param enabled - Whether revisit mode is active
+ * @param cooldownDays - Minimum age of a pass before it is shown again
+ * @returns {Object} Revisit deck state and management functions
+ */
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { UserProfile } from '@/types';
+import { transformProfile } from '@/lib/transforms';
+import {
+  ProfileChanges,
+  ProfileSnapshot,
+  describeProfileChanges,
+  getProfileChanges,
+  getRevisitCutoff,
+} from '@/lib/revisit';
+
+export interface RevisitProfile {
+  profile: UserProfile;
+  /** When the viewer last passed */
+  passedAt: string;
+  /** Null for passes recorded before snapshots existed */
+  changes: ProfileChanges | null;
+  /** Human-readable change highlights for the card */
+  highlights: string[];
+}
+
+interface UseRevisitDeckResult {
+  /** Previously passed profiles, oldest pass first */
+  revisitProfiles: RevisitProfile[];
+  /** Whether the deck is loading */
+  loading: boolean;
+  /** Remove a profile from the deck (after a decision) */
+  removeRevisitProfile: (profileId: string) => void;
+  /** Pass again - restarts the cooldown and refreshes the snapshot */
+  passAgain: (profileId: string) => Promise<void>;
+  /** Reload the deck */
+  refresh: () => Promise<void>;
+}
+
+export function useRevisitDeck(
+  userId: string | undefined,
+  enabled: boolean,
+  cooldownDays: number
+): UseRevisitDeckResult {
+  const [revisitProfiles, setRevisitProfiles] = useState<RevisitProfile[]>([]);
+  const [loading, setLoading] = useState(false);
+  const isMountedRef = useRef(true);
+  const fetchingRef = useRef(false);
+
+  const fetchRevisitDeck = useCallback(async () => {
+    if (!userId || fetchingRef.current) return;
+
+    fetchingRef.current = true;
+    setLoading(true);
+
+    try {
+      const [passesRes, teamMembersRes] = await Promise.all([
+        supabase
+          .from('matches')
+          .select('target_user_id, target_snapshot, updated_at')
+          .eq('user_id', userId)
+          .eq('is_pass', true)
+          .in('match_type', ['individual_to_individual', 'team_to_individual'])
+          .lt('updated_at', getRevisitCutoff(cooldownDays).toISOString())
+          .order('updated_at', { ascending: true }),
+        supabase
+          .from('team_members')
+          .select('user_id')
+          .eq('status', 'confirmed'),
+      ]);
+
+      if (passesRes.error) {
+        console.error('Error loading passed profiles:', passesRes.error);
+        return;
+      }
+
+      // People who have since joined a team aren't available anymore
+      const usersInTeams = new Set((teamMembersRes.data || []).map(tm => tm.user_id));
+      const passes = (passesRes.data || []).filter(m => !usersInTeams.has(m.target_user_id));
+
+      if (passes.length === 0) {
+        if (isMountedRef.current) setRevisitProfiles([]);
+        return;
+      }
+
+      const { data: profilesData, error } = await supabase
+        .from('profiles')
+        .select('user_id, name, program, skills, bio, studio_preference, studio_preferences, avatar, linkedin, availability')
+        .in('user_id', passes.map(m => m.target_user_id));
+
+      if (error) {
+        console.error('Error loading passed profiles:', error);
+        return;
+      }
+
+      const profilesMap = new Map((profilesData || []).map(p => [p.user_id, transformProfile(p)]));
+
+      const deck: RevisitProfile[] = passes
+        .filter(m => profilesMap.has(m.target_user_id))
+        .map(m => {
+          const profile = profilesMap.get(m.target_user_id);
+          const changes = getProfileChanges(m.target_snapshot as ProfileSnapshot | null, profile);
+          return {
+            profile,
+            passedAt: m.updated_at,
+            changes,
+            highlights: describeProfileChanges(changes),
+          };
+        });
+
+      if (isMountedRef.current) {
+        setRevisitProfiles(deck);
+      }
+    } catch (error) {
+      console.error('Error loading passed profiles:', error);
+    } finally {
+      if (isMountedRef.current) {
+        setLoading(false);
+      }
+      fetchingRef.current = false;
+    }
+  }, [userId, cooldownDays]);
+
+  useEffect(() => {
+    isMountedRef.current = true;
+
+    if (enabled && userId) {
+      fetchRevisitDeck();
+    }
+
+    return () => {
+      isMountedRef.current = false;
+    };
+  }, [enabled, userId, fetchRevisitDeck]);
+
+  const removeRevisitProfile = useCallback((profileId: string) => {
+    setRevisitProfiles(prev => prev.filter(r => r.profile.id !== profileId));
+  }, []);
+
+  const passAgain = useCallback(async (profileId: string) => {
+    if (!userId) return;
+
+    // Re-setting the status bumps updated_at and re-snapshots the profile
+    const { error } = await supabase
+      .from('matches')
+      .update({ status: 'rejected' })
+      .eq('user_id', userId)
+      .eq('target_user_id', profileId)
+      .eq('is_pass', true)
+      .in('match_type', ['individual_to_individual', 'team_to_individual']);
+
+    if (error) console.error('Error recording pass:', error);
+  }, [userId]);
+
+  return {
+    revisitProfiles,
+    loading,
+    removeRevisitProfile,
+    passAgain,
+    refresh: fetchRevisitDeck,
+  };
+}
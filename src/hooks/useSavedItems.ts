@@ -0,0 +1,200 @@
+/**
+ * useSavedItems Hook
+ *
+ * Manages profiles and teams the user saved for later ("maybe" swipes).
+ * Saved cards are kept out of the decks until the user likes or passes
+ * on them from the Saved list.
+ *
+ * @param userId - Current authenticated user's ID
+ * @param hasProfile - Whether the current user has completed their profile
+ * @returns {Object} Saved profiles and teams with save/remove functions
+ */
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { UserProfile, Team } from '@/types';
+import { transformProfile, transformTeam } from '@/lib/transforms';
+
+const PROFILE_COLUMNS = 'user_id, name, program, skills, bio, studio_preference, studio_preferences, avatar, linkedin, availability';
+
+interface UseSavedItemsResult {
+  /** Saved profiles, most recently saved first */
+  savedProfiles: UserProfile[];
+  /** Saved teams, most recently saved first */
+  savedTeams: Team[];
+  /** Whether saved items are being loaded */
+  loading: boolean;
+  /** Save a profile for later */
+  saveProfile: (profile: UserProfile) => Promise<boolean>;
+  /** Save a team for later */
+  saveTeam: (team: Team) => Promise<boolean>;
+  /** Remove a profile from the saved list */
+  removeSavedProfile: (profileId: string) => Promise<void>;
+  /** Remove a team from the saved list */
+  removeSavedTeam: (teamId: string) => Promise<void>;
+  /** Reload saved items */
+  refresh: () => Promise<void>;
+}
+
+export function useSavedItems(userId: string | undefined, hasProfile: boolean): UseSavedItemsResult {
+  const [savedProfiles, setSavedProfiles] = useState<UserProfile[]>([]);
+  const [savedTeams, setSavedTeams] = useState<Team[]>([]);
+  const [loading, setLoading] = useState(false);
+  const isMountedRef = useRef(true);
+  const fetchingRef = useRef(false);
+
+  /**
+   * Loads saved items along with the profiles and teams they point to
+   */
+  const fetchSavedItems = useCallback(async () => {
+    if (!userId || fetchingRef.current) return;
+
+    fetchingRef.current = true;
+    setLoading(true);
+
+    try {
+      const { data: savedData, error } = await supabase
+        .from('saved_items')
+        .select('target_user_id, team_id')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        console.error('Error loading saved items:', error);
+        return;
+      }
+
+      const profileIds = (savedData || []).map(s => s.target_user_id).filter(Boolean) as string[];
+      const teamIds = (savedData || []).map(s => s.team_id).filter(Boolean) as string[];
+
+      const [profilesRes, teamsRes, membersRes] = await Promise.all([
+        profileIds.length > 0
+          ? supabase.from('profiles').select(PROFILE_COLUMNS).in('user_id', profileIds)
+          : Promise.resolve({ data: [] }),
+        teamIds.length > 0
+          ? supabase.from('teams').select('id, name, description, studio, skills_needed, program_needs, created_by').in('id', teamIds)
+          : Promise.resolve({ data: [] }),
+        teamIds.length > 0
+          ? supabase.from('team_members').select('team_id, user_id').in('team_id', teamIds).eq('status', 'confirmed')
+          : Promise.resolve({ data: [] }),
+      ]);
+
+      // Member profiles for saved teams
+      const memberIds = [...new Set((membersRes.data || []).map(m => m.user_id))];
+      const { data: memberProfiles } = memberIds.length > 0
+        ? await supabase.from('profiles').select(PROFILE_COLUMNS).in('user_id', memberIds)
+        : { data: [] };
+
+      const memberProfilesMap = new Map((memberProfiles || []).map(p => [p.user_id, transformProfile(p)]));
+      const membersByTeam = new Map<string, UserProfile[]>();
+      (membersRes.data || []).forEach(m => {
+        const profile = memberProfilesMap.get(m.user_id);
+        if (profile) membersByTeam.set(m.team_id, [...(membersByTeam.get(m.team_id) || []), profile]);
+      });
+
+      // Keep saved order
+      const profilesMap = new Map((profilesRes.data || []).map(p => [p.user_id, transformProfile(p)]));
+      const teamsMap = new Map((teamsRes.data || []).map(t => [t.id, transformTeam(t)]));
+
+      if (isMountedRef.current) {
+        setSavedProfiles(profileIds.map(id => profilesMap.get(id)).filter(Boolean) as UserProfile[]);
+        setSavedTeams(
+          teamIds
+            .map(id => teamsMap.get(id))
+            .filter(Boolean)
+            .map(team => ({ ...team, members: membersByTeam.get(team.id) || [] }))
+        );
+      }
+    } catch (error) {
+      console.error('Error loading saved items:', error);
+    } finally {
+      if (isMountedRef.current) {
+        setLoading(false);
+      }
+      fetchingRef.current = false;
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    isMountedRef.current = true;
+
+    if (hasProfile && userId) {
+      fetchSavedItems();
+    }
+
+    return () => {
+      isMountedRef.current = false;
+    };
+  }, [hasProfile, userId, fetchSavedItems]);
+
+  const saveProfile = useCallback(async (profile: UserProfile): Promise<boolean> => {
+    if (!userId) return false;
+
+    const { error } = await supabase
+      .from('saved_items')
+      .insert({ user_id: userId, target_user_id: profile.id });
+
+    if (error) {
+      console.error('Error saving profile:', error);
+      return false;
+    }
+
+    setSavedProfiles(prev => [profile, ...prev.filter(p => p.id !== profile.id)]);
+    return true;
+  }, [userId]);
+
+  const saveTeam = useCallback(async (team: Team): Promise<boolean> => {
+    if (!userId) return false;
+
+    const { error } = await supabase
+      .from('saved_items')
+      .insert({ user_id: userId, team_id: team.id });
+
+    if (error) {
+      console.error('Error saving team:', error);
+      return false;
+    }
+
+    setSavedTeams(prev => [team, ...prev.filter(t => t.id !== team.id)]);
+    return true;
+  }, [userId]);
+
+  const removeSavedProfile = useCallback(async (profileId: string) => {
+    if (!userId) return;
+
+    setSavedProfiles(prev => prev.filter(p => p.id !== profileId));
+
+    const { error } = await supabase
+      .from('saved_items')
+      .delete()
+      .eq('user_id', userId)
+      .eq('target_user_id', profileId);
+
+    if (error) console.error('Error removing saved profile:', error);
+  }, [userId]);
+
+  const removeSavedTeam = useCallback(async (teamId: string) => {
+    if (!userId) return;
+
+    setSavedTeams(prev => prev.filter(t => t.id !== teamId));
+
+    const { error } = await supabase
+      .from('saved_items')
+      .delete()
+      .eq('user_id', userId)
+      .eq('team_id', teamId);
+
+    if (error) console.error('Error removing saved team:', error);
+  }, [userId]);
+
+  return {
+    savedProfiles,
+    savedTeams,
+    loading,
+    saveProfile,
+    saveTeam,
+    removeSavedProfile,
+    removeSavedTeam,
+    refresh: fetchSavedItems,
+  };
+}
@@ -0,0 +1,51 @@
+/**
+ * useSkillTaxonomy Hook
+ *
+ * Loads the canonical skill list once and caches it app-wide.
+ * Skill pickers, filters and matching all resolve free text through it.
+ *
+ * @returns {Object} Canonical skills, a lookup index and loading state
+ */
+
+import { useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { queryKeys, STALE_TIMES } from '@/lib/queryClient';
+import { Skill, SkillIndex, buildSkillIndex } from '@/lib/skills';
+
+interface UseSkillTaxonomyResult {
+  /** Canonical skills ordered by category, then name */
+  skills: Skill[];
+  /** Lowercased name/alias to canonical name */
+  skillIndex: SkillIndex;
+  /** Whether the taxonomy is loading */
+  loading: boolean;
+}
+
+export const fetchSkillTaxonomy = async (): Promise<Skill[]> => {
+  const { data, error } = await supabase
+    .from('skills')
+    .select('id, name, category, aliases')
+    .order('category')
+    .order('name');
+
+  if (error) throw error;
+  return data || [];
+};
+
+export function useSkillTaxonomy(): UseSkillTaxonomyResult {
+  const { data, isLoading } = useQuery({
+    queryKey: queryKeys.skills.all,
+    queryFn: fetchSkillTaxonomy,
+    staleTime: STALE_TIMES.STATIC,
+  });
+
+  const skills = useMemo(() => data || [], [data]);
+  const skillIndex = useMemo(() => buildSkillIndex(skills), [skills]);
+
+  return {
+    skills,
+    skillIndex,
+    loading: isLoading,
+  };
+}
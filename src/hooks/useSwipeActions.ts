@@ -2,8 +2,11 @@
  * useSwipeActions Hook
  * 
  * Handles all swipe-related actions including:
- * - User swipes (individual to individual, team to individual)
- * - Team swipes (individual to team)
+ * - User swipes (individual to individual, team to individual), or votes
+ *   when the team swipes together
+ * - Team swipes (individual to team), with the team's application questions
+ * - Save-for-later swipes and decisions from the Saved list
+ * - Second-look swipes on previously passed profiles
  * - Undo functionality
  * 
  * @param params - Configuration object with required dependencies
@@ -12,9 +15,17 @@
 
 import { useCallback } from 'react';
 import { supabase } from '@/integrations/supabase/client';
-import { UserProfile, Team } from '@/types';
+import { UserProfile, Team, SwipeDirection } from '@/types';
 import { toast } from 'sonner';
 import { SwipeHistory } from './useActivityHistory';
+import { MatchCreationResult } from './useTeamMatching';
+import { canProposeMerge } from '@/lib/teamMerge';
+import { canUndoSwipe, describeUndoRefusal, UndoSwipeResult } from '@/lib/undo';
+import { ApplicationAnswer, normalizeApplicationQuestions } from '@/lib/applicationQuestions';
+import { TeamCandidateVote, TeamVoteResult } from '@/lib/teamDeck';
+
+/** A recorded like or pass and its match row, if one was written; null when it failed */
+type SwipeRecord = { matchId: string | null } | null;
 
 interface UseSwipeActionsParams {
   userId: string | undefined;
@@ -31,17 +42,34 @@ interface UseSwipeActionsParams {
   removeFromHistory: (index: number) => void;
   removeLastFromHistory: () => void;
   setMatches: React.Dispatch<React.SetStateAction<string[]>>;
-  createIndividualToIndividualMatch: (profile: UserProfile) => Promise<any>;
+  createIndividualToIndividualMatch: (profile: UserProfile) => Promise<MatchCreationResult | null>;
   createTeamToIndividualMatch: (profile: UserProfile) => Promise<any>;
-  createIndividualToTeamMatch: (team: Team) => Promise<any>;
+  createIndividualToTeamMatch: (team: Team, applicationAnswers?: ApplicationAnswer[] | null) => Promise<any>;
+  createTeamMergeRequest: (team: Team) => Promise<MatchCreationResult | null>;
+  voteOnCandidate: (profile: UserProfile, vote: TeamCandidateVote) => Promise<TeamVoteResult | null>;
+  saveProfile: (profile: UserProfile) => Promise<boolean>;
+  saveTeam: (team: Team) => Promise<boolean>;
+  removeSavedProfile: (profileId: string) => Promise<void>;
+  removeSavedTeam: (teamId: string) => Promise<void>;
+  revisitProfiles: UserProfile[];
+  removeRevisitProfile: (profileId: string) => void;
+  passAgain: (profileId: string) => Promise<void>;
   openChat: () => void;
+  /** Shows the application form; resolves to null if the student cancels */
+  requestApplication: (team: Team, questions: string[]) => Promise<ApplicationAnswer[] | null>;
 }
 
 interface UseSwipeActionsResult {
   /** Handle user card swipe */
-  handleUserSwipe: (direction: 'left' | 'right') => Promise<void>;
+  handleUserSwipe: (direction: SwipeDirection) => Promise<void>;
   /** Handle team card swipe */
-  handleTeamSwipe: (direction: 'left' | 'right') => Promise<void>;
+  handleTeamSwipe: (direction: SwipeDirection) => Promise<void>;
+  /** Like or pass on a profile from the Saved list */
+  handleSavedProfileDecision: (profile: UserProfile, direction: 'left' | 'right') => Promise<void>;
+  /** Like or pass on a team from the Saved list */
+  handleSavedTeamDecision: (team: Team, direction: 'left' | 'right') => Promise<void>;
+  /** Handle a swipe in the second-look deck */
+  handleRevisitSwipe: (direction: SwipeDirection) => Promise<void>;
   /** Undo last swipe action */
   handleUndo: () => Promise<void>;
   /** Undo a specific action by index */
@@ -68,176 +96,373 @@ export function useSwipeActions({
   createIndividualToIndividualMatch,
   createTeamToIndividualMatch,
   createIndividualToTeamMatch,
+  createTeamMergeRequest,
+  voteOnCandidate,
+  saveProfile,
+  saveTeam,
+  removeSavedProfile,
+  removeSavedTeam,
+  revisitProfiles,
+  removeRevisitProfile,
+  passAgain,
   openChat,
+  requestApplication,
 }: UseSwipeActionsParams): UseSwipeActionsResult {
+  // Likes and passes become votes when the team swipes together
+  const isTeamDeck = !!myTeam?.swipeQuorum;
 
   /**
-   * Handles swiping on a user profile
+   * Likes a profile - match type depends on team membership.
+   * Resolves to the recorded match id (if any), or null when it failed.
    */
-  const handleUserSwipe = useCallback(async (direction: 'left' | 'right') => {
-    if (profiles.length === 0) return;
+  const likeProfile = useCallback(async (profile: UserProfile): Promise<SwipeRecord> => {
+    if (isTeamDeck) {
+      const result = await voteOnCandidate(profile, 'like');
+      if (!result) return null;
+      if (result.status === 'sent') openChat();
+      return { matchId: result.status === 'sent' ? result.match_id ?? null : null };
+    }
 
-    const currentUserProfile = profiles[0];
-    addToHistory({ type: 'user', item: currentUserProfile, direction });
+    if (myTeam) {
+      const result = await createTeamToIndividualMatch(profile);
+      if (!result) return null;
+      openChat();
+      return { matchId: result.match_id };
+    }
 
-    if (direction === 'right') {
-      // Like - create appropriate match type based on team membership
-      if (myTeam) {
-        const result = await createTeamToIndividualMatch(currentUserProfile);
-        if (result) openChat();
-      } else {
-        const result = await createIndividualToIndividualMatch(currentUserProfile);
-        if (result) openChat();
-      }
-    } else {
-      // Pass - record rejection so they don't appear again
-      try {
-        await supabase.from('matches').insert({
+    const result = await createIndividualToIndividualMatch(profile);
+    if (!result) return null;
+    // Mutual matches get their own moment instead of jumping into chat
+    if (!result.is_mutual) openChat();
+    return { matchId: result.match_id };
+  }, [isTeamDeck, myTeam, voteOnCandidate, createIndividualToIndividualMatch, createTeamToIndividualMatch, openChat]);
+
+  /**
+   * Passes on a profile - records rejection so they don't appear again
+   */
+  const passProfile = useCallback(async (profile: UserProfile): Promise<SwipeRecord> => {
+    if (isTeamDeck) {
+      return (await voteOnCandidate(profile, 'pass')) ? { matchId: null } : null;
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('matches')
+        .insert({
           user_id: userId,
-          target_user_id: currentUserProfile.id,
+          target_user_id: profile.id,
           match_type: 'individual_to_individual',
           status: 'rejected',
-        });
-      } catch (error) {
-        console.error('Error recording pass:', error);
+        })
+        .select('id')
+        .single();
+
+      if (error) throw error;
+      return { matchId: data.id };
+    } catch (error) {
+      console.error('Error recording pass:', error);
+      return null;
+    }
+  }, [isTeamDeck, userId, voteOnCandidate]);
+
+  /**
+   * Collects answers to the team's application questions before asking to
+   * join. Resolves to an empty list when there is nothing to ask (including
+   * merge proposals) and to null if the student backs out.
+   */
+  const collectApplication = useCallback(async (team: Team): Promise<ApplicationAnswer[] | null> => {
+    if (canProposeMerge(myTeam, team)) return [];
+
+    let questions: string[] = [];
+    try {
+      const { data, error } = await supabase
+        .from('teams')
+        .select('application_questions')
+        .eq('id', team.id)
+        .maybeSingle();
+
+      if (error) throw error;
+      questions = normalizeApplicationQuestions(data?.application_questions);
+    } catch (error) {
+      // Don't block the request; the team can still ask in chat
+      console.error('Error loading application questions:', error);
+    }
+
+    if (questions.length === 0) return [];
+    return requestApplication(team, questions);
+  }, [myTeam, requestApplication]);
+
+  /**
+   * Likes a team - small teams propose a merge, everyone else asks to join
+   */
+  const likeTeam = useCallback(async (team: Team, answers: ApplicationAnswer[] = []): Promise<SwipeRecord> => {
+    const result = canProposeMerge(myTeam, team)
+      ? await createTeamMergeRequest(team)
+      : await createIndividualToTeamMatch(team, answers.length > 0 ? answers : null);
+    if (!result) return null;
+    openChat();
+    return { matchId: result.match_id };
+  }, [myTeam, createIndividualToTeamMatch, createTeamMergeRequest, openChat]);
+
+  /**
+   * Passes on a team - records rejection
+   */
+  const passTeam = useCallback(async (team: Team): Promise<SwipeRecord> => {
+    try {
+      const { data, error } = await supabase
+        .from('matches')
+        .insert({
+          user_id: userId,
+          target_user_id: team.createdBy,
+          team_id: team.id,
+          match_type: 'individual_to_team',
+          status: 'rejected',
+        })
+        .select('id')
+        .single();
+
+      if (error) throw error;
+      return { matchId: data.id };
+    } catch (error) {
+      console.error('Error recording team pass:', error);
+      return null;
+    }
+  }, [userId]);
+
+  /**
+   * Handles swiping on a user profile
+   */
+  const handleUserSwipe = useCallback(async (direction: SwipeDirection) => {
+    if (profiles.length === 0) return;
+
+    const currentUserProfile = profiles[0];
+
+    if (direction === 'up') {
+      // Save for later - no pass is recorded
+      if (!(await saveProfile(currentUserProfile))) {
+        toast.error('Failed to save profile');
+        return;
       }
+      toast.success(`Saved ${currentUserProfile.name} for later`);
     }
 
     removeProfile(currentUserProfile.id);
-  }, [profiles, myTeam, userId, addToHistory, removeProfile, createIndividualToIndividualMatch, createTeamToIndividualMatch, openChat]);
+
+    let matchId: string | null = null;
+    if (direction === 'right') {
+      matchId = (await likeProfile(currentUserProfile))?.matchId ?? null;
+    } else if (direction === 'left') {
+      matchId = (await passProfile(currentUserProfile))?.matchId ?? null;
+    }
+
+    addToHistory({
+      type: 'user',
+      item: currentUserProfile,
+      direction,
+      matchId: matchId ?? undefined,
+      teamVote: isTeamDeck && direction !== 'up' ? myTeam?.id : undefined,
+      swipedAt: new Date().toISOString(),
+    });
+  }, [profiles, isTeamDeck, myTeam, addToHistory, removeProfile, saveProfile, likeProfile, passProfile]);
 
   /**
    * Handles swiping on a team
    */
-  const handleTeamSwipe = useCallback(async (direction: 'left' | 'right') => {
+  const handleTeamSwipe = useCallback(async (direction: SwipeDirection) => {
     if (teams.length === 0) return;
 
     const currentTeam = teams[0];
-    addToHistory({ type: 'team', item: currentTeam, direction });
 
-    if (direction === 'right') {
-      // Like - create individual to team match
-      const result = await createIndividualToTeamMatch(currentTeam);
-      if (result) openChat();
-    } else {
-      // Pass - record rejection
-      try {
-        await supabase.from('matches').insert({
-          user_id: userId,
-          target_user_id: currentTeam.createdBy,
-          team_id: currentTeam.id,
-          match_type: 'individual_to_team',
-          status: 'rejected',
-        });
-      } catch (error) {
-        console.error('Error recording team pass:', error);
+    if (direction === 'up') {
+      // Save for later - no pass is recorded
+      if (!(await saveTeam(currentTeam))) {
+        toast.error('Failed to save team');
+        return;
       }
+      toast.success(`Saved ${currentTeam.name} for later`);
     }
 
     removeTeam(currentTeam.id);
-  }, [teams, userId, addToHistory, removeTeam, createIndividualToTeamMatch, openChat]);
+
+    let matchId: string | null = null;
+    if (direction === 'right') {
+      const answers = await collectApplication(currentTeam);
+      if (!answers) {
+        // Cancelled the application - the card goes back on top
+        addTeam(currentTeam);
+        return;
+      }
+      matchId = (await likeTeam(currentTeam, answers))?.matchId ?? null;
+    } else if (direction === 'left') {
+      matchId = (await passTeam(currentTeam))?.matchId ?? null;
+    }
+
+    addToHistory({
+      type: 'team',
+      item: currentTeam,
+      direction,
+      matchId: matchId ?? undefined,
+      swipedAt: new Date().toISOString(),
+    });
+  }, [teams, addToHistory, removeTeam, addTeam, saveTeam, collectApplication, likeTeam, passTeam]);
 
   /**
-   * Undoes the last swipe action
+   * Resolves a saved profile with a like or pass
    */
-  const handleUndo = useCallback(async () => {
-    if (history.length === 0) return;
+  const handleSavedProfileDecision = useCallback(async (profile: UserProfile, direction: 'left' | 'right') => {
+    const record = direction === 'right'
+      ? await likeProfile(profile)
+      : await passProfile(profile);
 
-    const lastAction = history[history.length - 1];
+    // A failed decision leaves the profile saved
+    if (record) await removeSavedProfile(profile.id);
+  }, [removeSavedProfile, likeProfile, passProfile]);
 
-    if (lastAction.type === 'user' && activeTab === 'individuals') {
-      const profile = lastAction.item as UserProfile;
-      addProfile(profile);
-      
-      if (lastAction.direction === 'right') {
-        setMatches(prev => prev.filter(id => id !== profile.id));
+  /**
+   * Resolves a saved team with a like or pass
+   */
+  const handleSavedTeamDecision = useCallback(async (team: Team, direction: 'left' | 'right') => {
+    if (direction === 'right') {
+      // A cancelled application leaves the team saved
+      const answers = await collectApplication(team);
+      if (!answers) return;
+
+      if (await likeTeam(team, answers)) await removeSavedTeam(team.id);
+    } else if (await passTeam(team)) {
+      await removeSavedTeam(team.id);
+    }
+  }, [removeSavedTeam, collectApplication, likeTeam, passTeam]);
+
+  /**
+   * Handles swiping in the second-look deck. A like converts the earlier
+   * pass server-side; a pass restarts its cooldown. Not added to undo history.
+   */
+  const handleRevisitSwipe = useCallback(async (direction: SwipeDirection) => {
+    if (revisitProfiles.length === 0 || direction === 'up') return;
+
+    const profile = revisitProfiles[0];
+    removeRevisitProfile(profile.id);
+
+    if (direction === 'right') {
+      await likeProfile(profile);
+    } else {
+      await passAgain(profile.id);
+    }
+  }, [revisitProfiles, removeRevisitProfile, likeProfile, passAgain]);
+
+  /**
+   * Reverses a swipe server-side. Saves are simply removed; likes and
+   * passes go through undo_swipe, which also removes the conversation,
+   * and team deck votes are taken back. Resolves to false (after telling
+   * the user why) when it can't be undone.
+   */
+  const revertSwipe = useCallback(async (action: SwipeHistory): Promise<boolean> => {
+    if (action.direction === 'up') {
+      if (action.type === 'user') {
+        await removeSavedProfile(action.item.id);
+      } else {
+        await removeSavedTeam(action.item.id);
       }
-      
-      // Delete the match record from database
-      try {
-        await supabase
-          .from('matches')
-          .delete()
-          .eq('user_id', userId)
-          .eq('target_user_id', profile.id);
-      } catch (error) {
-        console.error('Error deleting match:', error);
+      return true;
+    }
+
+    // Nothing was recorded (the swipe itself failed)
+    if (!action.matchId && !action.teamVote) return true;
+
+    if (!canUndoSwipe(action)) {
+      toast.error(describeUndoRefusal('expired'));
+      return false;
+    }
+
+    try {
+      if (action.matchId) {
+        const { data, error } = await supabase.rpc('undo_swipe', { p_match_id: action.matchId });
+
+        if (error) throw error;
+
+        const result = data as unknown as UndoSwipeResult;
+        if (!result.undone) {
+          toast.error(describeUndoRefusal(result.reason));
+          return false;
+        }
       }
-      
-      toast.info('Undid last swipe');
-    } else if (lastAction.type === 'team' && activeTab === 'teams') {
-      const team = lastAction.item as Team;
-      addTeam(team);
-      
-      // Delete the match record from database
-      try {
-        await supabase
-          .from('matches')
+
+      if (action.teamVote) {
+        const { error } = await supabase
+          .from('team_candidate_votes')
           .delete()
-          .eq('user_id', userId)
-          .eq('team_id', team.id);
-      } catch (error) {
-        console.error('Error deleting team match:', error);
+          .eq('team_id', action.teamVote)
+          .eq('candidate_id', action.item.id)
+          .eq('voter_id', userId);
+
+        if (error) throw error;
       }
-      
-      toast.info('Undid last swipe');
+      return true;
+    } catch (error) {
+      console.error('Error undoing swipe:', error);
+      toast.error('Failed to undo swipe');
+      return false;
     }
-
-    removeLastFromHistory();
-  }, [history, activeTab, userId, addProfile, addTeam, setMatches, removeLastFromHistory]);
+  }, [userId, removeSavedProfile, removeSavedTeam]);
 
   /**
-   * Undoes a specific action by index (from Activity modal)
+   * Puts an undone swipe's card back on its deck
    */
-  const handleUndoByIndex = useCallback(async (index: number) => {
-    const action = history[index];
-    if (!action) return;
-
+  const restoreCard = useCallback((action: SwipeHistory) => {
     if (action.type === 'user') {
       const profile = action.item as UserProfile;
       addProfile(profile);
-      
       if (action.direction === 'right') {
         setMatches(prev => prev.filter(id => id !== profile.id));
       }
-      
-      try {
-        await supabase
-          .from('matches')
-          .delete()
-          .eq('user_id', userId)
-          .eq('target_user_id', profile.id);
-      } catch (error) {
-        console.error('Error deleting match:', error);
-      }
-    } else if (action.type === 'team') {
-      const team = action.item as Team;
-      addTeam(team);
-      
-      try {
-        await supabase
-          .from('matches')
-          .delete()
-          .eq('user_id', userId)
-          .eq('team_id', team.id);
-      } catch (error) {
-        console.error('Error deleting team match:', error);
-      }
+    } else {
+      addTeam(action.item as Team);
     }
+  }, [addProfile, addTeam, setMatches]);
+
+  /**
+   * Undoes the last swipe action
+   */
+  const handleUndo = useCallback(async () => {
+    if (history.length === 0) return;
+
+    const lastAction = history[history.length - 1];
+    const expectedType = activeTab === 'individuals' ? 'user' : 'team';
+    if (lastAction.type !== expectedType) return;
+
+    if (!(await revertSwipe(lastAction))) return;
+
+    restoreCard(lastAction);
+    removeLastFromHistory();
+    toast.info('Undid last swipe');
+  }, [history, activeTab, revertSwipe, restoreCard, removeLastFromHistory]);
+
+  /**
+   * Undoes a specific action by index (from Activity modal)
+   */
+  const handleUndoByIndex = useCallback(async (index: number) => {
+    const action = history[index];
+    if (!action) return;
+
+    if (!(await revertSwipe(action))) return;
 
+    restoreCard(action);
     removeFromHistory(index);
     toast.info('Action undone');
-  }, [history, userId, addProfile, addTeam, setMatches, removeFromHistory]);
+  }, [history, revertSwipe, restoreCard, removeFromHistory]);
 
   // Determine if undo is available
-  const canUndo = history.length > 0 && (
-    (activeTab === 'individuals' && history[history.length - 1]?.type === 'user') ||
-    (activeTab === 'teams' && history[history.length - 1]?.type === 'team')
-  );
+  const lastAction = history[history.length - 1];
+  const canUndo = !!lastAction &&
+    lastAction.type === (activeTab === 'individuals' ? 'user' : 'team') &&
+    canUndoSwipe(lastAction);
 
   return {
     handleUserSwipe,
     handleTeamSwipe,
+    handleSavedProfileDecision,
+    handleSavedTeamDecision,
+    handleRevisitSwipe,
     handleUndo,
     handleUndoByIndex,
     canUndo,
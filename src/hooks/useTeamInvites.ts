@@ -0,0 +1,126 @@
+/**
+ * useTeamInvites Hook
+ *
+ * Lists a team's invite codes and wraps creating and revoking them.
+ * Only team admins can see or manage invites.
+ *
+ * @param teamId - Team to manage, if any
+ * @returns {Object} Invites and actions to create or revoke them
+ */
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import { TeamInvite } from '@/lib/teamInvites';
+
+interface CreateInviteOptions {
+  expiresInHours: number;
+  /** Leave out for unlimited uses */
+  maxUses?: number | null;
+}
+
+interface UseTeamInvitesResult {
+  /** Invites, newest first */
+  invites: TeamInvite[];
+  /** Whether invites are loading */
+  loading: boolean;
+  /** Create an invite and return its code */
+  createInvite: (options: CreateInviteOptions) => Promise<string | null>;
+  /** Revoke an invite so it can no longer be used */
+  revokeInvite: (inviteId: string) => Promise<boolean>;
+  /** Reload invites */
+  refresh: () => Promise<void>;
+}
+
+export function useTeamInvites(teamId: string | undefined): UseTeamInvitesResult {
+  const [invites, setInvites] = useState<TeamInvite[]>([]);
+  const [loading, setLoading] = useState(false);
+  const isMountedRef = useRef(true);
+
+  const fetchInvites = useCallback(async () => {
+    if (!teamId) {
+      setInvites([]);
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from('team_invites')
+        .select('id, code, max_uses, use_count, expires_at, revoked_at, created_at')
+        .eq('team_id', teamId)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+
+      if (isMountedRef.current) {
+        setInvites((data || []).map(i => ({
+          id: i.id,
+          code: i.code,
+          maxUses: i.max_uses,
+          useCount: i.use_count,
+          expiresAt: i.expires_at,
+          revokedAt: i.revoked_at,
+          createdAt: i.created_at,
+        })));
+      }
+    } catch (error) {
+      console.error('Error loading team invites:', error);
+    } finally {
+      if (isMountedRef.current) setLoading(false);
+    }
+  }, [teamId]);
+
+  useEffect(() => {
+    isMountedRef.current = true;
+    fetchInvites();
+    return () => {
+      isMountedRef.current = false;
+    };
+  }, [fetchInvites]);
+
+  const createInvite = useCallback(async ({ expiresInHours, maxUses }: CreateInviteOptions) => {
+    if (!teamId) return null;
+
+    try {
+      const { data, error } = await supabase.rpc('create_team_invite', {
+        p_team_id: teamId,
+        p_expires_in_hours: expiresInHours,
+        p_max_uses: maxUses ?? null,
+      });
+
+      if (error) throw error;
+
+      await fetchInvites();
+      return (data as unknown as { code: string }).code;
+    } catch (error) {
+      console.error('Error creating invite:', error);
+      toast.error('Failed to create invite');
+      return null;
+    }
+  }, [teamId, fetchInvites]);
+
+  const revokeInvite = useCallback(async (inviteId: string) => {
+    try {
+      const { error } = await supabase.rpc('revoke_team_invite', { p_invite_id: inviteId });
+
+      if (error) throw error;
+
+      toast.info('Invite revoked');
+      await fetchInvites();
+      return true;
+    } catch (error) {
+      console.error('Error revoking invite:', error);
+      toast.error('Failed to revoke invite');
+      return false;
+    }
+  }, [fetchInvites]);
+
+  return {
+    invites,
+    loading,
+    createInvite,
+    revokeInvite,
+    refresh: fetchInvites,
+  };
+}
@@ -9,14 +9,29 @@ import { useCallback } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from 'sonner';
 import { Team, UserProfile } from '@/types';
+import { ApplicationAnswer } from '@/lib/applicationQuestions';
+import { JoinRequestResolution } from '@/lib/joinVotes';
+import { TeamCandidateVote, TeamVoteResult } from '@/lib/teamDeck';
 
 interface UseTeamMatchingProps {
   currentUserId: string;
   myTeam: Team | null;
   onMatchCreated?: () => void;
+  /** Called when a like completes a mutual individual match */
+  onMutualMatch?: (profile: UserProfile) => void;
 }
 
-export const useTeamMatching = ({ currentUserId, myTeam, onMatchCreated }: UseTeamMatchingProps) => {
+/**
+ * Result of creating a match. `is_mutual` is set when the like
+ * completed a mutual match and joined the other side's conversation.
+ */
+export interface MatchCreationResult {
+  match_id: string;
+  conversation_id: string;
+  is_mutual?: boolean;
+}
+
+export const useTeamMatching = ({ currentUserId, myTeam, onMatchCreated, onMutualMatch }: UseTeamMatchingProps) => {
   /**
    * Creates a match using the optimized RPC function
    * Falls back to sequential operations if RPC fails
@@ -25,8 +40,9 @@ export const useTeamMatching = ({ currentUserId, myTeam, onMatchCreated }: UseTe
     targetUserId: string,
     matchType: string,
     teamId: string | null = null,
-    conversationType: string = 'match'
-  ) => {
+    conversationType: string = 'match',
+    applicationAnswers: ApplicationAnswer[] | null = null
+  ): Promise<MatchCreationResult | null> => {
     try {
       // Try optimized RPC first
       const { data, error } = await supabase.rpc('create_match_with_conversation', {
@@ -35,6 +51,7 @@ export const useTeamMatching = ({ currentUserId, myTeam, onMatchCreated }: UseTe
         p_match_type: matchType,
         p_team_id: teamId,
         p_conversation_type: conversationType,
+        p_application_answers: applicationAnswers,
       });
 
       if (error) {
@@ -42,7 +59,7 @@ export const useTeamMatching = ({ currentUserId, myTeam, onMatchCreated }: UseTe
         return null;
       }
 
-      return data;
+      return data as unknown as MatchCreationResult;
     } catch (error) {
       console.error('Error in createMatchWithConversation:', error);
       return null;
@@ -56,8 +73,9 @@ export const useTeamMatching = ({ currentUserId, myTeam, onMatchCreated }: UseTe
     targetUserId: string,
     matchType: string,
     teamId: string | null = null,
-    conversationType: string = 'direct'
-  ) => {
+    conversationType: string = 'direct',
+    applicationAnswers: ApplicationAnswer[] | null = null
+  ): Promise<MatchCreationResult> => {
     // Create match record
     const { data: match, error: matchError } = await supabase
       .from('matches')
@@ -67,6 +85,7 @@ export const useTeamMatching = ({ currentUserId, myTeam, onMatchCreated }: UseTe
         match_type: matchType,
         team_id: teamId,
         status: 'pending',
+        application_answers: applicationAnswers,
       })
       .select()
       .single();
@@ -115,9 +134,13 @@ export const useTeamMatching = ({ currentUserId, myTeam, onMatchCreated }: UseTe
         result = await createMatchFallback(targetProfile.id, 'individual_to_individual');
       }
 
-      toast.success(`Interest sent to ${targetProfile.name}!`, {
-        description: "You can now chat with them in Messages.",
-      });
+      if (result.is_mutual) {
+        onMutualMatch?.(targetProfile);
+      } else {
+        toast.success(`Interest sent to ${targetProfile.name}!`, {
+          description: "You can now chat with them in Messages.",
+        });
+      }
 
       onMatchCreated?.();
       return result;
@@ -126,7 +149,7 @@ export const useTeamMatching = ({ currentUserId, myTeam, onMatchCreated }: UseTe
       toast.error('Failed to send interest');
       return null;
     }
-  }, [createMatchWithConversation, createMatchFallback, onMatchCreated]);
+  }, [createMatchWithConversation, createMatchFallback, onMatchCreated, onMutualMatch]);
 
   // Team swipes right on an individual
   const createTeamToIndividualMatch = useCallback(async (targetProfile: UserProfile) => {
@@ -160,18 +183,24 @@ export const useTeamMatching = ({ currentUserId, myTeam, onMatchCreated }: UseTe
     }
   }, [myTeam, createMatchWithConversation, createMatchFallback, onMatchCreated]);
 
-  // Individual swipes right on a team
-  const createIndividualToTeamMatch = useCallback(async (targetTeam: Team) => {
+  // Individual swipes right on a team, with answers to its application questions
+  const createIndividualToTeamMatch = useCallback(async (
+    targetTeam: Team,
+    applicationAnswers: ApplicationAnswer[] | null = null
+  ) => {
     try {
       let result = await createMatchWithConversation(
         targetTeam.createdBy,
         'individual_to_team',
         targetTeam.id,
-        'match'
+        'match',
+        applicationAnswers
       );
 
       if (!result) {
-        result = await createMatchFallback(targetTeam.createdBy, 'individual_to_team', targetTeam.id);
+        result = await createMatchFallback(
+          targetTeam.createdBy, 'individual_to_team', targetTeam.id, 'direct', applicationAnswers
+        );
       }
 
       toast.success(`Request sent to ${targetTeam.name}!`, {
@@ -187,68 +216,86 @@ export const useTeamMatching = ({ currentUserId, myTeam, onMatchCreated }: UseTe
     }
   }, [createMatchWithConversation, createMatchFallback, onMatchCreated]);
 
-  // Accept a join request - adds user to team
-  const acceptJoinRequest = useCallback(async (matchId: string, teamId: string, userId: string) => {
+  // Team proposes merging with another small team
+  const createTeamMergeRequest = useCallback(async (targetTeam: Team) => {
+    if (!myTeam) {
+      toast.error("You need to be part of a team to propose a merge");
+      return null;
+    }
+
     try {
-      // Update match status and add member in parallel where possible
-      const [matchUpdate, existingMember] = await Promise.all([
-        supabase
-          .from('matches')
-          .update({ status: 'accepted' })
-          .eq('id', matchId),
-        supabase
-          .from('team_members')
-          .select('id')
-          .eq('team_id', teamId)
-          .eq('user_id', userId)
-          .eq('status', 'confirmed')
-          .maybeSingle(),
-      ]);
-
-      if (matchUpdate.error) throw matchUpdate.error;
-
-      if (existingMember.data) {
-        toast.info('This user is already a team member');
-        return true;
-      }
+      const { data, error } = await supabase.rpc('create_team_merge_request', {
+        p_team_id: myTeam.id,
+        p_target_team_id: targetTeam.id,
+      });
 
-      // Add user to team
-      const { error: memberError } = await supabase
-        .from('team_members')
-        .insert({
-          team_id: teamId,
-          user_id: userId,
-          role: 'member',
-          status: 'confirmed',
-        });
+      if (error) throw error;
+
+      toast.success(`Merge proposed to ${targetTeam.name}!`, {
+        description: "Both teams can discuss it in Messages.",
+      });
 
-      if (memberError) throw memberError;
-
-      // Add user to team conversation
-      const { data: teamConv } = await supabase
-        .from('conversations')
-        .select('id')
-        .eq('team_id', teamId)
-        .eq('type', 'team')
-        .maybeSingle();
-
-      if (teamConv) {
-        const { data: existingParticipant } = await supabase
-          .from('conversation_participants')
-          .select('id')
-          .eq('conversation_id', teamConv.id)
-          .eq('user_id', userId)
-          .maybeSingle();
-
-        if (!existingParticipant) {
-          await supabase
-            .from('conversation_participants')
-            .insert({
-              conversation_id: teamConv.id,
-              user_id: userId,
-            });
+      onMatchCreated?.();
+      return data as unknown as MatchCreationResult;
+    } catch (error) {
+      console.error('Error proposing team merge:', error);
+      toast.error('Failed to propose merge');
+      return null;
+    }
+  }, [myTeam, onMatchCreated]);
+
+  // Team deck vote - the like that reaches the team's quorum sends the request
+  const voteOnCandidate = useCallback(async (targetProfile: UserProfile, vote: TeamCandidateVote) => {
+    try {
+      const { data, error } = await supabase.rpc('cast_team_candidate_vote', {
+        p_candidate_id: targetProfile.id,
+        p_vote: vote,
+      });
+
+      if (error) throw error;
+
+      const result = data as unknown as TeamVoteResult;
+      if (vote === 'like') {
+        if (result.status === 'sent') {
+          toast.success(`Request sent to ${targetProfile.name}!`, {
+            description: "Enough of your team liked them. They can now chat with your team.",
+          });
+          onMatchCreated?.();
+        } else if (result.status === 'already_requested') {
+          toast.info(`Your team has already sent ${targetProfile.name} a request`);
+        } else if (result.status === 'blocked') {
+          toast.info(`Your team can't send ${targetProfile.name} a request yet`, {
+            description: "You already have your own match or request with them, so a teammate's like will need to send it.",
+          });
+        } else {
+          const needed = result.quorum - result.likes;
+          toast.success(`Liked ${targetProfile.name}`, {
+            description: `${needed} more ${needed === 1 ? 'like' : 'likes'} from your team will send a request.`,
+          });
         }
       }
+      return result;
+    } catch (error) {
+      console.error('Error voting on candidate:', error);
+      toast.error(vote === 'like' ? 'Failed to record your like' : 'Failed to record your pass');
+      return null;
+    }
+  }, [onMatchCreated]);
+
+  // Accept a join request - adds the person to the team and its chat
+  const acceptJoinRequest = useCallback(async (matchId: string) => {
+    try {
+      const { data, error } = await supabase.rpc('respond_to_join_request', {
+        p_match_id: matchId,
+        p_accept: true,
+      });
+
+      if (error) throw error;
+
+      if ((data as unknown as JoinRequestResolution).reason === 'already_on_team') {
+        toast.info('They already joined another team - request closed');
+        return false;
+      }
 
       toast.success('Member added to team!');
       return true;
@@ -262,10 +309,10 @@ export const useTeamMatching = ({ currentUserId, myTeam, onMatchCreated }: UseTe
   // Reject a join request
   const rejectJoinRequest = useCallback(async (matchId: string) => {
     try {
-      const { error } = await supabase
-        .from('matches')
-        .update({ status: 'rejected' })
-        .eq('id', matchId);
+      const { error } = await supabase.rpc('respond_to_join_request', {
+        p_match_id: matchId,
+        p_accept: false,
+      });
 
       if (error) throw error;
 
@@ -282,6 +329,8 @@ export const useTeamMatching = ({ currentUserId, myTeam, onMatchCreated }: UseTe
     createIndividualToIndividualMatch,
     createTeamToIndividualMatch,
     createIndividualToTeamMatch,
+    createTeamMergeRequest,
+    voteOnCandidate,
     acceptJoinRequest,
     rejectJoinRequest,
   };
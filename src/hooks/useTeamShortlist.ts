@@ -0,0 +1,151 @@
+/**
+ * useTeamShortlist Hook
+ *
+ * The team's shared shortlist of candidates. Any confirmed member can add
+ * or remove a candidate and keep one rating and note per candidate; the
+ * candidate never sees any of it.
+ *
+ * @param teamId - Current user's team ID (undefined when not in a team)
+ * @param userId - Current authenticated user's ID
+ * @returns {Object} Shortlisted candidates and functions to manage them
+ */
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import { UserProfile } from '@/types';
+import { ShortlistCandidate, ShortlistRow, transformShortlistRow } from '@/lib/shortlist';
+
+interface UseTeamShortlistResult {
+  /** Shortlisted candidates, most recently added first */
+  candidates: ShortlistCandidate[];
+  /** Whether the shortlist is loading */
+  loading: boolean;
+  /** Whether a profile is already on the shortlist */
+  isShortlisted: (profileId: string) => boolean;
+  /** Add a candidate to the shortlist */
+  addCandidate: (profile: UserProfile) => Promise<boolean>;
+  /** Take a candidate off the shortlist, with everyone's notes */
+  removeCandidate: (entryId: string) => Promise<void>;
+  /** Save the current member's rating and note; clearing both removes it */
+  saveNote: (entryId: string, rating: number | null, note: string) => Promise<boolean>;
+  /** Reload the shortlist */
+  refresh: () => Promise<void>;
+}
+
+export function useTeamShortlist(teamId: string | undefined, userId: string | undefined): UseTeamShortlistResult {
+  const [candidates, setCandidates] = useState<ShortlistCandidate[]>([]);
+  const [loading, setLoading] = useState(false);
+  const isMountedRef = useRef(true);
+
+  const fetchShortlist = useCallback(async () => {
+    if (!teamId) {
+      setCandidates([]);
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const { data, error } = await supabase.rpc('get_team_shortlist', { p_team_id: teamId });
+      if (error) throw error;
+
+      if (isMountedRef.current) {
+        setCandidates(((data as unknown as ShortlistRow[]) || []).map(transformShortlistRow));
+      }
+    } catch (error) {
+      console.error('Error loading shortlist:', error);
+    } finally {
+      if (isMountedRef.current) setLoading(false);
+    }
+  }, [teamId]);
+
+  useEffect(() => {
+    isMountedRef.current = true;
+    fetchShortlist();
+    return () => {
+      isMountedRef.current = false;
+    };
+  }, [fetchShortlist]);
+
+  const isShortlisted = useCallback(
+    (profileId: string) => candidates.some(c => c.profile.id === profileId),
+    [candidates]
+  );
+
+  const addCandidate = useCallback(async (profile: UserProfile) => {
+    if (!teamId || !userId) return false;
+
+    try {
+      const { error } = await supabase
+        .from('team_shortlist')
+        .insert({ team_id: teamId, candidate_id: profile.id, added_by: userId });
+
+      // Someone else on the team got there first
+      if (error?.code === '23505') {
+        toast.info(`${profile.name} is already on the shortlist`);
+        await fetchShortlist();
+        return true;
+      }
+      if (error) throw error;
+
+      toast.success(`Added ${profile.name} to the team shortlist`);
+      await fetchShortlist();
+      return true;
+    } catch (error) {
+      console.error('Error adding to shortlist:', error);
+      toast.error('Failed to add to shortlist');
+      return false;
+    }
+  }, [teamId, userId, fetchShortlist]);
+
+  const removeCandidate = useCallback(async (entryId: string) => {
+    try {
+      const { error } = await supabase.from('team_shortlist').delete().eq('id', entryId);
+      if (error) throw error;
+
+      setCandidates(prev => prev.filter(c => c.id !== entryId));
+    } catch (error) {
+      console.error('Error removing from shortlist:', error);
+      toast.error('Failed to remove from shortlist');
+    }
+  }, []);
+
+  const saveNote = useCallback(async (entryId: string, rating: number | null, note: string) => {
+    if (!userId) return false;
+
+    const trimmed = note.trim();
+    try {
+      const { error } = rating === null && !trimmed
+        ? await supabase
+            .from('team_shortlist_notes')
+            .delete()
+            .eq('shortlist_id', entryId)
+            .eq('author_id', userId)
+        : await supabase
+            .from('team_shortlist_notes')
+            .upsert(
+              { shortlist_id: entryId, author_id: userId, rating, note: trimmed || null },
+              { onConflict: 'shortlist_id,author_id' }
+            );
+
+      if (error) throw error;
+
+      await fetchShortlist();
+      return true;
+    } catch (error) {
+      console.error('Error saving shortlist note:', error);
+      toast.error('Failed to save note');
+      return false;
+    }
+  }, [userId, fetchShortlist]);
+
+  return {
+    candidates,
+    loading,
+    isShortlisted,
+    addCandidate,
+    removeCandidate,
+    saveNote,
+    refresh: fetchShortlist,
+  };
+}
@@ -1,147 +1,125 @@
 /**
  * useTeams Hook
- * 
- * Fetches and manages teams for the matching system.
- * Optimized with consolidated queries and efficient data transformation.
- * 
+ *
+ * Pages through the team discovery deck served by `get_team_deck`.
+ * Exclusions, filters and ordering happen in the database (members come
+ * back with each team); only teams whose recruiting status is open are
+ * served. The next page is prefetched as the stack runs low.
+ *
  * @param userId - Current authenticated user's ID
  * @param hasProfile - Whether the current user has completed their profile
+ * @param filters - Active team filters (changing them restarts the deck)
  * @returns {Object} teams state and management functions
  */
 
 import { useState, useEffect, useCallback, useRef } from 'react';
 import { supabase } from '@/integrations/supabase/client';
-import { Team, UserProfile } from '@/types';
+import { Team } from '@/types';
 import { transformProfile, transformTeam } from '@/lib/transforms';
+import type { TeamFilters } from '@/components/FilterPanel';
+import { DECK_PAGE_SIZE, DECK_PREFETCH_THRESHOLD } from './useProfiles';
+
+interface TeamDeckCursor {
+  createdAt: string;
+  id: string;
+}
 
 interface UseTeamsResult {
-  /** List of available teams to swipe on */
+  /** Loaded teams in deck order */
   teams: Team[];
-  /** Whether teams are currently being loaded */
+  /** Whether the first page is loading */
   loading: boolean;
+  /** Whether more pages are available */
+  hasMore: boolean;
   /** Remove a team from the list (after swipe) */
   removeTeam: (teamId: string) => void;
   /** Add a team back to the list (for undo) */
   addTeam: (team: Team) => void;
-  /** Refresh the teams list */
+  /** Restart the deck from the first page */
   refresh: () => Promise<void>;
 }
 
-export function useTeams(userId: string | undefined, hasProfile: boolean): UseTeamsResult {
+export function useTeams(
+  userId: string | undefined,
+  hasProfile: boolean,
+  filters: TeamFilters
+): UseTeamsResult {
   const [teams, setTeams] = useState<Team[]>([]);
   const [loading, setLoading] = useState(true);
+  const [hasMore, setHasMore] = useState(false);
   const isMountedRef = useRef(true);
   const fetchingRef = useRef(false);
-  const initialFetchDone = useRef(false);
+  const cursorRef = useRef<TeamDeckCursor | null>(null);
+  // Bumped on every restart so pages from an older filter set are dropped
+  const generationRef = useRef(0);
+
+  const filtersKey = JSON.stringify(filters);
 
   /**
-   * Fetches teams from the database with their members
-   * Uses consolidated parallel queries for optimal performance
+   * Fetches one page of the deck. `reset` starts over from the first page.
    */
-  const fetchTeams = useCallback(async () => {
-    if (!userId || fetchingRef.current) return;
+  const fetchPage = useCallback(async (reset: boolean) => {
+    if (!userId) return;
+    if (!reset && fetchingRef.current) return;
 
-    fetchingRef.current = true;
-    
-    // Only show loading on initial fetch
-    if (!initialFetchDone.current) {
+    if (reset) {
+      generationRef.current += 1;
+      cursorRef.current = null;
       setLoading(true);
     }
-    
+    const generation = generationRef.current;
+    const { skillsNeeded, lookingFor, studios, teamSize }: TeamFilters = JSON.parse(filtersKey);
+
+    fetchingRef.current = true;
+
     try {
-      // Single consolidated query: fetch everything in parallel
-      const [swipedRes, teamsRes, membersRes] = await Promise.all([
-        supabase
-          .from('matches')
-          .select('team_id')
-          .eq('user_id', userId)
-          .eq('match_type', 'individual_to_team')
-          .not('team_id', 'is', null),
-        supabase.from('teams').select('id, name, description, studio, skills_needed, created_by'),
-        supabase
-          .from('team_members')
-          .select('team_id, user_id, role')
-          .eq('status', 'confirmed'),
-      ]);
-
-      if (teamsRes.error) {
-        console.error('Error fetching teams:', teamsRes.error);
-        return;
-      }
+      const { data, error } = await supabase.rpc('get_team_deck', {
+        p_skills: skillsNeeded,
+        p_looking_for: lookingFor,
+        p_studios: studios,
+        p_team_size: teamSize,
+        p_cursor_created_at: cursorRef.current?.createdAt ?? null,
+        p_cursor_id: cursorRef.current?.id ?? null,
+        p_limit: DECK_PAGE_SIZE,
+      });
 
-      const swipedTeamIds = new Set((swipedRes.data || []).map(m => m.team_id));
-      const userTeamIds = new Set(
-        (membersRes.data || [])
-          .filter(m => m.user_id === userId)
-          .map(m => m.team_id)
-      );
-
-      // Filter out swiped and user's own teams
-      const availableTeams = (teamsRes.data || []).filter(
-        t => !swipedTeamIds.has(t.id) && !userTeamIds.has(t.id)
-      );
-
-      if (availableTeams.length === 0) {
-        if (isMountedRef.current) {
-          setTeams([]);
-          initialFetchDone.current = true;
-        }
-        return;
-      }
+      if (!isMountedRef.current || generation !== generationRef.current) return;
 
-      // Get unique member user IDs for profile fetch
-      const memberUserIds = [...new Set((membersRes.data || []).map(m => m.user_id))];
-      
-      // Fetch member profiles if needed
-      let profilesMap: Record<string, any> = {};
-      if (memberUserIds.length > 0) {
-        const { data: profilesData } = await supabase
-          .from('profiles')
-          .select('user_id, name, program, skills, bio, studio_preference, studio_preferences, avatar, linkedin')
-          .in('user_id', memberUserIds);
-
-        (profilesData || []).forEach(p => {
-          profilesMap[p.user_id] = p;
-        });
+      if (error) {
+        console.error('Error fetching teams:', error);
+        return;
       }
 
-      // Group members by team efficiently
-      const membersByTeam = new Map<string, UserProfile[]>();
-      (membersRes.data || []).forEach(member => {
-        const profile = profilesMap[member.user_id];
-        if (profile) {
-          const teamMembers = membersByTeam.get(member.team_id) || [];
-          teamMembers.push(transformProfile(profile));
-          membersByTeam.set(member.team_id, teamMembers);
-        }
-      });
+      const rows = data || [];
+      const last = rows[rows.length - 1];
+      if (last) cursorRef.current = { createdAt: last.created_at, id: last.id };
 
-      // Transform teams data
-      const transformedTeams: Team[] = availableTeams.map(t => transformTeam(t)).map(team => ({
-        ...team,
-        members: membersByTeam.get(team.id) || [],
+      const page: Team[] = rows.map(row => ({
+        ...transformTeam(row),
+        members: ((row.members as Record<string, unknown>[]) || []).map(transformProfile),
       }));
-
-      if (isMountedRef.current) {
-        setTeams(transformedTeams);
-        initialFetchDone.current = true;
-      }
+      setTeams(prev => {
+        if (reset) return page;
+        const seen = new Set(prev.map(t => t.id));
+        return [...prev, ...page.filter(t => !seen.has(t.id))];
+      });
+      setHasMore(rows.length === DECK_PAGE_SIZE);
     } catch (error) {
       console.error('Error fetching teams:', error);
     } finally {
-      if (isMountedRef.current) {
+      if (isMountedRef.current && generation === generationRef.current) {
         setLoading(false);
+        fetchingRef.current = false;
       }
-      fetchingRef.current = false;
     }
-  }, [userId]);
+  }, [userId, filtersKey]);
 
-  // Initial fetch and cleanup
+  // Initial fetch, restart on filter change, and cleanup
   useEffect(() => {
     isMountedRef.current = true;
-    
+
     if (hasProfile && userId) {
-      fetchTeams();
+      fetchPage(true);
     } else {
       setLoading(false);
     }
@@ -149,7 +127,14 @@ export function useTeams(userId: string | undefined, hasProfile: boolean): UseTe
     return () => {
       isMountedRef.current = false;
     };
-  }, [hasProfile, userId, fetchTeams]);
+  }, [hasProfile, userId, fetchPage]);
+
+  // Prefetch the next page as the stack runs low
+  useEffect(() => {
+    if (!loading && hasMore && teams.length <= DECK_PREFETCH_THRESHOLD) {
+      fetchPage(false);
+    }
+  }, [loading, hasMore, teams.length, fetchPage]);
 
   const removeTeam = useCallback((teamId: string) => {
     setTeams(prev => prev.filter(t => t.id !== teamId));
@@ -159,11 +144,14 @@ export function useTeams(userId: string | undefined, hasProfile: boolean): UseTe
     setTeams(prev => [team, ...prev]);
   }, []);
 
+  const refresh = useCallback(() => fetchPage(true), [fetchPage]);
+
   return {
     teams,
     loading,
+    hasMore,
     removeTeam,
     addTeam,
-    refresh: fetchTeams,
+    refresh,
   };
-}
\ No newline at end of file
+}
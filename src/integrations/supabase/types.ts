@@ -163,38 +163,107 @@ export type Database = {
         }
         Relationships: []
       }
+      join_request_votes: {
+        Row: {
+          comment: string | null
+          created_at: string
+          id: string
+          match_id: string
+          updated_at: string
+          vote: string
+          voter_id: string
+        }
+        Insert: {
+          comment?: string | null
+          created_at?: string
+          id?: string
+          match_id: string
+          updated_at?: string
+          vote: string
+          voter_id: string
+        }
+        Update: {
+          comment?: string | null
+          created_at?: string
+          id?: string
+          match_id?: string
+          updated_at?: string
+          vote?: string
+          voter_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "join_request_votes_match_id_fkey"
+            columns: ["match_id"]
+            isOneToOne: false
+            referencedRelation: "matches"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       matches: {
         Row: {
+          application_answers: Json | null
           created_at: string
+          expires_at: string | null
           id: string
+          is_pass: boolean
           match_type: string
+          reminded_hours_before: number | null
+          responded_at: string | null
           status: string
+          swiped_at: string
+          target_snapshot: Json | null
+          target_team_id: string | null
           target_user_id: string
           team_id: string | null
           updated_at: string
           user_id: string
         }
         Insert: {
+          application_answers?: Json | null
           created_at?: string
+          expires_at?: string | null
           id?: string
+          is_pass?: boolean
           match_type?: string
+          reminded_hours_before?: number | null
+          responded_at?: string | null
           status?: string
+          swiped_at?: string
+          target_snapshot?: Json | null
+          target_team_id?: string | null
           target_user_id: string
           team_id?: string | null
           updated_at?: string
           user_id: string
         }
         Update: {
+          application_answers?: Json | null
           created_at?: string
+          expires_at?: string | null
           id?: string
+          is_pass?: boolean
           match_type?: string
+          reminded_hours_before?: number | null
+          responded_at?: string | null
           status?: string
+          swiped_at?: string
+          target_snapshot?: Json | null
+          target_team_id?: string | null
           target_user_id?: string
           team_id?: string | null
           updated_at?: string
           user_id?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "matches_target_team_id_fkey"
+            columns: ["target_team_id"]
+            isOneToOne: false
+            referencedRelation: "teams"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "matches_team_id_fkey"
             columns: ["team_id"]
@@ -268,8 +337,80 @@ export type Database = {
           },
         ]
       }
+      notifications: {
+        Row: {
+          body: string | null
+          created_at: string
+          data: Json
+          id: string
+          read_at: string | null
+          title: string
+          type: string
+          user_id: string
+        }
+        Insert: {
+          body?: string | null
+          created_at?: string
+          data?: Json
+          id?: string
+          read_at?: string | null
+          title: string
+          type: string
+          user_id: string
+        }
+        Update: {
+          body?: string | null
+          created_at?: string
+          data?: Json
+          id?: string
+          read_at?: string | null
+          title?: string
+          type?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      private_notes: {
+        Row: {
+          created_at: string
+          id: string
+          note: string
+          target_user_id: string | null
+          team_id: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          note: string
+          target_user_id?: string | null
+          team_id?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          note?: string
+          target_user_id?: string | null
+          team_id?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "private_notes_team_id_fkey"
+            columns: ["team_id"]
+            isOneToOne: false
+            referencedRelation: "teams"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       profiles: {
         Row: {
+          availability: number[]
           avatar: string | null
           bio: string | null
           created_at: string
@@ -284,6 +425,7 @@ export type Database = {
           user_id: string
         }
         Insert: {
+          availability?: number[]
           avatar?: string | null
           bio?: string | null
           created_at?: string
@@ -298,6 +440,7 @@ export type Database = {
           user_id: string
         }
         Update: {
+          availability?: number[]
           avatar?: string | null
           bio?: string | null
           created_at?: string
@@ -343,6 +486,168 @@ export type Database = {
         }
         Relationships: []
       }
+      request_expiry_settings: {
+        Row: {
+          expire_after_days: number
+          id: boolean
+          reminder_hours: number[]
+          updated_at: string
+        }
+        Insert: {
+          expire_after_days?: number
+          id?: boolean
+          reminder_hours?: number[]
+          updated_at?: string
+        }
+        Update: {
+          expire_after_days?: number
+          id?: boolean
+          reminder_hours?: number[]
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      saved_items: {
+        Row: {
+          created_at: string
+          id: string
+          target_user_id: string | null
+          team_id: string | null
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          target_user_id?: string | null
+          team_id?: string | null
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          target_user_id?: string | null
+          team_id?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "saved_items_team_id_fkey"
+            columns: ["team_id"]
+            isOneToOne: false
+            referencedRelation: "teams"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      skills: {
+        Row: {
+          aliases: string[]
+          category: string
+          created_at: string
+          id: string
+          name: string
+          updated_at: string
+        }
+        Insert: {
+          aliases?: string[]
+          category?: string
+          created_at?: string
+          id?: string
+          name: string
+          updated_at?: string
+        }
+        Update: {
+          aliases?: string[]
+          category?: string
+          created_at?: string
+          id?: string
+          name?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      team_candidate_votes: {
+        Row: {
+          candidate_id: string
+          created_at: string
+          id: string
+          team_id: string
+          updated_at: string
+          vote: string
+          voter_id: string
+        }
+        Insert: {
+          candidate_id: string
+          created_at?: string
+          id?: string
+          team_id: string
+          updated_at?: string
+          vote: string
+          voter_id: string
+        }
+        Update: {
+          candidate_id?: string
+          created_at?: string
+          id?: string
+          team_id?: string
+          updated_at?: string
+          vote?: string
+          voter_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "team_candidate_votes_team_id_fkey"
+            columns: ["team_id"]
+            isOneToOne: false
+            referencedRelation: "teams"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      team_invites: {
+        Row: {
+          code: string
+          created_at: string
+          created_by: string
+          expires_at: string
+          id: string
+          max_uses: number | null
+          revoked_at: string | null
+          team_id: string
+          use_count: number
+        }
+        Insert: {
+          code: string
+          created_at?: string
+          created_by: string
+          expires_at: string
+          id?: string
+          max_uses?: number | null
+          revoked_at?: string | null
+          team_id: string
+          use_count?: number
+        }
+        Update: {
+          code?: string
+          created_at?: string
+          created_by?: string
+          expires_at?: string
+          id?: string
+          max_uses?: number | null
+          revoked_at?: string | null
+          team_id?: string
+          use_count?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "team_invites_team_id_fkey"
+            columns: ["team_id"]
+            isOneToOne: false
+            referencedRelation: "teams"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       team_members: {
         Row: {
           created_at: string
@@ -388,38 +693,164 @@ export type Database = {
           },
         ]
       }
+      team_ownership_transfers: {
+        Row: {
+          created_at: string
+          from_user_id: string
+          id: string
+          responded_at: string | null
+          status: string
+          team_id: string
+          to_user_id: string
+        }
+        Insert: {
+          created_at?: string
+          from_user_id: string
+          id?: string
+          responded_at?: string | null
+          status?: string
+          team_id: string
+          to_user_id: string
+        }
+        Update: {
+          created_at?: string
+          from_user_id?: string
+          id?: string
+          responded_at?: string | null
+          status?: string
+          team_id?: string
+          to_user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "team_ownership_transfers_team_id_fkey"
+            columns: ["team_id"]
+            isOneToOne: false
+            referencedRelation: "teams"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      team_shortlist: {
+        Row: {
+          added_by: string
+          candidate_id: string
+          created_at: string
+          id: string
+          team_id: string
+        }
+        Insert: {
+          added_by: string
+          candidate_id: string
+          created_at?: string
+          id?: string
+          team_id: string
+        }
+        Update: {
+          added_by?: string
+          candidate_id?: string
+          created_at?: string
+          id?: string
+          team_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "team_shortlist_team_id_fkey"
+            columns: ["team_id"]
+            isOneToOne: false
+            referencedRelation: "teams"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      team_shortlist_notes: {
+        Row: {
+          author_id: string
+          created_at: string
+          id: string
+          note: string | null
+          rating: number | null
+          shortlist_id: string
+          updated_at: string
+        }
+        Insert: {
+          author_id: string
+          created_at?: string
+          id?: string
+          note?: string | null
+          rating?: number | null
+          shortlist_id: string
+          updated_at?: string
+        }
+        Update: {
+          author_id?: string
+          created_at?: string
+          id?: string
+          note?: string | null
+          rating?: number | null
+          shortlist_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "team_shortlist_notes_shortlist_id_fkey"
+            columns: ["shortlist_id"]
+            isOneToOne: false
+            referencedRelation: "team_shortlist"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       teams: {
         Row: {
+          application_questions: Json
           created_at: string
           created_by: string
           description: string | null
           id: string
+          join_vote_quorum: number | null
           looking_for: string | null
+          max_members: number | null
           name: string
+          program_needs: Json
+          recruiting_status: string
           skills_needed: string[] | null
           studio: string
+          swipe_quorum: number | null
           updated_at: string
         }
         Insert: {
+          application_questions?: Json
           created_at?: string
           created_by: string
           description?: string | null
           id?: string
+          join_vote_quorum?: number | null
           looking_for?: string | null
+          max_members?: number | null
           name: string
+          program_needs?: Json
+          recruiting_status?: string
           skills_needed?: string[] | null
           studio: string
+          swipe_quorum?: number | null
           updated_at?: string
         }
         Update: {
+          application_questions?: Json
           created_at?: string
           created_by?: string
           description?: string | null
           id?: string
+          join_vote_quorum?: number | null
           looking_for?: string | null
+          max_members?: number | null
           name?: string
+          program_needs?: Json
+          recruiting_status?: string
           skills_needed?: string[] | null
           studio?: string
+          swipe_quorum?: number | null
           updated_at?: string
         }
         Relationships: []
@@ -492,6 +923,30 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      admin_commit_team_formation: {
+        Args: { p_admin_id: string; p_max_size: number; p_teams: Json }
+        Returns: Json
+      }
+      cancel_ownership_transfer: {
+        Args: { p_transfer_id: string }
+        Returns: undefined
+      }
+      canonicalize_skill: {
+        Args: { p_skill: string }
+        Returns: string
+      }
+      canonicalize_skills: {
+        Args: { p_skills: string[] }
+        Returns: string[]
+      }
+      cast_join_request_vote: {
+        Args: { p_comment?: string; p_match_id: string; p_vote: string }
+        Returns: Json
+      }
+      cast_team_candidate_vote: {
+        Args: { p_candidate_id: string; p_vote: string }
+        Returns: Json
+      }
       check_rate_limit: {
         Args: {
           p_action: string
@@ -502,8 +957,29 @@ export type Database = {
         }
         Returns: Json
       }
+      compatibility_breakdown: {
+        Args: {
+          p_program: string
+          p_program_needs: Json
+          p_side_programs: string[]
+          p_side_skills: string[]
+          p_side_slots: number[]
+          p_side_studios: string[]
+          p_skills: string[]
+          p_skills_needed: string[]
+          p_slots: number[]
+          p_studios: string[]
+        }
+        Returns: {
+          program: number
+          schedule: number
+          skills: number
+          studio: number
+        }[]
+      }
       create_match_with_conversation: {
         Args: {
+          p_application_answers?: Json
           p_conversation_type?: string
           p_match_type: string
           p_target_user_id: string
@@ -512,18 +988,115 @@ export type Database = {
         }
         Returns: Json
       }
+      create_team_invite: {
+        Args: {
+          p_expires_in_hours?: number
+          p_max_uses?: number
+          p_team_id: string
+        }
+        Returns: Json
+      }
+      create_team_merge_request: {
+        Args: { p_target_team_id: string; p_team_id: string }
+        Returns: Json
+      }
       create_team_with_owner: {
         Args: {
+          p_application_questions?: Json
           p_description: string
           p_looking_for: string
           p_name: string
+          p_program_needs?: Json
           p_skills_needed: string[]
           p_studio: string
           p_user_id: string
         }
         Returns: Json
       }
+      delete_team: { Args: { p_team_id: string }; Returns: undefined }
       export_user_data: { Args: { p_user_id: string }; Returns: Json }
+      get_discovery_deck: {
+        Args: {
+          p_cursor_id?: string
+          p_cursor_score?: number
+          p_limit?: number
+          p_min_overlap_hours?: number
+          p_programs?: string[]
+          p_skills?: string[]
+          p_studios?: string[]
+        }
+        Returns: {
+          availability: number[]
+          avatar: string
+          bio: string
+          linkedin: string
+          name: string
+          program: string
+          program_score: number
+          score: number
+          skills: string[]
+          skills_score: number
+          studio_preference: string
+          studio_preferences: string[]
+          studio_score: number
+          user_id: string
+        }[]
+      }
+      get_outgoing_requests: { Args: never; Returns: Json }
+      get_team_deck: {
+        Args: {
+          p_cursor_created_at?: string
+          p_cursor_id?: string
+          p_limit?: number
+          p_looking_for?: string[]
+          p_skills?: string[]
+          p_studios?: string[]
+          p_team_size?: number
+        }
+        Returns: {
+          created_at: string
+          created_by: string
+          description: string
+          id: string
+          members: Json
+          name: string
+          program_needs: Json
+          skills_needed: string[]
+          studio: string
+        }[]
+      }
+      get_team_invite: { Args: { p_code: string }; Returns: Json }
+      get_team_shortlist: { Args: { p_team_id: string }; Returns: Json }
+      get_team_swipe_deck: {
+        Args: {
+          p_cursor_id?: string
+          p_cursor_score?: number
+          p_cursor_support?: number
+          p_limit?: number
+          p_min_overlap_hours?: number
+          p_programs?: string[]
+          p_skills?: string[]
+          p_studios?: string[]
+        }
+        Returns: {
+          availability: number[]
+          avatar: string
+          bio: string
+          linkedin: string
+          name: string
+          program: string
+          program_score: number
+          score: number
+          skills: string[]
+          skills_score: number
+          studio_preference: string
+          studio_preferences: string[]
+          studio_score: number
+          support: number
+          supporters: string[]
+          user_id: string
+        }[]
+      }
       get_unread_count: { Args: { p_user_id: string }; Returns: number }
       has_role: {
         Args: {
@@ -532,6 +1105,19 @@ export type Database = {
         }
         Returns: boolean
       }
+      is_team_admin: {
+        Args: { _team_id: string; _user_id: string }
+        Returns: boolean
+      }
+      is_team_member: {
+        Args: { _team_id: string; _user_id: string }
+        Returns: boolean
+      }
+      is_team_owner: {
+        Args: { _team_id: string; _user_id: string }
+        Returns: boolean
+      }
+      leave_team: { Args: { p_team_id: string }; Returns: Json }
       log_audit_event: {
         Args: {
           p_action: string
@@ -543,11 +1129,42 @@ export type Database = {
         }
         Returns: string
       }
+      redeem_team_invite: { Args: { p_code: string }; Returns: Json }
+      respond_to_join_request: {
+        Args: { p_accept: boolean; p_match_id: string }
+        Returns: Json
+      }
+      respond_to_ownership_transfer: {
+        Args: { p_accept: boolean; p_transfer_id: string }
+        Returns: Json
+      }
+      respond_to_team_merge: {
+        Args: { p_accept: boolean; p_match_id: string }
+        Returns: Json
+      }
+      revoke_team_invite: { Args: { p_invite_id: string }; Returns: undefined }
       sanitize_audit_data: { Args: { p_data: Json }; Returns: Json }
+      team_at_capacity: { Args: { p_team_id: string }; Returns: boolean }
+      team_quorum_reached: {
+        Args: { _candidate_id: string; _team_id: string }
+        Returns: boolean
+      }
+      transfer_team_ownership: {
+        Args: { p_new_owner_id: string; p_team_id: string }
+        Returns: string
+      }
+      undo_swipe: { Args: { p_match_id: string }; Returns: Json }
       upsert_message_read: {
         Args: { p_conversation_id: string; p_user_id: string }
         Returns: undefined
       }
+      valid_application_answers: { Args: { p_answers: Json }; Returns: boolean }
+      valid_application_questions: {
+        Args: { p_questions: Json }
+        Returns: boolean
+      }
+      valid_program_needs: { Args: { p_needs: Json }; Returns: boolean }
+      withdraw_request: { Args: { p_match_id: string }; Returns: Json }
     }
     Enums: {
       app_role: "admin" | "moderator" | "user"
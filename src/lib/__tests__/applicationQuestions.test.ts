@@ -0,0 +1,68 @@
+/**
+ * Application Question Tests
+ *
+ * Tests for cleaning team questions and pairing them with answers.
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  MAX_APPLICATION_QUESTIONS,
+  MAX_QUESTION_LENGTH,
+  normalizeApplicationQuestions,
+  normalizeApplicationAnswers,
+  buildApplicationAnswers,
+  isApplicationComplete,
+} from "@/lib/applicationQuestions";
+
+describe("normalizeApplicationQuestions", () => {
+  it("should trim questions and drop blanks and duplicates", () => {
+    expect(normalizeApplicationQuestions(["  Which idea excites you? ", "", "Which idea excites you?", "Why us?"]))
+      .toEqual(["Which idea excites you?", "Why us?"]);
+  });
+
+  it("should ignore anything that isn't a list of strings", () => {
+    expect(normalizeApplicationQuestions(null)).toEqual([]);
+    expect(normalizeApplicationQuestions({ 0: "Why us?" })).toEqual([]);
+    expect(normalizeApplicationQuestions(["Why us?", 3])).toEqual(["Why us?"]);
+  });
+
+  it("should cap the number and length of questions", () => {
+    const many = Array.from({ length: 8 }, (_, i) => `Question ${i + 1}`);
+    expect(normalizeApplicationQuestions(many)).toHaveLength(MAX_APPLICATION_QUESTIONS);
+    expect(normalizeApplicationQuestions(["x".repeat(200)])[0]).toHaveLength(MAX_QUESTION_LENGTH);
+  });
+});
+
+describe("normalizeApplicationAnswers", () => {
+  it("should keep well-formed pairs only", () => {
+    expect(normalizeApplicationAnswers([
+      { question: "Why us?", answer: "The mission" },
+      { question: "Missing answer" },
+      null,
+    ])).toEqual([{ question: "Why us?", answer: "The mission" }]);
+  });
+
+  it("should treat a missing value as no answers", () => {
+    expect(normalizeApplicationAnswers(undefined)).toEqual([]);
+  });
+});
+
+describe("buildApplicationAnswers", () => {
+  it("should pair questions with trimmed answers", () => {
+    expect(buildApplicationAnswers(["Why us?", "Which idea?"], [" The mission ", "Idea B"])).toEqual([
+      { question: "Why us?", answer: "The mission" },
+      { question: "Which idea?", answer: "Idea B" },
+    ]);
+  });
+});
+
+describe("isApplicationComplete", () => {
+  it("should require an answer to every question", () => {
+    expect(isApplicationComplete(["Why us?", "Which idea?"], ["The mission", "  "])).toBe(false);
+    expect(isApplicationComplete(["Why us?", "Which idea?"], ["The mission", "Idea B"])).toBe(true);
+  });
+
+  it("should accept a team without questions", () => {
+    expect(isApplicationComplete([], [])).toBe(true);
+  });
+});
@@ -0,0 +1,117 @@
+/**
+ * Availability Tests
+ *
+ * Tests for the weekly availability grid and schedule overlap.
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  AVAILABILITY_SLOT_COUNT,
+  slotIndex,
+  formatBlockStart,
+  normalizeAvailability,
+  toggleSlots,
+  commonAvailability,
+  scheduleOverlap,
+  describeOverlap,
+} from "@/lib/availability";
+
+describe("slotIndex", () => {
+  it("should lay days out one after another", () => {
+    expect(slotIndex(0, 0)).toBe(0);
+    expect(slotIndex(1, 0)).toBe(7);
+    expect(slotIndex(6, 6)).toBe(AVAILABILITY_SLOT_COUNT - 1);
+  });
+});
+
+describe("formatBlockStart", () => {
+  it("should use a 12h clock", () => {
+    expect(formatBlockStart(0)).toBe("8am");
+    expect(formatBlockStart(2)).toBe("12pm");
+    expect(formatBlockStart(6)).toBe("8pm");
+  });
+});
+
+describe("normalizeAvailability", () => {
+  it("should sort and dedupe slots", () => {
+    expect(normalizeAvailability([9, 3, 9, 0])).toEqual([0, 3, 9]);
+  });
+
+  it("should drop out-of-range and non-integer values", () => {
+    expect(normalizeAvailability([-1, 2.5, AVAILABILITY_SLOT_COUNT, "4", 5])).toEqual([5]);
+  });
+
+  it("should treat anything but an array as empty", () => {
+    expect(normalizeAvailability(null)).toEqual([]);
+    expect(normalizeAvailability({})).toEqual([]);
+  });
+});
+
+describe("toggleSlots", () => {
+  it("should toggle a single slot", () => {
+    expect(toggleSlots([1, 3], [2])).toEqual([1, 2, 3]);
+    expect(toggleSlots([1, 2, 3], [2])).toEqual([1, 3]);
+  });
+
+  it("should fill a partly selected group", () => {
+    expect(toggleSlots([1], [0, 1, 2])).toEqual([0, 1, 2]);
+  });
+
+  it("should clear a fully selected group", () => {
+    expect(toggleSlots([0, 1, 2, 5], [0, 1, 2])).toEqual([5]);
+  });
+});
+
+describe("commonAvailability", () => {
+  it("should intersect filled schedules", () => {
+    expect(commonAvailability([[1, 2, 3], [2, 3, 4], [3, 2]])).toEqual([2, 3]);
+  });
+
+  it("should ignore people without a schedule", () => {
+    expect(commonAvailability([[1, 2], [], undefined])).toEqual([1, 2]);
+  });
+
+  it("should return null when nobody has a schedule", () => {
+    expect(commonAvailability([[], undefined])).toBeNull();
+  });
+
+  it("should return an empty list when schedules don't meet", () => {
+    expect(commonAvailability([[1], [2]])).toEqual([]);
+  });
+});
+
+describe("scheduleOverlap", () => {
+  it("should count shared hours and the share of the side's free time", () => {
+    expect(scheduleOverlap([1, 2, 9], [[1, 2, 3, 4]])).toEqual({ slots: [1, 2], hours: 4, share: 0.5 });
+  });
+
+  it("should overlap with every teammate at once", () => {
+    const overlap = scheduleOverlap([1, 2, 3], [[1, 2], [2, 3]]);
+    expect(overlap?.slots).toEqual([2]);
+    expect(overlap?.share).toBe(1);
+  });
+
+  it("should return null when either side has no schedule", () => {
+    expect(scheduleOverlap([], [[1]])).toBeNull();
+    expect(scheduleOverlap([1], [[]])).toBeNull();
+  });
+
+  it("should report no share when the team is never free together", () => {
+    expect(scheduleOverlap([1, 2], [[1], [2]])).toEqual({ slots: [], hours: 0, share: 0 });
+  });
+});
+
+describe("describeOverlap", () => {
+  it("should describe overlap with the viewer", () => {
+    expect(describeOverlap({ slots: [1, 2, 3], hours: 6, share: 1 }, false)).toBe("6 hours a week in common");
+  });
+
+  it("should describe overlap with the whole team", () => {
+    expect(describeOverlap({ slots: [1], hours: 2, share: 1 }, true)).toBe("2 hours a week when you're all free");
+  });
+
+  it("should say when there is no overlap", () => {
+    expect(describeOverlap({ slots: [], hours: 0, share: 0 }, false)).toBe("No free time in common");
+    expect(describeOverlap({ slots: [], hours: 0, share: 0 }, true)).toBe("No time when you're all free");
+  });
+});
@@ -0,0 +1,104 @@
+/**
+ * Candidate Comparison Tests
+ *
+ * Tests for selecting and lining up candidates side by side.
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  MAX_COMPARED,
+  ComparisonCandidate,
+  answerFor,
+  canCompare,
+  comparisonQuestions,
+  markNeededSkills,
+  mergeComparisonPool,
+  toggleCompared,
+} from "@/lib/comparison";
+import { UserProfile } from "@/types";
+
+const profile = (id: string): UserProfile => ({
+  id,
+  name: id.toUpperCase(),
+  program: "MBA",
+  skills: [],
+  bio: "",
+  studioPreference: "startup",
+  studioPreferences: ["startup"],
+  avatar: "",
+});
+
+const applicant = (id: string, answers: [string, string][] = []): ComparisonCandidate => ({
+  profile: profile(id),
+  source: "applied",
+  applicationAnswers: answers.map(([question, answer]) => ({ question, answer })),
+});
+
+describe("mergeComparisonPool", () => {
+  it("should add shortlisted people after requests", () => {
+    const pool = mergeComparisonPool([applicant("a")], [profile("b")]);
+    expect(pool.map(c => [c.profile.id, c.source])).toEqual([
+      ["a", "applied"],
+      ["b", "shortlisted"],
+    ]);
+  });
+
+  it("should keep the request when someone is in both lists", () => {
+    const pool = mergeComparisonPool([applicant("a", [["Why?", "Because"]])], [profile("a")]);
+    expect(pool).toHaveLength(1);
+    expect(pool[0].applicationAnswers).toHaveLength(1);
+  });
+});
+
+describe("toggleCompared", () => {
+  it("should add and remove ids", () => {
+    expect(toggleCompared(["a"], "b")).toEqual(["a", "b"]);
+    expect(toggleCompared(["a", "b"], "a")).toEqual(["b"]);
+  });
+
+  it("should stop at the maximum", () => {
+    const full = ["a", "b", "c", "d"].slice(0, MAX_COMPARED);
+    expect(toggleCompared(full, "z")).toEqual(full);
+  });
+});
+
+describe("canCompare", () => {
+  it("should need two to four people", () => {
+    expect(canCompare(["a"])).toBe(false);
+    expect(canCompare(["a", "b"])).toBe(true);
+    expect(canCompare(["a", "b", "c", "d"])).toBe(true);
+    expect(canCompare(["a", "b", "c", "d", "e"])).toBe(false);
+  });
+});
+
+describe("markNeededSkills", () => {
+  it("should flag needed skills case-insensitively and list them first", () => {
+    expect(markNeededSkills(["Figma", "React", " python "], ["react", "Python"])).toEqual([
+      { skill: "React", needed: true },
+      { skill: " python ", needed: true },
+      { skill: "Figma", needed: false },
+    ]);
+  });
+
+  it("should flag nothing when the team lists no skills", () => {
+    expect(markNeededSkills(["React"], [])).toEqual([{ skill: "React", needed: false }]);
+  });
+});
+
+describe("comparison answers", () => {
+  const candidates = [
+    applicant("a", [["Why us?", "Mission"], ["Hours?", "10"]]),
+    applicant("b", [["Hours?", "15"]]),
+    { ...applicant("c"), source: "shortlisted" as const },
+  ];
+
+  it("should collect each question once in first-seen order", () => {
+    expect(comparisonQuestions(candidates)).toEqual(["Why us?", "Hours?"]);
+  });
+
+  it("should find each candidate's answer", () => {
+    expect(answerFor(candidates[1], "Hours?")).toBe("15");
+    expect(answerFor(candidates[1], "Why us?")).toBeNull();
+    expect(answerFor(candidates[2], "Hours?")).toBeNull();
+  });
+});
@@ -0,0 +1,86 @@
+/**
+ * Compatibility Tests
+ *
+ * Tests for turning the deck's compatibility points into a card's reasons.
+ */
+
+import { describe, it, expect } from "vitest";
+import { describeCompatibility } from "@/lib/compatibility";
+import { createMockProfile, createMockTeam } from "@/test/mocks/data";
+
+const viewer = createMockProfile({
+  id: "viewer",
+  program: "MBA",
+  skills: ["Finance", "Marketing"],
+  studioPreference: "startup",
+  studioPreferences: ["startup"],
+});
+
+const noPoints = { skills: 0, program: 0, studio: 0 };
+
+describe("describeCompatibility", () => {
+  it("should total the displayed signals", () => {
+    const candidate = createMockProfile({ program: "LLM", skills: ["IP Law"], studioPreferences: ["startup"] });
+    const score = describeCompatibility(candidate, { viewer }, { skills: 40, program: 35, studio: 25 });
+
+    expect(score.total).toBe(100);
+    expect(score).toMatchObject({ skills: 40, program: 35, studio: 25 });
+  });
+
+  it("should explain skills the viewer doesn't have, case-insensitively", () => {
+    const overlapping = createMockProfile({ skills: ["finance", "MARKETING"] });
+    const complementary = createMockProfile({ skills: ["Python", "Machine Learning"] });
+
+    expect(describeCompatibility(overlapping, { viewer }, noPoints).reasons).toEqual([]);
+    expect(describeCompatibility(complementary, { viewer }, { ...noPoints, skills: 40 }).reasons)
+      .toEqual(["Brings 2 skills you don't have"]);
+  });
+
+  it("should explain program points as diversity without declared needs", () => {
+    const candidate = createMockProfile({ program: "MEng-CS", skills: [] });
+    const score = describeCompatibility(candidate, { viewer }, { ...noPoints, program: 35 });
+    expect(score.reasons).toEqual(["Adds a MEng-CS perspective"]);
+  });
+
+  it("should explain program points as a declared team need", () => {
+    const team = createMockTeam({
+      members: [createMockProfile({ program: "MBA" })],
+      programNeeds: { "MEng-CS": 2 },
+    });
+
+    const needed = describeCompatibility(
+      createMockProfile({ program: "MEng-CS", skills: [] }),
+      { viewer, team },
+      { ...noPoints, program: 35 }
+    );
+    expect(needed.reasons).toContain("Your team needs 2 MEng-CS");
+  });
+
+  it("should leave out signals the deck gave no points", () => {
+    const candidate = createMockProfile({ program: "LLM", skills: [], studioPreferences: ["startup"] });
+    const score = describeCompatibility(candidate, { viewer }, noPoints);
+    expect(score.total).toBe(0);
+    expect(score.reasons).toEqual([]);
+  });
+
+  it("should compare against the whole team and order reasons by points", () => {
+    const team = createMockTeam({
+      studio: "bigco",
+      skillsNeeded: ["Python"],
+      members: [
+        createMockProfile({ program: "MBA", skills: ["Finance"] }),
+        createMockProfile({ program: "MEng-CS", skills: ["React"] }),
+      ],
+    });
+    const candidate = createMockProfile({
+      program: "MEng-CS",
+      skills: ["Python", "React"],
+      studioPreferences: ["bigco"],
+    });
+
+    const score = describeCompatibility(candidate, { viewer, team }, { skills: 27, program: 0, studio: 25 });
+    expect(score.reasons).toHaveLength(2);
+    expect(score.reasons[0]).toMatch(/skill your team needs/);
+    expect(score.reasons[1]).toMatch(/^Also interested in/);
+  });
+});
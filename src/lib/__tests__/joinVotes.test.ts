@@ -0,0 +1,71 @@
+/**
+ * Join Vote Tests
+ *
+ * Tests for tallying team votes on join requests.
+ */
+
+import { describe, it, expect } from "vitest";
+import { tallyJoinVotes, effectiveQuorum, describeJoinVoteTally } from "@/lib/joinVotes";
+
+const members = ["a", "b", "c", "d"];
+
+describe("effectiveQuorum", () => {
+  it("should keep a quorum the team can reach", () => {
+    expect(effectiveQuorum(2, 4)).toBe(2);
+  });
+
+  it("should cap the quorum at the team size", () => {
+    expect(effectiveQuorum(5, 3)).toBe(3);
+  });
+
+  it("should never drop below one vote", () => {
+    expect(effectiveQuorum(2, 0)).toBe(1);
+  });
+});
+
+describe("tallyJoinVotes", () => {
+  it("should count approvals and rejections", () => {
+    const tally = tallyJoinVotes(
+      [
+        { voterId: "a", vote: "approve" },
+        { voterId: "b", vote: "reject" },
+        { voterId: "c", vote: "approve" },
+      ],
+      3,
+      members
+    );
+
+    expect(tally).toEqual({ approvals: 2, rejections: 1, quorum: 3, remaining: 0 });
+  });
+
+  it("should report missing votes", () => {
+    const tally = tallyJoinVotes([{ voterId: "a", vote: "approve" }], 3, members);
+
+    expect(tally.remaining).toBe(2);
+  });
+
+  it("should ignore votes from people who left the team", () => {
+    const tally = tallyJoinVotes(
+      [
+        { voterId: "a", vote: "approve" },
+        { voterId: "gone", vote: "reject" },
+      ],
+      2,
+      members
+    );
+
+    expect(tally).toEqual({ approvals: 1, rejections: 0, quorum: 2, remaining: 1 });
+  });
+});
+
+describe("describeJoinVoteTally", () => {
+  it("should mention the votes still needed", () => {
+    expect(describeJoinVoteTally({ approvals: 1, rejections: 0, quorum: 3, remaining: 2 }))
+      .toBe("1 approve · 0 reject · 2 more votes needed");
+  });
+
+  it("should omit the remainder once the quorum is met", () => {
+    expect(describeJoinVoteTally({ approvals: 2, rejections: 1, quorum: 3, remaining: 0 }))
+      .toBe("2 approve · 1 reject");
+  });
+});
@@ -0,0 +1,107 @@
+/**
+ * Outgoing Request Tests
+ *
+ * Tests for mapping sent requests and their statuses.
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  toOutgoingStatus,
+  transformOutgoingRequest,
+  countByStatus,
+  describeOutgoingStatus,
+  describeWithdrawRefusal,
+  OutgoingRequestRow,
+} from "@/lib/outgoingRequests";
+
+const row: OutgoingRequestRow = {
+  id: "match-1",
+  match_type: "individual_to_team",
+  status: "pending",
+  created_at: "2026-10-18T12:00:00Z",
+  responded_at: null,
+  expires_at: "2026-10-23T12:00:00Z",
+  sender_team_name: null,
+  target_name: "Team Alpha",
+  target_avatar: null,
+};
+
+describe("toOutgoingStatus", () => {
+  it("should treat mutual likes and accepted requests alike", () => {
+    expect(toOutgoingStatus("matched")).toBe("accepted");
+    expect(toOutgoingStatus("accepted")).toBe("accepted");
+  });
+
+  it("should keep pending and rejected", () => {
+    expect(toOutgoingStatus("pending")).toBe("pending");
+    expect(toOutgoingStatus("rejected")).toBe("rejected");
+  });
+
+  it("should keep expired requests apart from declined ones", () => {
+    expect(toOutgoingStatus("expired")).toBe("expired");
+  });
+});
+
+describe("transformOutgoingRequest", () => {
+  it("should map a join request to a team", () => {
+    expect(transformOutgoingRequest(row)).toEqual({
+      id: "match-1",
+      status: "pending",
+      toTeam: true,
+      targetName: "Team Alpha",
+      targetAvatar: undefined,
+      sentByTeam: undefined,
+      sentAt: "2026-10-18T12:00:00Z",
+      respondedAt: undefined,
+      expiresAt: "2026-10-23T12:00:00Z",
+    });
+  });
+
+  it("should note requests sent on behalf of a team", () => {
+    const request = transformOutgoingRequest({
+      ...row,
+      match_type: "team_to_individual",
+      status: "matched",
+      responded_at: "2026-10-18T13:00:00Z",
+      sender_team_name: "Team Beta",
+      target_name: "Ada",
+    });
+
+    expect(request.toTeam).toBe(false);
+    expect(request.sentByTeam).toBe("Team Beta");
+    expect(request.status).toBe("accepted");
+    expect(request.respondedAt).toBe("2026-10-18T13:00:00Z");
+    expect(request.expiresAt).toBeUndefined();
+  });
+
+  it("should fall back when the target is gone", () => {
+    expect(transformOutgoingRequest({ ...row, target_name: null }).targetName).toBe("Unknown");
+  });
+});
+
+describe("countByStatus", () => {
+  it("should count each status", () => {
+    const requests = ["pending", "pending", "rejected", "expired"].map((status, i) =>
+      transformOutgoingRequest({ ...row, id: `match-${i}`, status })
+    );
+
+    expect(countByStatus(requests)).toEqual({ pending: 2, accepted: 0, rejected: 1, expired: 1 });
+  });
+});
+
+describe("describeOutgoingStatus", () => {
+  it("should call rejections declined", () => {
+    expect(describeOutgoingStatus("rejected")).toBe("Declined");
+    expect(describeOutgoingStatus("expired")).toBe("Expired");
+  });
+});
+
+describe("describeWithdrawRefusal", () => {
+  it("should explain answered requests", () => {
+    expect(describeWithdrawRefusal("not_pending")).toBe("This request has already been answered");
+  });
+
+  it("should fall back for unknown reasons", () => {
+    expect(describeWithdrawRefusal(undefined)).toBe("This request can't be withdrawn");
+  });
+});
@@ -0,0 +1,47 @@
+/**
+ * Private Notes Tests
+ *
+ * Tests for keying and previewing a user's private notes.
+ */
+
+import { describe, it, expect } from "vitest";
+import { noteKey, noteTargetFromRow, notePreview } from "@/lib/privateNotes";
+
+describe("noteKey", () => {
+  it("should keep profiles and teams with the same id apart", () => {
+    expect(noteKey({ type: "profile", id: "x" })).toBe("profile:x");
+    expect(noteKey({ type: "team", id: "x" })).toBe("team:x");
+  });
+});
+
+describe("noteTargetFromRow", () => {
+  it("should read a profile note", () => {
+    expect(noteTargetFromRow({ target_user_id: "u1", team_id: null })).toEqual({ type: "profile", id: "u1" });
+  });
+
+  it("should read a team note", () => {
+    expect(noteTargetFromRow({ target_user_id: null, team_id: "t1" })).toEqual({ type: "team", id: "t1" });
+  });
+
+  it("should return null without a target", () => {
+    expect(noteTargetFromRow({ target_user_id: null, team_id: null })).toBeNull();
+  });
+});
+
+describe("notePreview", () => {
+  it("should collapse whitespace", () => {
+    expect(notePreview("  Met at the\n\nmixer  ")).toBe("Met at the mixer");
+  });
+
+  it("should keep short notes whole", () => {
+    expect(notePreview("Great at Figma", 20)).toBe("Great at Figma");
+  });
+
+  it("should cut long notes at a word boundary", () => {
+    expect(notePreview("Met at the fall mixer, strong in ML and pitching", 24)).toBe("Met at the fall mixer,…");
+  });
+
+  it("should hard-cut when there is no good boundary", () => {
+    expect(notePreview("Supercalifragilistic expialidocious", 10)).toBe("Supercalif…");
+  });
+});
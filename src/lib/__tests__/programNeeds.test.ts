@@ -0,0 +1,44 @@
+/**
+ * Program Needs Tests
+ *
+ * Tests for parsing and summarising structured team program needs.
+ */
+
+import { describe, it, expect } from "vitest";
+import { normalizeProgramNeeds, programsNeeded, formatProgramNeeds, MAX_PROGRAM_NEED } from "@/lib/programNeeds";
+
+describe("normalizeProgramNeeds", () => {
+  it("should keep known programs with positive counts", () => {
+    expect(normalizeProgramNeeds({ MBA: 1, "MEng-CS": 2 })).toEqual({ MBA: 1, "MEng-CS": 2 });
+  });
+
+  it("should drop unknown programs and non-positive counts", () => {
+    expect(normalizeProgramNeeds({ MBA: 0, LLM: -1, Astronaut: 3 })).toEqual({});
+  });
+
+  it("should cap counts at the maximum", () => {
+    expect(normalizeProgramNeeds({ MBA: 99 })).toEqual({ MBA: MAX_PROGRAM_NEED });
+  });
+
+  it("should return empty needs for non-object values", () => {
+    expect(normalizeProgramNeeds(null)).toEqual({});
+    expect(normalizeProgramNeeds("1 MBA")).toEqual({});
+    expect(normalizeProgramNeeds([1, 2])).toEqual({});
+  });
+});
+
+describe("programsNeeded", () => {
+  it("should list programs with the largest need first", () => {
+    expect(programsNeeded({ MBA: 1, "MEng-CS": 2 })).toEqual(["MEng-CS", "MBA"]);
+  });
+});
+
+describe("formatProgramNeeds", () => {
+  it("should summarise needs as counts", () => {
+    expect(formatProgramNeeds({ MBA: 1, "MEng-CS": 2, LLM: 1 })).toBe("2 MEng-CS, 1 MBA, 1 LLM");
+  });
+
+  it("should return an empty string when nothing is needed", () => {
+    expect(formatProgramNeeds({})).toBe("");
+  });
+});
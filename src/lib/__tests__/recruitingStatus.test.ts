@@ -0,0 +1,38 @@
+/**
+ * Recruiting Status Tests
+ *
+ * Tests for reading and describing a team's recruiting status.
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  normalizeRecruitingStatus,
+  describeRecruitingStatus,
+  explainRecruitingStatus,
+} from "@/lib/recruitingStatus";
+
+describe("normalizeRecruitingStatus", () => {
+  it("should keep known statuses", () => {
+    expect(normalizeRecruitingStatus("paused")).toBe("paused");
+    expect(normalizeRecruitingStatus("full")).toBe("full");
+  });
+
+  it("should treat anything else as open", () => {
+    expect(normalizeRecruitingStatus(undefined)).toBe("open");
+    expect(normalizeRecruitingStatus("closed")).toBe("open");
+  });
+});
+
+describe("describeRecruitingStatus", () => {
+  it("should label each status", () => {
+    expect(describeRecruitingStatus("open")).toBe("Open");
+    expect(describeRecruitingStatus("paused")).toBe("Paused");
+    expect(describeRecruitingStatus("full")).toBe("Full");
+  });
+});
+
+describe("explainRecruitingStatus", () => {
+  it("should mention the deck for paused teams", () => {
+    expect(explainRecruitingStatus("paused")).toContain("team deck");
+  });
+});
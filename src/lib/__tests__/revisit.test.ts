@@ -0,0 +1,88 @@
+/**
+ * Revisit Tests
+ *
+ * Tests for comparing passed profiles against their snapshot.
+ */
+
+import { describe, it, expect } from "vitest";
+import { getProfileChanges, describeProfileChanges, getRevisitCutoff, ProfileSnapshot } from "@/lib/revisit";
+import { createMockProfile } from "@/test/mocks/data";
+
+const snapshotOf = (overrides: Partial<ProfileSnapshot> = {}): ProfileSnapshot => ({
+  program: "MBA",
+  skills: ["TypeScript", "React", "Node.js"],
+  bio: "A passionate developer focused on building great products.",
+  studio_preferences: ["startup", "bigco"],
+  ...overrides,
+});
+
+describe("getProfileChanges", () => {
+  it("should return null without a snapshot", () => {
+    expect(getProfileChanges(null, createMockProfile())).toBeNull();
+  });
+
+  it("should report no changes for an identical profile", () => {
+    const changes = getProfileChanges(snapshotOf(), createMockProfile());
+
+    expect(changes).toEqual({
+      addedSkills: [],
+      removedSkills: [],
+      bioChanged: false,
+      programChanged: false,
+      studiosChanged: false,
+    });
+  });
+
+  it("should detect added and removed skills case-insensitively", () => {
+    const profile = createMockProfile({ skills: ["typescript", "React", "Finance"] });
+    const changes = getProfileChanges(snapshotOf(), profile);
+
+    expect(changes?.addedSkills).toEqual(["Finance"]);
+    expect(changes?.removedSkills).toEqual(["Node.js"]);
+  });
+
+  it("should detect bio, program and studio edits", () => {
+    const profile = createMockProfile({
+      bio: "Now focused on healthcare.",
+      program: "HealthTech",
+      studioPreferences: ["pitech"],
+    });
+    const changes = getProfileChanges(snapshotOf(), profile);
+
+    expect(changes?.bioChanged).toBe(true);
+    expect(changes?.programChanged).toBe(true);
+    expect(changes?.studiosChanged).toBe(true);
+  });
+
+  it("should ignore studio order", () => {
+    const profile = createMockProfile({ studioPreferences: ["bigco", "startup"] });
+
+    expect(getProfileChanges(snapshotOf(), profile)?.studiosChanged).toBe(false);
+  });
+});
+
+describe("describeProfileChanges", () => {
+  it("should list new skills first", () => {
+    const highlights = describeProfileChanges({
+      addedSkills: ["Finance"],
+      removedSkills: [],
+      bioChanged: true,
+      programChanged: false,
+      studiosChanged: false,
+    });
+
+    expect(highlights).toEqual(["New skills: Finance", "Edited bio"]);
+  });
+
+  it("should return nothing for unknown changes", () => {
+    expect(describeProfileChanges(null)).toEqual([]);
+  });
+});
+
+describe("getRevisitCutoff", () => {
+  it("should subtract the cooldown in days", () => {
+    const now = new Date("2026-03-10T12:00:00Z");
+
+    expect(getRevisitCutoff(7, now).toISOString()).toBe("2026-03-03T12:00:00.000Z");
+  });
+});
@@ -0,0 +1,93 @@
+/**
+ * Shortlist Tests
+ *
+ * Tests for mapping shortlisted candidates and their ratings.
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  toShortlistRequestStatus,
+  transformShortlistRow,
+  averageRating,
+  sortByRating,
+  describeShortlistRequestStatus,
+  ShortlistRow,
+} from "@/lib/shortlist";
+
+const row: ShortlistRow = {
+  id: "entry-1",
+  created_at: "2026-10-18T12:00:00Z",
+  added_by: "user-1",
+  added_by_name: "Grace",
+  candidate: {
+    user_id: "user-9",
+    name: "Ada",
+    program: "MBA",
+    skills: ["Finance"],
+    bio: "",
+    studio_preference: "startup",
+    studio_preferences: ["startup"],
+    avatar: null,
+    linkedin: null,
+  },
+  request_status: null,
+  notes: [
+    { author_id: "user-1", author_name: "Grace", rating: 4, note: "Strong on finance", updated_at: "2026-10-18T13:00:00Z" },
+    { author_id: "user-2", author_name: null, rating: null, note: "Met at the mixer", updated_at: "2026-10-18T12:30:00Z" },
+  ],
+};
+
+describe("toShortlistRequestStatus", () => {
+  it("should treat mutual likes as accepted", () => {
+    expect(toShortlistRequestStatus("matched")).toBe("accepted");
+  });
+
+  it("should treat expired requests as declined", () => {
+    expect(toShortlistRequestStatus("expired")).toBe("declined");
+  });
+
+  it("should fall back to not contacted", () => {
+    expect(toShortlistRequestStatus(null)).toBe("none");
+  });
+});
+
+describe("transformShortlistRow", () => {
+  it("should map the candidate and notes", () => {
+    const candidate = transformShortlistRow(row);
+
+    expect(candidate.profile.id).toBe("user-9");
+    expect(candidate.profile.name).toBe("Ada");
+    expect(candidate.addedByName).toBe("Grace");
+    expect(candidate.requestStatus).toBe("none");
+    expect(candidate.notes).toHaveLength(2);
+    expect(candidate.notes[1].authorName).toBe("Member");
+  });
+});
+
+describe("averageRating", () => {
+  it("should ignore notes without a rating", () => {
+    expect(averageRating([{ rating: 4 }, { rating: null }, { rating: 5 }])).toBe(4.5);
+  });
+
+  it("should be null when nobody rated", () => {
+    expect(averageRating([{ rating: null }])).toBeNull();
+  });
+});
+
+describe("sortByRating", () => {
+  it("should put the best rated first and keep unrated in order", () => {
+    const base = transformShortlistRow(row);
+    const unratedA = { ...base, id: "a", notes: [] };
+    const low = { ...base, id: "b", notes: [{ ...base.notes[0], rating: 2 }] };
+    const unratedB = { ...base, id: "c", notes: [] };
+    const high = { ...base, id: "d", notes: [{ ...base.notes[0], rating: 5 }] };
+
+    expect(sortByRating([unratedA, low, unratedB, high]).map(c => c.id)).toEqual(["d", "b", "a", "c"]);
+  });
+});
+
+describe("describeShortlistRequestStatus", () => {
+  it("should describe a pending request", () => {
+    expect(describeShortlistRequestStatus("pending")).toBe("Request sent");
+  });
+});
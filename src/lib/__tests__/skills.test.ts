@@ -0,0 +1,54 @@
+/**
+ * Skill Taxonomy Tests
+ *
+ * Tests for canonicalizing, matching and searching skills.
+ */
+
+import { describe, it, expect } from "vitest";
+import { buildSkillIndex, canonicalizeSkill, skillsMatch, searchSkills, Skill } from "@/lib/skills";
+
+const skills: Skill[] = [
+  { id: "1", name: "UI/UX Design", category: "Design", aliases: ["UX/UI Design", "UX Design"] },
+  { id: "2", name: "UX Research", category: "Design", aliases: ["User Research"] },
+  { id: "3", name: "Machine Learning", category: "Data & AI", aliases: ["ML"] },
+  { id: "4", name: "Data Science", category: "Data & AI", aliases: [] },
+];
+
+const index = buildSkillIndex(skills);
+
+describe("canonicalizeSkill", () => {
+  it("should resolve aliases case-insensitively", () => {
+    expect(canonicalizeSkill("ux/ui design", index)).toBe("UI/UX Design");
+    expect(canonicalizeSkill("  ml ", index)).toBe("Machine Learning");
+  });
+
+  it("should keep unknown skills as trimmed free text", () => {
+    expect(canonicalizeSkill("  Origami ", index)).toBe("Origami");
+  });
+});
+
+describe("skillsMatch", () => {
+  it("should treat aliases of the same skill as equal", () => {
+    expect(skillsMatch("UX/UI Design", "UI/UX Design", index)).toBe(true);
+  });
+
+  it("should not match skills that only share a substring", () => {
+    expect(skillsMatch("UX Research", "UX Design", index)).toBe(false);
+    expect(skillsMatch("Data", "Data Science", index)).toBe(false);
+  });
+});
+
+describe("searchSkills", () => {
+  it("should rank prefix matches before substring matches", () => {
+    const results = searchSkills("ux", skills).map(s => s.name);
+    expect(results).toEqual(["UI/UX Design", "UX Research"]);
+  });
+
+  it("should find skills by alias", () => {
+    expect(searchSkills("user", skills).map(s => s.name)).toEqual(["UX Research"]);
+  });
+
+  it("should return nothing for an empty query", () => {
+    expect(searchSkills("  ", skills)).toEqual([]);
+  });
+});
@@ -0,0 +1,56 @@
+/**
+ * Team Deck Tests
+ *
+ * Tests for tallying teammates' likes in the collective team deck.
+ */
+
+import { describe, it, expect } from "vitest";
+import { likesNeeded, formatSupporters, describeTeamSupport } from "@/lib/teamDeck";
+
+describe("likesNeeded", () => {
+  it("should count the likes still missing", () => {
+    expect(likesNeeded(1, 3, 4)).toBe(2);
+  });
+
+  it("should cap the quorum at the team size", () => {
+    expect(likesNeeded(1, 5, 2)).toBe(1);
+  });
+
+  it("should never go below zero", () => {
+    expect(likesNeeded(3, 2, 4)).toBe(0);
+  });
+});
+
+describe("formatSupporters", () => {
+  it("should list one or two names", () => {
+    expect(formatSupporters(["Ana"])).toBe("Ana");
+    expect(formatSupporters(["Ana", "Ben"])).toBe("Ana and Ben");
+  });
+
+  it("should summarize longer lists", () => {
+    expect(formatSupporters(["Ana", "Ben", "Cy"])).toBe("Ana, Ben and 1 other");
+    expect(formatSupporters(["Ana", "Ben", "Cy", "Di"])).toBe("Ana, Ben and 2 others");
+  });
+});
+
+describe("describeTeamSupport", () => {
+  it("should return null without support", () => {
+    expect(describeTeamSupport(undefined, 2)).toBeNull();
+    expect(describeTeamSupport({ supporters: [] }, 2)).toBeNull();
+  });
+
+  it("should say when the viewer's like sends the request", () => {
+    expect(describeTeamSupport({ supporters: ["Ana"] }, 1)).toBe(
+      "Liked by Ana · your like sends a request"
+    );
+    expect(describeTeamSupport({ supporters: ["Ana", "Ben"] }, 0)).toBe(
+      "Liked by Ana and Ben · your like sends a request"
+    );
+  });
+
+  it("should count the likes still needed", () => {
+    expect(describeTeamSupport({ supporters: ["Ana"] }, 3)).toBe(
+      "Liked by Ana · 3 more likes send a request"
+    );
+  });
+});
@@ -0,0 +1,107 @@
+/**
+ * Team Formation Tests
+ *
+ * Tests for automatic assignment of unassigned students into teams.
+ */
+
+import { describe, it, expect } from "vitest";
+import { proposeTeamFormation, getProposedTeamIssues } from "@/lib/teamFormation";
+import { createMockProfile, createMockTeam } from "@/test/mocks/data";
+import { Program, Studio } from "@/types";
+
+const student = (id: string, program: Program = "MBA", studio: Studio = "startup") =>
+  createMockProfile({ id, program, studioPreference: studio, studioPreferences: [studio] });
+
+const options = { minSize: 3, maxSize: 4 };
+
+const assignedIds = (proposal: ReturnType<typeof proposeTeamFormation>) =>
+  proposal.teams.flatMap(t => t.newMembers.map(m => m.id));
+
+describe("proposeTeamFormation", () => {
+  it("should place every student when there is room", () => {
+    const students = ["a", "b", "c", "d", "e", "f", "g"].map(id => student(id));
+    const proposal = proposeTeamFormation(students, [], [], options);
+
+    expect(proposal.unassigned).toHaveLength(0);
+    expect(assignedIds(proposal).sort()).toEqual(["a", "b", "c", "d", "e", "f", "g"]);
+  });
+
+  it("should respect the maximum team size", () => {
+    const students = Array.from({ length: 10 }, (_, i) => student(`s${i}`));
+    const proposal = proposeTeamFormation(students, [], [], options);
+
+    proposal.teams.forEach(team => {
+      expect(team.existingMembers.length + team.newMembers.length).toBeLessThanOrEqual(options.maxSize);
+    });
+  });
+
+  it("should top up an under-filled existing team", () => {
+    const team = createMockTeam({ id: "team-1", studio: "startup", members: [student("owner", "LLM")] });
+    const proposal = proposeTeamFormation([student("a"), student("b")], [team], [], options);
+
+    expect(proposal.teams).toHaveLength(1);
+    expect(proposal.teams[0].teamId).toBe("team-1");
+    expect(proposal.teams[0].newMembers).toHaveLength(2);
+  });
+
+  it("should keep students who liked each other together", () => {
+    const students = [
+      student("a", "MBA"), student("b", "MBA"), student("c", "MBA"),
+      student("d", "MBA"), student("e", "MBA"), student("f", "MBA"),
+    ];
+    const likes = [{ from: "a", to: "f" }, { from: "f", to: "a" }];
+    const proposal = proposeTeamFormation(students, [], likes, options);
+
+    const teamOf = (id: string) => proposal.teams.find(t => t.newMembers.some(m => m.id === id));
+    expect(teamOf("a")).toBe(teamOf("f"));
+  });
+
+  it("should prefer a studio the students chose", () => {
+    const students = [student("a", "MBA", "pitech"), student("b", "LLM", "pitech"), student("c", "CM", "pitech")];
+    const proposal = proposeTeamFormation(students, [], [], options);
+
+    expect(proposal.teams[0].studio).toBe("pitech");
+  });
+
+  it("should mix programs across teams", () => {
+    const students = [
+      student("m1", "MBA"), student("m2", "MBA"), student("m3", "MBA"),
+      student("e1", "MEng-CS"), student("e2", "MEng-CS"), student("e3", "MEng-CS"),
+    ];
+    const proposal = proposeTeamFormation(students, [], [], options);
+
+    proposal.teams.forEach(team => {
+      expect(new Set(team.newMembers.map(m => m.program)).size).toBeGreaterThan(1);
+    });
+  });
+
+  it("should leave students unassigned when no team can take them", () => {
+    const full = createMockTeam({ id: "full", members: Array.from({ length: 4 }, (_, i) => student(`m${i}`)) });
+    const proposal = proposeTeamFormation([student("a")], [full], [], options);
+
+    expect(proposal.teams).toHaveLength(0);
+    expect(proposal.unassigned.map(s => s.id)).toEqual(["a"]);
+  });
+});
+
+describe("getProposedTeamIssues", () => {
+  it("should flag teams below the minimum size", () => {
+    const issues = getProposedTeamIssues(
+      { key: "new-1", name: "New Team 1", studio: "startup", existingMembers: [], newMembers: [student("a", "MBA"), student("b", "LLM")] },
+      options
+    );
+    expect(issues).toContain("Below minimum size (3)");
+  });
+
+  it("should flag single-program teams and studio mismatches", () => {
+    const issues = getProposedTeamIssues(
+      {
+        key: "new-1", name: "New Team 1", studio: "bigco", existingMembers: [],
+        newMembers: [student("a"), student("b"), student("c")],
+      },
+      options
+    );
+    expect(issues).toContain("Single program");
+    expect(issues).toContain("3 didn't choose this studio");
+  });
+});
@@ -0,0 +1,109 @@
+/**
+ * Team Invite Tests
+ *
+ * Tests for invite codes, links and validity.
+ */
+
+import { describe, it, expect, beforeEach } from "vitest";
+import {
+  normalizeInviteCode,
+  buildInviteLink,
+  isInviteActive,
+  describeInviteUsage,
+  describeInviteRefusal,
+  rememberPendingInvite,
+  clearPendingInvite,
+  postSignInPath,
+} from "@/lib/teamInvites";
+
+const NOW = new Date("2026-10-18T12:00:00Z");
+const invite = {
+  revokedAt: null,
+  expiresAt: "2026-10-19T12:00:00Z",
+  maxUses: 5,
+  useCount: 2,
+};
+
+describe("normalizeInviteCode", () => {
+  it("should uppercase a typed code", () => {
+    expect(normalizeInviteCode("  ab12cd34 ")).toBe("AB12CD34");
+  });
+
+  it("should pull the code out of a pasted link", () => {
+    expect(normalizeInviteCode("https://example.com/join/ab12cd34?ref=qr")).toBe("AB12CD34");
+  });
+});
+
+describe("buildInviteLink", () => {
+  it("should point at the join route", () => {
+    expect(buildInviteLink("AB12CD34", "https://example.com")).toBe("https://example.com/join/AB12CD34");
+  });
+});
+
+describe("isInviteActive", () => {
+  it("should accept an unexpired invite with uses left", () => {
+    expect(isInviteActive(invite, NOW)).toBe(true);
+  });
+
+  it("should reject revoked invites", () => {
+    expect(isInviteActive({ ...invite, revokedAt: "2026-10-18T11:00:00Z" }, NOW)).toBe(false);
+  });
+
+  it("should reject expired invites", () => {
+    expect(isInviteActive({ ...invite, expiresAt: "2026-10-18T11:59:00Z" }, NOW)).toBe(false);
+  });
+
+  it("should reject invites that are used up", () => {
+    expect(isInviteActive({ ...invite, useCount: 5 }, NOW)).toBe(false);
+  });
+
+  it("should allow unlimited invites", () => {
+    expect(isInviteActive({ ...invite, maxUses: null, useCount: 40 }, NOW)).toBe(true);
+  });
+});
+
+describe("describeInviteUsage", () => {
+  it("should show the limit when there is one", () => {
+    expect(describeInviteUsage({ maxUses: 5, useCount: 2 })).toBe("2 of 5 uses");
+  });
+
+  it("should show just the count for unlimited invites", () => {
+    expect(describeInviteUsage({ maxUses: null, useCount: 1 })).toBe("1 use");
+  });
+});
+
+describe("describeInviteRefusal", () => {
+  it("should explain a full team", () => {
+    expect(describeInviteRefusal("full")).toBe("This team is full");
+  });
+
+  it("should tell members of another team to leave it first", () => {
+    expect(describeInviteRefusal("already_on_team")).toBe(
+      "You're already on another team. Leave it before joining this one"
+    );
+  });
+
+  it("should fall back for unknown reasons", () => {
+    expect(describeInviteRefusal(undefined)).toBe("This invite can't be used");
+  });
+});
+
+describe("pending invite", () => {
+  beforeEach(() => {
+    sessionStorage.clear();
+  });
+
+  it("should land on the app without an invite", () => {
+    expect(postSignInPath()).toBe("/app");
+  });
+
+  it("should return to the invite until it is cleared", () => {
+    rememberPendingInvite("AB12CD34");
+
+    expect(postSignInPath()).toBe("/join/AB12CD34");
+    expect(postSignInPath()).toBe("/join/AB12CD34");
+
+    clearPendingInvite();
+    expect(postSignInPath()).toBe("/app");
+  });
+});
@@ -0,0 +1,36 @@
+/**
+ * Team Merge Rules Tests
+ *
+ * Tests for when a team can propose a merge.
+ */
+
+import { describe, it, expect } from "vitest";
+import { canProposeMerge, MERGE_MAX_TEAM_SIZE } from "@/lib/teamMerge";
+import { createMockProfile, createMockTeam } from "@/test/mocks/data";
+
+const teamOfSize = (id: string, size: number) =>
+  createMockTeam({
+    id,
+    members: Array.from({ length: size }, () => createMockProfile()),
+  });
+
+describe("canProposeMerge", () => {
+  it("should allow two small teams to merge", () => {
+    expect(canProposeMerge(teamOfSize("a", 1), teamOfSize("b", MERGE_MAX_TEAM_SIZE))).toBe(true);
+  });
+
+  it("should not allow a team to merge with itself", () => {
+    const team = teamOfSize("a", 1);
+    expect(canProposeMerge(team, team)).toBe(false);
+  });
+
+  it("should not allow merges without a team of your own", () => {
+    expect(canProposeMerge(null, teamOfSize("b", 1))).toBe(false);
+  });
+
+  it("should reject teams larger than the merge limit on either side", () => {
+    const large = teamOfSize("big", MERGE_MAX_TEAM_SIZE + 1);
+    expect(canProposeMerge(large, teamOfSize("b", 1))).toBe(false);
+    expect(canProposeMerge(teamOfSize("a", 1), large)).toBe(false);
+  });
+});
@@ -0,0 +1,46 @@
+/**
+ * Undo Tests
+ *
+ * Tests for the swipe undo window and refusal messages.
+ */
+
+import { describe, it, expect } from "vitest";
+import { canUndoSwipe, describeUndoRefusal, UNDO_WINDOW_MINUTES } from "@/lib/undo";
+
+const NOW = new Date("2026-10-18T12:00:00Z");
+const minutesAgo = (minutes: number) => new Date(NOW.getTime() - minutes * 60 * 1000).toISOString();
+
+describe("canUndoSwipe", () => {
+  it("should allow undoing a recent swipe", () => {
+    expect(canUndoSwipe({ direction: "right", swipedAt: minutesAgo(1) }, NOW)).toBe(true);
+  });
+
+  it("should allow undoing right at the edge of the window", () => {
+    expect(canUndoSwipe({ direction: "left", swipedAt: minutesAgo(UNDO_WINDOW_MINUTES) }, NOW)).toBe(true);
+  });
+
+  it("should refuse swipes older than the window", () => {
+    expect(canUndoSwipe({ direction: "right", swipedAt: minutesAgo(UNDO_WINDOW_MINUTES + 1) }, NOW)).toBe(false);
+  });
+
+  it("should always allow undoing a save", () => {
+    expect(canUndoSwipe({ direction: "up", swipedAt: minutesAgo(60 * 24) }, NOW)).toBe(true);
+  });
+
+  it("should allow swipes without a timestamp", () => {
+    expect(canUndoSwipe({ direction: "left" }, NOW)).toBe(true);
+  });
+});
+
+describe("describeUndoRefusal", () => {
+  it("should explain each refusal", () => {
+    expect(describeUndoRefusal("accepted")).toMatch(/accepted/);
+    expect(describeUndoRefusal("responded")).toMatch(/responded/);
+    expect(describeUndoRefusal("replied")).toMatch(/replied/);
+    expect(describeUndoRefusal("expired")).toContain(`${UNDO_WINDOW_MINUTES} minutes`);
+  });
+
+  it("should fall back to a generic message", () => {
+    expect(describeUndoRefusal(undefined)).toBe("This swipe can't be undone anymore");
+  });
+});
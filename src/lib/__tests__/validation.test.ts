@@ -214,6 +214,22 @@ describe("Team Schema Validation", () => {
     });
     expect(result.success).toBe(false);
   });
+
+  it("should reject more than 5 application questions", () => {
+    const result = teamSchema.safeParse({
+      ...validTeam,
+      applicationQuestions: Array(6).fill("Why us?"),
+    });
+    expect(result.success).toBe(false);
+  });
+
+  it("should drop blank application questions", () => {
+    const result = teamSchema.safeParse({
+      ...validTeam,
+      applicationQuestions: ["  Which idea excites you? ", "   "],
+    });
+    expect(result.success && result.data.applicationQuestions).toEqual(["Which idea excites you?"]);
+  });
 });
 
 describe("Message Schema Validation", () => {
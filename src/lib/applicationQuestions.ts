@@ -0,0 +1,61 @@
+/**
+ * Team application questions
+ * Stored on teams.application_questions; the answers are stored on the
+ * join request as question/answer pairs.
+ * Limits mirror the valid_application_* database functions.
+ */
+
+/** Most questions a team can ask */
+export const MAX_APPLICATION_QUESTIONS = 5;
+export const MAX_QUESTION_LENGTH = 120;
+export const MAX_ANSWER_LENGTH = 500;
+
+/** A type rather than an interface so it can be stored as Json */
+export type ApplicationAnswer = {
+  question: string;
+  answer: string;
+};
+
+/**
+ * Cleans a raw application_questions value: trimmed, non-empty,
+ * distinct strings, capped in number and length
+ */
+export const normalizeApplicationQuestions = (raw: unknown): string[] => {
+  if (!Array.isArray(raw)) return [];
+
+  const questions: string[] = [];
+  raw.forEach(value => {
+    if (typeof value !== 'string') return;
+    const question = value.trim().slice(0, MAX_QUESTION_LENGTH);
+    if (question && !questions.includes(question)) questions.push(question);
+  });
+  return questions.slice(0, MAX_APPLICATION_QUESTIONS);
+};
+
+/**
+ * Cleans a raw application_answers value, dropping malformed entries
+ */
+export const normalizeApplicationAnswers = (raw: unknown): ApplicationAnswer[] => {
+  if (!Array.isArray(raw)) return [];
+
+  return raw
+    .filter((entry): entry is ApplicationAnswer =>
+      !!entry && typeof entry.question === 'string' && typeof entry.answer === 'string'
+    )
+    .map(({ question, answer }) => ({ question, answer }));
+};
+
+/**
+ * Pairs each question with its trimmed answer
+ */
+export const buildApplicationAnswers = (questions: string[], answers: string[]): ApplicationAnswer[] =>
+  questions.map((question, i) => ({
+    question,
+    answer: (answers[i] || '').trim().slice(0, MAX_ANSWER_LENGTH),
+  }));
+
+/**
+ * Whether every question has an answer
+ */
+export const isApplicationComplete = (questions: string[], answers: string[]): boolean =>
+  questions.every((_, i) => (answers[i] || '').trim().length > 0);
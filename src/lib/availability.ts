@@ -0,0 +1,106 @@
+/**
+ * Weekly availability
+ * A profile's free time as a grid of two-hour blocks, Monday to Sunday,
+ * 8am to 10pm. Stored as slot indices (day * blocks per day + block) so the
+ * database can compare schedules with plain array operators.
+ */
+
+export const AVAILABILITY_DAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'] as const;
+
+/** Start hour of each block, 24h clock */
+export const AVAILABILITY_BLOCK_STARTS = [8, 10, 12, 14, 16, 18, 20] as const;
+
+export const SLOT_HOURS = 2;
+
+export const AVAILABILITY_SLOT_COUNT = AVAILABILITY_DAYS.length * AVAILABILITY_BLOCK_STARTS.length;
+
+/** Minimum shared hours per week offered by the people filter */
+export const OVERLAP_FILTER_HOURS = [2, 6, 10] as const;
+
+/**
+ * Slot index for a day (0 = Monday) and block
+ */
+export const slotIndex = (day: number, block: number): number =>
+  day * AVAILABILITY_BLOCK_STARTS.length + block;
+
+/**
+ * Short label for a block's start, e.g. "8am", "12pm"
+ */
+export const formatBlockStart = (block: number): string => {
+  const hour = AVAILABILITY_BLOCK_STARTS[block];
+  return `${hour % 12 || 12}${hour < 12 ? 'am' : 'pm'}`;
+};
+
+/**
+ * Cleans a stored schedule: whole slot indices in range, sorted, no repeats
+ */
+export const normalizeAvailability = (raw: unknown): number[] => {
+  if (!Array.isArray(raw)) return [];
+  const slots = raw.filter(
+    (s): s is number => Number.isInteger(s) && s >= 0 && s < AVAILABILITY_SLOT_COUNT
+  );
+  return [...new Set(slots)].sort((a, b) => a - b);
+};
+
+/**
+ * Toggles a group of slots (a cell, a whole day or a whole time of day):
+ * clears them if all are selected, otherwise selects them all
+ */
+export const toggleSlots = (slots: number[], group: number[]): number[] => {
+  const selected = new Set(slots);
+  const allSelected = group.every(s => selected.has(s));
+  for (const s of group) {
+    if (allSelected) selected.delete(s);
+    else selected.add(s);
+  }
+  return [...selected].sort((a, b) => a - b);
+};
+
+/**
+ * Slots when everyone who has filled in a schedule is free.
+ * Null when nobody has, so "no schedule" can be told apart from "no overlap".
+ */
+export const commonAvailability = (schedules: (number[] | undefined)[]): number[] | null => {
+  const filled = schedules.filter((s): s is number[] => !!s?.length);
+  if (filled.length === 0) return null;
+  return filled.reduce((common, schedule) => common.filter(s => schedule.includes(s)));
+};
+
+export interface ScheduleOverlap {
+  /** Slots when the candidate and the viewer's side are all free */
+  slots: number[];
+  /** Shared hours per week */
+  hours: number;
+  /** Share of the viewer side's common free time the candidate can make, 0-1 */
+  share: number;
+}
+
+/**
+ * Overlap between a candidate and the viewer (or every teammate at once).
+ * Null when either side hasn't filled in a schedule.
+ */
+export const scheduleOverlap = (
+  candidate: number[] | undefined,
+  side: (number[] | undefined)[]
+): ScheduleOverlap | null => {
+  const common = commonAvailability(side);
+  if (!candidate?.length || common === null) return null;
+
+  const slots = common.filter(s => candidate.includes(s));
+  return {
+    slots,
+    hours: slots.length * SLOT_HOURS,
+    share: common.length ? slots.length / common.length : 0,
+  };
+};
+
+/**
+ * One-line summary, e.g. "6 hours a week when you're all free"
+ */
+export const describeOverlap = (overlap: ScheduleOverlap, withTeam: boolean): string => {
+  if (overlap.hours === 0) {
+    return withTeam ? 'No time when you\'re all free' : 'No free time in common';
+  }
+  const hours = `${overlap.hours} ${overlap.hours === 1 ? 'hour' : 'hours'} a week`;
+  return withTeam ? `${hours} when you're all free` : `${hours} in common`;
+};
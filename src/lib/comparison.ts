@@ -0,0 +1,93 @@
+/**
+ * Candidate comparison
+ * Lines up two to four people from the team's pending requests and
+ * shortlist so the team can weigh them side by side.
+ */
+
+import { UserProfile } from '@/types';
+import { ApplicationAnswer } from './applicationQuestions';
+
+export const MIN_COMPARED = 2;
+export const MAX_COMPARED = 4;
+
+/** Where a compared candidate came from */
+export type ComparisonSource = 'applied' | 'invited' | 'shortlisted';
+
+export interface ComparisonCandidate {
+  profile: UserProfile;
+  source: ComparisonSource;
+  /** Answers to the team's application questions (applicants only) */
+  applicationAnswers: ApplicationAnswer[];
+}
+
+/** A candidate's skill, flagged when the team listed it as needed */
+export interface SkillFit {
+  skill: string;
+  needed: boolean;
+}
+
+const normalizeSkill = (skill: string): string => skill.trim().toLowerCase();
+
+/**
+ * One entry per person. Someone both shortlisted and in the requests list
+ * keeps the request, which carries their application answers.
+ */
+export const mergeComparisonPool = (
+  requests: ComparisonCandidate[],
+  shortlisted: UserProfile[]
+): ComparisonCandidate[] => {
+  const seen = new Set(requests.map(r => r.profile.id));
+  return [
+    ...requests,
+    ...shortlisted
+      .filter(p => !seen.has(p.id))
+      .map(profile => ({ profile, source: 'shortlisted' as const, applicationAnswers: [] })),
+  ];
+};
+
+/**
+ * Adds or removes a profile id from the selection. Adding past the
+ * maximum is ignored.
+ */
+export const toggleCompared = (selected: string[], profileId: string): string[] => {
+  if (selected.includes(profileId)) return selected.filter(id => id !== profileId);
+  if (selected.length >= MAX_COMPARED) return selected;
+  return [...selected, profileId];
+};
+
+export const canCompare = (selected: string[]): boolean =>
+  selected.length >= MIN_COMPARED && selected.length <= MAX_COMPARED;
+
+/**
+ * Flags the skills the team needs, listing those first
+ */
+export const markNeededSkills = (skills: string[], skillsNeeded: string[]): SkillFit[] => {
+  const needed = new Set(skillsNeeded.map(normalizeSkill));
+  const fits = skills.map(skill => ({ skill, needed: needed.has(normalizeSkill(skill)) }));
+  return [...fits.filter(f => f.needed), ...fits.filter(f => !f.needed)];
+};
+
+/**
+ * Every question answered by at least one candidate, in first-seen order,
+ * so answers to the same question line up in one row
+ */
+export const comparisonQuestions = (candidates: ComparisonCandidate[]): string[] => [
+  ...new Set(candidates.flatMap(c => c.applicationAnswers.map(a => a.question))),
+];
+
+/**
+ * A candidate's answer to one question, or null if they weren't asked it
+ */
+export const answerFor = (candidate: ComparisonCandidate, question: string): string | null =>
+  candidate.applicationAnswers.find(a => a.question === question)?.answer ?? null;
+
+export const describeComparisonSource = (source: ComparisonSource): string => {
+  switch (source) {
+    case 'applied':
+      return 'Applied';
+    case 'invited':
+      return 'Invited';
+    case 'shortlisted':
+      return 'Shortlisted';
+  }
+};
@@ -0,0 +1,118 @@
+/**
+ * Compatibility Scoring
+ *
+ * Explains why a discovery candidate suits the viewer (or the viewer's team).
+ * The deck scores each candidate in the database (compatibility_breakdown)
+ * on three weighted signals and returns the points per signal; this module
+ * turns those points into the card's match percentage and reasons:
+ * - Complementary skills: skills the viewer/team doesn't already cover
+ * - Program fit: a program the team declared it needs, or (without declared
+ *   needs) a program not yet represented on the viewer's side
+ * - Studio overlap: shared studio preferences
+ */
+
+import { UserProfile, Team, Studio } from '@/types';
+import { studioInfo } from '@/data/mockData';
+
+/**
+ * The viewer-side context a candidate is scored against
+ */
+export interface CompatibilityContext {
+  /** The current user's profile */
+  viewer: Pick<UserProfile, 'program' | 'skills' | 'studioPreference' | 'studioPreferences'>;
+  /** The current user's team, if any (takes precedence over the viewer) */
+  team?: Team | null;
+}
+
+/**
+ * Score breakdown for a single candidate
+ */
+export interface CompatibilityScore {
+  /** Weighted total, 0-100 */
+  total: number;
+  /** Points from complementary skills */
+  skills: number;
+  /** Points from program diversity */
+  program: number;
+  /** Points from studio overlap */
+  studio: number;
+  /** Short human-readable explanations, strongest signal first */
+  reasons: string[];
+}
+
+/**
+ * Points per signal, as scored by the deck
+ */
+export type CompatibilityPoints = Pick<CompatibilityScore, 'skills' | 'program' | 'studio'>;
+
+const normalizeSkill = (skill: string): string => skill.trim().toLowerCase();
+
+const getStudios = (profile: Pick<UserProfile, 'studioPreference' | 'studioPreferences'>): Studio[] =>
+  profile.studioPreferences?.length ? profile.studioPreferences : [profile.studioPreference].filter(Boolean);
+
+/**
+ * Collects the skills and studios already covered on the viewer's side
+ */
+const getViewerSide = ({ viewer, team }: CompatibilityContext) => {
+  const members = team?.members.length ? team.members : [viewer];
+
+  const skills = new Set(members.flatMap(m => m.skills).map(normalizeSkill));
+  const studios = new Set<Studio>(team ? [team.studio] : getStudios(viewer));
+  const skillsNeeded = new Set((team?.skillsNeeded || []).map(normalizeSkill));
+  const programNeeds = team?.programNeeds || {};
+
+  return { skills, studios, skillsNeeded, programNeeds, isTeam: !!team };
+};
+
+/**
+ * Describes a candidate's score from the deck against the viewer's context
+ */
+export function describeCompatibility(
+  candidate: UserProfile,
+  context: CompatibilityContext,
+  points: CompatibilityPoints
+): CompatibilityScore {
+  const side = getViewerSide(context);
+  const reasons: { text: string; points: number }[] = [];
+
+  // Skills the team explicitly asked for make the stronger case
+  const candidateSkills = [...new Set(candidate.skills.map(normalizeSkill))];
+  const newSkills = candidateSkills.filter(s => !side.skills.has(s));
+  const neededSkills = candidateSkills.filter(s => side.skillsNeeded.has(s));
+  if (neededSkills.length > 0) {
+    reasons.push({
+      text: `Has ${neededSkills.length} ${neededSkills.length === 1 ? 'skill' : 'skills'} your team needs`,
+      points: points.skills,
+    });
+  } else if (newSkills.length > 0) {
+    reasons.push({
+      text: `Brings ${newSkills.length} ${newSkills.length === 1 ? 'skill' : 'skills'} ${side.isTeam ? 'your team doesn\'t have' : 'you don\'t have'}`,
+      points: points.skills,
+    });
+  }
+
+  // Program fit: a team's declared needs win; otherwise it's diversity
+  if (points.program > 0) {
+    const openNeed = side.programNeeds[candidate.program] || 0;
+    reasons.push({
+      text: openNeed > 0
+        ? `Your team needs ${openNeed} ${candidate.program}`
+        : `Adds a ${candidate.program} perspective`,
+      points: points.program,
+    });
+  }
+
+  if (points.studio > 0) {
+    const sharedStudios = getStudios(candidate).filter(s => side.studios.has(s));
+    reasons.push({
+      text: `Also interested in ${sharedStudios.map(s => studioInfo[s]?.name || s).join(' & ')}`,
+      points: points.studio,
+    });
+  }
+
+  return {
+    total: points.skills + points.program + points.studio,
+    ...points,
+    reasons: reasons.sort((a, b) => b.points - a.points).map(r => r.text),
+  };
+}
@@ -0,0 +1,72 @@
+/**
+ * Join request voting
+ * Mirrors the tally in the cast_join_request_vote database function: once
+ * the quorum of votes is in, the majority decides and ties reject.
+ */
+
+export type JoinVote = 'approve' | 'reject';
+
+export interface JoinRequestVote {
+  matchId: string;
+  voterId: string;
+  vote: JoinVote;
+  comment: string | null;
+  createdAt: string;
+}
+
+/**
+ * Outcome of accepting or declining a join request. An accept comes back
+ * rejected with reason 'already_on_team' when the applicant has joined
+ * another team in the meantime.
+ */
+export interface JoinRequestResolution {
+  status: 'accepted' | 'rejected';
+  team_id?: string;
+  reason?: 'already_on_team';
+}
+
+export interface JoinVoteTally {
+  approvals: number;
+  rejections: number;
+  /** Votes needed before the request resolves */
+  quorum: number;
+  /** Votes still missing to reach the quorum */
+  remaining: number;
+}
+
+/**
+ * Quorum that can actually be reached by a team of `memberCount`
+ */
+export const effectiveQuorum = (quorum: number, memberCount: number): number =>
+  Math.max(1, Math.min(quorum, memberCount));
+
+/**
+ * Counts the votes of current members against the team's quorum
+ */
+export const tallyJoinVotes = (
+  votes: Pick<JoinRequestVote, 'voterId' | 'vote'>[],
+  quorum: number,
+  memberIds: string[]
+): JoinVoteTally => {
+  const members = new Set(memberIds);
+  const counted = votes.filter(v => members.has(v.voterId));
+  const approvals = counted.filter(v => v.vote === 'approve').length;
+  const rejections = counted.length - approvals;
+  const needed = effectiveQuorum(quorum, memberIds.length);
+
+  return {
+    approvals,
+    rejections,
+    quorum: needed,
+    remaining: Math.max(0, needed - counted.length),
+  };
+};
+
+/**
+ * Short tally summary, e.g. "2 approve · 1 reject · 1 more vote needed"
+ */
+export const describeJoinVoteTally = ({ approvals, rejections, remaining }: JoinVoteTally): string => {
+  const parts = [`${approvals} approve`, `${rejections} reject`];
+  if (remaining > 0) parts.push(`${remaining} more ${remaining === 1 ? 'vote' : 'votes'} needed`);
+  return parts.join(' · ');
+};
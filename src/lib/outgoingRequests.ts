@@ -0,0 +1,95 @@
+/**
+ * Outgoing requests
+ * Interest a student or their team has sent, as returned by the
+ * get_outgoing_requests database function.
+ */
+
+export type OutgoingRequestStatus = 'pending' | 'accepted' | 'rejected' | 'expired';
+
+/** Why a request couldn't be withdrawn */
+export type WithdrawRefusal = 'not_pending';
+
+/** Row returned by get_outgoing_requests */
+export interface OutgoingRequestRow {
+  id: string;
+  match_type: string;
+  status: string;
+  created_at: string;
+  responded_at: string | null;
+  expires_at: string | null;
+  sender_team_name: string | null;
+  target_name: string | null;
+  target_avatar: string | null;
+}
+
+export interface OutgoingRequest {
+  id: string;
+  status: OutgoingRequestStatus;
+  /** Whether the request went to a team rather than a person */
+  toTeam: boolean;
+  targetName: string;
+  targetAvatar?: string;
+  /** Set when the request was sent on behalf of the viewer's team */
+  sentByTeam?: string;
+  sentAt: string;
+  respondedAt?: string;
+  /** When a pending request lapses unanswered */
+  expiresAt?: string;
+}
+
+/**
+ * Collapses match statuses into what the sender sees. Mutual likes
+ * ('matched') and accepted join requests both read as accepted.
+ */
+export const toOutgoingStatus = (status: string): OutgoingRequestStatus => {
+  if (status === 'matched' || status === 'accepted') return 'accepted';
+  if (status === 'rejected') return 'rejected';
+  if (status === 'expired') return 'expired';
+  return 'pending';
+};
+
+export const transformOutgoingRequest = (row: OutgoingRequestRow): OutgoingRequest => ({
+  id: row.id,
+  status: toOutgoingStatus(row.status),
+  toTeam: row.match_type === 'individual_to_team' || row.match_type === 'team_to_team',
+  targetName: row.target_name || 'Unknown',
+  targetAvatar: row.target_avatar || undefined,
+  sentByTeam: row.sender_team_name || undefined,
+  sentAt: row.created_at,
+  respondedAt: row.responded_at || undefined,
+  expiresAt: row.status === 'pending' ? row.expires_at || undefined : undefined,
+});
+
+/**
+ * Counts per status, for the filter labels
+ */
+export const countByStatus = (requests: OutgoingRequest[]): Record<OutgoingRequestStatus, number> =>
+  requests.reduce(
+    (counts, r) => ({ ...counts, [r.status]: counts[r.status] + 1 }),
+    { pending: 0, accepted: 0, rejected: 0, expired: 0 }
+  );
+
+export const describeOutgoingStatus = (status: OutgoingRequestStatus): string => {
+  switch (status) {
+    case 'accepted':
+      return 'Accepted';
+    case 'rejected':
+      return 'Declined';
+    case 'expired':
+      return 'Expired';
+    default:
+      return 'Pending';
+  }
+};
+
+/**
+ * User-facing explanation for a refused withdrawal
+ */
+export const describeWithdrawRefusal = (reason: WithdrawRefusal | undefined): string => {
+  switch (reason) {
+    case 'not_pending':
+      return 'This request has already been answered';
+    default:
+      return "This request can't be withdrawn";
+  }
+};
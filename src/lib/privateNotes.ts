@@ -0,0 +1,39 @@
+/**
+ * Private notes
+ * A user's own note on a profile or team. Only the author can read it;
+ * the database enforces the same length limit.
+ */
+
+export const MAX_PRIVATE_NOTE_LENGTH = 1000;
+
+/** What a note is about */
+export interface NoteTarget {
+  type: 'profile' | 'team';
+  id: string;
+}
+
+/**
+ * Map key for a note target, e.g. "profile:<user id>"
+ */
+export const noteKey = ({ type, id }: NoteTarget): string => `${type}:${id}`;
+
+/**
+ * Target of a stored note row (exactly one of the ids is set)
+ */
+export const noteTargetFromRow = (row: { target_user_id: string | null; team_id: string | null }): NoteTarget | null => {
+  if (row.target_user_id) return { type: 'profile', id: row.target_user_id };
+  if (row.team_id) return { type: 'team', id: row.team_id };
+  return null;
+};
+
+/**
+ * One-line preview for cards: whitespace collapsed, cut at a word boundary
+ */
+export const notePreview = (note: string, maxLength = 60): string => {
+  const text = note.replace(/\s+/g, ' ').trim();
+  if (text.length <= maxLength) return text;
+
+  const cut = text.slice(0, maxLength);
+  const lastSpace = cut.lastIndexOf(' ');
+  return `${(lastSpace > maxLength / 2 ? cut.slice(0, lastSpace) : cut).trimEnd()}…`;
+};
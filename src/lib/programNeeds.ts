@@ -0,0 +1,44 @@
+/**
+ * Team program needs
+ * Structured "looking for" counts, e.g. { MBA: 1, 'MEng-CS': 2 }.
+ * Stored on teams.program_needs and decremented by the database as members join.
+ */
+
+import { Program, ProgramNeeds } from '@/types';
+import { programColors } from '@/data/mockData';
+
+/** Most people a team can ask for from a single program */
+export const MAX_PROGRAM_NEED = 5;
+
+const isProgram = (value: string): value is Program => value in programColors;
+
+/**
+ * Cleans a raw program_needs value: known programs with positive whole counts only
+ */
+export const normalizeProgramNeeds = (raw: unknown): ProgramNeeds => {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return {};
+
+  const needs: ProgramNeeds = {};
+  Object.entries(raw as Record<string, unknown>).forEach(([program, count]) => {
+    const n = Math.min(MAX_PROGRAM_NEED, Math.floor(Number(count)));
+    if (isProgram(program) && n > 0) needs[program] = n;
+  });
+  return needs;
+};
+
+/**
+ * Programs the team still needs, largest need first
+ */
+export const programsNeeded = (needs: ProgramNeeds): Program[] =>
+  (Object.entries(needs) as [Program, number][])
+    .filter(([, count]) => count > 0)
+    .sort((a, b) => b[1] - a[1])
+    .map(([program]) => program);
+
+/**
+ * Human-readable summary, e.g. "1 MBA, 2 MEng-CS"
+ */
+export const formatProgramNeeds = (needs: ProgramNeeds): string =>
+  programsNeeded(needs)
+    .map(program => `${needs[program]} ${program}`)
+    .join(', ');
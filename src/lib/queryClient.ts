@@ -63,6 +63,10 @@ export const queryKeys = {
     messages: (conversationId: string) => ['conversations', 'messages', conversationId] as const,
     unreadCount: (userId: string) => ['conversations', 'unread', userId] as const,
   },
+  // Skill taxonomy
+  skills: {
+    all: ['skills'] as const,
+  },
 } as const;
 
 /**
@@ -0,0 +1,38 @@
+/**
+ * Team recruiting status
+ * Owners choose open or paused; full is set by the database when the team
+ * reaches its size limit and cleared when a spot frees up.
+ */
+
+export type RecruitingStatus = 'open' | 'paused' | 'full';
+
+/** Statuses an owner can pick */
+export const OWNER_RECRUITING_STATUSES = ['open', 'paused'] as const;
+
+export const normalizeRecruitingStatus = (value: unknown): RecruitingStatus =>
+  value === 'paused' || value === 'full' ? value : 'open';
+
+export const describeRecruitingStatus = (status: RecruitingStatus): string => {
+  switch (status) {
+    case 'paused':
+      return 'Paused';
+    case 'full':
+      return 'Full';
+    default:
+      return 'Open';
+  }
+};
+
+/**
+ * One-line explanation shown under the status
+ */
+export const explainRecruitingStatus = (status: RecruitingStatus): string => {
+  switch (status) {
+    case 'paused':
+      return 'Hidden from the team deck; existing requests stay open';
+    case 'full':
+      return 'At the size limit. Pending requests were closed and the team reopens when a spot frees up';
+    default:
+      return 'Shown in the team deck and accepting requests';
+  }
+};
@@ -0,0 +1,76 @@
+/**
+ * Second-look deck helpers
+ * Passed profiles can be revisited once a cooldown has elapsed. Each pass
+ * stores a snapshot of the profile so the card can highlight what changed.
+ */
+
+import { UserProfile } from '@/types';
+
+export const REVISIT_COOLDOWN_OPTIONS = [
+  { days: 1, label: '1 day' },
+  { days: 7, label: '1 week' },
+  { days: 30, label: '30 days' },
+] as const;
+
+export const DEFAULT_REVISIT_COOLDOWN_DAYS = 7;
+
+/** Profile fields captured on `matches.target_snapshot` when passing */
+export interface ProfileSnapshot {
+  program?: string;
+  skills?: string[];
+  bio?: string;
+  studio_preferences?: string[];
+}
+
+export interface ProfileChanges {
+  addedSkills: string[];
+  removedSkills: string[];
+  bioChanged: boolean;
+  programChanged: boolean;
+  studiosChanged: boolean;
+}
+
+/**
+ * Passes last touched before this date are eligible for a second look
+ */
+export const getRevisitCutoff = (cooldownDays: number, now: Date = new Date()): Date =>
+  new Date(now.getTime() - cooldownDays * 24 * 60 * 60 * 1000);
+
+/**
+ * Compares a profile to its snapshot from the time of the pass.
+ * Returns null when no snapshot was recorded (passes made before snapshots existed).
+ */
+export const getProfileChanges = (
+  snapshot: ProfileSnapshot | null,
+  current: UserProfile
+): ProfileChanges | null => {
+  if (!snapshot) return null;
+
+  const before = new Set((snapshot.skills || []).map(s => s.toLowerCase()));
+  const after = new Set(current.skills.map(s => s.toLowerCase()));
+  const studiosBefore = [...(snapshot.studio_preferences || [])].sort().join(',');
+  const studiosAfter = [...current.studioPreferences].sort().join(',');
+
+  return {
+    addedSkills: current.skills.filter(s => !before.has(s.toLowerCase())),
+    removedSkills: (snapshot.skills || []).filter(s => !after.has(s.toLowerCase())),
+    bioChanged: (snapshot.bio || '').trim() !== (current.bio || '').trim(),
+    programChanged: !!snapshot.program && snapshot.program !== current.program,
+    studiosChanged: studiosBefore !== studiosAfter,
+  };
+};
+
+/**
+ * Short highlights for the card, most interesting first
+ */
+export const describeProfileChanges = (changes: ProfileChanges | null): string[] => {
+  if (!changes) return [];
+
+  const highlights: string[] = [];
+  if (changes.addedSkills.length > 0) highlights.push(`New skills: ${changes.addedSkills.join(', ')}`);
+  if (changes.programChanged) highlights.push('Changed program');
+  if (changes.bioChanged) highlights.push('Edited bio');
+  if (changes.studiosChanged) highlights.push('Updated studio preferences');
+  if (changes.removedSkills.length > 0) highlights.push(`Removed: ${changes.removedSkills.join(', ')}`);
+  return highlights;
+};
@@ -0,0 +1,112 @@
+/**
+ * Team shortlist
+ * Candidates a team is considering, as returned by the get_team_shortlist
+ * database function. Notes and ratings are internal to the team.
+ */
+
+import { UserProfile } from '@/types';
+import { transformProfile } from '@/lib/transforms';
+
+export const MAX_SHORTLIST_NOTE_LENGTH = 1000;
+
+/** Where the team's request to a candidate stands */
+export type ShortlistRequestStatus = 'none' | 'pending' | 'accepted' | 'declined';
+
+export interface ShortlistNote {
+  authorId: string;
+  authorName: string;
+  /** 1-5 stars, if the member rated */
+  rating: number | null;
+  note: string | null;
+  updatedAt: string;
+}
+
+export interface ShortlistCandidate {
+  /** Shortlist entry id */
+  id: string;
+  profile: UserProfile;
+  addedBy: string;
+  addedByName: string;
+  addedAt: string;
+  requestStatus: ShortlistRequestStatus;
+  notes: ShortlistNote[];
+}
+
+/** Row returned by get_team_shortlist */
+export interface ShortlistRow {
+  id: string;
+  created_at: string;
+  added_by: string;
+  added_by_name: string | null;
+  candidate: Record<string, unknown>;
+  request_status: string | null;
+  notes: {
+    author_id: string;
+    author_name: string | null;
+    rating: number | null;
+    note: string | null;
+    updated_at: string;
+  }[];
+}
+
+export const toShortlistRequestStatus = (status: string | null): ShortlistRequestStatus => {
+  switch (status) {
+    case 'pending':
+      return 'pending';
+    case 'matched':
+    case 'accepted':
+      return 'accepted';
+    case 'rejected':
+    case 'expired':
+      return 'declined';
+    default:
+      return 'none';
+  }
+};
+
+export const transformShortlistRow = (row: ShortlistRow): ShortlistCandidate => ({
+  id: row.id,
+  profile: transformProfile(row.candidate),
+  addedBy: row.added_by,
+  addedByName: row.added_by_name || 'A teammate',
+  addedAt: row.created_at,
+  requestStatus: toShortlistRequestStatus(row.request_status),
+  notes: (row.notes || []).map(n => ({
+    authorId: n.author_id,
+    authorName: n.author_name || 'Member',
+    rating: n.rating,
+    note: n.note,
+    updatedAt: n.updated_at,
+  })),
+});
+
+/**
+ * Mean of the members' ratings, rounded to one decimal; null if nobody rated
+ */
+export const averageRating = (notes: Pick<ShortlistNote, 'rating'>[]): number | null => {
+  const ratings = notes.map(n => n.rating).filter((r): r is number => r !== null);
+  if (ratings.length === 0) return null;
+  return Math.round((ratings.reduce((sum, r) => sum + r, 0) / ratings.length) * 10) / 10;
+};
+
+/**
+ * Best rated first; unrated candidates keep their shortlist order at the end
+ */
+export const sortByRating = (candidates: ShortlistCandidate[]): ShortlistCandidate[] =>
+  candidates
+    .map((candidate, index) => ({ candidate, index, rating: averageRating(candidate.notes) }))
+    .sort((a, b) => (b.rating ?? -1) - (a.rating ?? -1) || a.index - b.index)
+    .map(({ candidate }) => candidate);
+
+export const describeShortlistRequestStatus = (status: ShortlistRequestStatus): string => {
+  switch (status) {
+    case 'pending':
+      return 'Request sent';
+    case 'accepted':
+      return 'Accepted';
+    case 'declined':
+      return 'Declined';
+    default:
+      return 'Not contacted';
+  }
+};
@@ -0,0 +1,64 @@
+/**
+ * Skill taxonomy helpers
+ * Canonical skills live in the `skills` table with aliases and a category.
+ * Free-text skills are resolved to their canonical name so that e.g.
+ * "UX/UI Design" and "UI/UX Design" compare equal.
+ */
+
+export interface Skill {
+  id: string;
+  name: string;
+  category: string;
+  aliases: string[];
+}
+
+/** Lookup from lowercased name or alias to canonical name */
+export type SkillIndex = Map<string, string>;
+
+const normalize = (value: string): string => value.trim().toLowerCase().replace(/\s+/g, ' ');
+
+/**
+ * Builds a case-insensitive lookup of every canonical name and alias
+ */
+export const buildSkillIndex = (skills: Skill[]): SkillIndex => {
+  const index: SkillIndex = new Map();
+  skills.forEach(skill => {
+    index.set(normalize(skill.name), skill.name);
+    skill.aliases.forEach(alias => {
+      // A canonical name always wins over another skill's alias
+      if (!index.has(normalize(alias))) index.set(normalize(alias), skill.name);
+    });
+  });
+  return index;
+};
+
+/**
+ * Resolves a free-text skill to its canonical name (trimmed input if unknown)
+ */
+export const canonicalizeSkill = (raw: string, index: SkillIndex): string =>
+  index.get(normalize(raw)) ?? raw.trim();
+
+/**
+ * Whether two skills are the same once resolved through the taxonomy
+ */
+export const skillsMatch = (a: string, b: string, index: SkillIndex): boolean =>
+  normalize(canonicalizeSkill(a, index)) === normalize(canonicalizeSkill(b, index));
+
+/**
+ * Autocomplete suggestions: prefix matches on names or aliases first, then
+ * substring matches. Each canonical skill appears at most once.
+ */
+export const searchSkills = (query: string, skills: Skill[], limit = 8): Skill[] => {
+  const q = normalize(query);
+  if (!q) return [];
+
+  const prefix: Skill[] = [];
+  const contains: Skill[] = [];
+  skills.forEach(skill => {
+    const terms = [skill.name, ...skill.aliases].map(normalize);
+    if (terms.some(t => t.startsWith(q))) prefix.push(skill);
+    else if (terms.some(t => t.includes(q))) contains.push(skill);
+  });
+
+  return [...prefix, ...contains].slice(0, limit);
+};
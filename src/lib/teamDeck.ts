@@ -0,0 +1,58 @@
+/**
+ * Collective team deck
+ * Mirrors the tally in the cast_team_candidate_vote database function: a
+ * request goes out once likes from current members reach the team's
+ * swipe quorum, capped at the team size.
+ */
+
+import { effectiveQuorum } from './joinVotes';
+
+export type TeamCandidateVote = 'like' | 'pass';
+
+/** Result returned by cast_team_candidate_vote */
+export interface TeamVoteResult {
+  /**
+   * `sent` when this vote reached the quorum and sent the request,
+   * `blocked` when it did but the voter already has their own match or
+   * request with the candidate, since the request goes out in their name
+   */
+  status: 'pending' | 'sent' | 'already_requested' | 'blocked';
+  likes: number;
+  quorum: number;
+  match_id?: string;
+  conversation_id?: string;
+}
+
+/** Teammates who liked a candidate in the team deck */
+export interface TeamSupport {
+  /** Names in the order they liked */
+  supporters: string[];
+}
+
+/**
+ * Likes still missing before a request is sent
+ */
+export const likesNeeded = (likes: number, quorum: number, memberCount: number): number =>
+  Math.max(0, effectiveQuorum(quorum, memberCount) - likes);
+
+/**
+ * Joins names for display, e.g. "Ana", "Ana and Ben", "Ana, Ben and 2 others"
+ */
+export const formatSupporters = (names: string[]): string => {
+  if (names.length <= 2) return names.join(' and ');
+  const others = names.length - 2;
+  return `${names[0]}, ${names[1]} and ${others} ${others === 1 ? 'other' : 'others'}`;
+};
+
+/**
+ * Card label for partial support, e.g. "Liked by Ana · 1 more like sends a request".
+ * Null when no teammate has liked the candidate yet.
+ */
+export const describeTeamSupport = (support: TeamSupport | undefined, needed: number): string | null => {
+  if (!support || support.supporters.length === 0) return null;
+
+  const liked = `Liked by ${formatSupporters(support.supporters)}`;
+  // The viewer's like is always one of the missing ones
+  if (needed <= 1) return `${liked} · your like sends a request`;
+  return `${liked} · ${needed} more likes send a request`;
+};
@@ -0,0 +1,276 @@
+/**
+ * Automatic Team Formation
+ *
+ * Proposes an assignment of unassigned students into under-filled existing
+ * teams and new teams. The proposal is greedy and deterministic:
+ * - Students who liked each other are kept together where possible
+ * - Under-filled existing teams are topped up to the minimum size first
+ * - Placement favours shared studio preference, a mix of programs and likes
+ * Directors review and tweak the proposal before it is committed.
+ */
+
+import { UserProfile, Team, Studio } from '@/types';
+
+/** Team size bounds for a formation run */
+export interface FormationOptions {
+  minSize: number;
+  maxSize: number;
+}
+
+export const DEFAULT_FORMATION_OPTIONS: FormationOptions = {
+  minSize: 3,
+  maxSize: 5,
+};
+
+/**
+ * A directed like: `from` swiped right on `to` (a user id or a team id)
+ */
+export interface FormationLike {
+  from: string;
+  to: string;
+}
+
+/**
+ * One team in a proposal, either an existing team being topped up or a new one
+ */
+export interface ProposedTeam {
+  /** Stable key for editing (the team id for existing teams) */
+  key: string;
+  /** Set for existing teams, undefined for teams the commit will create */
+  teamId?: string;
+  name: string;
+  studio: Studio;
+  /** Confirmed members already on the team (not moved by the proposal) */
+  existingMembers: UserProfile[];
+  /** Students the proposal assigns to this team */
+  newMembers: UserProfile[];
+}
+
+export interface FormationProposal {
+  teams: ProposedTeam[];
+  /** Students the proposal could not place */
+  unassigned: UserProfile[];
+}
+
+/** Relative weight of each placement signal */
+const PLACEMENT_WEIGHTS = {
+  studioMatch: 3,
+  studioMismatch: -5,
+  newProgram: 2,
+  repeatedProgram: -2,
+  like: 4,
+  fillsToMinimum: 6,
+} as const;
+
+const studiosOf = (student: UserProfile): Studio[] =>
+  student.studioPreferences?.length ? student.studioPreferences : [student.studioPreference];
+
+const membersOf = (team: ProposedTeam) => [...team.existingMembers, ...team.newMembers];
+
+/**
+ * Groups students into clusters of mutual likes, never larger than `maxSize`
+ */
+const clusterByMutualLikes = (
+  students: UserProfile[],
+  likes: Set<string>,
+  maxSize: number
+): UserProfile[][] => {
+  const clusterOf = new Map<string, UserProfile[]>();
+  students.forEach(s => clusterOf.set(s.id, [s]));
+
+  for (let i = 0; i < students.length; i++) {
+    for (let j = i + 1; j < students.length; j++) {
+      const a = students[i];
+      const b = students[j];
+      if (!likes.has(`${a.id}:${b.id}`) || !likes.has(`${b.id}:${a.id}`)) continue;
+
+      const clusterA = clusterOf.get(a.id)!;
+      const clusterB = clusterOf.get(b.id)!;
+      if (clusterA === clusterB || clusterA.length + clusterB.length > maxSize) continue;
+
+      clusterA.push(...clusterB);
+      clusterB.forEach(s => clusterOf.set(s.id, clusterA));
+    }
+  }
+
+  // Largest clusters are hardest to place, so they go first
+  return [...new Set(clusterOf.values())].sort((a, b) => b.length - a.length);
+};
+
+/**
+ * Most common first-choice studio in a cluster
+ */
+const preferredStudio = (cluster: UserProfile[]): Studio => {
+  const counts = new Map<Studio, number>();
+  cluster.forEach(s => {
+    const studio = studiosOf(s)[0];
+    counts.set(studio, (counts.get(studio) || 0) + 1);
+  });
+  return [...counts.entries()].sort((a, b) => b[1] - a[1])[0][0];
+};
+
+/**
+ * How well a cluster fits a team; higher is better
+ */
+const placementScore = (
+  team: ProposedTeam,
+  cluster: UserProfile[],
+  likes: Set<string>,
+  minSize: number
+): number => {
+  const members = membersOf(team);
+  const programs = new Set(members.map(m => m.program));
+  let score = 0;
+
+  cluster.forEach(student => {
+    score += studiosOf(student).includes(team.studio)
+      ? PLACEMENT_WEIGHTS.studioMatch
+      : PLACEMENT_WEIGHTS.studioMismatch;
+
+    score += programs.has(student.program)
+      ? PLACEMENT_WEIGHTS.repeatedProgram
+      : PLACEMENT_WEIGHTS.newProgram;
+    programs.add(student.program);
+
+    if (team.teamId && likes.has(`${student.id}:${team.teamId}`)) {
+      score += PLACEMENT_WEIGHTS.like;
+    }
+    members.forEach(member => {
+      if (likes.has(`${student.id}:${member.id}`)) score += PLACEMENT_WEIGHTS.like;
+      if (likes.has(`${member.id}:${student.id}`)) score += PLACEMENT_WEIGHTS.like;
+    });
+  });
+
+  if (team.teamId && members.length < minSize) {
+    score += PLACEMENT_WEIGHTS.fillsToMinimum;
+  }
+
+  return score;
+};
+
+/**
+ * Proposes an assignment of unassigned students into teams
+ *
+ * @param students - Students with no confirmed team
+ * @param teams - Existing teams (with confirmed members) that may take more people
+ * @param likes - Right swipes between students and on teams
+ * @param options - Team size bounds
+ */
+export const proposeTeamFormation = (
+  students: UserProfile[],
+  teams: Team[],
+  likes: FormationLike[],
+  options: FormationOptions = DEFAULT_FORMATION_OPTIONS
+): FormationProposal => {
+  const { minSize, maxSize } = options;
+  const likeSet = new Set(likes.map(l => `${l.from}:${l.to}`));
+
+  const existing: ProposedTeam[] = teams
+    .filter(t => t.members.length < maxSize)
+    .map(t => ({
+      key: t.id,
+      teamId: t.id,
+      name: t.name,
+      studio: t.studio,
+      existingMembers: t.members,
+      newMembers: [],
+    }));
+
+  // Open just enough new teams for the students left after topping up, sized evenly
+  const neededByExisting = existing.reduce(
+    (sum, t) => sum + Math.max(0, minSize - t.existingMembers.length),
+    0
+  );
+  const remaining = Math.max(0, students.length - neededByExisting);
+  const newTeamCount = remaining >= minSize ? Math.ceil(remaining / maxSize) : 0;
+  const newTeamTarget = newTeamCount > 0 ? Math.ceil(remaining / newTeamCount) : 0;
+
+  const created: ProposedTeam[] = Array.from({ length: newTeamCount }, (_, i) => ({
+    key: `new-${i + 1}`,
+    name: `New Team ${i + 1}`,
+    studio: 'startup' as Studio,
+    existingMembers: [],
+    newMembers: [],
+  }));
+  const isOpened = new Set<string>();
+
+  const place = (cluster: UserProfile[], capacityOf: (team: ProposedTeam) => number): boolean => {
+    let best: ProposedTeam | null = null;
+    let bestScore = -Infinity;
+
+    const candidates = [
+      ...existing,
+      ...created.filter(t => isOpened.has(t.key)),
+      // Every unopened new team is interchangeable, so only score the first
+      ...created.filter(t => !isOpened.has(t.key)).slice(0, 1),
+    ];
+
+    for (const team of candidates) {
+      if (capacityOf(team) - membersOf(team).length < cluster.length) continue;
+      const scored = isOpened.has(team.key) || team.teamId
+        ? team
+        : { ...team, studio: preferredStudio(cluster) };
+      const score = placementScore(scored, cluster, likeSet, minSize);
+      if (score > bestScore) {
+        best = team;
+        bestScore = score;
+      }
+    }
+
+    if (!best) return false;
+    if (!best.teamId && !isOpened.has(best.key)) {
+      best.studio = preferredStudio(cluster);
+      isOpened.add(best.key);
+    }
+    best.newMembers.push(...cluster);
+    return true;
+  };
+
+  // First pass: keep existing teams at the minimum so new teams get their share
+  const firstPassCapacity = (team: ProposedTeam) =>
+    team.teamId ? Math.max(minSize, team.existingMembers.length) : newTeamTarget;
+  const leftovers: UserProfile[] = [];
+  clusterByMutualLikes(students, likeSet, maxSize).forEach(cluster => {
+    if (!place(cluster, firstPassCapacity)) leftovers.push(...cluster);
+  });
+
+  // Second pass: place anyone left individually, up to the maximum size
+  const unassigned = leftovers.filter(student => !place([student], () => maxSize));
+
+  return {
+    teams: [
+      ...existing.filter(t => t.newMembers.length > 0),
+      ...created.filter(t => t.newMembers.length > 0),
+    ],
+    unassigned,
+  };
+};
+
+/**
+ * Problems a director should look at before committing a proposed team
+ */
+export const getProposedTeamIssues = (
+  team: ProposedTeam,
+  options: FormationOptions = DEFAULT_FORMATION_OPTIONS
+): string[] => {
+  const members = membersOf(team);
+  const issues: string[] = [];
+
+  if (members.length < options.minSize) {
+    issues.push(`Below minimum size (${options.minSize})`);
+  }
+  if (members.length > options.maxSize) {
+    issues.push(`Above maximum size (${options.maxSize})`);
+  }
+
+  const offStudio = team.newMembers.filter(s => !studiosOf(s).includes(team.studio)).length;
+  if (offStudio > 0) {
+    issues.push(`${offStudio} didn't choose this studio`);
+  }
+
+  if (members.length > 1 && new Set(members.map(m => m.program)).size === 1) {
+    issues.push('Single program');
+  }
+
+  return issues;
+};
@@ -0,0 +1,123 @@
+/**
+ * Team invite codes
+ * Mirrors the checks in the team_invite_refusal database function
+ */
+
+/** Why an invite can't be used */
+export type InviteRefusal = 'not_found' | 'revoked' | 'expired' | 'used_up' | 'already_member' | 'already_on_team' | 'full';
+
+export interface TeamInvite {
+  id: string;
+  code: string;
+  maxUses: number | null;
+  useCount: number;
+  expiresAt: string;
+  revokedAt: string | null;
+  createdAt: string;
+}
+
+/** Lifetimes offered when creating an invite */
+export const INVITE_EXPIRY_OPTIONS = [
+  { hours: 3, label: '3 hours' },
+  { hours: 24, label: '1 day' },
+  { hours: 72, label: '3 days' },
+  { hours: 168, label: '1 week' },
+] as const;
+
+const PENDING_INVITE_KEY = 'stm_pending_invite';
+
+/**
+ * Extracts an invite code from a pasted code or /join link
+ */
+export const normalizeInviteCode = (input: string): string => {
+  const trimmed = input.trim();
+  const fromLink = trimmed.match(/\/join\/([^/?#\s]+)/);
+  return (fromLink ? fromLink[1] : trimmed).toUpperCase();
+};
+
+/**
+ * Shareable link for an invite code
+ */
+export const buildInviteLink = (code: string, origin: string = window.location.origin): string =>
+  `${origin}/join/${code}`;
+
+/**
+ * Whether an invite can still be redeemed, ignoring team capacity
+ */
+export const isInviteActive = (
+  invite: Pick<TeamInvite, 'revokedAt' | 'expiresAt' | 'maxUses' | 'useCount'>,
+  now: Date = new Date()
+): boolean =>
+  !invite.revokedAt &&
+  new Date(invite.expiresAt).getTime() > now.getTime() &&
+  (invite.maxUses === null || invite.useCount < invite.maxUses);
+
+/**
+ * Short usage summary, e.g. "2 of 5 uses"
+ */
+export const describeInviteUsage = ({ maxUses, useCount }: Pick<TeamInvite, 'maxUses' | 'useCount'>): string =>
+  maxUses === null
+    ? `${useCount} ${useCount === 1 ? 'use' : 'uses'}`
+    : `${useCount} of ${maxUses} ${maxUses === 1 ? 'use' : 'uses'}`;
+
+/**
+ * User-facing explanation for a refused invite
+ */
+export const describeInviteRefusal = (reason: InviteRefusal | undefined): string => {
+  switch (reason) {
+    case 'not_found':
+      return "This invite code doesn't exist";
+    case 'revoked':
+      return 'This invite has been revoked';
+    case 'expired':
+      return 'This invite has expired';
+    case 'used_up':
+      return 'This invite has already been used the maximum number of times';
+    case 'already_member':
+      return "You're already on this team";
+    case 'already_on_team':
+      return "You're already on another team. Leave it before joining this one";
+    case 'full':
+      return 'This team is full';
+    default:
+      return "This invite can't be used";
+  }
+};
+
+/**
+ * Keeps an invite across sign-in, which starts a fresh session
+ */
+export const rememberPendingInvite = (code: string): void => {
+  try {
+    sessionStorage.setItem(PENDING_INVITE_KEY, code);
+  } catch (error) {
+    console.warn('Failed to remember invite code:', error);
+  }
+};
+
+/**
+ * The invite remembered before sign-in, if any
+ */
+export const getPendingInvite = (): string | null => {
+  try {
+    return sessionStorage.getItem(PENDING_INVITE_KEY);
+  } catch {
+    return null;
+  }
+};
+
+export const clearPendingInvite = (): void => {
+  try {
+    sessionStorage.removeItem(PENDING_INVITE_KEY);
+  } catch {
+    // Nothing to clear
+  }
+};
+
+/**
+ * Where to land after signing in: the remembered invite, else the app
+ */
+export const postSignInPath = (): string => {
+  const code = getPendingInvite();
+  return code ? `/join/${code}` : '/app';
+};
@@ -0,0 +1,19 @@
+/**
+ * Team merge rules
+ * Mirrors the checks in the create_team_merge_request database function
+ */
+
+import { Team } from '@/types';
+
+/** Largest team (by confirmed members) that can propose or receive a merge */
+export const MERGE_MAX_TEAM_SIZE = 2;
+
+/**
+ * Whether `myTeam` can propose merging with `targetTeam`
+ */
+export const canProposeMerge = (myTeam: Team | null, targetTeam: Team | null): boolean =>
+  !!myTeam &&
+  !!targetTeam &&
+  myTeam.id !== targetTeam.id &&
+  myTeam.members.length <= MERGE_MAX_TEAM_SIZE &&
+  targetTeam.members.length <= MERGE_MAX_TEAM_SIZE;
@@ -4,6 +4,10 @@
  */
 
 import { UserProfile, Team, Program, Studio } from '@/types';
+import { normalizeProgramNeeds, programsNeeded } from '@/lib/programNeeds';
+import { normalizeApplicationQuestions } from '@/lib/applicationQuestions';
+import { normalizeRecruitingStatus } from '@/lib/recruitingStatus';
+import { normalizeAvailability } from '@/lib/availability';
 
 /**
  * Transforms a database profile record into a UserProfile object
@@ -18,18 +22,28 @@ export const transformProfile = (p: any): UserProfile => ({
   studioPreferences: (p.studio_preferences as Studio[]) || [p.studio_preference as Studio],
   avatar: p.avatar || undefined,
   linkedIn: p.linkedin || undefined,
+  availability: normalizeAvailability(p.availability),
 });
 
 /**
  * Transforms a database team record into a Team object
  */
-export const transformTeam = (t: any): Team => ({
-  id: t.id,
-  name: t.name,
-  description: t.description || '',
-  studio: t.studio as Studio,
-  members: [],
-  lookingFor: [],
-  skillsNeeded: t.skills_needed || [],
-  createdBy: t.created_by,
-});
+export const transformTeam = (t: any): Team => {
+  const programNeeds = normalizeProgramNeeds(t.program_needs);
+  return {
+    id: t.id,
+    name: t.name,
+    description: t.description || '',
+    studio: t.studio as Studio,
+    members: [],
+    lookingFor: programsNeeded(programNeeds),
+    programNeeds,
+    skillsNeeded: t.skills_needed || [],
+    createdBy: t.created_by,
+    joinVoteQuorum: t.join_vote_quorum ?? null,
+    maxMembers: t.max_members ?? null,
+    applicationQuestions: normalizeApplicationQuestions(t.application_questions),
+    recruitingStatus: normalizeRecruitingStatus(t.recruiting_status),
+    swipeQuorum: t.swipe_quorum ?? null,
+  };
+};
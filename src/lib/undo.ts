@@ -0,0 +1,48 @@
+/**
+ * Swipe undo rules
+ * Mirrors the checks in the undo_swipe database function
+ */
+
+import { SwipeDirection } from '@/types';
+
+/** How long after a swipe (the match's swiped_at) it can still be taken back */
+export const UNDO_WINDOW_MINUTES = 10;
+
+/** Why the server refused an undo */
+export type UndoRefusal = 'accepted' | 'responded' | 'replied' | 'expired';
+
+/** Result returned by the undo_swipe database function */
+export interface UndoSwipeResult {
+  undone: boolean;
+  reason?: UndoRefusal;
+}
+
+/**
+ * Whether a swipe made at `swipedAt` is still inside the undo window.
+ * Saves never create a match, so they can always be undone.
+ */
+export const canUndoSwipe = (
+  swipe: { direction: SwipeDirection; swipedAt?: string },
+  now: Date = new Date()
+): boolean => {
+  if (swipe.direction === 'up' || !swipe.swipedAt) return true;
+  return now.getTime() - new Date(swipe.swipedAt).getTime() <= UNDO_WINDOW_MINUTES * 60 * 1000;
+};
+
+/**
+ * User-facing explanation for a refused undo
+ */
+export const describeUndoRefusal = (reason: UndoRefusal | undefined): string => {
+  switch (reason) {
+    case 'accepted':
+      return "They've already accepted, so this can't be undone";
+    case 'responded':
+      return "They've already responded, so this can't be undone";
+    case 'replied':
+      return "They've already replied, so this can't be undone";
+    case 'expired':
+      return `Swipes can only be undone within ${UNDO_WINDOW_MINUTES} minutes`;
+    default:
+      return "This swipe can't be undone anymore";
+  }
+};
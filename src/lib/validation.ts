@@ -1,4 +1,7 @@
 import { z } from 'zod';
+import { MAX_PROGRAM_NEED } from '@/lib/programNeeds';
+import { MAX_APPLICATION_QUESTIONS, MAX_QUESTION_LENGTH } from '@/lib/applicationQuestions';
+import { AVAILABILITY_SLOT_COUNT } from '@/lib/availability';
 
 // Sanitization utilities
 export const sanitizeText = (text: string): string => {
@@ -50,6 +53,11 @@ export const profileSchema = z.object({
       message: 'Must be a valid LinkedIn URL',
     })
     .transform((val) => (val ? sanitizeUrl(val) : val)),
+  availability: z
+    .array(z.number().int().min(0).max(AVAILABILITY_SLOT_COUNT - 1))
+    .max(AVAILABILITY_SLOT_COUNT)
+    .optional()
+    .default([]),
 });
 
 export type ProfileInput = z.input<typeof profileSchema>;
@@ -76,6 +84,19 @@ export const teamSchema = z.object({
     .nullable()
     .transform((val) => (val ? sanitizeText(val) : val)),
   skillsNeeded: z.array(z.string().max(50)).max(20, 'Maximum 20 skills allowed').default([]),
+  programNeeds: z
+    .record(z.number().int().min(1).max(MAX_PROGRAM_NEED, `At most ${MAX_PROGRAM_NEED} per program`))
+    .default({}),
+  applicationQuestions: z
+    .array(
+      z
+        .string()
+        .max(MAX_QUESTION_LENGTH, `Questions must be ${MAX_QUESTION_LENGTH} characters or less`)
+        .transform(sanitizeText)
+    )
+    .max(MAX_APPLICATION_QUESTIONS, `At most ${MAX_APPLICATION_QUESTIONS} questions`)
+    .transform((questions) => questions.filter(Boolean))
+    .default([]),
 });
 
 export type TeamInput = z.input<typeof teamSchema>;
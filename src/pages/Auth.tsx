@@ -10,6 +10,7 @@ import { motion } from 'framer-motion';
 import { Loader2, Users, ArrowLeft } from 'lucide-react';
 import { validatePasswordStrength } from '@/lib/security';
 import PasswordStrengthMeter from '@/components/PasswordStrengthMeter';
+import { postSignInPath } from '@/lib/teamInvites';
 
 const Auth = () => {
   const navigate = useNavigate();
@@ -64,8 +65,8 @@ const Auth = () => {
     if (loading || !user) return;
     if (profileLoading) return;
     
-    // User logged in with profile -> app, without profile -> onboarding
-    navigate(profile ? '/app' : '/onboarding', { replace: true });
+    // User logged in with profile -> app (or the invite they opened), without profile -> onboarding
+    navigate(profile ? postSignInPath() : '/onboarding', { replace: true });
   }, [user, profile, loading, profileLoading, mode, navigate, justAuthenticated]);
 
   const handleSubmit = async (e: React.FormEvent) => {
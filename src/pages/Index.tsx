@@ -14,7 +14,7 @@
 import { useState, useEffect, useMemo } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { AnimatePresence, motion } from 'framer-motion';
-import { Loader2, Plus, History } from 'lucide-react';
+import { Loader2, Plus, History, Bookmark, ListChecks, ListPlus } from 'lucide-react';
 
 // Components
 import { Header } from '@/components/Header';
@@ -28,8 +28,13 @@ import { ChatModal } from '@/components/chat/ChatModal';
 import { CreateTeamModal } from '@/components/CreateTeamModal';
 import { TeamManagementModal } from '@/components/TeamManagementModal';
 import { ActivityModal } from '@/components/ActivityModal';
+import { SavedItemsModal } from '@/components/SavedItemsModal';
+import { TeamShortlistModal } from '@/components/TeamShortlistModal';
+import { RevisitModeBar } from '@/components/RevisitModeBar';
 import { FilterPanel, PeopleFilters, TeamFilters } from '@/components/FilterPanel';
 import { PrivacySettingsModal } from '@/components/PrivacySettingsModal';
+import { MutualMatchModal } from '@/components/MutualMatchModal';
+import { ApplicationFormModal } from '@/components/ApplicationFormModal';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { SwipeStackSkeleton, PageSkeleton } from '@/components/ui/skeleton-card';
@@ -37,18 +42,31 @@ import { SwipeStackSkeleton, PageSkeleton } from '@/components/ui/skeleton-card'
 // Hooks
 import { useAuth } from '@/contexts/AuthContext';
 import { useTeamMatching } from '@/hooks/useTeamMatching';
-import { useProfiles } from '@/hooks/useProfiles';
+import { useProfiles, DeckSource } from '@/hooks/useProfiles';
 import { useTeams } from '@/hooks/useTeams';
 import { useUnreadCount } from '@/hooks/useUnreadCount';
 import { useMyTeam } from '@/hooks/useMyTeam';
 import { useActivityHistory } from '@/hooks/useActivityHistory';
+import { useSavedItems } from '@/hooks/useSavedItems';
+import { useRevisitDeck } from '@/hooks/useRevisitDeck';
 import { useSwipeActions } from '@/hooks/useSwipeActions';
+import { useMutualMatches } from '@/hooks/useMutualMatches';
+import { useApplicationForm } from '@/hooks/useApplicationForm';
+import { useNotifications } from '@/hooks/useNotifications';
+import { useTeamShortlist } from '@/hooks/useTeamShortlist';
+import { usePrivateNotes } from '@/hooks/usePrivateNotes';
 
 // Types & Utils
 import { UserProfile, Team } from '@/types';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from 'sonner';
 import { profileSchema, validateInput } from '@/lib/validation';
+import { describeCompatibility } from '@/lib/compatibility';
+import { commonAvailability, scheduleOverlap } from '@/lib/availability';
+import { canProposeMerge } from '@/lib/teamMerge';
+import { DEFAULT_REVISIT_COOLDOWN_DAYS } from '@/lib/revisit';
+import { ShortlistCandidate } from '@/lib/shortlist';
+import { describeTeamSupport, likesNeeded } from '@/lib/teamDeck';
 
 /**
  * Main Index Component
@@ -72,6 +90,8 @@ const Index = () => {
   const [activeTab, setActiveTab] = useState<'individuals' | 'teams'>('individuals');
   const [matches, setMatches] = useState<string[]>([]);
   const [savingProfile, setSavingProfile] = useState(false);
+  const [isRevisitMode, setIsRevisitMode] = useState(false);
+  const [revisitCooldownDays, setRevisitCooldownDays] = useState(DEFAULT_REVISIT_COOLDOWN_DAYS);
 
   // Modal states
   const [selectedProfile, setSelectedProfile] = useState<UserProfile | null>(null);
@@ -84,6 +104,10 @@ const Index = () => {
   const [isCreateTeamOpen, setIsCreateTeamOpen] = useState(false);
   const [isTeamManagementOpen, setIsTeamManagementOpen] = useState(false);
   const [isActivityOpen, setIsActivityOpen] = useState(false);
+  const [isSavedOpen, setIsSavedOpen] = useState(false);
+  const [isShortlistOpen, setIsShortlistOpen] = useState(false);
+  // Profiles opened from the shortlist are for reading, not deciding
+  const [isProfileFromShortlist, setIsProfileFromShortlist] = useState(false);
   const [isPrivacyOpen, setIsPrivacyOpen] = useState(false);
 
   // Filter state
@@ -91,6 +115,7 @@ const Index = () => {
     skills: [],
     programs: [],
     studios: [],
+    minOverlapHours: null,
   });
   const [teamFilters, setTeamFilters] = useState<TeamFilters>({
     skillsNeeded: [],
@@ -99,6 +124,13 @@ const Index = () => {
     teamSize: null,
   });
 
+  const hasPeopleFilters =
+    peopleFilters.skills.length + peopleFilters.programs.length + peopleFilters.studios.length > 0 ||
+    peopleFilters.minOverlapHours !== null;
+  const hasTeamFilters =
+    teamFilters.skillsNeeded.length + teamFilters.lookingFor.length + teamFilters.studios.length > 0 ||
+    teamFilters.teamSize !== null;
+
   // Determine if we have a profile (for conditional hook execution)
   const hasProfile = !!profile;
 
@@ -106,32 +138,39 @@ const Index = () => {
   // DATA HOOKS - Only fetch when profile exists
   // ============================================================================
   
-  /** Profiles available for swiping */
+  /** Current user's team membership */
+  const { myTeam, setMyTeam, createTeam, refreshTeam } = useMyTeam(
+    hasProfile ? user?.id : undefined, 
+    profile
+  );
+
+  /** Teams with a swipe quorum share one collective people deck */
+  const deckSource: DeckSource = myTeam?.swipeQuorum ? 'team' : 'people';
+
+  /** Profiles available for swiping, filtered and ranked server-side */
   const { 
     profiles, 
     loading: loadingProfiles, 
+    hasMore: hasMoreProfiles,
+    supportById,
+    pointsById,
     removeProfile, 
     addProfile,
     refresh: refreshProfiles 
-  } = useProfiles(user?.id, hasProfile);
+  } = useProfiles(user?.id, hasProfile, peopleFilters, deckSource);
 
-  /** Teams available for swiping */
+  /** Teams available for swiping, filtered server-side */
   const { 
     teams, 
     loading: loadingTeams, 
+    hasMore: hasMoreTeams,
     removeTeam, 
     addTeam 
-  } = useTeams(user?.id, hasProfile);
+  } = useTeams(user?.id, hasProfile, teamFilters);
 
   /** Unread message count for notification badge - deferred */
   const unreadCount = useUnreadCount(hasProfile ? user?.id : undefined);
 
-  /** Current user's team membership */
-  const { myTeam, setMyTeam, createTeam, refreshTeam } = useMyTeam(
-    hasProfile ? user?.id : undefined, 
-    profile
-  );
-
   /** Swipe activity history - deferred, not critical for initial render */
   const { 
     history, 
@@ -141,6 +180,78 @@ const Index = () => {
     removeLastFromHistory 
   } = useActivityHistory(hasProfile ? user?.id : undefined, hasProfile);
 
+  /** Profiles and teams saved for later */
+  const {
+    savedProfiles,
+    savedTeams,
+    saveProfile,
+    saveTeam,
+    removeSavedProfile,
+    removeSavedTeam,
+  } = useSavedItems(user?.id, hasProfile);
+
+  /** Second-look deck of previously passed profiles */
+  const {
+    revisitProfiles,
+    loading: loadingRevisit,
+    removeRevisitProfile,
+    passAgain,
+  } = useRevisitDeck(user?.id, hasProfile && isRevisitMode, revisitCooldownDays);
+  const revisitDeckProfiles = useMemo(() => revisitProfiles.map(r => r.profile), [revisitProfiles]);
+
+  /** "It's a match" moment for mutual individual likes */
+  const { mutualMatch, showMutualMatch, dismissMutualMatch } = useMutualMatches(
+    hasProfile ? user?.id : undefined
+  );
+
+  /** Toasts for notifications such as withdrawn requests */
+  useNotifications(hasProfile ? user?.id : undefined);
+
+  /** The team's shared candidate shortlist */
+  const {
+    candidates: shortlist,
+    loading: loadingShortlist,
+    isShortlisted,
+    addCandidate,
+    removeCandidate,
+    saveNote,
+    refresh: refreshShortlist,
+  } = useTeamShortlist(myTeam?.id, user?.id);
+  const shortlistProfiles = useMemo(() => shortlist.map(c => c.profile), [shortlist]);
+
+  /** The user's private notes on profiles and teams */
+  const { getNote: getPrivateNote, saveNote: savePrivateNote } = usePrivateNotes(hasProfile ? user?.id : undefined);
+
+  /** Application form for teams with questions */
+  const { application, requestApplication, submitApplication, cancelApplication } = useApplicationForm();
+
+  /** Compatibility breakdown by profile id, for the card's "why" section.
+   * The points come with the deck, which is ordered by them plus shared free time. */
+  const compatibilityById = useMemo(() => {
+    if (!profile) return new Map();
+    return new Map(profiles.flatMap(p => {
+      const points = pointsById.get(p.id);
+      return points ? [[p.id, describeCompatibility(p, { viewer: profile, team: myTeam }, points)] as const] : [];
+    }));
+  }, [profiles, pointsById, profile, myTeam]);
+
+  /** Schedules that overlap is measured against: every teammate, or just the viewer */
+  const scheduleSide = useMemo(
+    () => (myTeam?.members.length ? myTeam.members : profile ? [profile] : []).map(m => m.availability),
+    [myTeam, profile]
+  );
+  const hasSchedule = commonAvailability(scheduleSide) !== null;
+
+  /** Teammates' likes on a team deck card, e.g. "Liked by Ana · your like sends a request" */
+  const teamSupportLabel = (profileId: string) => {
+    const support = supportById.get(profileId);
+    if (!support || !myTeam?.swipeQuorum) return null;
+    return describeTeamSupport(
+      support,
+      likesNeeded(support.supporters.length, myTeam.swipeQuorum, myTeam.members.length)
+    );
+  };
+
   // ============================================================================
   // MATCHING HOOKS
   // ============================================================================
@@ -148,19 +259,25 @@ const Index = () => {
   const { 
     createIndividualToIndividualMatch, 
     createTeamToIndividualMatch, 
-    createIndividualToTeamMatch 
+    createIndividualToTeamMatch,
+    createTeamMergeRequest,
+    voteOnCandidate
   } = useTeamMatching({
     currentUserId: user?.id || '',
     myTeam,
     onMatchCreated: () => {
       // Could refresh data here if needed
     },
+    onMutualMatch: showMutualMatch,
   });
 
   /** Swipe action handlers */
   const { 
     handleUserSwipe, 
     handleTeamSwipe, 
+    handleSavedProfileDecision,
+    handleSavedTeamDecision,
+    handleRevisitSwipe,
     handleUndo, 
     handleUndoByIndex, 
     canUndo 
@@ -182,10 +299,20 @@ const Index = () => {
     createIndividualToIndividualMatch,
     createTeamToIndividualMatch,
     createIndividualToTeamMatch,
+    createTeamMergeRequest,
+    voteOnCandidate,
+    saveProfile,
+    saveTeam,
+    removeSavedProfile,
+    removeSavedTeam,
+    revisitProfiles: revisitDeckProfiles,
+    removeRevisitProfile,
+    passAgain,
     openChat: () => {
       setChatRefreshKey(k => k + 1); // Force chat to re-fetch
       setIsChatOpen(true);
     },
+    requestApplication,
   });
 
   // ============================================================================
@@ -233,6 +360,7 @@ const Index = () => {
           studio_preferences: validatedData.studioPreferences,
           avatar: validatedData.avatar,
           linkedin: validatedData.linkedIn,
+          availability: validatedData.availability,
         })
         .eq('user_id', user.id);
 
@@ -255,73 +383,36 @@ const Index = () => {
 
   const handleProfileTap = (profile: UserProfile) => {
     setSelectedProfile(profile);
+    setIsProfileFromShortlist(false);
     setIsProfileModalOpen(true);
   };
 
+  const handleShortlistCandidateTap = (profile: UserProfile) => {
+    setSelectedProfile(profile);
+    setIsProfileFromShortlist(true);
+    setIsProfileModalOpen(true);
+  };
+
+  /**
+   * Sends the team's request to a shortlisted candidate. A team that
+   * swipes together likes them instead, and the quorum decides.
+   */
+  const handleShortlistRequest = async (candidate: ShortlistCandidate) => {
+    const result = myTeam?.swipeQuorum
+      ? await voteOnCandidate(candidate.profile, 'like')
+      : await createTeamToIndividualMatch(candidate.profile);
+    if (!result) return;
+
+    // Decided from the shortlist, so the card leaves the deck
+    removeProfile(candidate.profile.id);
+    await refreshShortlist();
+  };
+
   const handleTeamTap = (team: Team) => {
     setSelectedTeam(team);
     setIsTeamModalOpen(true);
   };
 
-  // ============================================================================
-  // FILTERED DATA
-  // ============================================================================
-
-  /** Filtered profiles based on current filter settings */
-  const filteredUsers = useMemo(() => {
-    return profiles.filter(user => {
-      // Filter by skills
-      if (peopleFilters.skills.length > 0) {
-        const hasMatchingSkill = peopleFilters.skills.some(skill =>
-          user.skills.some(s => s.toLowerCase().includes(skill.toLowerCase()))
-        );
-        if (!hasMatchingSkill) return false;
-      }
-      // Filter by program
-      if (peopleFilters.programs.length > 0) {
-        if (!peopleFilters.programs.includes(user.program)) return false;
-      }
-      // Filter by studio preference
-      if (peopleFilters.studios.length > 0) {
-        const userStudios = user.studioPreferences || [user.studioPreference];
-        const hasMatchingStudio = peopleFilters.studios.some(studio =>
-          userStudios.includes(studio)
-        );
-        if (!hasMatchingStudio) return false;
-      }
-      return true;
-    });
-  }, [profiles, peopleFilters]);
-
-  /** Filtered teams based on current filter settings */
-  const filteredTeams = useMemo(() => {
-    return teams.filter(team => {
-      if (teamFilters.skillsNeeded.length > 0) {
-        const hasMatchingSkill = teamFilters.skillsNeeded.some(skill =>
-          team.skillsNeeded.some(s => s.toLowerCase().includes(skill.toLowerCase()))
-        );
-        if (!hasMatchingSkill) return false;
-      }
-      if (teamFilters.lookingFor.length > 0) {
-        const hasMatchingProgram = teamFilters.lookingFor.some(program =>
-          team.lookingFor.includes(program)
-        );
-        if (!hasMatchingProgram) return false;
-      }
-      if (teamFilters.studios.length > 0) {
-        if (!teamFilters.studios.includes(team.studio)) return false;
-      }
-      if (teamFilters.teamSize !== null) {
-        if (teamFilters.teamSize === 4) {
-          if (team.members.length < 4) return false;
-        } else {
-          if (team.members.length !== teamFilters.teamSize) return false;
-        }
-      }
-      return true;
-    });
-  }, [teams, teamFilters]);
-
   // ============================================================================
   // LOADING & AUTH STATES
   // ============================================================================
@@ -344,14 +435,22 @@ const Index = () => {
   }
   
   // Track if data is still loading (for showing skeleton states in card area)
-  const isDataLoading = loadingProfiles || loadingTeams;
+  const isDataLoading = loadingProfiles || loadingTeams || (isRevisitMode && loadingRevisit);
 
   // ============================================================================
   // RENDER HELPERS
   // ============================================================================
 
-  const currentItems = activeTab === 'individuals' ? filteredUsers : filteredTeams;
+  const isRevisiting = activeTab === 'individuals' && isRevisitMode;
+  const currentItems = isRevisiting
+    ? revisitProfiles
+    : activeTab === 'individuals' ? profiles : teams;
   const hasCards = currentItems.length > 0;
+  const topProfile: UserProfile | undefined = isRevisiting ? revisitProfiles[0]?.profile : profiles[0];
+
+  // Detail modals opened from the Saved list resolve the saved item, not the deck top
+  const isSelectedProfileSaved = savedProfiles.some(p => p.id === selectedProfile?.id);
+  const isSelectedTeamSaved = savedTeams.some(t => t.id === selectedTeam?.id);
 
   const currentUserProfile: Omit<UserProfile, 'id'> = {
     name: profile.name,
@@ -362,6 +461,7 @@ const Index = () => {
     studioPreferences: profile.studioPreferences || [profile.studioPreference],
     avatar: profile.avatar,
     linkedIn: profile.linkedIn,
+    availability: profile.availability,
   };
 
   // ============================================================================
@@ -394,6 +494,13 @@ const Index = () => {
               <Button size="sm" variant="outline" onClick={() => setIsTeamManagementOpen(true)}>
                 Manage Team
               </Button>
+              <Button size="sm" variant="outline" onClick={() => setIsShortlistOpen(true)} className="gap-1">
+                <ListChecks className="w-4 h-4" />
+                Shortlist
+                {shortlist.length > 0 && (
+                  <Badge className="ml-1 px-1.5 py-0 text-xs">{shortlist.length}</Badge>
+                )}
+              </Button>
             </div>
           ) : (
             <div className="flex items-center justify-center gap-3 p-3 rounded-xl bg-accent/50 border border-border">
@@ -412,9 +519,11 @@ const Index = () => {
             <span className="text-gradient">Spring Studio</span> Team Matching
           </h2>
           <p className="text-muted-foreground">
-            {activeTab === 'individuals'
-              ? `${filteredUsers.length} ${filteredUsers.length === 1 ? 'person' : 'people'} to discover${filteredUsers.length !== profiles.length ? ` (${profiles.length} total)` : ''}`
-              : `${filteredTeams.length} ${filteredTeams.length === 1 ? 'team' : 'teams'} to explore${filteredTeams.length !== teams.length ? ` (${teams.length} total)` : ''}`}
+            {isRevisiting
+              ? `${revisitProfiles.length} passed ${revisitProfiles.length === 1 ? 'profile' : 'profiles'} to revisit`
+              : activeTab === 'individuals'
+              ? `${profiles.length}${hasMoreProfiles ? '+' : ''} ${profiles.length === 1 && !hasMoreProfiles ? 'person' : 'people'} to discover`
+              : `${teams.length}${hasMoreTeams ? '+' : ''} ${teams.length === 1 && !hasMoreTeams ? 'team' : 'teams'} to explore`}
           </p>
         </motion.div>
 
@@ -426,6 +535,7 @@ const Index = () => {
                 type="people"
                 peopleFilters={peopleFilters}
                 onPeopleFiltersChange={setPeopleFilters}
+                hasSchedule={hasSchedule}
               />
             ) : (
               <FilterPanel
@@ -449,8 +559,32 @@ const Index = () => {
               </Badge>
             )}
           </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setIsSavedOpen(true)}
+            className="gap-2 shrink-0"
+          >
+            <Bookmark className="w-4 h-4" />
+            Saved
+            {savedProfiles.length + savedTeams.length > 0 && (
+              <Badge className="ml-1 px-1.5 py-0 text-xs">
+                {savedProfiles.length + savedTeams.length}
+              </Badge>
+            )}
+          </Button>
         </div>
 
+        {/* Second-look deck toggle */}
+        {activeTab === 'individuals' && (
+          <RevisitModeBar
+            enabled={isRevisitMode}
+            onToggle={() => setIsRevisitMode(prev => !prev)}
+            cooldownDays={revisitCooldownDays}
+            onCooldownChange={setRevisitCooldownDays}
+          />
+        )}
+
         {/* Swipe Instructions */}
         {hasCards && (
           <motion.div
@@ -462,6 +596,9 @@ const Index = () => {
               <span className="text-destructive">←</span>Swipe left to Pass
             </span>
             <span className="border-l border-border pl-4">Tap for details</span>
+            {!isRevisiting && (
+              <span className="border-l border-border pl-4">Swipe up to Save</span>
+            )}
             <span className="flex items-center gap-1 border-l border-border pl-4">
               Swipe right to Like <span className="text-primary">→</span>
             </span>
@@ -475,12 +612,38 @@ const Index = () => {
               <SwipeStackSkeleton />
             ) : (
               <AnimatePresence mode="popLayout">
-                {activeTab === 'individuals' ? (
+                {isRevisiting ? (
                   hasCards ? (
-                    filteredUsers.slice(0, 2).map((user, index) => (
+                    revisitProfiles.slice(0, 2).map(({ profile: passed, highlights }, index) => (
+                      <SwipeableCard
+                        key={passed.id}
+                        profile={passed}
+                        changeHighlights={highlights}
+                        privateNote={getPrivateNote({ type: 'profile', id: passed.id })}
+                        onSwipe={handleRevisitSwipe}
+                        onTap={() => handleProfileTap(passed)}
+                        isTop={index === 0}
+                      />
+                    ))
+                  ) : (
+                    <motion.div
+                      key="empty-revisit"
+                      initial={{ opacity: 0, scale: 0.9 }}
+                      animate={{ opacity: 1, scale: 1 }}
+                      className="text-center py-12"
+                    >
+                      <p className="text-muted-foreground">No passed profiles past the cooldown</p>
+                    </motion.div>
+                  )
+                ) : activeTab === 'individuals' ? (
+                  hasCards ? (
+                    profiles.slice(0, 2).map((user, index) => (
                       <SwipeableCard
                         key={user.id}
                         profile={user}
+                        compatibility={compatibilityById.get(user.id)}
+                        teamSupport={teamSupportLabel(user.id)}
+                        privateNote={getPrivateNote({ type: 'profile', id: user.id })}
                         onSwipe={handleUserSwipe}
                         onTap={() => handleProfileTap(user)}
                         isTop={index === 0}
@@ -494,7 +657,7 @@ const Index = () => {
                       className="text-center py-12"
                     >
                       <p className="text-muted-foreground mb-4">
-                        {profiles.length > 0 ? 'No matches for current filters' : "You've seen everyone!"}
+                        {hasPeopleFilters ? 'No matches for current filters' : "You've seen everyone!"}
                       </p>
                       {canUndo && (
                         <p className="text-sm text-muted-foreground">Use the undo button to go back through profiles</p>
@@ -502,10 +665,11 @@ const Index = () => {
                     </motion.div>
                   )
                 ) : hasCards ? (
-                  filteredTeams.slice(0, 2).map((team, index) => (
+                  teams.slice(0, 2).map((team, index) => (
                     <SwipeableTeamCard
                       key={team.id}
                       team={team}
+                      privateNote={getPrivateNote({ type: 'team', id: team.id })}
                       onSwipe={handleTeamSwipe}
                       onTap={() => handleTeamTap(team)}
                       isTop={index === 0}
@@ -519,7 +683,7 @@ const Index = () => {
                     className="text-center py-12"
                   >
                     <p className="text-muted-foreground mb-4">
-                      {teams.length > 0 ? 'No matches for current filters' : "You've seen all teams!"}
+                      {hasTeamFilters ? 'No matches for current filters' : "You've seen all teams!"}
                     </p>
                     {canUndo && (
                       <p className="text-sm text-muted-foreground">Use the undo button to go back through teams</p>
@@ -531,6 +695,22 @@ const Index = () => {
           </div>
         </div>
 
+        {/* Shortlist the top card for the team to discuss */}
+        {myTeam && activeTab === 'individuals' && topProfile && (
+          <div className="flex justify-center -mt-4 mb-6">
+            <Button
+              variant="outline"
+              size="sm"
+              className="gap-2"
+              onClick={() => addCandidate(topProfile)}
+              disabled={isShortlisted(topProfile.id)}
+            >
+              {isShortlisted(topProfile.id) ? <ListChecks className="w-4 h-4" /> : <ListPlus className="w-4 h-4" />}
+              {isShortlisted(topProfile.id) ? 'On team shortlist' : 'Add to team shortlist'}
+            </Button>
+          </div>
+        )}
+
         {/* Studio Info */}
         <motion.div
           className="grid grid-cols-3 gap-2 sm:gap-4 max-w-3xl mx-auto"
@@ -564,8 +744,22 @@ const Index = () => {
         profile={selectedProfile}
         isOpen={isProfileModalOpen}
         onClose={() => setIsProfileModalOpen(false)}
-        onLike={() => handleUserSwipe('right')}
-        onPass={() => handleUserSwipe('left')}
+        onLike={() => isSelectedProfileSaved
+          ? handleSavedProfileDecision(selectedProfile, 'right')
+          : isRevisiting ? handleRevisitSwipe('right') : handleUserSwipe('right')}
+        onPass={() => isSelectedProfileSaved
+          ? handleSavedProfileDecision(selectedProfile, 'left')
+          : isRevisiting ? handleRevisitSwipe('left') : handleUserSwipe('left')}
+        onSave={isSelectedProfileSaved || isRevisiting ? undefined : () => handleUserSwipe('up')}
+        showActions={!isProfileFromShortlist}
+        onShortlist={myTeam && selectedProfile ? () => addCandidate(selectedProfile) : undefined}
+        isShortlisted={!!selectedProfile && isShortlisted(selectedProfile.id)}
+        privateNote={selectedProfile ? getPrivateNote({ type: 'profile', id: selectedProfile.id }) : undefined}
+        onSavePrivateNote={selectedProfile
+          ? note => savePrivateNote({ type: 'profile', id: selectedProfile.id }, note)
+          : undefined}
+        scheduleOverlap={selectedProfile ? scheduleOverlap(selectedProfile.availability, scheduleSide) : null}
+        overlapWithTeam={!!myTeam?.members.length}
       />
 
       {/* Team Detail Modal */}
@@ -573,8 +767,18 @@ const Index = () => {
         team={selectedTeam}
         isOpen={isTeamModalOpen}
         onClose={() => setIsTeamModalOpen(false)}
-        onJoin={() => handleTeamSwipe('right')}
-        onPass={() => handleTeamSwipe('left')}
+        onJoin={() => isSelectedTeamSaved
+          ? handleSavedTeamDecision(selectedTeam, 'right')
+          : handleTeamSwipe('right')}
+        onPass={() => isSelectedTeamSaved
+          ? handleSavedTeamDecision(selectedTeam, 'left')
+          : handleTeamSwipe('left')}
+        onSave={isSelectedTeamSaved ? undefined : () => handleTeamSwipe('up')}
+        canMerge={canProposeMerge(myTeam, selectedTeam)}
+        privateNote={selectedTeam ? getPrivateNote({ type: 'team', id: selectedTeam.id }) : undefined}
+        onSavePrivateNote={selectedTeam
+          ? note => savePrivateNote({ type: 'team', id: selectedTeam.id }, note)
+          : undefined}
       />
 
       {/* My Profile Modal */}
@@ -607,6 +811,7 @@ const Index = () => {
         onClose={() => setIsTeamManagementOpen(false)}
         team={myTeam}
         currentUserId={user?.id || ''}
+        shortlist={shortlistProfiles}
         onOpenChat={() => {
           setIsTeamManagementOpen(false);
           setIsChatOpen(true);
@@ -615,6 +820,7 @@ const Index = () => {
           setMyTeam(null);
           refreshProfiles();
         }}
+        onTeamUpdated={refreshTeam}
       />
 
       {/* Activity Modal */}
@@ -626,6 +832,54 @@ const Index = () => {
         activeTabContext={activeTab}
       />
 
+      {/* Saved For Later Modal */}
+      <SavedItemsModal
+        open={isSavedOpen}
+        onOpenChange={setIsSavedOpen}
+        profiles={savedProfiles}
+        teams={savedTeams}
+        onProfileDecision={handleSavedProfileDecision}
+        onTeamDecision={handleSavedTeamDecision}
+        onProfileTap={handleProfileTap}
+        onTeamTap={handleTeamTap}
+        activeTabContext={activeTab}
+      />
+
+      {/* Team Shortlist Modal */}
+      {myTeam && (
+        <TeamShortlistModal
+          open={isShortlistOpen}
+          onOpenChange={setIsShortlistOpen}
+          teamName={myTeam.name}
+          candidates={shortlist}
+          loading={loadingShortlist}
+          currentUserId={user?.id || ''}
+          onCandidateTap={handleShortlistCandidateTap}
+          onSendRequest={handleShortlistRequest}
+          onRemove={removeCandidate}
+          onSaveNote={saveNote}
+        />
+      )}
+
+      {/* Mutual Match Modal */}
+      <MutualMatchModal
+        match={mutualMatch}
+        viewerName={profile.name}
+        viewerAvatar={profile.avatar}
+        onClose={dismissMutualMatch}
+        onOpenChat={() => {
+          setChatRefreshKey(k => k + 1);
+          setIsChatOpen(true);
+        }}
+      />
+
+      {/* Team Application Modal */}
+      <ApplicationFormModal
+        application={application}
+        onSubmit={submitApplication}
+        onCancel={cancelApplication}
+      />
+
       {/* Privacy & Security Modal */}
       <PrivacySettingsModal
         isOpen={isPrivacyOpen}
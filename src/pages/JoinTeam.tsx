@@ -0,0 +1,167 @@
+import { useEffect, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { motion } from 'framer-motion';
+import { Loader2, Users } from 'lucide-react';
+import { toast } from 'sonner';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  InviteRefusal,
+  normalizeInviteCode,
+  describeInviteRefusal,
+  rememberPendingInvite,
+  clearPendingInvite,
+} from '@/lib/teamInvites';
+
+/** Result of get_team_invite */
+interface InvitePreview {
+  valid: boolean;
+  reason?: InviteRefusal | null;
+  expires_at?: string;
+  team?: {
+    id: string;
+    name: string;
+    description: string | null;
+    studio: string;
+    max_members: number | null;
+    member_count: number;
+  };
+}
+
+const JoinTeam = () => {
+  const { code: rawCode = '' } = useParams();
+  const code = normalizeInviteCode(rawCode);
+  const navigate = useNavigate();
+  const { user, profile, loading, profileLoading } = useAuth();
+
+  const [preview, setPreview] = useState<InvitePreview | null>(null);
+  const [checking, setChecking] = useState(true);
+  const [joining, setJoining] = useState(false);
+
+  // Signed-out students come back here after signing in
+  useEffect(() => {
+    if (loading) return;
+
+    if (!user) {
+      rememberPendingInvite(code);
+      navigate('/auth', { replace: true });
+      return;
+    }
+
+    if (profileLoading) return;
+
+    if (!profile) {
+      rememberPendingInvite(code);
+      navigate('/onboarding', { replace: true });
+      return;
+    }
+
+    clearPendingInvite();
+  }, [loading, profileLoading, user, profile, code, navigate]);
+
+  useEffect(() => {
+    if (!user || !profile) return;
+
+    let cancelled = false;
+    const loadInvite = async () => {
+      setChecking(true);
+      try {
+        const { data, error } = await supabase.rpc('get_team_invite', { p_code: code });
+        if (error) throw error;
+        if (!cancelled) setPreview(data as unknown as InvitePreview);
+      } catch (error) {
+        console.error('Error loading invite:', error);
+        if (!cancelled) setPreview({ valid: false, reason: 'not_found' });
+      } finally {
+        if (!cancelled) setChecking(false);
+      }
+    };
+
+    loadInvite();
+    return () => {
+      cancelled = true;
+    };
+  }, [user, profile, code]);
+
+  const handleJoin = async () => {
+    setJoining(true);
+    try {
+      const { data, error } = await supabase.rpc('redeem_team_invite', { p_code: code });
+      if (error) throw error;
+
+      const result = data as unknown as { joined: boolean; reason?: InviteRefusal };
+      if (!result.joined) {
+        toast.error(describeInviteRefusal(result.reason));
+        setPreview(prev => prev ? { ...prev, valid: false, reason: result.reason } : prev);
+        return;
+      }
+
+      toast.success(`You joined ${preview?.team?.name || 'the team'}!`);
+      navigate('/app', { replace: true });
+    } catch (error) {
+      console.error('Error joining team:', error);
+      toast.error('Failed to join team');
+    } finally {
+      setJoining(false);
+    }
+  };
+
+  if (loading || profileLoading || !user || !profile || checking) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <Loader2 className="w-12 h-12 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  const team = preview?.team;
+
+  return (
+    <div className="min-h-screen bg-background flex items-center justify-center p-4">
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="w-full max-w-sm rounded-2xl border border-border bg-card p-6 text-center space-y-4"
+      >
+        <div className="w-16 h-16 rounded-2xl bg-primary/10 flex items-center justify-center mx-auto">
+          <Users className="w-8 h-8 text-primary" />
+        </div>
+
+        {team ? (
+          <div className="space-y-2">
+            <p className="text-sm text-muted-foreground">You've been invited to join</p>
+            <h1 className="text-2xl font-bold">{team.name}</h1>
+            <div className="flex justify-center gap-2">
+              <Badge variant="secondary">{team.studio}</Badge>
+              <Badge variant="outline">
+                {team.member_count}{team.max_members ? ` / ${team.max_members}` : ''} members
+              </Badge>
+            </div>
+            {team.description && (
+              <p className="text-sm text-muted-foreground">{team.description}</p>
+            )}
+          </div>
+        ) : (
+          <h1 className="text-2xl font-bold">Team invite</h1>
+        )}
+
+        {preview?.valid ? (
+          <Button className="w-full" onClick={handleJoin} disabled={joining}>
+            {joining && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Join Team
+          </Button>
+        ) : (
+          <p className="text-sm text-destructive">{describeInviteRefusal(preview?.reason ?? undefined)}</p>
+        )}
+
+        <Button variant="ghost" className="w-full" onClick={() => navigate('/app', { replace: true })}>
+          {preview?.valid ? 'Not now' : 'Go to app'}
+        </Button>
+      </motion.div>
+    </div>
+  );
+};
+
+export default JoinTeam;
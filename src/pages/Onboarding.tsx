@@ -8,6 +8,7 @@ import { profileSchema, validateInput } from '@/lib/validation';
 import { UserProfile } from '@/types';
 import { Loader2 } from 'lucide-react';
 import { uploadAvatar, dataUrlToFile } from '@/lib/avatarUpload';
+import { postSignInPath } from '@/lib/teamInvites';
 
 const Onboarding = () => {
   const navigate = useNavigate();
@@ -27,9 +28,9 @@ const Onboarding = () => {
     // Wait for profile loading to finish before checking profile
     if (profileLoading) return;
     
-    // If already has profile, go to main app
+    // If already has profile, go to main app (or the invite they opened)
     if (profile) {
-      navigate('/app', { replace: true });
+      navigate(postSignInPath(), { replace: true });
     }
   }, [loading, profileLoading, user, profile, navigate]);
 
@@ -72,6 +73,7 @@ const Onboarding = () => {
         studio_preferences: validatedData.studioPreferences,
         avatar: avatarUrl,
         linkedin: validatedData.linkedIn,
+        availability: validatedData.availability,
       });
 
       if (error) {
@@ -83,7 +85,7 @@ const Onboarding = () => {
 
       await refreshProfile();
       toast.success(`Welcome, ${validatedData.name}!`);
-      navigate('/app', { replace: true });
+      navigate(postSignInPath(), { replace: true });
     } catch (error) {
       console.error('Error saving profile:', error);
       toast.error('An unexpected error occurred');
@@ -39,6 +39,7 @@ export const createMockTeam = (overrides: Partial<Team> = {}): Team => ({
   description: "An innovative team working on cutting-edge solutions.",
   members: [createMockProfile()],
   lookingFor: ["MBA", "CM"] as Program[],
+  programNeeds: { MBA: 1, CM: 1 },
   skillsNeeded: ["React", "Python", "Machine Learning"],
   createdBy: "user-123",
   ...overrides,
@@ -1,3 +1,5 @@
+import { ApplicationAnswer } from '@/lib/applicationQuestions';
+
 export interface Message {
   id: string;
   conversation_id: string;
@@ -31,6 +33,8 @@ export interface Conversation {
   };
   // For join request conversations
   match?: JoinRequestMatch;
+  // For team merge conversations
+  merge?: TeamMergeMatch;
 }
 
 export interface ConversationParticipant {
@@ -49,8 +53,8 @@ export interface Match {
   user_id: string;
   target_user_id: string;
   team_id?: string;
-  match_type: 'individual' | 'individual_to_individual' | 'team_to_individual' | 'individual_to_team';
-  status: 'pending' | 'matched' | 'rejected' | 'accepted';
+  match_type: 'individual' | 'individual_to_individual' | 'team_to_individual' | 'individual_to_team' | 'team_to_team';
+  status: 'pending' | 'matched' | 'rejected' | 'accepted' | 'expired';
   created_at: string;
   updated_at: string;
   target_profile?: {
@@ -72,10 +76,15 @@ export interface JoinRequestMatch {
   target_user_id: string;
   team_id: string;
   match_type: 'team_to_individual' | 'individual_to_team';
-  status: 'pending' | 'matched' | 'rejected' | 'accepted';
+  status: 'pending' | 'matched' | 'rejected' | 'accepted' | 'expired';
   team?: {
     id: string;
     name: string;
+    created_by?: string;
+    /** Votes needed to decide; null when admins decide */
+    join_vote_quorum?: number | null;
+    /** Confirmed members, for vote tallies and admin checks */
+    members?: { id: string; name: string; role?: string }[];
   };
   // The individual's profile (whether they're requesting or being requested)
   individual_profile?: {
@@ -84,4 +93,28 @@ export interface JoinRequestMatch {
     avatar: string;
     program: string;
   };
+  /** The applicant's answers to the team's questions */
+  application_answers?: ApplicationAnswer[];
+}
+
+export interface TeamMergeMatch {
+  id: string;
+  user_id: string;
+  // Proposing team (the surviving team once accepted)
+  team_id: string | null;
+  // Team that received the proposal
+  target_team_id: string | null;
+  status: 'pending' | 'matched' | 'rejected' | 'accepted' | 'expired';
+  team?: {
+    id: string;
+    name: string;
+    created_by: string;
+  };
+  target_team?: {
+    id: string;
+    name: string;
+    created_by: string;
+    // Admins of the target team, who can answer alongside the owner
+    admin_ids?: string[];
+  };
 }
@@ -1,3 +1,5 @@
+import { RecruitingStatus } from '@/lib/recruitingStatus';
+
 export type Studio = 'bigco' | 'startup' | 'pitech';
 
 export type Program = 'MBA' | 'LLM' | 'MEng-CS' | 'MEng-DSDA' | 'MEng-ECE' | 'CM' | 'DesignTech' | 'HealthTech' | 'UrbanTech';
@@ -12,19 +14,38 @@ export interface UserProfile {
   studioPreferences: Studio[]; // New: multiple studio preferences
   avatar: string;
   linkedIn?: string;
+  /** Weekly free time as slot indices (see lib/availability) */
+  availability?: number[];
 }
 
+/** How many people a team still needs from each program */
+export type ProgramNeeds = Partial<Record<Program, number>>;
+
 export interface Team {
   id: string;
   name: string;
   studio: Studio;
   description: string;
   members: UserProfile[];
-  lookingFor: Program[];
+  lookingFor: Program[]; // Programs with an open need, derived from programNeeds
+  programNeeds: ProgramNeeds;
   skillsNeeded: string[];
   createdBy: string;
+  /** Votes needed to decide a join request; null when admins decide */
+  joinVoteQuorum?: number | null;
+  /** Most confirmed members allowed; null for no limit */
+  maxMembers?: number | null;
+  /** Questions applicants answer when asking to join */
+  applicationQuestions?: string[];
+  /** Whether the team is taking new members */
+  recruitingStatus?: RecruitingStatus;
+  /** Likes needed before the team deck sends a request; null when any member can */
+  swipeQuorum?: number | null;
 }
 
+/** Swipe gestures: pass, like, or save for later */
+export type SwipeDirection = 'left' | 'right' | 'up';
+
 export interface Match {
   id: string;
   userId: string;
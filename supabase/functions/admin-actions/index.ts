@@ -96,6 +96,58 @@ serve(async (req) => {
       });
     }
 
+    if (action === "team_formation_data") {
+      // Everything the formation tool needs, read past per-user RLS
+      const [profilesRes, membersRes, teamsRes, likesRes] = await Promise.all([
+        adminClient
+          .from("profiles")
+          .select("user_id, name, program, skills, bio, studio_preference, studio_preferences, avatar, linkedin"),
+        adminClient
+          .from("team_members")
+          .select("team_id, user_id")
+          .eq("status", "confirmed"),
+        adminClient
+          .from("teams")
+          .select("id, name, description, studio, skills_needed, program_needs, created_by"),
+        adminClient
+          .from("matches")
+          .select("user_id, target_user_id, team_id, match_type")
+          .in("match_type", ["individual_to_individual", "individual_to_team"])
+          .neq("status", "rejected"),
+      ]);
+
+      const failed = [profilesRes, membersRes, teamsRes, likesRes].find((r) => r.error);
+      if (failed) throw failed.error;
+
+      return new Response(JSON.stringify({
+        profiles: profilesRes.data,
+        team_members: membersRes.data,
+        teams: teamsRes.data,
+        likes: likesRes.data,
+      }), {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    if (action === "commit_team_formation") {
+      const { teams, max_size } = params;
+      if (!Array.isArray(teams)) throw new Error("teams required");
+      if (!Number.isInteger(max_size) || max_size < 1) throw new Error("max_size required");
+
+      // Runs as one transaction in the database
+      const { data, error } = await adminClient.rpc("admin_commit_team_formation", {
+        p_admin_id: user.id,
+        p_teams: teams,
+        p_max_size: max_size,
+      });
+
+      if (error) throw error;
+
+      return new Response(JSON.stringify({ success: true, ...data }), {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
     return new Response(JSON.stringify({ error: "Unknown action" }), {
       status: 400,
       headers: { ...corsHeaders, "Content-Type": "application/json" },
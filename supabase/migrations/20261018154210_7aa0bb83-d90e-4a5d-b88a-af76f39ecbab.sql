@@ -0,0 +1,136 @@
+-- Mutual-match detection for individual_to_individual likes
+-- When B likes A after A already liked B, both match rows flip to 'matched'
+-- and B joins A's existing conversation instead of creating a second one.
+
+CREATE OR REPLACE FUNCTION public.create_match_with_conversation(
+  p_user_id uuid,
+  p_target_user_id uuid,
+  p_match_type text,
+  p_team_id uuid DEFAULT NULL,
+  p_conversation_type text DEFAULT 'match'
+)
+RETURNS json
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_match_id uuid;
+  v_conversation_id uuid;
+  v_reciprocal_id uuid;
+  v_is_team_member boolean;
+BEGIN
+  -- CRITICAL: Authorization check - user must be creating a match for themselves
+  IF auth.uid() != p_user_id THEN
+    -- For team matches, verify the caller is a confirmed team member
+    IF p_team_id IS NULL THEN
+      RAISE EXCEPTION 'Unauthorized: Can only create matches for yourself';
+    END IF;
+
+    -- Check team membership
+    SELECT EXISTS(
+      SELECT 1 FROM public.team_members tm
+      WHERE tm.team_id = p_team_id
+        AND tm.user_id = auth.uid()
+        AND tm.status = 'confirmed'
+    ) INTO v_is_team_member;
+
+    IF NOT v_is_team_member THEN
+      RAISE EXCEPTION 'Unauthorized: Not a confirmed team member';
+    END IF;
+  END IF;
+
+  -- Validate match_type is one of allowed values
+  IF p_match_type NOT IN ('individual_to_individual', 'team_to_individual',
+                          'individual_to_team', 'team_to_team', 'individual') THEN
+    RAISE EXCEPTION 'Invalid match_type: %', p_match_type;
+  END IF;
+
+  -- Validate conversation_type
+  IF p_conversation_type NOT IN ('match', 'team', 'direct') THEN
+    RAISE EXCEPTION 'Invalid conversation_type: %', p_conversation_type;
+  END IF;
+
+  -- Prevent self-matching
+  IF p_user_id = p_target_user_id THEN
+    RAISE EXCEPTION 'Cannot create a match with yourself';
+  END IF;
+
+  IF p_match_type = 'individual_to_individual' THEN
+    -- Serialize likes between the same pair so two simultaneous swipes
+    -- can't both miss each other and end up as two pending rows
+    PERFORM pg_advisory_xact_lock(
+      hashtext(LEAST(p_user_id, p_target_user_id)::text || GREATEST(p_user_id, p_target_user_id)::text)
+    );
+
+    SELECT id INTO v_reciprocal_id
+    FROM public.matches
+    WHERE user_id = p_target_user_id
+      AND target_user_id = p_user_id
+      AND match_type = 'individual_to_individual'
+      AND status IN ('pending', 'matched')
+    FOR UPDATE;
+  END IF;
+
+  IF v_reciprocal_id IS NOT NULL THEN
+    -- Mutual like: record ours as matched and flip theirs
+    INSERT INTO public.matches (user_id, target_user_id, match_type, team_id, status)
+    VALUES (p_user_id, p_target_user_id, p_match_type, p_team_id, 'matched')
+    RETURNING id INTO v_match_id;
+
+    UPDATE public.matches
+    SET status = 'matched'
+    WHERE id = v_reciprocal_id;
+
+    -- Reuse the conversation created by the first like
+    SELECT id INTO v_conversation_id
+    FROM public.conversations
+    WHERE match_id = v_reciprocal_id
+    ORDER BY created_at
+    LIMIT 1;
+
+    IF v_conversation_id IS NULL THEN
+      INSERT INTO public.conversations (type, match_id, team_id)
+      VALUES (p_conversation_type, v_reciprocal_id, p_team_id)
+      RETURNING id INTO v_conversation_id;
+    END IF;
+
+    INSERT INTO public.conversation_participants (conversation_id, user_id)
+    VALUES
+      (v_conversation_id, p_user_id),
+      (v_conversation_id, p_target_user_id)
+    ON CONFLICT (conversation_id, user_id) DO NOTHING;
+
+    RETURN json_build_object(
+      'match_id', v_match_id,
+      'conversation_id', v_conversation_id,
+      'is_mutual', true
+    );
+  END IF;
+
+  -- Create match
+  INSERT INTO public.matches (user_id, target_user_id, match_type, team_id, status)
+  VALUES (p_user_id, p_target_user_id, p_match_type, p_team_id, 'pending')
+  RETURNING id INTO v_match_id;
+
+  -- Create conversation
+  INSERT INTO public.conversations (type, match_id, team_id)
+  VALUES (p_conversation_type, v_match_id, p_team_id)
+  RETURNING id INTO v_conversation_id;
+
+  -- Add participants
+  INSERT INTO public.conversation_participants (conversation_id, user_id)
+  VALUES
+    (v_conversation_id, p_user_id),
+    (v_conversation_id, p_target_user_id);
+
+  RETURN json_build_object(
+    'match_id', v_match_id,
+    'conversation_id', v_conversation_id,
+    'is_mutual', false
+  );
+END;
+$$;
+
+-- Let the first liker hear about the flip to 'matched' in real time
+ALTER PUBLICATION supabase_realtime ADD TABLE public.matches;
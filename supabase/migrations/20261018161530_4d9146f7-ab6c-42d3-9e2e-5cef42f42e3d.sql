@@ -0,0 +1,251 @@
+-- Team-to-team merge requests
+-- A small team proposes merging with another small team. Members of both
+-- teams discuss it in one shared conversation; on acceptance the smaller
+-- team is folded into the larger one (older team wins ties).
+
+-- 1. SCHEMA
+-- =====================================================
+
+-- The team on the receiving end of a team_to_team request
+ALTER TABLE public.matches
+  ADD COLUMN IF NOT EXISTS target_team_id UUID REFERENCES public.teams(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_matches_target_team_id ON public.matches(target_team_id);
+
+ALTER TABLE public.matches DROP CONSTRAINT IF EXISTS matches_match_type_check;
+ALTER TABLE public.matches ADD CONSTRAINT matches_match_type_check
+CHECK (match_type IN ('individual', 'team_to_individual', 'individual_to_team', 'individual_to_individual', 'team_to_team'));
+
+-- 2. RLS: members of the target team can see the request and its conversation
+-- =====================================================
+
+CREATE POLICY "Target team members can view merge requests"
+ON public.matches
+FOR SELECT
+USING (
+  target_team_id IS NOT NULL AND EXISTS (
+    SELECT 1 FROM public.team_members tm
+    WHERE tm.team_id = matches.target_team_id
+      AND tm.user_id = auth.uid()
+      AND tm.status = 'confirmed'
+  )
+);
+
+CREATE POLICY "Target team members can view merge conversations"
+ON public.conversations
+FOR SELECT
+USING (
+  match_id IS NOT NULL AND EXISTS (
+    SELECT 1 FROM public.matches m
+    JOIN public.team_members tm ON tm.team_id = m.target_team_id
+    WHERE m.id = conversations.match_id
+      AND tm.user_id = auth.uid()
+      AND tm.status = 'confirmed'
+  )
+);
+
+CREATE POLICY "Target team members can view merge conversation participants"
+ON public.conversation_participants
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.conversations c
+    JOIN public.matches m ON c.match_id = m.id
+    JOIN public.team_members tm ON tm.team_id = m.target_team_id
+    WHERE c.id = conversation_participants.conversation_id
+      AND tm.user_id = auth.uid()
+      AND tm.status = 'confirmed'
+  )
+);
+
+-- 3. PROPOSE A MERGE
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.create_team_merge_request(
+  p_team_id uuid,
+  p_target_team_id uuid
+)
+RETURNS json
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_max_team_size CONSTANT integer := 2;
+  v_match_id uuid;
+  v_conversation_id uuid;
+  v_target_owner uuid;
+BEGIN
+  -- Caller must be a confirmed member of the proposing team
+  IF NOT EXISTS (
+    SELECT 1 FROM public.team_members
+    WHERE team_id = p_team_id AND user_id = auth.uid() AND status = 'confirmed'
+  ) THEN
+    RAISE EXCEPTION 'Unauthorized: Not a confirmed team member';
+  END IF;
+
+  IF p_team_id = p_target_team_id THEN
+    RAISE EXCEPTION 'Cannot merge a team with itself';
+  END IF;
+
+  SELECT created_by INTO v_target_owner FROM public.teams WHERE id = p_target_team_id;
+  IF v_target_owner IS NULL THEN
+    RAISE EXCEPTION 'Team not found';
+  END IF;
+
+  -- Merges are only for small teams
+  IF (SELECT COUNT(*) FROM public.team_members WHERE team_id = p_team_id AND status = 'confirmed') > v_max_team_size
+     OR (SELECT COUNT(*) FROM public.team_members WHERE team_id = p_target_team_id AND status = 'confirmed') > v_max_team_size THEN
+    RAISE EXCEPTION 'Only teams of % or fewer members can merge', v_max_team_size;
+  END IF;
+
+  -- One open proposal per pair of teams, in either direction
+  IF EXISTS (
+    SELECT 1 FROM public.matches
+    WHERE match_type = 'team_to_team'
+      AND status = 'pending'
+      AND ((team_id = p_team_id AND target_team_id = p_target_team_id)
+        OR (team_id = p_target_team_id AND target_team_id = p_team_id))
+  ) THEN
+    RAISE EXCEPTION 'A merge request between these teams is already pending';
+  END IF;
+
+  INSERT INTO public.matches (user_id, target_user_id, match_type, team_id, target_team_id, status)
+  VALUES (auth.uid(), v_target_owner, 'team_to_team', p_team_id, p_target_team_id, 'pending')
+  RETURNING id INTO v_match_id;
+
+  -- Shared discussion thread, not tied to either team's lifetime
+  INSERT INTO public.conversations (type, match_id)
+  VALUES ('match', v_match_id)
+  RETURNING id INTO v_conversation_id;
+
+  INSERT INTO public.conversation_participants (conversation_id, user_id)
+  SELECT DISTINCT v_conversation_id, tm.user_id
+  FROM public.team_members tm
+  WHERE tm.team_id IN (p_team_id, p_target_team_id)
+    AND tm.status = 'confirmed'
+  ON CONFLICT (conversation_id, user_id) DO NOTHING;
+
+  RETURN json_build_object(
+    'match_id', v_match_id,
+    'conversation_id', v_conversation_id
+  );
+END;
+$$;
+
+-- 4. ACCEPT OR DECLINE A MERGE
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.respond_to_team_merge(
+  p_match_id uuid,
+  p_accept boolean
+)
+RETURNS json
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_match RECORD;
+  v_surviving_id uuid;
+  v_absorbed_id uuid;
+  v_surviving_conv uuid;
+  v_absorbed_conv uuid;
+BEGIN
+  SELECT * INTO v_match
+  FROM public.matches
+  WHERE id = p_match_id AND match_type = 'team_to_team'
+  FOR UPDATE;
+
+  IF v_match IS NULL THEN
+    RAISE EXCEPTION 'Merge request not found';
+  END IF;
+
+  IF v_match.status != 'pending' THEN
+    RAISE EXCEPTION 'Merge request is no longer pending';
+  END IF;
+
+  IF v_match.team_id IS NULL OR v_match.target_team_id IS NULL THEN
+    RAISE EXCEPTION 'One of the teams no longer exists';
+  END IF;
+
+  -- Only the target team's owner decides
+  IF NOT EXISTS (
+    SELECT 1 FROM public.teams
+    WHERE id = v_match.target_team_id AND created_by = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Unauthorized: Only the team owner can respond to a merge';
+  END IF;
+
+  IF NOT p_accept THEN
+    UPDATE public.matches SET status = 'rejected' WHERE id = p_match_id;
+    RETURN json_build_object('status', 'rejected');
+  END IF;
+
+  -- Larger team survives; the older team wins ties
+  SELECT t.id INTO v_surviving_id
+  FROM public.teams t
+  WHERE t.id IN (v_match.team_id, v_match.target_team_id)
+  ORDER BY (
+    SELECT COUNT(*) FROM public.team_members tm
+    WHERE tm.team_id = t.id AND tm.status = 'confirmed'
+  ) DESC, t.created_at ASC
+  LIMIT 1;
+
+  v_absorbed_id := CASE WHEN v_surviving_id = v_match.team_id
+    THEN v_match.target_team_id ELSE v_match.team_id END;
+
+  -- Move members across
+  INSERT INTO public.team_members (team_id, user_id, role, status)
+  SELECT v_surviving_id, tm.user_id, 'member', 'confirmed'
+  FROM public.team_members tm
+  WHERE tm.team_id = v_absorbed_id AND tm.status = 'confirmed'
+  ON CONFLICT (team_id, user_id) DO UPDATE SET status = 'confirmed';
+
+  -- Consolidate team chat: keep the absorbed team's history in the surviving thread
+  SELECT id INTO v_surviving_conv FROM public.conversations
+  WHERE team_id = v_surviving_id AND type = 'team' LIMIT 1;
+
+  SELECT id INTO v_absorbed_conv FROM public.conversations
+  WHERE team_id = v_absorbed_id AND type = 'team' LIMIT 1;
+
+  IF v_surviving_conv IS NULL THEN
+    INSERT INTO public.conversations (type, team_id)
+    VALUES ('team', v_surviving_id)
+    RETURNING id INTO v_surviving_conv;
+  END IF;
+
+  IF v_absorbed_conv IS NOT NULL THEN
+    UPDATE public.messages SET conversation_id = v_surviving_conv
+    WHERE conversation_id = v_absorbed_conv;
+  END IF;
+
+  INSERT INTO public.conversation_participants (conversation_id, user_id)
+  SELECT v_surviving_conv, tm.user_id
+  FROM public.team_members tm
+  WHERE tm.team_id = v_surviving_id AND tm.status = 'confirmed'
+  ON CONFLICT (conversation_id, user_id) DO NOTHING;
+
+  -- Carry over what the absorbed team was still looking for
+  UPDATE public.teams s
+  SET skills_needed = ARRAY(
+    SELECT DISTINCT unnest(COALESCE(s.skills_needed, '{}') || COALESCE(a.skills_needed, '{}'))
+  )
+  FROM public.teams a
+  WHERE s.id = v_surviving_id AND a.id = v_absorbed_id;
+
+  -- Keep the merge record attached to the surviving team before the other one goes
+  UPDATE public.matches
+  SET status = 'accepted', team_id = v_surviving_id
+  WHERE id = p_match_id;
+
+  PERFORM public.log_audit_event('team_merged', 'teams', v_surviving_id, NULL, NULL,
+    jsonb_build_object('absorbed_team_id', v_absorbed_id, 'match_id', p_match_id));
+
+  DELETE FROM public.teams WHERE id = v_absorbed_id;
+
+  RETURN json_build_object(
+    'status', 'accepted',
+    'surviving_team_id', v_surviving_id,
+    'absorbed_team_id', v_absorbed_id
+  );
+END;
+$$;
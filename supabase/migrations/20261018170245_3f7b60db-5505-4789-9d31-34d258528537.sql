@@ -0,0 +1,116 @@
+-- Automatic team formation
+-- Commits a director-approved assignment of unassigned students into
+-- existing and new teams in a single transaction. Called only by the
+-- admin-actions edge function (service role) after it has verified the
+-- caller is an admin.
+
+CREATE OR REPLACE FUNCTION public.admin_commit_team_formation(
+  p_admin_id uuid,
+  p_teams jsonb,
+  p_max_size integer
+)
+RETURNS json
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_team jsonb;
+  v_team_id uuid;
+  v_is_new boolean;
+  v_member_ids uuid[];
+  v_owner uuid;
+  v_conversation_id uuid;
+  v_teams_created integer := 0;
+  v_students_assigned integer := 0;
+BEGIN
+  IF NOT public.has_role(p_admin_id, 'admin') THEN
+    RAISE EXCEPTION 'Unauthorized: Admin role required';
+  END IF;
+
+  FOR v_team IN SELECT * FROM jsonb_array_elements(p_teams)
+  LOOP
+    v_member_ids := ARRAY(SELECT jsonb_array_elements_text(v_team->'member_ids')::uuid);
+    CONTINUE WHEN cardinality(v_member_ids) = 0;
+
+    -- Students must still be unassigned (also catches a student listed twice)
+    IF EXISTS (
+      SELECT 1 FROM public.team_members
+      WHERE user_id = ANY(v_member_ids) AND status = 'confirmed'
+    ) THEN
+      RAISE EXCEPTION 'A student in the proposal has already joined a team';
+    END IF;
+
+    v_is_new := v_team->>'team_id' IS NULL;
+
+    IF v_is_new THEN
+      IF length(trim(coalesce(v_team->>'name', ''))) = 0 THEN
+        RAISE EXCEPTION 'Team name is required';
+      END IF;
+
+      -- First listed student owns the new team
+      v_owner := v_member_ids[1];
+
+      INSERT INTO public.teams (name, studio, created_by)
+      VALUES (trim(v_team->>'name'), v_team->>'studio', v_owner)
+      RETURNING id INTO v_team_id;
+
+      INSERT INTO public.conversations (type, team_id)
+      VALUES ('team', v_team_id)
+      RETURNING id INTO v_conversation_id;
+
+      v_teams_created := v_teams_created + 1;
+    ELSE
+      v_team_id := (v_team->>'team_id')::uuid;
+
+      IF NOT EXISTS (SELECT 1 FROM public.teams WHERE id = v_team_id) THEN
+        RAISE EXCEPTION 'Team not found';
+      END IF;
+
+      SELECT id INTO v_conversation_id FROM public.conversations
+      WHERE team_id = v_team_id AND type = 'team' LIMIT 1;
+
+      IF v_conversation_id IS NULL THEN
+        INSERT INTO public.conversations (type, team_id)
+        VALUES ('team', v_team_id)
+        RETURNING id INTO v_conversation_id;
+      END IF;
+    END IF;
+
+    INSERT INTO public.team_members (team_id, user_id, role, status)
+    SELECT v_team_id, member_id,
+      CASE WHEN v_is_new AND member_id = v_owner THEN 'owner' ELSE 'member' END,
+      'confirmed'
+    FROM unnest(v_member_ids) AS member_id
+    ON CONFLICT (team_id, user_id) DO UPDATE SET status = 'confirmed';
+
+    IF (SELECT COUNT(*) FROM public.team_members
+        WHERE team_id = v_team_id AND status = 'confirmed') > p_max_size THEN
+      RAISE EXCEPTION 'Team "%" would exceed % members', coalesce(v_team->>'name', v_team_id::text), p_max_size;
+    END IF;
+
+    INSERT INTO public.conversation_participants (conversation_id, user_id)
+    SELECT v_conversation_id, member_id
+    FROM unnest(v_member_ids) AS member_id
+    ON CONFLICT (conversation_id, user_id) DO NOTHING;
+
+    v_students_assigned := v_students_assigned + cardinality(v_member_ids);
+  END LOOP;
+
+  -- Service-role calls have no auth.uid(), so record the director explicitly
+  INSERT INTO public.audit_logs (user_id, action, table_name, metadata)
+  VALUES (p_admin_id, 'team_formation_committed', 'teams', jsonb_build_object(
+    'teams_created', v_teams_created,
+    'students_assigned', v_students_assigned
+  ));
+
+  RETURN json_build_object(
+    'teams_created', v_teams_created,
+    'students_assigned', v_students_assigned
+  );
+END;
+$$;
+
+-- Only the edge function may commit a formation
+REVOKE EXECUTE ON FUNCTION public.admin_commit_team_formation(uuid, jsonb, integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.admin_commit_team_formation(uuid, jsonb, integer) TO service_role;
@@ -0,0 +1,122 @@
+-- Structured program needs on teams
+-- Teams declare how many people they still need from each program, e.g.
+-- {"MBA": 1, "MEng-CS": 2}. Needs drop automatically as members join.
+-- looking_for stays as a free-text note.
+
+-- 1. SCHEMA
+-- =====================================================
+ALTER TABLE public.teams
+  ADD COLUMN IF NOT EXISTS program_needs jsonb NOT NULL DEFAULT '{}'::jsonb;
+
+ALTER TABLE public.teams ADD CONSTRAINT teams_program_needs_object_check
+CHECK (jsonb_typeof(program_needs) = 'object');
+
+CREATE INDEX IF NOT EXISTS idx_teams_program_needs ON public.teams USING gin(program_needs);
+
+-- 2. DECREMENT NEEDS WHEN A MEMBER JOINS
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.decrement_team_program_needs()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_program text;
+BEGIN
+  -- Only newly confirmed members count; the owner was there before the needs
+  IF NEW.status != 'confirmed' OR NEW.role = 'owner' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND OLD.status = 'confirmed' THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT program INTO v_program FROM public.profiles WHERE user_id = NEW.user_id;
+  IF v_program IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  UPDATE public.teams
+  SET program_needs = CASE
+    WHEN (program_needs->>v_program)::integer > 1
+      THEN jsonb_set(program_needs, ARRAY[v_program], to_jsonb((program_needs->>v_program)::integer - 1))
+    ELSE program_needs - v_program
+  END
+  WHERE id = NEW.team_id AND program_needs ? v_program;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER decrement_program_needs_on_join
+AFTER INSERT OR UPDATE OF status ON public.team_members
+FOR EACH ROW EXECUTE FUNCTION public.decrement_team_program_needs();
+
+-- 3. ACCEPT NEEDS ON TEAM CREATION
+-- =====================================================
+DROP FUNCTION IF EXISTS public.create_team_with_owner(text, text, text, text, text[], uuid);
+
+CREATE OR REPLACE FUNCTION public.create_team_with_owner(
+  p_name text,
+  p_description text,
+  p_studio text,
+  p_looking_for text,
+  p_skills_needed text[],
+  p_user_id uuid,
+  p_program_needs jsonb DEFAULT '{}'::jsonb
+)
+RETURNS json
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_team_id uuid;
+  v_conversation_id uuid;
+BEGIN
+  -- CRITICAL: Authorization check - user must be creating a team for themselves
+  IF auth.uid() != p_user_id THEN
+    RAISE EXCEPTION 'Unauthorized: Can only create teams for yourself';
+  END IF;
+  
+  -- Validate required fields
+  IF p_name IS NULL OR length(trim(p_name)) = 0 THEN
+    RAISE EXCEPTION 'Team name is required';
+  END IF;
+  
+  IF p_studio IS NULL OR length(trim(p_studio)) = 0 THEN
+    RAISE EXCEPTION 'Studio is required';
+  END IF;
+  
+  -- Validate name length
+  IF length(p_name) > 100 THEN
+    RAISE EXCEPTION 'Team name must be 100 characters or less';
+  END IF;
+
+  -- Create team
+  INSERT INTO public.teams (name, description, studio, looking_for, skills_needed, program_needs, created_by)
+  VALUES (trim(p_name), p_description, trim(p_studio), p_looking_for, p_skills_needed,
+          COALESCE(p_program_needs, '{}'::jsonb), p_user_id)
+  RETURNING id INTO v_team_id;
+
+  -- Add owner as member
+  INSERT INTO public.team_members (team_id, user_id, role, status)
+  VALUES (v_team_id, p_user_id, 'owner', 'confirmed');
+
+  -- Create team conversation
+  INSERT INTO public.conversations (type, team_id)
+  VALUES ('team', v_team_id)
+  RETURNING id INTO v_conversation_id;
+
+  -- Add owner to conversation
+  INSERT INTO public.conversation_participants (conversation_id, user_id)
+  VALUES (v_conversation_id, p_user_id);
+
+  RETURN json_build_object(
+    'team_id', v_team_id,
+    'conversation_id', v_conversation_id
+  );
+END;
+$$;
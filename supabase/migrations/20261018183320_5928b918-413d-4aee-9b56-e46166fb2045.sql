@@ -0,0 +1,144 @@
+-- Canonical skill taxonomy
+-- One row per canonical skill with aliases and a category. Profile skills and
+-- team skills_needed are resolved to canonical names on write, and existing
+-- free-text values are mapped below.
+
+-- 1. TABLE
+-- =====================================================
+CREATE TABLE public.skills (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  category text NOT NULL DEFAULT 'Other',
+  aliases text[] NOT NULL DEFAULT '{}',
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT skills_name_length CHECK (length(trim(name)) BETWEEN 1 AND 50)
+);
+
+CREATE UNIQUE INDEX idx_skills_name_lower ON public.skills (lower(name));
+
+CREATE TRIGGER update_skills_updated_at
+  BEFORE UPDATE ON public.skills
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.skills ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone signed in can view skills"
+ON public.skills
+FOR SELECT
+USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Admins can manage skills"
+ON public.skills
+FOR ALL
+USING (public.has_role(auth.uid(), 'admin'))
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+-- 2. SEED
+-- =====================================================
+INSERT INTO public.skills (name, category, aliases) VALUES
+  ('Full-Stack Development', 'Engineering', ARRAY['Full Stack Development', 'Fullstack Development', 'Full-Stack']),
+  ('Frontend Development', 'Engineering', ARRAY['Front-End Development', 'Front End Development', 'Frontend']),
+  ('Backend Development', 'Engineering', ARRAY['Back-End Development', 'Back End Development', 'Backend']),
+  ('Cloud Architecture', 'Engineering', ARRAY['Cloud', 'Cloud Infrastructure']),
+  ('Python', 'Engineering', ARRAY['Python Programming']),
+  ('Machine Learning', 'Data & AI', ARRAY['ML', 'AI/ML']),
+  ('Data Science', 'Data & AI', ARRAY['Data Analytics']),
+  ('Statistical Analysis', 'Data & AI', ARRAY['Statistics']),
+  ('UI/UX Design', 'Design', ARRAY['UX/UI Design', 'UX Design', 'UI Design']),
+  ('UX Research', 'Design', ARRAY['User Research']),
+  ('Product Management', 'Product', ARRAY['PM', 'Product Manager']),
+  ('Product Strategy', 'Product', ARRAY[]::text[]),
+  ('Business Strategy', 'Business', ARRAY['Strategy']),
+  ('Business Development', 'Business', ARRAY['BD', 'BizDev']),
+  ('Marketing', 'Business', ARRAY['Growth Marketing']),
+  ('Finance', 'Business', ARRAY['Corporate Finance']),
+  ('Sales', 'Business', ARRAY[]::text[]),
+  ('Operations', 'Business', ARRAY['Ops']),
+  ('IP Law', 'Legal', ARRAY['Legal/IP', 'Intellectual Property']),
+  ('Contract Negotiation', 'Legal', ARRAY['Contracts']),
+  ('Regulatory Compliance', 'Legal', ARRAY['Compliance']),
+  ('Healthcare Operations', 'Healthcare', ARRAY['Healthcare', 'Healthcare Domain']),
+  ('Clinical Workflows', 'Healthcare', ARRAY[]::text[]);
+
+-- 3. CANONICALIZATION
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.canonicalize_skill(p_skill text)
+RETURNS text
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    (SELECT s.name FROM public.skills s
+     WHERE lower(s.name) = lower(trim(p_skill))
+     LIMIT 1),
+    (SELECT s.name FROM public.skills s
+     WHERE lower(trim(p_skill)) = ANY (SELECT lower(a) FROM unnest(s.aliases) a)
+     ORDER BY s.created_at
+     LIMIT 1),
+    trim(p_skill)
+  );
+$$;
+
+-- Canonical names, first occurrence wins, blanks dropped
+CREATE OR REPLACE FUNCTION public.canonicalize_skills(p_skills text[])
+RETURNS text[]
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT COALESCE(array_agg(skill ORDER BY first_pos), '{}')
+  FROM (
+    SELECT public.canonicalize_skill(raw) AS skill, MIN(pos) AS first_pos
+    FROM unnest(p_skills) WITH ORDINALITY AS t(raw, pos)
+    WHERE length(trim(raw)) > 0
+    GROUP BY 1
+  ) resolved;
+$$;
+
+CREATE OR REPLACE FUNCTION public.canonicalize_profile_skills()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.skills IS NOT NULL THEN
+    NEW.skills := public.canonicalize_skills(NEW.skills);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.canonicalize_team_skills()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.skills_needed IS NOT NULL THEN
+    NEW.skills_needed := public.canonicalize_skills(NEW.skills_needed);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER canonicalize_profile_skills
+  BEFORE INSERT OR UPDATE OF skills ON public.profiles
+  FOR EACH ROW EXECUTE FUNCTION public.canonicalize_profile_skills();
+
+CREATE TRIGGER canonicalize_team_skills
+  BEFORE INSERT OR UPDATE OF skills_needed ON public.teams
+  FOR EACH ROW EXECUTE FUNCTION public.canonicalize_team_skills();
+
+-- 4. MAP EXISTING FREE-TEXT SKILLS
+-- =====================================================
+UPDATE public.profiles
+SET skills = public.canonicalize_skills(skills)
+WHERE skills IS NOT NULL
+  AND skills IS DISTINCT FROM public.canonicalize_skills(skills);
+
+UPDATE public.teams
+SET skills_needed = public.canonicalize_skills(skills_needed)
+WHERE skills_needed IS NOT NULL
+  AND skills_needed IS DISTINCT FROM public.canonicalize_skills(skills_needed);
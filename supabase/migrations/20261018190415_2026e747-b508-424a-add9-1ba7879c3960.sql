@@ -0,0 +1,38 @@
+-- Save-for-later
+-- A "maybe" swipe takes a profile or team out of the deck without recording
+-- a pass. Saved cards are listed until the user likes or passes on them.
+
+CREATE TABLE public.saved_items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL,
+  target_user_id uuid,
+  team_id uuid REFERENCES public.teams(id) ON DELETE CASCADE,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  -- Exactly one of target_user_id / team_id
+  CONSTRAINT saved_items_single_target CHECK ((target_user_id IS NULL) <> (team_id IS NULL))
+);
+
+CREATE UNIQUE INDEX idx_saved_items_user_target
+  ON public.saved_items (user_id, target_user_id)
+  WHERE target_user_id IS NOT NULL;
+
+CREATE UNIQUE INDEX idx_saved_items_user_team
+  ON public.saved_items (user_id, team_id)
+  WHERE team_id IS NOT NULL;
+
+ALTER TABLE public.saved_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their saved items"
+ON public.saved_items
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can save items"
+ON public.saved_items
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can remove their saved items"
+ON public.saved_items
+FOR DELETE
+USING (auth.uid() = user_id);
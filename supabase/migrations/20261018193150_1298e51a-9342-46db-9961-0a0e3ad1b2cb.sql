@@ -0,0 +1,200 @@
+-- Second-look deck for passed profiles
+-- Each pass stores a snapshot of the profile so a later revisit can show
+-- what changed. Liking a previously passed profile converts the rejected
+-- row instead of inserting a duplicate.
+
+-- 1. PROFILE SNAPSHOT ON PASS
+-- =====================================================
+ALTER TABLE public.matches ADD COLUMN target_snapshot jsonb;
+
+CREATE OR REPLACE FUNCTION public.snapshot_passed_profile()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'rejected'
+     AND NEW.match_type IN ('individual_to_individual', 'team_to_individual') THEN
+    SELECT jsonb_build_object(
+      'program', p.program,
+      'skills', to_jsonb(COALESCE(p.skills, '{}')),
+      'bio', p.bio,
+      'studio_preferences', to_jsonb(COALESCE(p.studio_preferences, ARRAY[p.studio_preference]))
+    )
+    INTO NEW.target_snapshot
+    FROM public.profiles p
+    WHERE p.user_id = NEW.target_user_id;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+-- Passing again from the second-look deck refreshes the snapshot
+CREATE TRIGGER snapshot_passed_profile
+  BEFORE INSERT OR UPDATE OF status ON public.matches
+  FOR EACH ROW EXECUTE FUNCTION public.snapshot_passed_profile();
+
+CREATE INDEX idx_matches_user_rejected
+  ON public.matches (user_id, updated_at)
+  WHERE status = 'rejected';
+
+-- 2. CONVERT PASSES ON LIKE
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.create_match_with_conversation(
+  p_user_id uuid,
+  p_target_user_id uuid,
+  p_match_type text,
+  p_team_id uuid DEFAULT NULL,
+  p_conversation_type text DEFAULT 'match'
+)
+RETURNS json
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_match_id uuid;
+  v_conversation_id uuid;
+  v_reciprocal_id uuid;
+  v_passed_id uuid;
+  v_is_team_member boolean;
+BEGIN
+  -- CRITICAL: Authorization check - user must be creating a match for themselves
+  IF auth.uid() != p_user_id THEN
+    -- For team matches, verify the caller is a confirmed team member
+    IF p_team_id IS NULL THEN
+      RAISE EXCEPTION 'Unauthorized: Can only create matches for yourself';
+    END IF;
+
+    -- Check team membership
+    SELECT EXISTS(
+      SELECT 1 FROM public.team_members tm
+      WHERE tm.team_id = p_team_id
+        AND tm.user_id = auth.uid()
+        AND tm.status = 'confirmed'
+    ) INTO v_is_team_member;
+
+    IF NOT v_is_team_member THEN
+      RAISE EXCEPTION 'Unauthorized: Not a confirmed team member';
+    END IF;
+  END IF;
+
+  -- Validate match_type is one of allowed values
+  IF p_match_type NOT IN ('individual_to_individual', 'team_to_individual',
+                          'individual_to_team', 'team_to_team', 'individual') THEN
+    RAISE EXCEPTION 'Invalid match_type: %', p_match_type;
+  END IF;
+
+  -- Validate conversation_type
+  IF p_conversation_type NOT IN ('match', 'team', 'direct') THEN
+    RAISE EXCEPTION 'Invalid conversation_type: %', p_conversation_type;
+  END IF;
+
+  -- Prevent self-matching
+  IF p_user_id = p_target_user_id THEN
+    RAISE EXCEPTION 'Cannot create a match with yourself';
+  END IF;
+
+  IF p_match_type = 'individual_to_individual' THEN
+    -- Serialize likes between the same pair so two simultaneous swipes
+    -- can't both miss each other and end up as two pending rows
+    PERFORM pg_advisory_xact_lock(
+      hashtext(LEAST(p_user_id, p_target_user_id)::text || GREATEST(p_user_id, p_target_user_id)::text)
+    );
+
+    SELECT id INTO v_reciprocal_id
+    FROM public.matches
+    WHERE user_id = p_target_user_id
+      AND target_user_id = p_user_id
+      AND match_type = 'individual_to_individual'
+      AND status IN ('pending', 'matched')
+    FOR UPDATE;
+  END IF;
+
+  -- A like from the second-look deck converts the earlier pass
+  IF p_match_type IN ('individual_to_individual', 'team_to_individual') THEN
+    SELECT id INTO v_passed_id
+    FROM public.matches
+    WHERE user_id = p_user_id
+      AND target_user_id = p_target_user_id
+      AND match_type IN ('individual_to_individual', 'team_to_individual')
+      AND status = 'rejected'
+    ORDER BY created_at DESC
+    LIMIT 1
+    FOR UPDATE;
+  END IF;
+
+  IF v_reciprocal_id IS NOT NULL THEN
+    -- Mutual like: record ours as matched and flip theirs
+    IF v_passed_id IS NOT NULL THEN
+      UPDATE public.matches
+      SET match_type = p_match_type, team_id = p_team_id, status = 'matched', target_snapshot = NULL
+      WHERE id = v_passed_id
+      RETURNING id INTO v_match_id;
+    ELSE
+      INSERT INTO public.matches (user_id, target_user_id, match_type, team_id, status)
+      VALUES (p_user_id, p_target_user_id, p_match_type, p_team_id, 'matched')
+      RETURNING id INTO v_match_id;
+    END IF;
+
+    UPDATE public.matches
+    SET status = 'matched'
+    WHERE id = v_reciprocal_id;
+
+    -- Reuse the conversation created by the first like
+    SELECT id INTO v_conversation_id
+    FROM public.conversations
+    WHERE match_id = v_reciprocal_id
+    ORDER BY created_at
+    LIMIT 1;
+
+    IF v_conversation_id IS NULL THEN
+      INSERT INTO public.conversations (type, match_id, team_id)
+      VALUES (p_conversation_type, v_reciprocal_id, p_team_id)
+      RETURNING id INTO v_conversation_id;
+    END IF;
+
+    INSERT INTO public.conversation_participants (conversation_id, user_id)
+    VALUES
+      (v_conversation_id, p_user_id),
+      (v_conversation_id, p_target_user_id)
+    ON CONFLICT (conversation_id, user_id) DO NOTHING;
+
+    RETURN json_build_object(
+      'match_id', v_match_id,
+      'conversation_id', v_conversation_id,
+      'is_mutual', true
+    );
+  END IF;
+
+  -- Create match
+  IF v_passed_id IS NOT NULL THEN
+    UPDATE public.matches
+    SET match_type = p_match_type, team_id = p_team_id, status = 'pending', target_snapshot = NULL
+    WHERE id = v_passed_id
+    RETURNING id INTO v_match_id;
+  ELSE
+    INSERT INTO public.matches (user_id, target_user_id, match_type, team_id, status)
+    VALUES (p_user_id, p_target_user_id, p_match_type, p_team_id, 'pending')
+    RETURNING id INTO v_match_id;
+  END IF;
+
+  -- Create conversation
+  INSERT INTO public.conversations (type, match_id, team_id)
+  VALUES (p_conversation_type, v_match_id, p_team_id)
+  RETURNING id INTO v_conversation_id;
+
+  -- Add participants
+  INSERT INTO public.conversation_participants (conversation_id, user_id)
+  VALUES
+    (v_conversation_id, p_user_id),
+    (v_conversation_id, p_target_user_id);
+
+  RETURN json_build_object(
+    'match_id', v_match_id,
+    'conversation_id', v_conversation_id,
+    'is_mutual', false
+  );
+END;
+$$;
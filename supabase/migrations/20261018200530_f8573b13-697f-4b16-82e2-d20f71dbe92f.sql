@@ -0,0 +1,268 @@
+-- Cursor-paginated discovery decks
+-- Exclusion, filtering and ordering happen here instead of on the client so
+-- the app only loads one page of candidates at a time.
+--
+-- The people deck is ordered by the same compatibility score as
+-- src/lib/compatibility.ts (skills 40 / program 35 / studio 25) with
+-- (score, user_id) as the cursor. The team deck is newest first with
+-- (created_at, id) as the cursor. Both use #variable_conflict use_column
+-- because their output columns share names with table columns.
+
+-- 1. PEOPLE DECK
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.get_discovery_deck(
+  p_skills text[] DEFAULT '{}',
+  p_programs text[] DEFAULT '{}',
+  p_studios text[] DEFAULT '{}',
+  p_cursor_score integer DEFAULT NULL,
+  p_cursor_id uuid DEFAULT NULL,
+  p_limit integer DEFAULT 20
+)
+RETURNS TABLE (
+  user_id uuid,
+  name text,
+  program text,
+  skills text[],
+  bio text,
+  studio_preference text,
+  studio_preferences text[],
+  avatar text,
+  linkedin text,
+  score integer
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_viewer uuid := auth.uid();
+  v_team_id uuid;
+  v_team_studio text;
+  v_side_skills text[];
+  v_side_programs text[];
+  v_side_studios text[];
+  v_skills_needed text[] := '{}';
+  v_program_needs jsonb := '{}';
+  v_has_needs boolean;
+  v_filter_skills text[];
+BEGIN
+  IF v_viewer IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  -- Viewer side: the team if they have one, otherwise just the viewer
+  SELECT tm.team_id, t.studio,
+         COALESCE(ARRAY(SELECT lower(trim(s)) FROM unnest(t.skills_needed) s), '{}'),
+         COALESCE(t.program_needs, '{}')
+  INTO v_team_id, v_team_studio, v_skills_needed, v_program_needs
+  FROM public.team_members tm
+  JOIN public.teams t ON t.id = tm.team_id
+  WHERE tm.user_id = v_viewer AND tm.status = 'confirmed'
+  LIMIT 1;
+
+  SELECT
+    COALESCE(array_agg(DISTINCT lower(trim(s))) FILTER (WHERE s IS NOT NULL), '{}'),
+    COALESCE(array_agg(DISTINCT m.program), '{}')
+  INTO v_side_skills, v_side_programs
+  FROM public.profiles m
+  LEFT JOIN LATERAL unnest(m.skills) s ON true
+  WHERE m.user_id IN (
+    SELECT tm.user_id FROM public.team_members tm
+    WHERE tm.team_id = v_team_id AND tm.status = 'confirmed'
+    UNION
+    SELECT v_viewer WHERE v_team_id IS NULL
+  );
+
+  IF v_team_id IS NOT NULL THEN
+    v_side_studios := ARRAY[v_team_studio];
+  ELSE
+    SELECT COALESCE(NULLIF(p.studio_preferences, '{}'), ARRAY[p.studio_preference])
+    INTO v_side_studios
+    FROM public.profiles p WHERE p.user_id = v_viewer;
+  END IF;
+
+  v_has_needs := EXISTS (
+    SELECT 1 FROM jsonb_each_text(v_program_needs) n WHERE n.value::int > 0
+  );
+
+  -- Stored skills are canonical, so filters only need canonicalizing once
+  v_filter_skills := ARRAY(
+    SELECT lower(public.canonicalize_skill(f)) FROM unnest(COALESCE(p_skills, '{}')) f
+  );
+
+  RETURN QUERY
+  WITH candidates AS (
+    SELECT
+      p.*,
+      ARRAY(SELECT DISTINCT lower(trim(s)) FROM unnest(COALESCE(p.skills, '{}')) s) AS norm_skills,
+      COALESCE(NULLIF(p.studio_preferences, '{}'), ARRAY[p.studio_preference]) AS all_studios
+    FROM public.profiles p
+    WHERE p.user_id <> v_viewer
+      AND NOT EXISTS (
+        SELECT 1 FROM public.team_members tm
+        WHERE tm.user_id = p.user_id AND tm.status = 'confirmed'
+      )
+      AND NOT EXISTS (
+        SELECT 1 FROM public.matches m
+        WHERE m.user_id = v_viewer
+          AND m.target_user_id = p.user_id
+          AND m.match_type IN ('individual_to_individual', 'team_to_individual')
+      )
+      AND NOT EXISTS (
+        SELECT 1 FROM public.saved_items si
+        WHERE si.user_id = v_viewer AND si.target_user_id = p.user_id
+      )
+      AND (cardinality(v_filter_skills) = 0
+           OR EXISTS (SELECT 1 FROM unnest(p.skills) s WHERE lower(s) = ANY (v_filter_skills)))
+      AND (cardinality(COALESCE(p_programs, '{}')) = 0 OR p.program = ANY (p_programs))
+      AND (cardinality(COALESCE(p_studios, '{}')) = 0
+           OR COALESCE(NULLIF(p.studio_preferences, '{}'), ARRAY[p.studio_preference]) && p_studios)
+  ),
+  scored AS (
+    SELECT
+      c.*,
+      (
+        -- Complementary skills, with skills the team asked for counting double
+        CASE WHEN cardinality(c.norm_skills) = 0 THEN 0 ELSE round(
+          (
+            (SELECT count(*) FROM unnest(c.norm_skills) s WHERE NOT s = ANY (v_side_skills))
+            + (SELECT count(*) FROM unnest(c.norm_skills) s WHERE s = ANY (v_skills_needed))
+          )::numeric
+          / (cardinality(c.norm_skills) + (SELECT count(*) FROM unnest(c.norm_skills) s WHERE s = ANY (v_skills_needed)))
+          * 40
+        ) END
+        -- Program fit: declared needs win, otherwise reward diversity
+        + CASE
+            WHEN COALESCE((v_program_needs ->> c.program)::int, 0) > 0 THEN 35
+            WHEN NOT v_has_needs AND NOT c.program = ANY (v_side_programs) THEN 35
+            ELSE 0
+          END
+        -- Studio overlap
+        + round(
+            (SELECT count(*) FROM unnest(c.all_studios) s WHERE s = ANY (v_side_studios))::numeric
+            / GREATEST(cardinality(c.all_studios), 1)
+            * 25
+          )
+      )::integer AS score
+    FROM candidates c
+  )
+  SELECT
+    sc.user_id, sc.name, sc.program, sc.skills, sc.bio, sc.studio_preference,
+    sc.studio_preferences, sc.avatar, sc.linkedin, sc.score
+  FROM scored sc
+  WHERE p_cursor_score IS NULL
+     OR sc.score < p_cursor_score
+     OR (sc.score = p_cursor_score AND sc.user_id > p_cursor_id)
+  ORDER BY sc.score DESC, sc.user_id ASC
+  LIMIT LEAST(GREATEST(p_limit, 1), 100);
+END;
+$$;
+
+-- 2. TEAM DECK
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.get_team_deck(
+  p_skills text[] DEFAULT '{}',
+  p_looking_for text[] DEFAULT '{}',
+  p_studios text[] DEFAULT '{}',
+  p_team_size integer DEFAULT NULL,
+  p_cursor_created_at timestamp with time zone DEFAULT NULL,
+  p_cursor_id uuid DEFAULT NULL,
+  p_limit integer DEFAULT 20
+)
+RETURNS TABLE (
+  id uuid,
+  name text,
+  description text,
+  studio text,
+  skills_needed text[],
+  program_needs jsonb,
+  created_by uuid,
+  created_at timestamp with time zone,
+  members jsonb
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_viewer uuid := auth.uid();
+  v_filter_skills text[];
+BEGIN
+  IF v_viewer IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  v_filter_skills := ARRAY(
+    SELECT lower(public.canonicalize_skill(f)) FROM unnest(COALESCE(p_skills, '{}')) f
+  );
+
+  RETURN QUERY
+  WITH team_rows AS (
+    SELECT
+      t.*,
+      (SELECT count(*) FROM public.team_members tm
+       WHERE tm.team_id = t.id AND tm.status = 'confirmed') AS member_count
+    FROM public.teams t
+    WHERE NOT EXISTS (
+        SELECT 1 FROM public.team_members tm
+        WHERE tm.team_id = t.id AND tm.user_id = v_viewer AND tm.status = 'confirmed'
+      )
+      AND NOT EXISTS (
+        SELECT 1 FROM public.matches m
+        WHERE m.user_id = v_viewer
+          AND m.team_id = t.id
+          AND m.match_type = 'individual_to_team'
+      )
+      AND NOT EXISTS (
+        SELECT 1 FROM public.saved_items si
+        WHERE si.user_id = v_viewer AND si.team_id = t.id
+      )
+      AND (cardinality(v_filter_skills) = 0
+           OR EXISTS (SELECT 1 FROM unnest(t.skills_needed) s WHERE lower(s) = ANY (v_filter_skills)))
+      AND (cardinality(COALESCE(p_looking_for, '{}')) = 0
+           OR EXISTS (
+             SELECT 1 FROM jsonb_each_text(t.program_needs) n
+             WHERE n.key = ANY (p_looking_for) AND n.value::int > 0
+           ))
+      AND (cardinality(COALESCE(p_studios, '{}')) = 0 OR t.studio = ANY (p_studios))
+      AND (p_cursor_created_at IS NULL OR (t.created_at, t.id) < (p_cursor_created_at, p_cursor_id))
+  )
+  SELECT
+    tr.id, tr.name, tr.description, tr.studio, tr.skills_needed, tr.program_needs,
+    tr.created_by, tr.created_at,
+    COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'user_id', p.user_id,
+        'name', p.name,
+        'program', p.program,
+        'skills', p.skills,
+        'bio', p.bio,
+        'studio_preference', p.studio_preference,
+        'studio_preferences', p.studio_preferences,
+        'avatar', p.avatar,
+        'linkedin', p.linkedin
+      ) ORDER BY tm.created_at)
+      FROM public.team_members tm
+      JOIN public.profiles p ON p.user_id = tm.user_id
+      WHERE tm.team_id = tr.id AND tm.status = 'confirmed'
+    ), '[]'::jsonb) AS members
+  FROM team_rows tr
+  -- 4 means "4 or more" to match the filter panel
+  WHERE p_team_size IS NULL
+     OR (p_team_size >= 4 AND tr.member_count >= 4)
+     OR tr.member_count = p_team_size
+  ORDER BY tr.created_at DESC, tr.id DESC
+  LIMIT LEAST(GREATEST(p_limit, 1), 100);
+END;
+$$;
+
+CREATE INDEX IF NOT EXISTS idx_team_members_user_status
+  ON public.team_members (user_id, status);
+
+CREATE INDEX IF NOT EXISTS idx_matches_user_target
+  ON public.matches (user_id, target_user_id);
+
+CREATE INDEX IF NOT EXISTS idx_teams_created_at_id
+  ON public.teams (created_at DESC, id DESC);
@@ -0,0 +1,50 @@
+-- Server-side undo for swipes
+-- Removes a swipe and the conversation it opened in one transaction.
+-- Refusals the user can act on come back as { undone: false, reason } so
+-- the client can explain them; anything else raises.
+
+CREATE OR REPLACE FUNCTION public.undo_swipe(p_match_id uuid)
+RETURNS json
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  -- Keep in sync with UNDO_WINDOW_MINUTES in src/lib/undo.ts
+  v_window interval := interval '10 minutes';
+  v_match RECORD;
+BEGIN
+  SELECT * INTO v_match
+  FROM public.matches
+  WHERE id = p_match_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_match.user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Swipe not found';
+  END IF;
+
+  IF v_match.status IN ('matched', 'accepted') THEN
+    RETURN json_build_object('undone', false, 'reason', 'accepted');
+  END IF;
+
+  IF v_match.updated_at < now() - v_window THEN
+    RETURN json_build_object('undone', false, 'reason', 'expired');
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM public.conversations c
+    JOIN public.messages msg ON msg.conversation_id = c.id
+    WHERE c.match_id = p_match_id
+      AND msg.sender_id <> v_match.user_id
+  ) THEN
+    RETURN json_build_object('undone', false, 'reason', 'replied');
+  END IF;
+
+  -- Participants and messages cascade with the conversation
+  DELETE FROM public.conversations WHERE match_id = p_match_id;
+  DELETE FROM public.matches WHERE id = p_match_id;
+
+  RETURN json_build_object('undone', true);
+END;
+$$;
@@ -0,0 +1,161 @@
+-- Team-wide join request inbox
+-- Join request conversations include every confirmed member of the team,
+-- not just the creator, and pick up new members as they join. Any member
+-- can read the team's applications; only the owner decides on them.
+
+-- 1. JOIN REQUEST CONVERSATIONS INCLUDE THE WHOLE TEAM
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.add_team_to_join_request_conversation()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.conversation_participants (conversation_id, user_id)
+  SELECT NEW.id, tm.user_id
+  FROM public.matches m
+  JOIN public.team_members tm ON tm.team_id = m.team_id AND tm.status = 'confirmed'
+  WHERE m.id = NEW.match_id
+    AND m.match_type IN ('individual_to_team', 'team_to_individual')
+  ON CONFLICT (conversation_id, user_id) DO NOTHING;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER add_team_to_join_request_conversation
+  AFTER INSERT ON public.conversations
+  FOR EACH ROW
+  WHEN (NEW.match_id IS NOT NULL)
+  EXECUTE FUNCTION public.add_team_to_join_request_conversation();
+
+-- 2. KEEP PARTICIPANTS IN SYNC WITH MEMBERSHIP
+-- =====================================================
+-- New members join the team's open applications; members who leave drop
+-- out of them. Decided requests keep their original participants.
+CREATE OR REPLACE FUNCTION public.sync_join_request_participants()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP IN ('INSERT', 'UPDATE') AND NEW.status = 'confirmed' THEN
+    INSERT INTO public.conversation_participants (conversation_id, user_id)
+    SELECT c.id, NEW.user_id
+    FROM public.matches m
+    JOIN public.conversations c ON c.match_id = m.id
+    WHERE m.team_id = NEW.team_id
+      AND m.match_type IN ('individual_to_team', 'team_to_individual')
+      AND m.status = 'pending'
+    ON CONFLICT (conversation_id, user_id) DO NOTHING;
+  END IF;
+
+  IF TG_OP = 'DELETE' OR (TG_OP = 'UPDATE' AND OLD.status = 'confirmed' AND NEW.status <> 'confirmed') THEN
+    DELETE FROM public.conversation_participants cp
+    USING public.conversations c, public.matches m
+    WHERE cp.conversation_id = c.id
+      AND c.match_id = m.id
+      AND cp.user_id = OLD.user_id
+      AND m.team_id = OLD.team_id
+      AND m.match_type IN ('individual_to_team', 'team_to_individual')
+      AND m.status = 'pending'
+      -- The applicant stays in their own thread
+      AND cp.user_id NOT IN (m.user_id, m.target_user_id);
+  END IF;
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$;
+
+CREATE TRIGGER sync_join_request_participants
+  AFTER INSERT OR UPDATE OF status OR DELETE ON public.team_members
+  FOR EACH ROW EXECUTE FUNCTION public.sync_join_request_participants();
+
+-- Backfill open applications
+INSERT INTO public.conversation_participants (conversation_id, user_id)
+SELECT c.id, tm.user_id
+FROM public.matches m
+JOIN public.conversations c ON c.match_id = m.id
+JOIN public.team_members tm ON tm.team_id = m.team_id AND tm.status = 'confirmed'
+WHERE m.match_type IN ('individual_to_team', 'team_to_individual')
+  AND m.status = 'pending'
+ON CONFLICT (conversation_id, user_id) DO NOTHING;
+
+-- 3. ACCEPT OR DECLINE A JOIN REQUEST
+-- =====================================================
+-- Applications to a team are decided by its owner; invitations from a team
+-- are decided by the invited person.
+CREATE OR REPLACE FUNCTION public.respond_to_join_request(
+  p_match_id uuid,
+  p_accept boolean
+)
+RETURNS json
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_match RECORD;
+  v_applicant uuid;
+  v_team_conv uuid;
+BEGIN
+  SELECT * INTO v_match
+  FROM public.matches
+  WHERE id = p_match_id
+    AND match_type IN ('individual_to_team', 'team_to_individual')
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Join request not found';
+  END IF;
+
+  IF v_match.status != 'pending' THEN
+    RAISE EXCEPTION 'Join request is no longer pending';
+  END IF;
+
+  IF v_match.team_id IS NULL THEN
+    RAISE EXCEPTION 'Team no longer exists';
+  END IF;
+
+  IF v_match.match_type = 'individual_to_team' THEN
+    v_applicant := v_match.user_id;
+    IF NOT EXISTS (
+      SELECT 1 FROM public.teams
+      WHERE id = v_match.team_id AND created_by = auth.uid()
+    ) THEN
+      RAISE EXCEPTION 'Unauthorized: Only the team owner can respond to join requests';
+    END IF;
+  ELSE
+    v_applicant := v_match.target_user_id;
+    IF v_applicant IS DISTINCT FROM auth.uid() THEN
+      RAISE EXCEPTION 'Unauthorized: Only the invited person can respond';
+    END IF;
+  END IF;
+
+  IF NOT p_accept THEN
+    UPDATE public.matches SET status = 'rejected' WHERE id = p_match_id;
+    RETURN json_build_object('status', 'rejected');
+  END IF;
+
+  UPDATE public.matches SET status = 'accepted' WHERE id = p_match_id;
+
+  INSERT INTO public.team_members (team_id, user_id, role, status)
+  VALUES (v_match.team_id, v_applicant, 'member', 'confirmed')
+  ON CONFLICT (team_id, user_id) DO UPDATE SET status = 'confirmed';
+
+  SELECT id INTO v_team_conv
+  FROM public.conversations
+  WHERE team_id = v_match.team_id AND type = 'team'
+  LIMIT 1;
+
+  IF v_team_conv IS NOT NULL THEN
+    INSERT INTO public.conversation_participants (conversation_id, user_id)
+    VALUES (v_team_conv, v_applicant)
+    ON CONFLICT (conversation_id, user_id) DO NOTHING;
+  END IF;
+
+  RETURN json_build_object('status', 'accepted', 'team_id', v_match.team_id);
+END;
+$$;
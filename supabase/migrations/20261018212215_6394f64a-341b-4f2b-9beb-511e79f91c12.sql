@@ -0,0 +1,231 @@
+-- Team voting on join requests
+-- Teams can require a vote instead of leaving applications to the owner.
+-- Once `join_vote_quorum` votes are in, the majority decides (ties reject).
+-- The quorum is capped at the current team size so it stays reachable.
+
+-- 1. SCHEMA
+-- =====================================================
+ALTER TABLE public.teams
+  ADD COLUMN IF NOT EXISTS join_vote_quorum integer
+  CHECK (join_vote_quorum IS NULL OR join_vote_quorum >= 1);
+
+CREATE TABLE public.join_request_votes (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  match_id uuid NOT NULL REFERENCES public.matches(id) ON DELETE CASCADE,
+  voter_id uuid NOT NULL,
+  vote text NOT NULL CHECK (vote IN ('approve', 'reject')),
+  comment text CHECK (comment IS NULL OR length(comment) <= 500),
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  UNIQUE (match_id, voter_id)
+);
+
+CREATE INDEX idx_join_request_votes_match ON public.join_request_votes (match_id);
+
+ALTER TABLE public.join_request_votes ENABLE ROW LEVEL SECURITY;
+
+-- Votes are cast through cast_join_request_vote. Only the team reads them;
+-- comments are internal discussion, not feedback for the applicant.
+CREATE POLICY "Team members can view join request votes"
+ON public.join_request_votes
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1
+    FROM public.matches m
+    JOIN public.team_members tm ON tm.team_id = m.team_id
+    WHERE m.id = join_request_votes.match_id
+      AND tm.user_id = auth.uid()
+      AND tm.status = 'confirmed'
+  )
+);
+
+-- 2. SHARED RESOLUTION
+-- =====================================================
+-- Applies a decision to a pending join request. Internal: callers check
+-- permissions first.
+CREATE OR REPLACE FUNCTION public.resolve_join_request(
+  p_match_id uuid,
+  p_accept boolean
+)
+RETURNS json
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_match RECORD;
+  v_applicant uuid;
+  v_team_conv uuid;
+BEGIN
+  SELECT * INTO v_match FROM public.matches WHERE id = p_match_id;
+
+  IF NOT p_accept THEN
+    UPDATE public.matches SET status = 'rejected' WHERE id = p_match_id;
+    RETURN json_build_object('status', 'rejected');
+  END IF;
+
+  v_applicant := CASE WHEN v_match.match_type = 'individual_to_team'
+    THEN v_match.user_id ELSE v_match.target_user_id END;
+
+  UPDATE public.matches SET status = 'accepted' WHERE id = p_match_id;
+
+  INSERT INTO public.team_members (team_id, user_id, role, status)
+  VALUES (v_match.team_id, v_applicant, 'member', 'confirmed')
+  ON CONFLICT (team_id, user_id) DO UPDATE SET status = 'confirmed';
+
+  SELECT id INTO v_team_conv
+  FROM public.conversations
+  WHERE team_id = v_match.team_id AND type = 'team'
+  LIMIT 1;
+
+  IF v_team_conv IS NOT NULL THEN
+    INSERT INTO public.conversation_participants (conversation_id, user_id)
+    VALUES (v_team_conv, v_applicant)
+    ON CONFLICT (conversation_id, user_id) DO NOTHING;
+  END IF;
+
+  RETURN json_build_object('status', 'accepted', 'team_id', v_match.team_id);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.resolve_join_request(uuid, boolean) FROM PUBLIC, anon, authenticated;
+
+-- 3. OWNER DECISIONS DEFER TO THE VOTE WHEN ONE IS REQUIRED
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.respond_to_join_request(
+  p_match_id uuid,
+  p_accept boolean
+)
+RETURNS json
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_match RECORD;
+BEGIN
+  SELECT * INTO v_match
+  FROM public.matches
+  WHERE id = p_match_id
+    AND match_type IN ('individual_to_team', 'team_to_individual')
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Join request not found';
+  END IF;
+
+  IF v_match.status != 'pending' THEN
+    RAISE EXCEPTION 'Join request is no longer pending';
+  END IF;
+
+  IF v_match.team_id IS NULL THEN
+    RAISE EXCEPTION 'Team no longer exists';
+  END IF;
+
+  IF v_match.match_type = 'individual_to_team' THEN
+    IF NOT EXISTS (
+      SELECT 1 FROM public.teams
+      WHERE id = v_match.team_id AND created_by = auth.uid()
+    ) THEN
+      RAISE EXCEPTION 'Unauthorized: Only the team owner can respond to join requests';
+    END IF;
+
+    IF EXISTS (
+      SELECT 1 FROM public.teams
+      WHERE id = v_match.team_id AND join_vote_quorum IS NOT NULL
+    ) THEN
+      RAISE EXCEPTION 'This team decides join requests by vote';
+    END IF;
+  ELSIF v_match.target_user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Unauthorized: Only the invited person can respond';
+  END IF;
+
+  RETURN public.resolve_join_request(p_match_id, p_accept);
+END;
+$$;
+
+-- 4. CAST A VOTE
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.cast_join_request_vote(
+  p_match_id uuid,
+  p_vote text,
+  p_comment text DEFAULT NULL
+)
+RETURNS json
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_match RECORD;
+  v_quorum integer;
+  v_member_count integer;
+  v_approvals integer;
+  v_rejections integer;
+BEGIN
+  IF p_vote NOT IN ('approve', 'reject') THEN
+    RAISE EXCEPTION 'Invalid vote: %', p_vote;
+  END IF;
+
+  SELECT * INTO v_match
+  FROM public.matches
+  WHERE id = p_match_id AND match_type = 'individual_to_team'
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Join request not found';
+  END IF;
+
+  IF v_match.status != 'pending' THEN
+    RAISE EXCEPTION 'Join request is no longer pending';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.team_members
+    WHERE team_id = v_match.team_id AND user_id = auth.uid() AND status = 'confirmed'
+  ) THEN
+    RAISE EXCEPTION 'Unauthorized: Not a confirmed team member';
+  END IF;
+
+  SELECT join_vote_quorum INTO v_quorum FROM public.teams WHERE id = v_match.team_id;
+  IF v_quorum IS NULL THEN
+    RAISE EXCEPTION 'This team does not vote on join requests';
+  END IF;
+
+  INSERT INTO public.join_request_votes (match_id, voter_id, vote, comment)
+  VALUES (p_match_id, auth.uid(), p_vote, NULLIF(trim(p_comment), ''))
+  ON CONFLICT (match_id, voter_id) DO UPDATE
+  SET vote = EXCLUDED.vote, comment = EXCLUDED.comment, updated_at = now();
+
+  -- Only votes from current members count
+  SELECT
+    count(*) FILTER (WHERE v.vote = 'approve'),
+    count(*) FILTER (WHERE v.vote = 'reject')
+  INTO v_approvals, v_rejections
+  FROM public.join_request_votes v
+  JOIN public.team_members tm
+    ON tm.team_id = v_match.team_id AND tm.user_id = v.voter_id AND tm.status = 'confirmed'
+  WHERE v.match_id = p_match_id;
+
+  SELECT count(*) INTO v_member_count
+  FROM public.team_members
+  WHERE team_id = v_match.team_id AND status = 'confirmed';
+
+  v_quorum := LEAST(v_quorum, v_member_count);
+
+  IF v_approvals + v_rejections >= v_quorum THEN
+    RETURN (
+      jsonb_build_object('approvals', v_approvals, 'rejections', v_rejections, 'quorum', v_quorum)
+      || public.resolve_join_request(p_match_id, v_approvals > v_rejections)::jsonb
+    )::json;
+  END IF;
+
+  RETURN json_build_object(
+    'status', 'pending',
+    'approvals', v_approvals,
+    'rejections', v_rejections,
+    'quorum', v_quorum
+  );
+END;
+$$;
@@ -0,0 +1,166 @@
+-- Team ownership transfer
+-- The owner offers ownership to a confirmed member, who has to accept
+-- before teams.created_by (and with it every owner-only policy) moves.
+-- One offer can be open per team.
+
+-- 1. SCHEMA
+-- =====================================================
+CREATE TABLE public.team_ownership_transfers (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  team_id uuid NOT NULL REFERENCES public.teams(id) ON DELETE CASCADE,
+  from_user_id uuid NOT NULL,
+  to_user_id uuid NOT NULL,
+  status text NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'accepted', 'declined', 'cancelled')),
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  responded_at timestamp with time zone,
+  CHECK (from_user_id <> to_user_id)
+);
+
+CREATE UNIQUE INDEX idx_ownership_transfers_one_pending
+  ON public.team_ownership_transfers (team_id)
+  WHERE status = 'pending';
+
+ALTER TABLE public.team_ownership_transfers ENABLE ROW LEVEL SECURITY;
+
+-- Changes go through the functions below
+CREATE POLICY "Team members can view ownership transfers"
+ON public.team_ownership_transfers
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.team_members tm
+    WHERE tm.team_id = team_ownership_transfers.team_id
+      AND tm.user_id = auth.uid()
+      AND tm.status = 'confirmed'
+  )
+);
+
+-- 2. OFFER OWNERSHIP
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.transfer_team_ownership(
+  p_team_id uuid,
+  p_new_owner_id uuid
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_transfer_id uuid;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.teams WHERE id = p_team_id AND created_by = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Unauthorized: Only the team owner can transfer ownership';
+  END IF;
+
+  IF p_new_owner_id = auth.uid() THEN
+    RAISE EXCEPTION 'You already own this team';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.team_members
+    WHERE team_id = p_team_id AND user_id = p_new_owner_id AND status = 'confirmed'
+  ) THEN
+    RAISE EXCEPTION 'New owner must be a confirmed team member';
+  END IF;
+
+  -- A new offer replaces any open one
+  UPDATE public.team_ownership_transfers
+  SET status = 'cancelled', responded_at = now()
+  WHERE team_id = p_team_id AND status = 'pending';
+
+  INSERT INTO public.team_ownership_transfers (team_id, from_user_id, to_user_id)
+  VALUES (p_team_id, auth.uid(), p_new_owner_id)
+  RETURNING id INTO v_transfer_id;
+
+  RETURN v_transfer_id;
+END;
+$$;
+
+-- 3. ACCEPT OR DECLINE
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.respond_to_ownership_transfer(
+  p_transfer_id uuid,
+  p_accept boolean
+)
+RETURNS json
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_transfer RECORD;
+BEGIN
+  SELECT * INTO v_transfer
+  FROM public.team_ownership_transfers
+  WHERE id = p_transfer_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_transfer.to_user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Ownership transfer not found';
+  END IF;
+
+  IF v_transfer.status != 'pending' THEN
+    RAISE EXCEPTION 'Ownership transfer is no longer pending';
+  END IF;
+
+  IF NOT p_accept THEN
+    UPDATE public.team_ownership_transfers
+    SET status = 'declined', responded_at = now()
+    WHERE id = p_transfer_id;
+    RETURN json_build_object('status', 'declined');
+  END IF;
+
+  -- The offer is only good while the sender still owns the team and the
+  -- recipient is still on it
+  IF NOT EXISTS (
+    SELECT 1 FROM public.teams
+    WHERE id = v_transfer.team_id AND created_by = v_transfer.from_user_id
+    FOR UPDATE
+  ) OR NOT EXISTS (
+    SELECT 1 FROM public.team_members
+    WHERE team_id = v_transfer.team_id AND user_id = auth.uid() AND status = 'confirmed'
+  ) THEN
+    RAISE EXCEPTION 'This ownership offer is no longer valid';
+  END IF;
+
+  UPDATE public.teams
+  SET created_by = v_transfer.to_user_id
+  WHERE id = v_transfer.team_id;
+
+  UPDATE public.team_members
+  SET role = CASE WHEN user_id = v_transfer.to_user_id THEN 'owner' ELSE 'member' END
+  WHERE team_id = v_transfer.team_id
+    AND user_id IN (v_transfer.from_user_id, v_transfer.to_user_id);
+
+  UPDATE public.team_ownership_transfers
+  SET status = 'accepted', responded_at = now()
+  WHERE id = p_transfer_id;
+
+  RETURN json_build_object('status', 'accepted', 'team_id', v_transfer.team_id);
+END;
+$$;
+
+-- 4. WITHDRAW AN OFFER
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.cancel_ownership_transfer(p_transfer_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.team_ownership_transfers
+  SET status = 'cancelled', responded_at = now()
+  WHERE id = p_transfer_id
+    AND from_user_id = auth.uid()
+    AND status = 'pending';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Ownership transfer not found';
+  END IF;
+END;
+$$;
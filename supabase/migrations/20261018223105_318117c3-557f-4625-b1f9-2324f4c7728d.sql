@@ -0,0 +1,201 @@
+-- Team admin permissions
+-- Admins can answer join requests, remove regular members and edit team
+-- details. Only the owner can promote or demote admins, delete the team or
+-- hand ownership over (see transfer_team_ownership).
+
+-- 1. ROLES
+-- =====================================================
+ALTER TABLE public.team_members DROP CONSTRAINT IF EXISTS team_members_role_check;
+ALTER TABLE public.team_members
+  ADD CONSTRAINT team_members_role_check CHECK (role IN ('owner', 'admin', 'member'));
+
+-- Security definer helpers (prevent RLS recursion on team_members)
+CREATE OR REPLACE FUNCTION public.is_team_owner(_team_id uuid, _user_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.teams
+    WHERE id = _team_id
+      AND created_by = _user_id
+  )
+$$;
+
+-- True for the owner and for confirmed admins
+CREATE OR REPLACE FUNCTION public.is_team_admin(_team_id uuid, _user_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.is_team_owner(_team_id, _user_id) OR EXISTS (
+    SELECT 1
+    FROM public.team_members
+    WHERE team_id = _team_id
+      AND user_id = _user_id
+      AND role = 'admin'
+      AND status = 'confirmed'
+  )
+$$;
+
+-- 2. TEAMS
+-- =====================================================
+DROP POLICY IF EXISTS "Team owners can update teams" ON public.teams;
+CREATE POLICY "Team admins can update teams"
+ON public.teams
+FOR UPDATE
+USING (public.is_team_admin(id, auth.uid()));
+
+-- created_by only moves through respond_to_ownership_transfer, which runs
+-- as the function owner rather than as a client role
+CREATE OR REPLACE FUNCTION public.protect_team_owner()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.created_by IS DISTINCT FROM OLD.created_by
+     AND current_user IN ('anon', 'authenticated') THEN
+    RAISE EXCEPTION 'Use an ownership transfer to change the team owner';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS protect_team_owner ON public.teams;
+CREATE TRIGGER protect_team_owner
+  BEFORE UPDATE ON public.teams
+  FOR EACH ROW EXECUTE FUNCTION public.protect_team_owner();
+
+-- 3. TEAM MEMBERS
+-- =====================================================
+DROP POLICY IF EXISTS "Team owners can add members" ON public.team_members;
+DROP POLICY IF EXISTS "Team owners can update members" ON public.team_members;
+DROP POLICY IF EXISTS "Team owners can remove members" ON public.team_members;
+
+-- Admins add regular members; a new team's creator adds themselves as owner
+CREATE POLICY "Team admins can add members"
+ON public.team_members
+FOR INSERT
+WITH CHECK (
+  (role = 'member' AND public.is_team_admin(team_id, auth.uid()))
+  OR (role = 'owner' AND user_id = auth.uid() AND public.is_team_owner(team_id, auth.uid()))
+);
+
+-- Role changes are the owner's; a second owner needs a transfer
+CREATE POLICY "Team owners can update members"
+ON public.team_members
+FOR UPDATE
+USING (public.is_team_owner(team_id, auth.uid()))
+WITH CHECK (
+  public.is_team_owner(team_id, auth.uid())
+  AND (role <> 'owner' OR user_id = auth.uid())
+);
+
+-- Members can leave, admins can remove regular members, the owner anyone
+CREATE POLICY "Team admins can remove members"
+ON public.team_members
+FOR DELETE
+USING (
+  auth.uid() = user_id
+  OR public.is_team_owner(team_id, auth.uid())
+  OR (role = 'member' AND public.is_team_admin(team_id, auth.uid()))
+);
+
+-- 4. MATCHES
+-- =====================================================
+-- Members still swipe for the team; changing or removing someone else's
+-- team match is for admins
+DROP POLICY IF EXISTS "Users can update their own matches" ON public.matches;
+CREATE POLICY "Users can update their own matches" ON public.matches
+  FOR UPDATE USING (
+    auth.uid() = user_id
+    OR auth.uid() = target_user_id
+    OR (team_id IS NOT NULL AND public.is_team_admin(team_id, auth.uid()))
+  );
+
+DROP POLICY IF EXISTS "Users and team members can delete matches" ON public.matches;
+CREATE POLICY "Users and team admins can delete matches"
+ON public.matches
+FOR DELETE
+USING (
+  auth.uid() = user_id
+  OR auth.uid() = target_user_id
+  OR (team_id IS NOT NULL AND public.is_team_admin(team_id, auth.uid()))
+);
+
+-- 5. CONVERSATIONS
+-- =====================================================
+-- Lets whoever removed a member take them out of the team chat too
+CREATE POLICY "Team admins can remove former members from team chat"
+ON public.conversation_participants
+FOR DELETE
+USING (
+  EXISTS (
+    SELECT 1 FROM public.conversations c
+    WHERE c.id = conversation_participants.conversation_id
+      AND c.type = 'team'
+      AND public.is_team_admin(c.team_id, auth.uid())
+      AND NOT EXISTS (
+        SELECT 1 FROM public.team_members tm
+        WHERE tm.team_id = c.team_id
+          AND tm.user_id = conversation_participants.user_id
+      )
+  )
+);
+
+-- 6. ADMINS ANSWER JOIN REQUESTS
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.respond_to_join_request(
+  p_match_id uuid,
+  p_accept boolean
+)
+RETURNS json
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_match RECORD;
+BEGIN
+  SELECT * INTO v_match
+  FROM public.matches
+  WHERE id = p_match_id
+    AND match_type IN ('individual_to_team', 'team_to_individual')
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Join request not found';
+  END IF;
+
+  IF v_match.status != 'pending' THEN
+    RAISE EXCEPTION 'Join request is no longer pending';
+  END IF;
+
+  IF v_match.team_id IS NULL THEN
+    RAISE EXCEPTION 'Team no longer exists';
+  END IF;
+
+  IF v_match.match_type = 'individual_to_team' THEN
+    IF NOT public.is_team_admin(v_match.team_id, auth.uid()) THEN
+      RAISE EXCEPTION 'Unauthorized: Only team admins can respond to join requests';
+    END IF;
+
+    IF EXISTS (
+      SELECT 1 FROM public.teams
+      WHERE id = v_match.team_id AND join_vote_quorum IS NOT NULL
+    ) THEN
+      RAISE EXCEPTION 'This team decides join requests by vote';
+    END IF;
+  ELSIF v_match.target_user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Unauthorized: Only the invited person can respond';
+  END IF;
+
+  RETURN public.resolve_join_request(p_match_id, p_accept);
+END;
+$$;
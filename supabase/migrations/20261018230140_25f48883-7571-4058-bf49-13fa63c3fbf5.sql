@@ -0,0 +1,148 @@
+-- Atomic leave_team and delete_team
+-- Leaving or deleting a team used to be a series of client deletes; a
+-- failure half way left partial teams behind. Both now run in a single
+-- function call and leave an audit entry.
+
+-- 1. SHARED TEARDOWN
+-- =====================================================
+-- Removing a conversation cascades to its participants, messages and
+-- message_reads. Join request and merge threads hang off matches rather
+-- than the team, so they are removed explicitly before their matches.
+CREATE OR REPLACE FUNCTION public.disband_team(p_team_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  DELETE FROM public.conversations
+  WHERE team_id = p_team_id
+     OR match_id IN (
+       SELECT id FROM public.matches
+       WHERE team_id = p_team_id OR target_team_id = p_team_id
+     );
+
+  DELETE FROM public.matches
+  WHERE team_id = p_team_id OR target_team_id = p_team_id;
+
+  DELETE FROM public.team_members WHERE team_id = p_team_id;
+
+  DELETE FROM public.teams WHERE id = p_team_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.disband_team(uuid) FROM PUBLIC, anon, authenticated;
+
+-- 2. DELETE A TEAM
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.delete_team(p_team_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_team RECORD;
+BEGIN
+  SELECT * INTO v_team
+  FROM public.teams
+  WHERE id = p_team_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_team.created_by IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Unauthorized: Only the team owner can delete the team';
+  END IF;
+
+  INSERT INTO public.audit_logs (user_id, action, table_name, record_id, old_data, metadata)
+  VALUES (auth.uid(), 'team_deleted', 'teams', p_team_id,
+    jsonb_build_object('name', v_team.name),
+    jsonb_build_object('member_count', (
+      SELECT COUNT(*) FROM public.team_members
+      WHERE team_id = p_team_id AND status = 'confirmed'
+    )));
+
+  PERFORM public.disband_team(p_team_id);
+END;
+$$;
+
+-- 3. LEAVE A TEAM
+-- =====================================================
+-- The owner must transfer ownership first unless they are the last
+-- member, in which case leaving disbands the team.
+CREATE OR REPLACE FUNCTION public.leave_team(p_team_id uuid)
+RETURNS json
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_team RECORD;
+  v_others integer;
+BEGIN
+  SELECT * INTO v_team
+  FROM public.teams
+  WHERE id = p_team_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR NOT EXISTS (
+    SELECT 1 FROM public.team_members
+    WHERE team_id = p_team_id AND user_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'You are not a member of this team';
+  END IF;
+
+  SELECT COUNT(*) INTO v_others
+  FROM public.team_members
+  WHERE team_id = p_team_id
+    AND user_id <> auth.uid()
+    AND status = 'confirmed';
+
+  IF v_others = 0 THEN
+    INSERT INTO public.audit_logs (user_id, action, table_name, record_id, old_data)
+    VALUES (auth.uid(), 'team_disbanded', 'teams', p_team_id,
+      jsonb_build_object('name', v_team.name));
+
+    PERFORM public.disband_team(p_team_id);
+    RETURN json_build_object('left', true, 'disbanded', true);
+  END IF;
+
+  IF v_team.created_by = auth.uid() THEN
+    RAISE EXCEPTION 'Transfer ownership to another member before leaving';
+  END IF;
+
+  -- Open join request threads are updated by sync_join_request_participants
+  DELETE FROM public.team_members
+  WHERE team_id = p_team_id AND user_id = auth.uid();
+
+  DELETE FROM public.conversation_participants cp
+  USING public.conversations c
+  WHERE cp.conversation_id = c.id
+    AND c.team_id = p_team_id
+    AND c.type = 'team'
+    AND cp.user_id = auth.uid();
+
+  DELETE FROM public.message_reads mr
+  USING public.conversations c
+  WHERE mr.conversation_id = c.id
+    AND mr.user_id = auth.uid()
+    AND (c.team_id = p_team_id OR c.match_id IN (
+      SELECT id FROM public.matches WHERE team_id = p_team_id
+    ))
+    AND NOT EXISTS (
+      SELECT 1 FROM public.conversation_participants cp
+      WHERE cp.conversation_id = c.id AND cp.user_id = auth.uid()
+    );
+
+  UPDATE public.team_ownership_transfers
+  SET status = 'cancelled', responded_at = now()
+  WHERE team_id = p_team_id
+    AND to_user_id = auth.uid()
+    AND status = 'pending';
+
+  INSERT INTO public.audit_logs (user_id, action, table_name, record_id, old_data)
+  VALUES (auth.uid(), 'team_left', 'teams', p_team_id,
+    jsonb_build_object('name', v_team.name));
+
+  RETURN json_build_object('left', true, 'disbanded', false);
+END;
+$$;
@@ -0,0 +1,269 @@
+-- Team invite codes
+-- Admins create expiring, optionally usage-limited codes that are shared as
+-- /join/:code links. Redeeming one files a join request that the code
+-- pre-approves, so the student lands on the team straight away, as long as
+-- the team has room.
+
+-- 1. SCHEMA
+-- =====================================================
+-- NULL means no size limit
+ALTER TABLE public.teams
+  ADD COLUMN IF NOT EXISTS max_members integer
+  CHECK (max_members IS NULL OR max_members >= 2);
+
+CREATE TABLE public.team_invites (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  team_id uuid NOT NULL REFERENCES public.teams(id) ON DELETE CASCADE,
+  code text NOT NULL UNIQUE,
+  created_by uuid NOT NULL,
+  max_uses integer CHECK (max_uses IS NULL OR max_uses >= 1),
+  use_count integer NOT NULL DEFAULT 0,
+  expires_at timestamp with time zone NOT NULL,
+  revoked_at timestamp with time zone,
+  created_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_team_invites_team_id ON public.team_invites(team_id);
+
+ALTER TABLE public.team_invites ENABLE ROW LEVEL SECURITY;
+
+-- Codes are secrets; changes and lookups by code go through the functions below
+CREATE POLICY "Team admins can view invites"
+ON public.team_invites
+FOR SELECT
+USING (public.is_team_admin(team_id, auth.uid()));
+
+-- 2. VALIDATION
+-- =====================================================
+-- Why `p_user_id` can't use the invite right now, or NULL if they can
+CREATE OR REPLACE FUNCTION public.team_invite_refusal(
+  p_invite public.team_invites,
+  p_user_id uuid
+)
+RETURNS text
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_max_members integer;
+BEGIN
+  IF p_invite.revoked_at IS NOT NULL THEN
+    RETURN 'revoked';
+  END IF;
+
+  IF p_invite.expires_at <= now() THEN
+    RETURN 'expired';
+  END IF;
+
+  IF p_invite.max_uses IS NOT NULL AND p_invite.use_count >= p_invite.max_uses THEN
+    RETURN 'used_up';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.team_members
+    WHERE team_id = p_invite.team_id AND user_id = p_user_id AND status = 'confirmed'
+  ) THEN
+    RETURN 'already_member';
+  END IF;
+
+  SELECT max_members INTO v_max_members FROM public.teams WHERE id = p_invite.team_id;
+
+  IF v_max_members IS NOT NULL AND (
+    SELECT COUNT(*) FROM public.team_members
+    WHERE team_id = p_invite.team_id AND status = 'confirmed'
+  ) >= v_max_members THEN
+    RETURN 'full';
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.team_invite_refusal(public.team_invites, uuid) FROM PUBLIC, anon, authenticated;
+
+-- 3. CREATE AND REVOKE
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.create_team_invite(
+  p_team_id uuid,
+  p_expires_in_hours integer DEFAULT 72,
+  p_max_uses integer DEFAULT NULL
+)
+RETURNS json
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_invite public.team_invites;
+BEGIN
+  IF NOT public.is_team_admin(p_team_id, auth.uid()) THEN
+    RAISE EXCEPTION 'Unauthorized: Only team admins can create invites';
+  END IF;
+
+  IF p_expires_in_hours IS NULL OR p_expires_in_hours < 1 OR p_expires_in_hours > 24 * 30 THEN
+    RAISE EXCEPTION 'Invites must expire within 30 days';
+  END IF;
+
+  -- Retry on the rare code collision
+  LOOP
+    BEGIN
+      INSERT INTO public.team_invites (team_id, code, created_by, max_uses, expires_at)
+      VALUES (
+        p_team_id,
+        upper(substr(replace(gen_random_uuid()::text, '-', ''), 1, 8)),
+        auth.uid(),
+        p_max_uses,
+        now() + make_interval(hours => p_expires_in_hours)
+      )
+      RETURNING * INTO v_invite;
+      EXIT;
+    EXCEPTION WHEN unique_violation THEN
+      -- try another code
+    END;
+  END LOOP;
+
+  RETURN json_build_object(
+    'id', v_invite.id,
+    'code', v_invite.code,
+    'expires_at', v_invite.expires_at
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.revoke_team_invite(p_invite_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.team_invites
+  SET revoked_at = now()
+  WHERE id = p_invite_id
+    AND revoked_at IS NULL
+    AND public.is_team_admin(team_id, auth.uid());
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invite not found';
+  END IF;
+END;
+$$;
+
+-- 4. PREVIEW AND REDEEM
+-- =====================================================
+-- What the /join page shows before the student commits
+CREATE OR REPLACE FUNCTION public.get_team_invite(p_code text)
+RETURNS json
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_invite public.team_invites;
+  v_team RECORD;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_invite FROM public.team_invites WHERE code = upper(trim(p_code));
+
+  IF NOT FOUND THEN
+    RETURN json_build_object('valid', false, 'reason', 'not_found');
+  END IF;
+
+  SELECT t.id, t.name, t.description, t.studio, t.max_members,
+    (SELECT COUNT(*) FROM public.team_members tm
+     WHERE tm.team_id = t.id AND tm.status = 'confirmed') AS member_count
+  INTO v_team
+  FROM public.teams t
+  WHERE t.id = v_invite.team_id;
+
+  RETURN json_build_object(
+    'valid', public.team_invite_refusal(v_invite, auth.uid()) IS NULL,
+    'reason', public.team_invite_refusal(v_invite, auth.uid()),
+    'expires_at', v_invite.expires_at,
+    'team', row_to_json(v_team)
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.redeem_team_invite(p_code text)
+RETURNS json
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_invite public.team_invites;
+  v_owner uuid;
+  v_reason text;
+  v_match_id uuid;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_invite
+  FROM public.team_invites
+  WHERE code = upper(trim(p_code))
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN json_build_object('joined', false, 'reason', 'not_found');
+  END IF;
+
+  -- Serialise joins so concurrent redemptions can't overfill the team
+  SELECT created_by INTO v_owner
+  FROM public.teams
+  WHERE id = v_invite.team_id
+  FOR UPDATE;
+
+  v_reason := public.team_invite_refusal(v_invite, auth.uid());
+  IF v_reason IS NOT NULL THEN
+    RETURN json_build_object('joined', false, 'reason', v_reason, 'team_id', v_invite.team_id);
+  END IF;
+
+  -- Reuse an open request between the student and the team, if any
+  SELECT id INTO v_match_id
+  FROM public.matches
+  WHERE team_id = v_invite.team_id
+    AND status = 'pending'
+    AND (
+      (match_type = 'individual_to_team' AND user_id = auth.uid())
+      OR (match_type = 'team_to_individual' AND target_user_id = auth.uid())
+    )
+  LIMIT 1
+  FOR UPDATE;
+
+  IF v_match_id IS NULL THEN
+    INSERT INTO public.matches (user_id, target_user_id, match_type, team_id, status)
+    VALUES (auth.uid(), v_owner, 'individual_to_team', v_invite.team_id, 'pending')
+    RETURNING id INTO v_match_id;
+
+    INSERT INTO public.conversations (type, match_id, team_id)
+    VALUES ('match', v_match_id, v_invite.team_id);
+
+    INSERT INTO public.conversation_participants (conversation_id, user_id)
+    SELECT c.id, auth.uid()
+    FROM public.conversations c
+    WHERE c.match_id = v_match_id
+    ON CONFLICT (conversation_id, user_id) DO NOTHING;
+  END IF;
+
+  PERFORM public.resolve_join_request(v_match_id, true);
+
+  UPDATE public.team_invites
+  SET use_count = use_count + 1
+  WHERE id = v_invite.id;
+
+  INSERT INTO public.audit_logs (user_id, action, table_name, record_id, metadata)
+  VALUES (auth.uid(), 'team_invite_redeemed', 'teams', v_invite.team_id,
+    jsonb_build_object('invite_id', v_invite.id));
+
+  RETURN json_build_object('joined', true, 'team_id', v_invite.team_id);
+END;
+$$;
@@ -0,0 +1,293 @@
+-- Team application questions
+-- Admins attach up to five short questions to their team. Asking to join
+-- a team means answering them; the answers are stored on the join request
+-- as [{"question": ..., "answer": ...}] so later edits to the questions
+-- don't change what an applicant was asked.
+
+-- 1. SCHEMA
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.valid_application_questions(p_questions jsonb)
+RETURNS boolean
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT jsonb_typeof(p_questions) = 'array'
+    AND jsonb_array_length(p_questions) <= 5
+    AND NOT EXISTS (
+      SELECT 1 FROM jsonb_array_elements(p_questions) q
+      WHERE jsonb_typeof(q) != 'string'
+         OR length(trim(q #>> '{}')) NOT BETWEEN 1 AND 120
+    );
+$$;
+
+CREATE OR REPLACE FUNCTION public.valid_application_answers(p_answers jsonb)
+RETURNS boolean
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT jsonb_typeof(p_answers) = 'array'
+    AND jsonb_array_length(p_answers) <= 5
+    AND NOT EXISTS (
+      SELECT 1 FROM jsonb_array_elements(p_answers) a
+      WHERE jsonb_typeof(a->'question') IS DISTINCT FROM 'string'
+         OR jsonb_typeof(a->'answer') IS DISTINCT FROM 'string'
+         OR length(a->>'question') > 120
+         OR length(a->>'answer') > 500
+    );
+$$;
+
+ALTER TABLE public.teams
+  ADD COLUMN IF NOT EXISTS application_questions jsonb NOT NULL DEFAULT '[]'::jsonb;
+
+ALTER TABLE public.teams ADD CONSTRAINT teams_application_questions_check
+CHECK (public.valid_application_questions(application_questions));
+
+ALTER TABLE public.matches ADD COLUMN IF NOT EXISTS application_answers jsonb;
+
+ALTER TABLE public.matches ADD CONSTRAINT matches_application_answers_check
+CHECK (application_answers IS NULL OR public.valid_application_answers(application_answers));
+
+-- 2. ANSWERS ON JOIN REQUESTS
+-- =====================================================
+DROP FUNCTION IF EXISTS public.create_match_with_conversation(uuid, uuid, text, uuid, text);
+
+CREATE OR REPLACE FUNCTION public.create_match_with_conversation(
+  p_user_id uuid,
+  p_target_user_id uuid,
+  p_match_type text,
+  p_team_id uuid DEFAULT NULL,
+  p_conversation_type text DEFAULT 'match',
+  p_application_answers jsonb DEFAULT NULL
+)
+RETURNS json
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_match_id uuid;
+  v_conversation_id uuid;
+  v_reciprocal_id uuid;
+  v_passed_id uuid;
+  v_is_team_member boolean;
+BEGIN
+  -- CRITICAL: Authorization check - user must be creating a match for themselves
+  IF auth.uid() != p_user_id THEN
+    -- For team matches, verify the caller is a confirmed team member
+    IF p_team_id IS NULL THEN
+      RAISE EXCEPTION 'Unauthorized: Can only create matches for yourself';
+    END IF;
+
+    -- Check team membership
+    SELECT EXISTS(
+      SELECT 1 FROM public.team_members tm
+      WHERE tm.team_id = p_team_id
+        AND tm.user_id = auth.uid()
+        AND tm.status = 'confirmed'
+    ) INTO v_is_team_member;
+
+    IF NOT v_is_team_member THEN
+      RAISE EXCEPTION 'Unauthorized: Not a confirmed team member';
+    END IF;
+  END IF;
+
+  -- Validate match_type is one of allowed values
+  IF p_match_type NOT IN ('individual_to_individual', 'team_to_individual',
+                          'individual_to_team', 'team_to_team', 'individual') THEN
+    RAISE EXCEPTION 'Invalid match_type: %', p_match_type;
+  END IF;
+
+  -- Validate conversation_type
+  IF p_conversation_type NOT IN ('match', 'team', 'direct') THEN
+    RAISE EXCEPTION 'Invalid conversation_type: %', p_conversation_type;
+  END IF;
+
+  -- Answers only accompany a request to join a team
+  IF p_application_answers IS NOT NULL THEN
+    IF p_match_type != 'individual_to_team' THEN
+      RAISE EXCEPTION 'Application answers are only allowed on join requests';
+    END IF;
+
+    IF NOT public.valid_application_answers(p_application_answers) THEN
+      RAISE EXCEPTION 'Invalid application answers';
+    END IF;
+  END IF;
+
+  -- Prevent self-matching
+  IF p_user_id = p_target_user_id THEN
+    RAISE EXCEPTION 'Cannot create a match with yourself';
+  END IF;
+
+  IF p_match_type = 'individual_to_individual' THEN
+    -- Serialize likes between the same pair so two simultaneous swipes
+    -- can't both miss each other and end up as two pending rows
+    PERFORM pg_advisory_xact_lock(
+      hashtext(LEAST(p_user_id, p_target_user_id)::text || GREATEST(p_user_id, p_target_user_id)::text)
+    );
+
+    SELECT id INTO v_reciprocal_id
+    FROM public.matches
+    WHERE user_id = p_target_user_id
+      AND target_user_id = p_user_id
+      AND match_type = 'individual_to_individual'
+      AND status IN ('pending', 'matched')
+    FOR UPDATE;
+  END IF;
+
+  -- A like from the second-look deck converts the earlier pass
+  IF p_match_type IN ('individual_to_individual', 'team_to_individual') THEN
+    SELECT id INTO v_passed_id
+    FROM public.matches
+    WHERE user_id = p_user_id
+      AND target_user_id = p_target_user_id
+      AND match_type IN ('individual_to_individual', 'team_to_individual')
+      AND status = 'rejected'
+    ORDER BY created_at DESC
+    LIMIT 1
+    FOR UPDATE;
+  END IF;
+
+  IF v_reciprocal_id IS NOT NULL THEN
+    -- Mutual like: record ours as matched and flip theirs
+    IF v_passed_id IS NOT NULL THEN
+      UPDATE public.matches
+      SET match_type = p_match_type, team_id = p_team_id, status = 'matched', target_snapshot = NULL
+      WHERE id = v_passed_id
+      RETURNING id INTO v_match_id;
+    ELSE
+      INSERT INTO public.matches (user_id, target_user_id, match_type, team_id, status)
+      VALUES (p_user_id, p_target_user_id, p_match_type, p_team_id, 'matched')
+      RETURNING id INTO v_match_id;
+    END IF;
+
+    UPDATE public.matches
+    SET status = 'matched'
+    WHERE id = v_reciprocal_id;
+
+    -- Reuse the conversation created by the first like
+    SELECT id INTO v_conversation_id
+    FROM public.conversations
+    WHERE match_id = v_reciprocal_id
+    ORDER BY created_at
+    LIMIT 1;
+
+    IF v_conversation_id IS NULL THEN
+      INSERT INTO public.conversations (type, match_id, team_id)
+      VALUES (p_conversation_type, v_reciprocal_id, p_team_id)
+      RETURNING id INTO v_conversation_id;
+    END IF;
+
+    INSERT INTO public.conversation_participants (conversation_id, user_id)
+    VALUES
+      (v_conversation_id, p_user_id),
+      (v_conversation_id, p_target_user_id)
+    ON CONFLICT (conversation_id, user_id) DO NOTHING;
+
+    RETURN json_build_object(
+      'match_id', v_match_id,
+      'conversation_id', v_conversation_id,
+      'is_mutual', true
+    );
+  END IF;
+
+  -- Create match
+  IF v_passed_id IS NOT NULL THEN
+    UPDATE public.matches
+    SET match_type = p_match_type, team_id = p_team_id, status = 'pending', target_snapshot = NULL
+    WHERE id = v_passed_id
+    RETURNING id INTO v_match_id;
+  ELSE
+    INSERT INTO public.matches (user_id, target_user_id, match_type, team_id, status, application_answers)
+    VALUES (p_user_id, p_target_user_id, p_match_type, p_team_id, 'pending', p_application_answers)
+    RETURNING id INTO v_match_id;
+  END IF;
+
+  -- Create conversation
+  INSERT INTO public.conversations (type, match_id, team_id)
+  VALUES (p_conversation_type, v_match_id, p_team_id)
+  RETURNING id INTO v_conversation_id;
+
+  -- Add participants
+  INSERT INTO public.conversation_participants (conversation_id, user_id)
+  VALUES
+    (v_conversation_id, p_user_id),
+    (v_conversation_id, p_target_user_id);
+
+  RETURN json_build_object(
+    'match_id', v_match_id,
+    'conversation_id', v_conversation_id,
+    'is_mutual', false
+  );
+END;
+$$;
+
+-- 3. QUESTIONS ON TEAM CREATION
+-- =====================================================
+DROP FUNCTION IF EXISTS public.create_team_with_owner(text, text, text, text, text[], uuid, jsonb);
+
+CREATE OR REPLACE FUNCTION public.create_team_with_owner(
+  p_name text,
+  p_description text,
+  p_studio text,
+  p_looking_for text,
+  p_skills_needed text[],
+  p_user_id uuid,
+  p_program_needs jsonb DEFAULT '{}'::jsonb,
+  p_application_questions jsonb DEFAULT '[]'::jsonb
+)
+RETURNS json
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_team_id uuid;
+  v_conversation_id uuid;
+BEGIN
+  -- CRITICAL: Authorization check - user must be creating a team for themselves
+  IF auth.uid() != p_user_id THEN
+    RAISE EXCEPTION 'Unauthorized: Can only create teams for yourself';
+  END IF;
+  
+  -- Validate required fields
+  IF p_name IS NULL OR length(trim(p_name)) = 0 THEN
+    RAISE EXCEPTION 'Team name is required';
+  END IF;
+  
+  IF p_studio IS NULL OR length(trim(p_studio)) = 0 THEN
+    RAISE EXCEPTION 'Studio is required';
+  END IF;
+  
+  -- Validate name length
+  IF length(p_name) > 100 THEN
+    RAISE EXCEPTION 'Team name must be 100 characters or less';
+  END IF;
+
+  -- Create team
+  INSERT INTO public.teams (name, description, studio, looking_for, skills_needed, program_needs,
+                            application_questions, created_by)
+  VALUES (trim(p_name), p_description, trim(p_studio), p_looking_for, p_skills_needed,
+          COALESCE(p_program_needs, '{}'::jsonb), COALESCE(p_application_questions, '[]'::jsonb), p_user_id)
+  RETURNING id INTO v_team_id;
+
+  -- Add owner as member
+  INSERT INTO public.team_members (team_id, user_id, role, status)
+  VALUES (v_team_id, p_user_id, 'owner', 'confirmed');
+
+  -- Create team conversation
+  INSERT INTO public.conversations (type, team_id)
+  VALUES ('team', v_team_id)
+  RETURNING id INTO v_conversation_id;
+
+  -- Add owner to conversation
+  INSERT INTO public.conversation_participants (conversation_id, user_id)
+  VALUES (v_conversation_id, p_user_id);
+
+  RETURN json_build_object(
+    'team_id', v_team_id,
+    'conversation_id', v_conversation_id
+  );
+END;
+$$;
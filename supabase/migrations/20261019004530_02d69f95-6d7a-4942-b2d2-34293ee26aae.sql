@@ -0,0 +1,187 @@
+-- Outgoing requests and withdrawing them
+-- Lists the interest a student or their team has sent, with its status.
+-- A pending request can be withdrawn: its conversation goes away, the row
+-- is kept as 'withdrawn' and the other side gets a notification.
+
+-- 1. MATCH STATUSES AND RESPONSE TIME
+-- =====================================================
+ALTER TABLE public.matches DROP CONSTRAINT IF EXISTS matches_status_check;
+ALTER TABLE public.matches ADD CONSTRAINT matches_status_check
+CHECK (status IN ('pending', 'matched', 'accepted', 'rejected', 'withdrawn'));
+
+-- Set when a pending request is answered. Passes are inserted as
+-- 'rejected' without ever being pending, so they never get one.
+ALTER TABLE public.matches ADD COLUMN IF NOT EXISTS responded_at timestamp with time zone;
+
+UPDATE public.matches m
+SET responded_at = m.updated_at
+WHERE m.status IN ('matched', 'accepted')
+   OR (m.status = 'rejected' AND EXISTS (
+     SELECT 1 FROM public.conversations c WHERE c.match_id = m.id
+   ));
+
+CREATE OR REPLACE FUNCTION public.stamp_match_response()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'pending' THEN
+    NEW.responded_at := NULL;
+  ELSIF OLD.status = 'pending' AND NEW.status IN ('matched', 'accepted', 'rejected') THEN
+    NEW.responded_at := now();
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER stamp_match_response
+BEFORE UPDATE OF status ON public.matches
+FOR EACH ROW EXECUTE FUNCTION public.stamp_match_response();
+
+-- 2. NOTIFICATIONS
+-- =====================================================
+CREATE TABLE public.notifications (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id uuid NOT NULL,
+  type text NOT NULL,
+  title text NOT NULL,
+  body text,
+  data jsonb NOT NULL DEFAULT '{}'::jsonb,
+  read_at timestamp with time zone,
+  created_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_notifications_user_unread
+  ON public.notifications (user_id, created_at)
+  WHERE read_at IS NULL;
+
+ALTER TABLE public.notifications ENABLE ROW LEVEL SECURITY;
+
+-- Notifications are written by database functions only
+CREATE POLICY "Users can view their own notifications"
+ON public.notifications
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can mark their own notifications read"
+ON public.notifications
+FOR UPDATE
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.notifications;
+
+-- 3. OUTGOING REQUESTS
+-- =====================================================
+-- Requests the caller sent, or their team sent, newest first
+CREATE OR REPLACE FUNCTION public.get_outgoing_requests()
+RETURNS json
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(json_agg(r ORDER BY r.created_at DESC), '[]'::json)
+  FROM (
+    SELECT
+      m.id,
+      m.match_type,
+      m.status,
+      m.created_at,
+      m.responded_at,
+      CASE WHEN m.match_type IN ('team_to_individual', 'team_to_team') THEN st.name END AS sender_team_name,
+      CASE m.match_type
+        WHEN 'individual_to_team' THEN st.name
+        WHEN 'team_to_team' THEN tt.name
+        ELSE p.name
+      END AS target_name,
+      CASE WHEN m.match_type IN ('individual_to_individual', 'team_to_individual') THEN p.avatar END AS target_avatar
+    FROM public.matches m
+    LEFT JOIN public.profiles p ON p.user_id = m.target_user_id
+    LEFT JOIN public.teams st ON st.id = m.team_id
+    LEFT JOIN public.teams tt ON tt.id = m.target_team_id
+    WHERE m.status <> 'withdrawn'
+      AND (m.status <> 'rejected' OR m.responded_at IS NOT NULL)
+      AND (
+        (m.match_type IN ('individual_to_individual', 'individual_to_team') AND m.user_id = auth.uid())
+        OR (m.match_type IN ('team_to_individual', 'team_to_team') AND EXISTS (
+          SELECT 1 FROM public.team_members tm
+          WHERE tm.team_id = m.team_id
+            AND tm.user_id = auth.uid()
+            AND tm.status = 'confirmed'
+        ))
+      )
+  ) r;
+$$;
+
+-- 4. WITHDRAW
+-- =====================================================
+-- Individuals withdraw their own requests; a team's request can be
+-- withdrawn by whoever sent it or by a team admin
+CREATE OR REPLACE FUNCTION public.withdraw_request(p_match_id uuid)
+RETURNS json
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_match RECORD;
+  v_is_team_request boolean;
+  v_sender_name text;
+  v_recipients uuid[];
+BEGIN
+  SELECT * INTO v_match
+  FROM public.matches
+  WHERE id = p_match_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Request not found';
+  END IF;
+
+  v_is_team_request := v_match.match_type IN ('team_to_individual', 'team_to_team');
+
+  IF v_match.user_id IS DISTINCT FROM auth.uid()
+     AND NOT (v_is_team_request AND public.is_team_admin(v_match.team_id, auth.uid())) THEN
+    RAISE EXCEPTION 'Unauthorized: Only the sender can withdraw this request';
+  END IF;
+
+  IF v_match.status <> 'pending' THEN
+    RETURN json_build_object('withdrawn', false, 'reason', 'not_pending');
+  END IF;
+
+  -- Participants, messages and read receipts cascade with the conversation
+  DELETE FROM public.conversations WHERE match_id = p_match_id;
+  DELETE FROM public.join_request_votes WHERE match_id = p_match_id;
+  UPDATE public.matches SET status = 'withdrawn' WHERE id = p_match_id;
+
+  IF v_is_team_request THEN
+    SELECT name INTO v_sender_name FROM public.teams WHERE id = v_match.team_id;
+  ELSE
+    SELECT name INTO v_sender_name FROM public.profiles WHERE user_id = v_match.user_id;
+  END IF;
+
+  -- Team-side recipients are the admins who would have answered
+  IF v_match.match_type IN ('individual_to_team', 'team_to_team') THEN
+    SELECT array_agg(tm.user_id) INTO v_recipients
+    FROM public.team_members tm
+    WHERE tm.team_id = CASE WHEN v_match.match_type = 'team_to_team'
+                            THEN v_match.target_team_id ELSE v_match.team_id END
+      AND tm.status = 'confirmed'
+      AND tm.role IN ('owner', 'admin');
+  ELSE
+    v_recipients := ARRAY[v_match.target_user_id];
+  END IF;
+
+  INSERT INTO public.notifications (user_id, type, title, body, data)
+  SELECT r, 'request_withdrawn', 'Request withdrawn',
+    format('%s withdrew their request', COALESCE(v_sender_name, 'Someone')),
+    jsonb_build_object('match_id', p_match_id)
+  FROM unnest(COALESCE(v_recipients, '{}'::uuid[])) AS r
+  WHERE r IS DISTINCT FROM auth.uid();
+
+  RETURN json_build_object('withdrawn', true);
+END;
+$$;
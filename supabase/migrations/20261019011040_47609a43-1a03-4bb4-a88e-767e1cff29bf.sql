@@ -0,0 +1,274 @@
+-- Expiry and reminders for pending requests
+-- Pending requests get an expires_at from a configurable lifetime. A
+-- pg_cron job runs process_request_expiry every 15 minutes: both sides get
+-- a reminder at each configured number of hours before expiry, and once
+-- the deadline passes the request moves to 'expired'.
+--
+-- To try it against the local stack without waiting, pretend it's later:
+--   SELECT public.process_request_expiry(now() + interval '5 days');
+
+-- 1. SETTINGS
+-- =====================================================
+-- Single row; admins edit it from the dashboard
+CREATE TABLE public.request_expiry_settings (
+  id boolean NOT NULL DEFAULT true PRIMARY KEY CHECK (id),
+  expire_after_days integer NOT NULL DEFAULT 5 CHECK (expire_after_days BETWEEN 1 AND 60),
+  reminder_hours integer[] NOT NULL DEFAULT '{48,24}'
+    CHECK (cardinality(reminder_hours) <= 5 AND 0 < ALL (reminder_hours)),
+  updated_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+INSERT INTO public.request_expiry_settings DEFAULT VALUES;
+
+ALTER TABLE public.request_expiry_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone signed in can view request expiry settings"
+ON public.request_expiry_settings
+FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Admins can update request expiry settings"
+ON public.request_expiry_settings
+FOR UPDATE
+USING (public.has_role(auth.uid(), 'admin'))
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+-- 2. SCHEMA
+-- =====================================================
+ALTER TABLE public.matches DROP CONSTRAINT IF EXISTS matches_status_check;
+ALTER TABLE public.matches ADD CONSTRAINT matches_status_check
+CHECK (status IN ('pending', 'matched', 'accepted', 'rejected', 'withdrawn', 'expired'));
+
+ALTER TABLE public.matches
+  ADD COLUMN IF NOT EXISTS expires_at timestamp with time zone,
+  -- Smallest reminder threshold already sent for the current pending period
+  ADD COLUMN IF NOT EXISTS reminded_hours_before integer;
+
+CREATE INDEX IF NOT EXISTS idx_matches_pending_expiry
+  ON public.matches (expires_at)
+  WHERE status = 'pending';
+
+-- Existing requests get at least a day's grace so their reminders still go out
+UPDATE public.matches
+SET expires_at = GREATEST(created_at + interval '5 days', now() + interval '1 day')
+WHERE status = 'pending';
+
+-- Every time a request becomes pending, its clock starts again
+CREATE OR REPLACE FUNCTION public.set_match_expiry()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'pending' AND (TG_OP = 'INSERT' OR OLD.status <> 'pending') THEN
+    NEW.expires_at := now() + make_interval(days => COALESCE(
+      (SELECT expire_after_days FROM public.request_expiry_settings), 5
+    ));
+    NEW.reminded_hours_before := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_match_expiry
+BEFORE INSERT OR UPDATE OF status ON public.matches
+FOR EACH ROW EXECUTE FUNCTION public.set_match_expiry();
+
+-- 3. WHO IS ON EACH SIDE
+-- =====================================================
+-- Display name and the users to notify for the sending or receiving side.
+-- Team sides are represented by their owner and admins.
+CREATE OR REPLACE FUNCTION public.request_party(p_match public.matches, p_sender boolean)
+RETURNS TABLE (name text, user_ids uuid[])
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_team_id uuid;
+  v_user_id uuid;
+BEGIN
+  IF p_sender THEN
+    IF p_match.match_type IN ('team_to_individual', 'team_to_team') THEN
+      v_team_id := p_match.team_id;
+    ELSE
+      v_user_id := p_match.user_id;
+    END IF;
+  ELSE
+    IF p_match.match_type = 'individual_to_team' THEN
+      v_team_id := p_match.team_id;
+    ELSIF p_match.match_type = 'team_to_team' THEN
+      v_team_id := p_match.target_team_id;
+    ELSE
+      v_user_id := p_match.target_user_id;
+    END IF;
+  END IF;
+
+  IF v_team_id IS NOT NULL THEN
+    RETURN QUERY
+    SELECT t.name, ARRAY(
+      SELECT tm.user_id FROM public.team_members tm
+      WHERE tm.team_id = t.id
+        AND tm.status = 'confirmed'
+        AND tm.role IN ('owner', 'admin')
+    )
+    FROM public.teams t
+    WHERE t.id = v_team_id;
+  ELSE
+    RETURN QUERY
+    SELECT COALESCE(p.name, 'Someone'), ARRAY[v_user_id]
+    FROM (SELECT 1) AS one
+    LEFT JOIN public.profiles p ON p.user_id = v_user_id;
+  END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.request_party(public.matches, boolean) FROM PUBLIC, anon, authenticated;
+
+-- 4. THE JOB
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.process_request_expiry(p_now timestamp with time zone DEFAULT now())
+RETURNS json
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_settings public.request_expiry_settings;
+  v_match public.matches;
+  v_sender RECORD;
+  v_recipient RECORD;
+  v_hours integer;
+  v_time_left text;
+  v_expired integer := 0;
+  v_reminded integer := 0;
+BEGIN
+  SELECT * INTO v_settings FROM public.request_expiry_settings;
+
+  FOR v_match IN
+    UPDATE public.matches
+    SET status = 'expired'
+    WHERE status = 'pending'
+      AND expires_at <= p_now
+    RETURNING *
+  LOOP
+    SELECT * INTO v_sender FROM public.request_party(v_match, true);
+    SELECT * INTO v_recipient FROM public.request_party(v_match, false);
+
+    INSERT INTO public.notifications (user_id, type, title, body, data)
+    SELECT u, 'request_expired', 'Request expired',
+      format('Your request to %s expired without an answer', v_recipient.name),
+      jsonb_build_object('match_id', v_match.id)
+    FROM unnest(v_sender.user_ids) AS u
+    UNION ALL
+    SELECT u, 'request_expired', 'Request expired',
+      format('The request from %s expired before anyone answered', v_sender.name),
+      jsonb_build_object('match_id', v_match.id)
+    FROM unnest(v_recipient.user_ids) AS u;
+
+    v_expired := v_expired + 1;
+  END LOOP;
+
+  IF cardinality(v_settings.reminder_hours) > 0 THEN
+    FOR v_match IN
+      SELECT * FROM public.matches
+      WHERE status = 'pending'
+        AND expires_at > p_now
+        AND expires_at <= p_now + make_interval(hours => (SELECT max(h) FROM unnest(v_settings.reminder_hours) h))
+      FOR UPDATE SKIP LOCKED
+    LOOP
+      -- The closest threshold that is due; earlier ones missed while the
+      -- job wasn't running are skipped rather than sent all at once
+      SELECT min(h) INTO v_hours
+      FROM unnest(v_settings.reminder_hours) h
+      WHERE v_match.expires_at <= p_now + make_interval(hours => h);
+
+      CONTINUE WHEN v_match.reminded_hours_before IS NOT NULL
+        AND v_match.reminded_hours_before <= v_hours;
+
+      UPDATE public.matches SET reminded_hours_before = v_hours WHERE id = v_match.id;
+
+      v_time_left := CASE
+        WHEN v_hours % 24 = 0 AND v_hours > 24 THEN format('%s days', v_hours / 24)
+        WHEN v_hours = 24 THEN '1 day'
+        WHEN v_hours = 1 THEN '1 hour'
+        ELSE format('%s hours', v_hours)
+      END;
+
+      SELECT * INTO v_sender FROM public.request_party(v_match, true);
+      SELECT * INTO v_recipient FROM public.request_party(v_match, false);
+
+      INSERT INTO public.notifications (user_id, type, title, body, data)
+      SELECT u, 'request_reminder', 'Request expiring soon',
+        format('Your request to %s expires in %s', v_recipient.name, v_time_left),
+        jsonb_build_object('match_id', v_match.id)
+      FROM unnest(v_sender.user_ids) AS u
+      UNION ALL
+      SELECT u, 'request_reminder', 'Request waiting for you',
+        format('%s is waiting for an answer. The request expires in %s', v_sender.name, v_time_left),
+        jsonb_build_object('match_id', v_match.id)
+      FROM unnest(v_recipient.user_ids) AS u;
+
+      v_reminded := v_reminded + 1;
+    END LOOP;
+  END IF;
+
+  RETURN json_build_object('expired', v_expired, 'reminded', v_reminded);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.process_request_expiry(timestamp with time zone) FROM PUBLIC, anon, authenticated;
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule(
+  'process-request-expiry',
+  '*/15 * * * *',
+  $cron$SELECT public.process_request_expiry()$cron$
+);
+
+-- 5. SHOW DEADLINES ON OUTGOING REQUESTS
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.get_outgoing_requests()
+RETURNS json
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(json_agg(r ORDER BY r.created_at DESC), '[]'::json)
+  FROM (
+    SELECT
+      m.id,
+      m.match_type,
+      m.status,
+      m.created_at,
+      m.responded_at,
+      m.expires_at,
+      CASE WHEN m.match_type IN ('team_to_individual', 'team_to_team') THEN st.name END AS sender_team_name,
+      CASE m.match_type
+        WHEN 'individual_to_team' THEN st.name
+        WHEN 'team_to_team' THEN tt.name
+        ELSE p.name
+      END AS target_name,
+      CASE WHEN m.match_type IN ('individual_to_individual', 'team_to_individual') THEN p.avatar END AS target_avatar
+    FROM public.matches m
+    LEFT JOIN public.profiles p ON p.user_id = m.target_user_id
+    LEFT JOIN public.teams st ON st.id = m.team_id
+    LEFT JOIN public.teams tt ON tt.id = m.target_team_id
+    WHERE m.status <> 'withdrawn'
+      AND (m.status <> 'rejected' OR m.responded_at IS NOT NULL)
+      AND (
+        (m.match_type IN ('individual_to_individual', 'individual_to_team') AND m.user_id = auth.uid())
+        OR (m.match_type IN ('team_to_individual', 'team_to_team') AND EXISTS (
+          SELECT 1 FROM public.team_members tm
+          WHERE tm.team_id = m.team_id
+            AND tm.user_id = auth.uid()
+            AND tm.status = 'confirmed'
+        ))
+      )
+  ) r;
+$$;
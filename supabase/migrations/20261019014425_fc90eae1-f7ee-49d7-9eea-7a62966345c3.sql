@@ -0,0 +1,347 @@
+-- Team recruiting status
+-- Owners mark a team open or paused. A team that reaches its size limit is
+-- marked full automatically (and reopens when a spot frees up); pending
+-- applications to it are closed with a note to the applicant, and
+-- invitations it sent are withdrawn. Only open teams appear in the deck.
+
+-- 1. SCHEMA
+-- =====================================================
+ALTER TABLE public.teams
+  ADD COLUMN IF NOT EXISTS recruiting_status text NOT NULL DEFAULT 'open'
+  CHECK (recruiting_status IN ('open', 'paused', 'full'));
+
+CREATE OR REPLACE FUNCTION public.team_at_capacity(p_team_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE((
+    SELECT t.max_members IS NOT NULL AND (
+      SELECT count(*) FROM public.team_members tm
+      WHERE tm.team_id = t.id AND tm.status = 'confirmed'
+    ) >= t.max_members
+    FROM public.teams t
+    WHERE t.id = p_team_id
+  ), false)
+$$;
+
+-- 2. ONLY THE OWNER PICKS OPEN OR PAUSED
+-- =====================================================
+-- 'full' is derived from the size limit, so clients can't set it; the
+-- sync below runs as the function owner rather than as a client role
+CREATE OR REPLACE FUNCTION public.protect_recruiting_status()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.recruiting_status IS DISTINCT FROM OLD.recruiting_status
+     AND current_user IN ('anon', 'authenticated') THEN
+    IF NOT public.is_team_owner(NEW.id, auth.uid()) THEN
+      RAISE EXCEPTION 'Unauthorized: Only the team owner can change recruiting status';
+    END IF;
+
+    IF NEW.recruiting_status = 'full' THEN
+      RAISE EXCEPTION 'Teams are marked full automatically when they reach their size limit';
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_recruiting_status
+  BEFORE UPDATE OF recruiting_status ON public.teams
+  FOR EACH ROW EXECUTE FUNCTION public.protect_recruiting_status();
+
+-- 3. CLOSE REQUESTS A FULL TEAM CAN'T TAKE
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.close_requests_for_full_team(p_team_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_team_name text;
+  v_match RECORD;
+BEGIN
+  SELECT name INTO v_team_name FROM public.teams WHERE id = p_team_id;
+
+  -- Applications read as declined to the applicant, with an explanation
+  FOR v_match IN
+    UPDATE public.matches
+    SET status = 'rejected'
+    WHERE team_id = p_team_id
+      AND match_type = 'individual_to_team'
+      AND status = 'pending'
+    RETURNING id, user_id
+  LOOP
+    DELETE FROM public.join_request_votes WHERE match_id = v_match.id;
+
+    INSERT INTO public.notifications (user_id, type, title, body, data)
+    VALUES (
+      v_match.user_id,
+      'request_closed',
+      format('%s is now full', v_team_name),
+      format('Thanks for your interest in %s. The team has filled all its spots, so your request has been closed. Good luck finding your team!', v_team_name),
+      jsonb_build_object('match_id', v_match.id, 'team_id', p_team_id)
+    );
+  END LOOP;
+
+  -- Invitations the team can no longer honour
+  FOR v_match IN
+    UPDATE public.matches
+    SET status = 'withdrawn'
+    WHERE team_id = p_team_id
+      AND match_type = 'team_to_individual'
+      AND status = 'pending'
+    RETURNING id, target_user_id
+  LOOP
+    DELETE FROM public.conversations WHERE match_id = v_match.id;
+
+    INSERT INTO public.notifications (user_id, type, title, body, data)
+    VALUES (
+      v_match.target_user_id,
+      'request_closed',
+      format('%s is now full', v_team_name),
+      format('%s has filled all its spots, so their invitation has been withdrawn. Thanks for considering them!', v_team_name),
+      jsonb_build_object('match_id', v_match.id, 'team_id', p_team_id)
+    );
+  END LOOP;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.close_requests_for_full_team(uuid) FROM PUBLIC, anon, authenticated;
+
+-- 4. KEEP 'full' IN STEP WITH THE SIZE LIMIT
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.sync_team_recruiting_status(p_team_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_status text;
+  v_at_capacity boolean;
+BEGIN
+  SELECT recruiting_status INTO v_status
+  FROM public.teams
+  WHERE id = p_team_id
+  FOR UPDATE;
+
+  -- The team is being deleted
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  v_at_capacity := public.team_at_capacity(p_team_id);
+
+  IF v_at_capacity AND v_status <> 'full' THEN
+    UPDATE public.teams SET recruiting_status = 'full' WHERE id = p_team_id;
+    PERFORM public.close_requests_for_full_team(p_team_id);
+  ELSIF NOT v_at_capacity AND v_status = 'full' THEN
+    UPDATE public.teams SET recruiting_status = 'open' WHERE id = p_team_id;
+  END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.sync_team_recruiting_status(uuid) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.sync_recruiting_status_from_members()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.sync_team_recruiting_status(COALESCE(NEW.team_id, OLD.team_id));
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER sync_recruiting_status_from_members
+  AFTER INSERT OR UPDATE OF status OR DELETE ON public.team_members
+  FOR EACH ROW EXECUTE FUNCTION public.sync_recruiting_status_from_members();
+
+-- Changing the limit, or an owner reopening a team that is at its limit
+CREATE OR REPLACE FUNCTION public.sync_recruiting_status_from_team()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.sync_team_recruiting_status(NEW.id);
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER sync_recruiting_status_from_team
+  AFTER UPDATE OF max_members, recruiting_status ON public.teams
+  FOR EACH ROW
+  WHEN (OLD.max_members IS DISTINCT FROM NEW.max_members
+        OR OLD.recruiting_status IS DISTINCT FROM NEW.recruiting_status)
+  EXECUTE FUNCTION public.sync_recruiting_status_from_team();
+
+-- Teams already at their limit
+SELECT public.sync_team_recruiting_status(id)
+FROM public.teams
+WHERE public.team_at_capacity(id);
+
+-- 5. NO NEW APPLICATIONS OR OVERFILLING
+-- =====================================================
+-- Checked at commit, so an invite redemption (which files a request and
+-- accepts it in one go) still works for a paused team
+CREATE OR REPLACE FUNCTION public.check_team_recruiting()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.match_type = 'individual_to_team'
+     AND NEW.status = 'pending'
+     AND (TG_OP = 'INSERT' OR OLD.status <> 'pending')
+     AND EXISTS (
+       SELECT 1
+       FROM public.matches m
+       JOIN public.teams t ON t.id = m.team_id
+       WHERE m.id = NEW.id
+         AND m.status = 'pending'
+         AND t.recruiting_status <> 'open'
+     ) THEN
+    RAISE EXCEPTION 'This team is not recruiting right now';
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE CONSTRAINT TRIGGER check_team_recruiting
+  AFTER INSERT OR UPDATE OF status ON public.matches
+  DEFERRABLE INITIALLY DEFERRED
+  FOR EACH ROW EXECUTE FUNCTION public.check_team_recruiting();
+
+CREATE OR REPLACE FUNCTION public.check_team_capacity()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.match_type IN ('individual_to_team', 'team_to_individual')
+     AND NEW.status = 'accepted'
+     AND OLD.status = 'pending'
+     AND public.team_at_capacity(NEW.team_id) THEN
+    RAISE EXCEPTION 'This team is already full';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER check_team_capacity
+  BEFORE UPDATE OF status ON public.matches
+  FOR EACH ROW EXECUTE FUNCTION public.check_team_capacity();
+
+-- 6. TEAM DECK: OPEN TEAMS ONLY
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.get_team_deck(
+  p_skills text[] DEFAULT '{}',
+  p_looking_for text[] DEFAULT '{}',
+  p_studios text[] DEFAULT '{}',
+  p_team_size integer DEFAULT NULL,
+  p_cursor_created_at timestamp with time zone DEFAULT NULL,
+  p_cursor_id uuid DEFAULT NULL,
+  p_limit integer DEFAULT 20
+)
+RETURNS TABLE (
+  id uuid,
+  name text,
+  description text,
+  studio text,
+  skills_needed text[],
+  program_needs jsonb,
+  created_by uuid,
+  created_at timestamp with time zone,
+  members jsonb
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_viewer uuid := auth.uid();
+  v_filter_skills text[];
+BEGIN
+  IF v_viewer IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  v_filter_skills := ARRAY(
+    SELECT lower(public.canonicalize_skill(f)) FROM unnest(COALESCE(p_skills, '{}')) f
+  );
+
+  RETURN QUERY
+  WITH team_rows AS (
+    SELECT
+      t.*,
+      (SELECT count(*) FROM public.team_members tm
+       WHERE tm.team_id = t.id AND tm.status = 'confirmed') AS member_count
+    FROM public.teams t
+    WHERE t.recruiting_status = 'open'
+      AND NOT EXISTS (
+        SELECT 1 FROM public.team_members tm
+        WHERE tm.team_id = t.id AND tm.user_id = v_viewer AND tm.status = 'confirmed'
+      )
+      AND NOT EXISTS (
+        SELECT 1 FROM public.matches m
+        WHERE m.user_id = v_viewer
+          AND m.team_id = t.id
+          AND m.match_type = 'individual_to_team'
+      )
+      AND NOT EXISTS (
+        SELECT 1 FROM public.saved_items si
+        WHERE si.user_id = v_viewer AND si.team_id = t.id
+      )
+      AND (cardinality(v_filter_skills) = 0
+           OR EXISTS (SELECT 1 FROM unnest(t.skills_needed) s WHERE lower(s) = ANY (v_filter_skills)))
+      AND (cardinality(COALESCE(p_looking_for, '{}')) = 0
+           OR EXISTS (
+             SELECT 1 FROM jsonb_each_text(t.program_needs) n
+             WHERE n.key = ANY (p_looking_for) AND n.value::int > 0
+           ))
+      AND (cardinality(COALESCE(p_studios, '{}')) = 0 OR t.studio = ANY (p_studios))
+      AND (p_cursor_created_at IS NULL OR (t.created_at, t.id) < (p_cursor_created_at, p_cursor_id))
+  )
+  SELECT
+    tr.id, tr.name, tr.description, tr.studio, tr.skills_needed, tr.program_needs,
+    tr.created_by, tr.created_at,
+    COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'user_id', p.user_id,
+        'name', p.name,
+        'program', p.program,
+        'skills', p.skills,
+        'bio', p.bio,
+        'studio_preference', p.studio_preference,
+        'studio_preferences', p.studio_preferences,
+        'avatar', p.avatar,
+        'linkedin', p.linkedin
+      ) ORDER BY tm.created_at)
+      FROM public.team_members tm
+      JOIN public.profiles p ON p.user_id = tm.user_id
+      WHERE tm.team_id = tr.id AND tm.status = 'confirmed'
+    ), '[]'::jsonb) AS members
+  FROM team_rows tr
+  -- 4 means "4 or more" to match the filter panel
+  WHERE p_team_size IS NULL
+     OR (p_team_size >= 4 AND tr.member_count >= 4)
+     OR tr.member_count = p_team_size
+  ORDER BY tr.created_at DESC, tr.id DESC
+  LIMIT LEAST(GREATEST(p_limit, 1), 100);
+END;
+$$;
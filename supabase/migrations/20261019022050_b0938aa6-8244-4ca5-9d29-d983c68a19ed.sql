@@ -0,0 +1,177 @@
+-- Team candidate shortlist
+-- Any confirmed member can shortlist a student for the team, and members
+-- leave a rating and note on each candidate. All of it is internal: only
+-- confirmed members of the team can read it, never the candidate.
+
+-- 1. HELPERS
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.is_team_member(_team_id uuid, _user_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.team_members
+    WHERE team_id = _team_id
+      AND user_id = _user_id
+      AND status = 'confirmed'
+  )
+$$;
+
+-- 2. SCHEMA
+-- =====================================================
+CREATE TABLE public.team_shortlist (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  team_id uuid NOT NULL REFERENCES public.teams(id) ON DELETE CASCADE,
+  candidate_id uuid NOT NULL,
+  added_by uuid NOT NULL,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  UNIQUE (team_id, candidate_id)
+);
+
+-- One rating and note per member per candidate
+CREATE TABLE public.team_shortlist_notes (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  shortlist_id uuid NOT NULL REFERENCES public.team_shortlist(id) ON DELETE CASCADE,
+  author_id uuid NOT NULL,
+  rating smallint CHECK (rating IS NULL OR rating BETWEEN 1 AND 5),
+  note text CHECK (note IS NULL OR length(note) <= 1000),
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  UNIQUE (shortlist_id, author_id),
+  CHECK (rating IS NOT NULL OR note IS NOT NULL)
+);
+
+CREATE INDEX idx_team_shortlist_notes_shortlist ON public.team_shortlist_notes (shortlist_id);
+
+CREATE TRIGGER update_team_shortlist_notes_updated_at
+  BEFORE UPDATE ON public.team_shortlist_notes
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- 3. ACCESS
+-- =====================================================
+ALTER TABLE public.team_shortlist ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.team_shortlist_notes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Team members can view their shortlist"
+ON public.team_shortlist
+FOR SELECT
+USING (public.is_team_member(team_id, auth.uid()));
+
+CREATE POLICY "Team members can shortlist candidates"
+ON public.team_shortlist
+FOR INSERT
+WITH CHECK (
+  added_by = auth.uid()
+  AND candidate_id <> auth.uid()
+  AND public.is_team_member(team_id, auth.uid())
+);
+
+CREATE POLICY "Team members can remove shortlisted candidates"
+ON public.team_shortlist
+FOR DELETE
+USING (public.is_team_member(team_id, auth.uid()));
+
+CREATE POLICY "Team members can view shortlist notes"
+ON public.team_shortlist_notes
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.team_shortlist s
+    WHERE s.id = team_shortlist_notes.shortlist_id
+      AND public.is_team_member(s.team_id, auth.uid())
+  )
+);
+
+CREATE POLICY "Team members can add their own shortlist notes"
+ON public.team_shortlist_notes
+FOR INSERT
+WITH CHECK (
+  author_id = auth.uid()
+  AND EXISTS (
+    SELECT 1 FROM public.team_shortlist s
+    WHERE s.id = team_shortlist_notes.shortlist_id
+      AND public.is_team_member(s.team_id, auth.uid())
+  )
+);
+
+CREATE POLICY "Members can update their own shortlist notes"
+ON public.team_shortlist_notes
+FOR UPDATE
+USING (author_id = auth.uid())
+WITH CHECK (author_id = auth.uid());
+
+CREATE POLICY "Members can delete their own shortlist notes"
+ON public.team_shortlist_notes
+FOR DELETE
+USING (author_id = auth.uid());
+
+-- 4. READ THE SHORTLIST
+-- =====================================================
+-- Candidates with their profile, every member's note and where the team's
+-- request to them stands. People who have since joined the team drop off.
+CREATE OR REPLACE FUNCTION public.get_team_shortlist(p_team_id uuid)
+RETURNS json
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_team_member(p_team_id, auth.uid()) THEN
+    RAISE EXCEPTION 'Unauthorized: Only team members can view the shortlist';
+  END IF;
+
+  RETURN (
+    SELECT COALESCE(json_agg(r ORDER BY r.created_at DESC), '[]'::json)
+    FROM (
+      SELECT
+        s.id,
+        s.created_at,
+        s.added_by,
+        adder.name AS added_by_name,
+        json_build_object(
+          'user_id', p.user_id,
+          'name', p.name,
+          'program', p.program,
+          'skills', p.skills,
+          'bio', p.bio,
+          'studio_preference', p.studio_preference,
+          'studio_preferences', p.studio_preferences,
+          'avatar', p.avatar,
+          'linkedin', p.linkedin
+        ) AS candidate,
+        (
+          SELECT m.status FROM public.matches m
+          WHERE m.team_id = s.team_id
+            AND m.match_type IN ('team_to_individual', 'individual_to_team')
+            AND s.candidate_id = CASE WHEN m.match_type = 'team_to_individual'
+                                      THEN m.target_user_id ELSE m.user_id END
+            AND m.status <> 'withdrawn'
+          ORDER BY m.created_at DESC
+          LIMIT 1
+        ) AS request_status,
+        COALESCE((
+          SELECT json_agg(json_build_object(
+            'author_id', n.author_id,
+            'author_name', author.name,
+            'rating', n.rating,
+            'note', n.note,
+            'updated_at', n.updated_at
+          ) ORDER BY n.updated_at DESC)
+          FROM public.team_shortlist_notes n
+          LEFT JOIN public.profiles author ON author.user_id = n.author_id
+          WHERE n.shortlist_id = s.id
+        ), '[]'::json) AS notes
+      FROM public.team_shortlist s
+      JOIN public.profiles p ON p.user_id = s.candidate_id
+      LEFT JOIN public.profiles adder ON adder.user_id = s.added_by
+      WHERE s.team_id = p_team_id
+        AND NOT public.is_team_member(p_team_id, s.candidate_id)
+    ) r
+  );
+END;
+$$;
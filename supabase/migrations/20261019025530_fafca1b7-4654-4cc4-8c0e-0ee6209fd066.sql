@@ -0,0 +1,308 @@
+-- Collective team swipe deck
+-- Teams can set `swipe_quorum` so a request goes out only once that many
+-- members have liked the same person, instead of on one member's say-so.
+-- Each member swipes their own deck; likes and passes are stored as votes
+-- and the like that reaches the quorum sends the team_to_individual
+-- request. Like join votes, the quorum is capped at the current team size.
+
+-- 1. SCHEMA
+-- =====================================================
+ALTER TABLE public.teams
+  ADD COLUMN IF NOT EXISTS swipe_quorum integer
+  CHECK (swipe_quorum IS NULL OR swipe_quorum >= 1);
+
+CREATE TABLE public.team_candidate_votes (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  team_id uuid NOT NULL REFERENCES public.teams(id) ON DELETE CASCADE,
+  candidate_id uuid NOT NULL,
+  voter_id uuid NOT NULL,
+  vote text NOT NULL CHECK (vote IN ('like', 'pass')),
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  UNIQUE (team_id, candidate_id, voter_id)
+);
+
+CREATE INDEX idx_team_candidate_votes_candidate
+  ON public.team_candidate_votes (team_id, candidate_id);
+
+ALTER TABLE public.team_candidate_votes ENABLE ROW LEVEL SECURITY;
+
+-- Votes are cast through cast_team_candidate_vote. Members see the whole
+-- team's votes; a member can take back their own (undo).
+CREATE POLICY "Team members can view candidate votes"
+ON public.team_candidate_votes
+FOR SELECT
+USING (public.is_team_member(team_id, auth.uid()));
+
+CREATE POLICY "Members can delete their own candidate votes"
+ON public.team_candidate_votes
+FOR DELETE
+USING (voter_id = auth.uid());
+
+-- 2. CAST A VOTE
+-- =====================================================
+-- Records the caller's like or pass for their team. When the likes of
+-- current members reach the quorum the request is sent, with the caller
+-- as its sender.
+CREATE OR REPLACE FUNCTION public.cast_team_candidate_vote(
+  p_candidate_id uuid,
+  p_vote text
+)
+RETURNS json
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_team_id uuid;
+  v_quorum integer;
+  v_member_count integer;
+  v_likes integer;
+  v_existing uuid;
+BEGIN
+  IF p_vote NOT IN ('like', 'pass') THEN
+    RAISE EXCEPTION 'Invalid vote: %', p_vote;
+  END IF;
+
+  SELECT tm.team_id, t.swipe_quorum INTO v_team_id, v_quorum
+  FROM public.team_members tm
+  JOIN public.teams t ON t.id = tm.team_id
+  WHERE tm.user_id = auth.uid() AND tm.status = 'confirmed'
+  LIMIT 1;
+
+  IF v_team_id IS NULL THEN
+    RAISE EXCEPTION 'Unauthorized: Not a confirmed team member';
+  END IF;
+
+  IF v_quorum IS NULL THEN
+    RAISE EXCEPTION 'This team does not use the team deck';
+  END IF;
+
+  IF p_candidate_id = auth.uid() OR public.is_team_member(v_team_id, p_candidate_id) THEN
+    RAISE EXCEPTION 'Cannot vote on a member of your own team';
+  END IF;
+
+  -- Serialize votes on the same candidate so two last likes can't both
+  -- miss the quorum or both send the request
+  PERFORM pg_advisory_xact_lock(hashtext(v_team_id::text || p_candidate_id::text));
+
+  INSERT INTO public.team_candidate_votes (team_id, candidate_id, voter_id, vote)
+  VALUES (v_team_id, p_candidate_id, auth.uid(), p_vote)
+  ON CONFLICT (team_id, candidate_id, voter_id) DO UPDATE
+  SET vote = EXCLUDED.vote, updated_at = now();
+
+  -- Only likes from current members count
+  SELECT count(*) INTO v_likes
+  FROM public.team_candidate_votes v
+  JOIN public.team_members tm
+    ON tm.team_id = v.team_id AND tm.user_id = v.voter_id AND tm.status = 'confirmed'
+  WHERE v.team_id = v_team_id
+    AND v.candidate_id = p_candidate_id
+    AND v.vote = 'like';
+
+  SELECT count(*) INTO v_member_count
+  FROM public.team_members
+  WHERE team_id = v_team_id AND status = 'confirmed';
+
+  v_quorum := LEAST(v_quorum, v_member_count);
+
+  SELECT id INTO v_existing
+  FROM public.matches
+  WHERE team_id = v_team_id
+    AND target_user_id = p_candidate_id
+    AND match_type = 'team_to_individual'
+    AND status IN ('pending', 'accepted')
+  LIMIT 1;
+
+  IF v_existing IS NOT NULL THEN
+    RETURN json_build_object(
+      'status', 'already_requested',
+      'likes', v_likes,
+      'quorum', v_quorum,
+      'match_id', v_existing
+    );
+  END IF;
+
+  IF p_vote = 'like' AND v_likes >= v_quorum THEN
+    RETURN (
+      jsonb_build_object('status', 'sent', 'likes', v_likes, 'quorum', v_quorum)
+      || public.create_match_with_conversation(
+           auth.uid(), p_candidate_id, 'team_to_individual', v_team_id, 'match'
+         )::jsonb
+    )::json;
+  END IF;
+
+  RETURN json_build_object(
+    'status', 'pending',
+    'likes', v_likes,
+    'quorum', v_quorum
+  );
+END;
+$$;
+
+-- 3. TEAM DECK SOURCE
+-- =====================================================
+-- The people deck for a member of a team that swipes together. Scored
+-- exactly like get_discovery_deck, minus people the caller already voted
+-- on or the team already asked. Candidates teammates have liked come
+-- first, so partial support reaches the rest of the team quickly; the
+-- cursor is (support, score, user_id). Support can grow between pages,
+-- which at worst repeats a card the client already dedupes.
+CREATE OR REPLACE FUNCTION public.get_team_swipe_deck(
+  p_skills text[] DEFAULT '{}',
+  p_programs text[] DEFAULT '{}',
+  p_studios text[] DEFAULT '{}',
+  p_cursor_support integer DEFAULT NULL,
+  p_cursor_score integer DEFAULT NULL,
+  p_cursor_id uuid DEFAULT NULL,
+  p_limit integer DEFAULT 20
+)
+RETURNS TABLE (
+  user_id uuid,
+  name text,
+  program text,
+  skills text[],
+  bio text,
+  studio_preference text,
+  studio_preferences text[],
+  avatar text,
+  linkedin text,
+  score integer,
+  support integer,
+  supporters text[]
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_viewer uuid := auth.uid();
+  v_team_id uuid;
+  v_team_studio text;
+  v_side_skills text[];
+  v_side_programs text[];
+  v_skills_needed text[] := '{}';
+  v_program_needs jsonb := '{}';
+  v_has_needs boolean;
+  v_filter_skills text[];
+BEGIN
+  IF v_viewer IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT tm.team_id, t.studio,
+         COALESCE(ARRAY(SELECT lower(trim(s)) FROM unnest(t.skills_needed) s), '{}'),
+         COALESCE(t.program_needs, '{}')
+  INTO v_team_id, v_team_studio, v_skills_needed, v_program_needs
+  FROM public.team_members tm
+  JOIN public.teams t ON t.id = tm.team_id
+  WHERE tm.user_id = v_viewer AND tm.status = 'confirmed'
+  LIMIT 1;
+
+  IF v_team_id IS NULL THEN
+    RAISE EXCEPTION 'Unauthorized: Not a confirmed team member';
+  END IF;
+
+  SELECT
+    COALESCE(array_agg(DISTINCT lower(trim(s))) FILTER (WHERE s IS NOT NULL), '{}'),
+    COALESCE(array_agg(DISTINCT m.program), '{}')
+  INTO v_side_skills, v_side_programs
+  FROM public.profiles m
+  LEFT JOIN LATERAL unnest(m.skills) s ON true
+  WHERE m.user_id IN (
+    SELECT tm.user_id FROM public.team_members tm
+    WHERE tm.team_id = v_team_id AND tm.status = 'confirmed'
+  );
+
+  v_has_needs := EXISTS (
+    SELECT 1 FROM jsonb_each_text(v_program_needs) n WHERE n.value::int > 0
+  );
+
+  v_filter_skills := ARRAY(
+    SELECT lower(public.canonicalize_skill(f)) FROM unnest(COALESCE(p_skills, '{}')) f
+  );
+
+  RETURN QUERY
+  WITH candidates AS (
+    SELECT
+      p.*,
+      ARRAY(SELECT DISTINCT lower(trim(s)) FROM unnest(COALESCE(p.skills, '{}')) s) AS norm_skills,
+      COALESCE(NULLIF(p.studio_preferences, '{}'), ARRAY[p.studio_preference]) AS all_studios
+    FROM public.profiles p
+    WHERE p.user_id <> v_viewer
+      AND NOT EXISTS (
+        SELECT 1 FROM public.team_members tm
+        WHERE tm.user_id = p.user_id AND tm.status = 'confirmed'
+      )
+      AND NOT EXISTS (
+        SELECT 1 FROM public.matches m
+        WHERE m.target_user_id = p.user_id
+          AND (
+            (m.user_id = v_viewer AND m.match_type IN ('individual_to_individual', 'team_to_individual'))
+            OR (m.team_id = v_team_id AND m.match_type = 'team_to_individual')
+          )
+      )
+      AND NOT EXISTS (
+        SELECT 1 FROM public.team_candidate_votes v
+        WHERE v.team_id = v_team_id AND v.candidate_id = p.user_id AND v.voter_id = v_viewer
+      )
+      AND NOT EXISTS (
+        SELECT 1 FROM public.saved_items si
+        WHERE si.user_id = v_viewer AND si.target_user_id = p.user_id
+      )
+      AND (cardinality(v_filter_skills) = 0
+           OR EXISTS (SELECT 1 FROM unnest(p.skills) s WHERE lower(s) = ANY (v_filter_skills)))
+      AND (cardinality(COALESCE(p_programs, '{}')) = 0 OR p.program = ANY (p_programs))
+      AND (cardinality(COALESCE(p_studios, '{}')) = 0
+           OR COALESCE(NULLIF(p.studio_preferences, '{}'), ARRAY[p.studio_preference]) && p_studios)
+  ),
+  scored AS (
+    SELECT
+      c.*,
+      (
+        CASE WHEN cardinality(c.norm_skills) = 0 THEN 0 ELSE round(
+          (
+            (SELECT count(*) FROM unnest(c.norm_skills) s WHERE NOT s = ANY (v_side_skills))
+            + (SELECT count(*) FROM unnest(c.norm_skills) s WHERE s = ANY (v_skills_needed))
+          )::numeric
+          / (cardinality(c.norm_skills) + (SELECT count(*) FROM unnest(c.norm_skills) s WHERE s = ANY (v_skills_needed)))
+          * 40
+        ) END
+        + CASE
+            WHEN COALESCE((v_program_needs ->> c.program)::int, 0) > 0 THEN 35
+            WHEN NOT v_has_needs AND NOT c.program = ANY (v_side_programs) THEN 35
+            ELSE 0
+          END
+        + round(
+            (SELECT count(*) FROM unnest(c.all_studios) s WHERE s = v_team_studio)::numeric
+            / GREATEST(cardinality(c.all_studios), 1)
+            * 25
+          )
+      )::integer AS score,
+      likes.names AS supporters
+    FROM candidates c
+    -- Likes from current teammates
+    CROSS JOIN LATERAL (
+      SELECT COALESCE(array_agg(lp.name ORDER BY v.created_at), '{}') AS names
+      FROM public.team_candidate_votes v
+      JOIN public.team_members tm
+        ON tm.team_id = v.team_id AND tm.user_id = v.voter_id AND tm.status = 'confirmed'
+      JOIN public.profiles lp ON lp.user_id = v.voter_id
+      WHERE v.team_id = v_team_id AND v.candidate_id = c.user_id AND v.vote = 'like'
+    ) likes
+  )
+  SELECT
+    sc.user_id, sc.name, sc.program, sc.skills, sc.bio, sc.studio_preference,
+    sc.studio_preferences, sc.avatar, sc.linkedin, sc.score,
+    cardinality(sc.supporters) AS support, sc.supporters
+  FROM scored sc
+  WHERE p_cursor_score IS NULL
+     OR cardinality(sc.supporters) < p_cursor_support
+     OR (cardinality(sc.supporters) = p_cursor_support
+         AND (sc.score < p_cursor_score
+              OR (sc.score = p_cursor_score AND sc.user_id > p_cursor_id)))
+  ORDER BY cardinality(sc.supporters) DESC, sc.score DESC, sc.user_id ASC
+  LIMIT LEAST(GREATEST(p_limit, 1), 100);
+END;
+$$;
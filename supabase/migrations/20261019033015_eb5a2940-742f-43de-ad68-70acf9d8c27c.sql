@@ -0,0 +1,91 @@
+-- Private notes
+-- A per-user note on any profile or team ("met at the mixer, ML person").
+-- Notes belong to their author alone: no policy lets anyone else, admins
+-- included, read or change them. They are part of the author's data export.
+
+-- 1. SCHEMA
+-- =====================================================
+CREATE TABLE public.private_notes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL,
+  target_user_id uuid,
+  team_id uuid REFERENCES public.teams(id) ON DELETE CASCADE,
+  note text NOT NULL CHECK (length(trim(note)) BETWEEN 1 AND 1000),
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  -- Exactly one of target_user_id / team_id
+  CONSTRAINT private_notes_single_target CHECK ((target_user_id IS NULL) <> (team_id IS NULL))
+);
+
+CREATE UNIQUE INDEX idx_private_notes_user_target
+  ON public.private_notes (user_id, target_user_id)
+  WHERE target_user_id IS NOT NULL;
+
+CREATE UNIQUE INDEX idx_private_notes_user_team
+  ON public.private_notes (user_id, team_id)
+  WHERE team_id IS NOT NULL;
+
+CREATE TRIGGER update_private_notes_updated_at
+  BEFORE UPDATE ON public.private_notes
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- 2. ACCESS
+-- =====================================================
+ALTER TABLE public.private_notes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own notes"
+ON public.private_notes
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can write their own notes"
+ON public.private_notes
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can edit their own notes"
+ON public.private_notes
+FOR UPDATE
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own notes"
+ON public.private_notes
+FOR DELETE
+USING (auth.uid() = user_id);
+
+-- 3. DATA EXPORT
+-- =====================================================
+-- Same export as before plus the notes the user wrote. Notes others wrote
+-- about them stay private to those authors.
+CREATE OR REPLACE FUNCTION public.export_user_data(p_user_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_data jsonb;
+BEGIN
+  -- Only allow users to export their own data
+  IF auth.uid() != p_user_id AND NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Unauthorized';
+  END IF;
+
+  SELECT jsonb_build_object(
+    'profile', (SELECT row_to_json(p.*) FROM profiles p WHERE p.user_id = p_user_id),
+    'teams', (SELECT jsonb_agg(row_to_json(t.*)) FROM teams t WHERE t.created_by = p_user_id),
+    'team_memberships', (SELECT jsonb_agg(row_to_json(tm.*)) FROM team_members tm WHERE tm.user_id = p_user_id),
+    'matches', (SELECT jsonb_agg(row_to_json(m.*)) FROM matches m WHERE m.user_id = p_user_id OR m.target_user_id = p_user_id),
+    'messages', (SELECT jsonb_agg(row_to_json(msg.*)) FROM messages msg WHERE msg.sender_id = p_user_id),
+    'private_notes', (SELECT jsonb_agg(row_to_json(n.*) ORDER BY n.created_at) FROM private_notes n WHERE n.user_id = p_user_id),
+    'exported_at', now()
+  ) INTO v_data;
+
+  -- Log the export
+  PERFORM public.log_audit_event('data_export', 'profiles', p_user_id, NULL, NULL,
+    jsonb_build_object('export_type', 'full'));
+
+  RETURN v_data;
+END;
+$$;
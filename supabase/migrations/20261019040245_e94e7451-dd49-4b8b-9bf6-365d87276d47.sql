@@ -0,0 +1,389 @@
+-- Weekly availability
+-- Profiles store their free time as slot indices into a weekly grid of
+-- two-hour blocks (Mon-Sun, 8am-10pm; slot = day * 7 + block), matching
+-- src/lib/availability.ts.
+--
+-- Both people decks now return the candidate's schedule, take a minimum
+-- number of shared hours as a filter, and rank by compatibility plus up to
+-- 20 points for the share of the viewer side's free time the candidate can
+-- make. The viewer side is the viewer, or every confirmed teammate who has
+-- filled in a schedule. The argument lists change, so the old functions are
+-- dropped rather than overloaded.
+
+-- 1. SCHEMA
+-- =====================================================
+ALTER TABLE public.profiles
+  ADD COLUMN IF NOT EXISTS availability integer[] NOT NULL DEFAULT '{}'
+  CHECK (
+    cardinality(availability) <= 49
+    AND 0 <= ALL (availability)
+    AND 48 >= ALL (availability)
+  );
+
+-- 2. PEOPLE DECK
+-- =====================================================
+DROP FUNCTION IF EXISTS public.get_discovery_deck(text[], text[], text[], integer, uuid, integer);
+
+CREATE OR REPLACE FUNCTION public.get_discovery_deck(
+  p_skills text[] DEFAULT '{}',
+  p_programs text[] DEFAULT '{}',
+  p_studios text[] DEFAULT '{}',
+  p_min_overlap_hours integer DEFAULT NULL,
+  p_cursor_score integer DEFAULT NULL,
+  p_cursor_id uuid DEFAULT NULL,
+  p_limit integer DEFAULT 20
+)
+RETURNS TABLE (
+  user_id uuid,
+  name text,
+  program text,
+  skills text[],
+  bio text,
+  studio_preference text,
+  studio_preferences text[],
+  avatar text,
+  linkedin text,
+  availability integer[],
+  score integer
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_viewer uuid := auth.uid();
+  v_team_id uuid;
+  v_team_studio text;
+  v_side_members uuid[];
+  v_side_skills text[];
+  v_side_programs text[];
+  v_side_studios text[];
+  v_side_slots integer[];
+  v_scheduled integer;
+  v_skills_needed text[] := '{}';
+  v_program_needs jsonb := '{}';
+  v_has_needs boolean;
+  v_filter_skills text[];
+BEGIN
+  IF v_viewer IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  -- Viewer side: the team if they have one, otherwise just the viewer
+  SELECT tm.team_id, t.studio,
+         COALESCE(ARRAY(SELECT lower(trim(s)) FROM unnest(t.skills_needed) s), '{}'),
+         COALESCE(t.program_needs, '{}')
+  INTO v_team_id, v_team_studio, v_skills_needed, v_program_needs
+  FROM public.team_members tm
+  JOIN public.teams t ON t.id = tm.team_id
+  WHERE tm.user_id = v_viewer AND tm.status = 'confirmed'
+  LIMIT 1;
+
+  v_side_members := ARRAY(
+    SELECT tm.user_id FROM public.team_members tm
+    WHERE tm.team_id = v_team_id AND tm.status = 'confirmed'
+    UNION
+    SELECT v_viewer WHERE v_team_id IS NULL
+  );
+
+  SELECT
+    COALESCE(array_agg(DISTINCT lower(trim(s))) FILTER (WHERE s IS NOT NULL), '{}'),
+    COALESCE(array_agg(DISTINCT m.program), '{}')
+  INTO v_side_skills, v_side_programs
+  FROM public.profiles m
+  LEFT JOIN LATERAL unnest(m.skills) s ON true
+  WHERE m.user_id = ANY (v_side_members);
+
+  IF v_team_id IS NOT NULL THEN
+    v_side_studios := ARRAY[v_team_studio];
+  ELSE
+    SELECT COALESCE(NULLIF(p.studio_preferences, '{}'), ARRAY[p.studio_preference])
+    INTO v_side_studios
+    FROM public.profiles p WHERE p.user_id = v_viewer;
+  END IF;
+
+  -- Free time shared by everyone on the viewer side with a schedule
+  SELECT count(*) INTO v_scheduled
+  FROM public.profiles m
+  WHERE m.user_id = ANY (v_side_members) AND cardinality(m.availability) > 0;
+
+  v_side_slots := ARRAY(
+    SELECT s FROM public.profiles m, unnest(m.availability) s
+    WHERE m.user_id = ANY (v_side_members)
+    GROUP BY s
+    HAVING count(DISTINCT m.user_id) = v_scheduled
+  );
+
+  v_has_needs := EXISTS (
+    SELECT 1 FROM jsonb_each_text(v_program_needs) n WHERE n.value::int > 0
+  );
+
+  -- Stored skills are canonical, so filters only need canonicalizing once
+  v_filter_skills := ARRAY(
+    SELECT lower(public.canonicalize_skill(f)) FROM unnest(COALESCE(p_skills, '{}')) f
+  );
+
+  RETURN QUERY
+  WITH candidates AS (
+    SELECT
+      p.*,
+      ARRAY(SELECT DISTINCT lower(trim(s)) FROM unnest(COALESCE(p.skills, '{}')) s) AS norm_skills,
+      COALESCE(NULLIF(p.studio_preferences, '{}'), ARRAY[p.studio_preference]) AS all_studios,
+      (SELECT count(*) FROM unnest(p.availability) s WHERE s = ANY (v_side_slots)) AS shared_slots
+    FROM public.profiles p
+    WHERE p.user_id <> v_viewer
+      AND NOT EXISTS (
+        SELECT 1 FROM public.team_members tm
+        WHERE tm.user_id = p.user_id AND tm.status = 'confirmed'
+      )
+      AND NOT EXISTS (
+        SELECT 1 FROM public.matches m
+        WHERE m.user_id = v_viewer
+          AND m.target_user_id = p.user_id
+          AND m.match_type IN ('individual_to_individual', 'team_to_individual')
+      )
+      AND NOT EXISTS (
+        SELECT 1 FROM public.saved_items si
+        WHERE si.user_id = v_viewer AND si.target_user_id = p.user_id
+      )
+      AND (cardinality(v_filter_skills) = 0
+           OR EXISTS (SELECT 1 FROM unnest(p.skills) s WHERE lower(s) = ANY (v_filter_skills)))
+      AND (cardinality(COALESCE(p_programs, '{}')) = 0 OR p.program = ANY (p_programs))
+      AND (cardinality(COALESCE(p_studios, '{}')) = 0
+           OR COALESCE(NULLIF(p.studio_preferences, '{}'), ARRAY[p.studio_preference]) && p_studios)
+  ),
+  scored AS (
+    SELECT
+      c.*,
+      (
+        -- Complementary skills, with skills the team asked for counting double
+        CASE WHEN cardinality(c.norm_skills) = 0 THEN 0 ELSE round(
+          (
+            (SELECT count(*) FROM unnest(c.norm_skills) s WHERE NOT s = ANY (v_side_skills))
+            + (SELECT count(*) FROM unnest(c.norm_skills) s WHERE s = ANY (v_skills_needed))
+          )::numeric
+          / (cardinality(c.norm_skills) + (SELECT count(*) FROM unnest(c.norm_skills) s WHERE s = ANY (v_skills_needed)))
+          * 40
+        ) END
+        -- Program fit: declared needs win, otherwise reward diversity
+        + CASE
+            WHEN COALESCE((v_program_needs ->> c.program)::int, 0) > 0 THEN 35
+            WHEN NOT v_has_needs AND NOT c.program = ANY (v_side_programs) THEN 35
+            ELSE 0
+          END
+        -- Studio overlap
+        + round(
+            (SELECT count(*) FROM unnest(c.all_studios) s WHERE s = ANY (v_side_studios))::numeric
+            / GREATEST(cardinality(c.all_studios), 1)
+            * 25
+          )
+        -- Schedule overlap (ranking only; not part of the displayed match %)
+        + CASE WHEN cardinality(v_side_slots) = 0 THEN 0 ELSE round(
+            c.shared_slots::numeric / cardinality(v_side_slots) * 20
+          ) END
+      )::integer AS score
+    FROM candidates c
+    -- Slots are two hours long
+    WHERE p_min_overlap_hours IS NULL OR c.shared_slots * 2 >= p_min_overlap_hours
+  )
+  SELECT
+    sc.user_id, sc.name, sc.program, sc.skills, sc.bio, sc.studio_preference,
+    sc.studio_preferences, sc.avatar, sc.linkedin, sc.availability, sc.score
+  FROM scored sc
+  WHERE p_cursor_score IS NULL
+     OR sc.score < p_cursor_score
+     OR (sc.score = p_cursor_score AND sc.user_id > p_cursor_id)
+  ORDER BY sc.score DESC, sc.user_id ASC
+  LIMIT LEAST(GREATEST(p_limit, 1), 100);
+END;
+$$;
+
+-- 3. TEAM SWIPE DECK
+-- =====================================================
+DROP FUNCTION IF EXISTS public.get_team_swipe_deck(text[], text[], text[], integer, integer, uuid, integer);
+
+CREATE OR REPLACE FUNCTION public.get_team_swipe_deck(
+  p_skills text[] DEFAULT '{}',
+  p_programs text[] DEFAULT '{}',
+  p_studios text[] DEFAULT '{}',
+  p_min_overlap_hours integer DEFAULT NULL,
+  p_cursor_support integer DEFAULT NULL,
+  p_cursor_score integer DEFAULT NULL,
+  p_cursor_id uuid DEFAULT NULL,
+  p_limit integer DEFAULT 20
+)
+RETURNS TABLE (
+  user_id uuid,
+  name text,
+  program text,
+  skills text[],
+  bio text,
+  studio_preference text,
+  studio_preferences text[],
+  avatar text,
+  linkedin text,
+  availability integer[],
+  score integer,
+  support integer,
+  supporters text[]
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_viewer uuid := auth.uid();
+  v_team_id uuid;
+  v_team_studio text;
+  v_side_skills text[];
+  v_side_programs text[];
+  v_side_slots integer[];
+  v_scheduled integer;
+  v_skills_needed text[] := '{}';
+  v_program_needs jsonb := '{}';
+  v_has_needs boolean;
+  v_filter_skills text[];
+BEGIN
+  IF v_viewer IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT tm.team_id, t.studio,
+         COALESCE(ARRAY(SELECT lower(trim(s)) FROM unnest(t.skills_needed) s), '{}'),
+         COALESCE(t.program_needs, '{}')
+  INTO v_team_id, v_team_studio, v_skills_needed, v_program_needs
+  FROM public.team_members tm
+  JOIN public.teams t ON t.id = tm.team_id
+  WHERE tm.user_id = v_viewer AND tm.status = 'confirmed'
+  LIMIT 1;
+
+  IF v_team_id IS NULL THEN
+    RAISE EXCEPTION 'Unauthorized: Not a confirmed team member';
+  END IF;
+
+  SELECT
+    COALESCE(array_agg(DISTINCT lower(trim(s))) FILTER (WHERE s IS NOT NULL), '{}'),
+    COALESCE(array_agg(DISTINCT m.program), '{}')
+  INTO v_side_skills, v_side_programs
+  FROM public.profiles m
+  LEFT JOIN LATERAL unnest(m.skills) s ON true
+  WHERE m.user_id IN (
+    SELECT tm.user_id FROM public.team_members tm
+    WHERE tm.team_id = v_team_id AND tm.status = 'confirmed'
+  );
+
+  -- Free time shared by every teammate with a schedule
+  SELECT count(*) INTO v_scheduled
+  FROM public.profiles m
+  JOIN public.team_members tm
+    ON tm.user_id = m.user_id AND tm.team_id = v_team_id AND tm.status = 'confirmed'
+  WHERE cardinality(m.availability) > 0;
+
+  v_side_slots := ARRAY(
+    SELECT s
+    FROM public.profiles m
+    JOIN public.team_members tm
+      ON tm.user_id = m.user_id AND tm.team_id = v_team_id AND tm.status = 'confirmed',
+    unnest(m.availability) s
+    GROUP BY s
+    HAVING count(DISTINCT m.user_id) = v_scheduled
+  );
+
+  v_has_needs := EXISTS (
+    SELECT 1 FROM jsonb_each_text(v_program_needs) n WHERE n.value::int > 0
+  );
+
+  v_filter_skills := ARRAY(
+    SELECT lower(public.canonicalize_skill(f)) FROM unnest(COALESCE(p_skills, '{}')) f
+  );
+
+  RETURN QUERY
+  WITH candidates AS (
+    SELECT
+      p.*,
+      ARRAY(SELECT DISTINCT lower(trim(s)) FROM unnest(COALESCE(p.skills, '{}')) s) AS norm_skills,
+      COALESCE(NULLIF(p.studio_preferences, '{}'), ARRAY[p.studio_preference]) AS all_studios,
+      (SELECT count(*) FROM unnest(p.availability) s WHERE s = ANY (v_side_slots)) AS shared_slots
+    FROM public.profiles p
+    WHERE p.user_id <> v_viewer
+      AND NOT EXISTS (
+        SELECT 1 FROM public.team_members tm
+        WHERE tm.user_id = p.user_id AND tm.status = 'confirmed'
+      )
+      AND NOT EXISTS (
+        SELECT 1 FROM public.matches m
+        WHERE m.target_user_id = p.user_id
+          AND (
+            (m.user_id = v_viewer AND m.match_type IN ('individual_to_individual', 'team_to_individual'))
+            OR (m.team_id = v_team_id AND m.match_type = 'team_to_individual')
+          )
+      )
+      AND NOT EXISTS (
+        SELECT 1 FROM public.team_candidate_votes v
+        WHERE v.team_id = v_team_id AND v.candidate_id = p.user_id AND v.voter_id = v_viewer
+      )
+      AND NOT EXISTS (
+        SELECT 1 FROM public.saved_items si
+        WHERE si.user_id = v_viewer AND si.target_user_id = p.user_id
+      )
+      AND (cardinality(v_filter_skills) = 0
+           OR EXISTS (SELECT 1 FROM unnest(p.skills) s WHERE lower(s) = ANY (v_filter_skills)))
+      AND (cardinality(COALESCE(p_programs, '{}')) = 0 OR p.program = ANY (p_programs))
+      AND (cardinality(COALESCE(p_studios, '{}')) = 0
+           OR COALESCE(NULLIF(p.studio_preferences, '{}'), ARRAY[p.studio_preference]) && p_studios)
+  ),
+  scored AS (
+    SELECT
+      c.*,
+      (
+        CASE WHEN cardinality(c.norm_skills) = 0 THEN 0 ELSE round(
+          (
+            (SELECT count(*) FROM unnest(c.norm_skills) s WHERE NOT s = ANY (v_side_skills))
+            + (SELECT count(*) FROM unnest(c.norm_skills) s WHERE s = ANY (v_skills_needed))
+          )::numeric
+          / (cardinality(c.norm_skills) + (SELECT count(*) FROM unnest(c.norm_skills) s WHERE s = ANY (v_skills_needed)))
+          * 40
+        ) END
+        + CASE
+            WHEN COALESCE((v_program_needs ->> c.program)::int, 0) > 0 THEN 35
+            WHEN NOT v_has_needs AND NOT c.program = ANY (v_side_programs) THEN 35
+            ELSE 0
+          END
+        + round(
+            (SELECT count(*) FROM unnest(c.all_studios) s WHERE s = v_team_studio)::numeric
+            / GREATEST(cardinality(c.all_studios), 1)
+            * 25
+          )
+        + CASE WHEN cardinality(v_side_slots) = 0 THEN 0 ELSE round(
+            c.shared_slots::numeric / cardinality(v_side_slots) * 20
+          ) END
+      )::integer AS score,
+      likes.names AS supporters
+    FROM candidates c
+    -- Likes from current teammates
+    CROSS JOIN LATERAL (
+      SELECT COALESCE(array_agg(lp.name ORDER BY v.created_at), '{}') AS names
+      FROM public.team_candidate_votes v
+      JOIN public.team_members tm
+        ON tm.team_id = v.team_id AND tm.user_id = v.voter_id AND tm.status = 'confirmed'
+      JOIN public.profiles lp ON lp.user_id = v.voter_id
+      WHERE v.team_id = v_team_id AND v.candidate_id = c.user_id AND v.vote = 'like'
+    ) likes
+    WHERE p_min_overlap_hours IS NULL OR c.shared_slots * 2 >= p_min_overlap_hours
+  )
+  SELECT
+    sc.user_id, sc.name, sc.program, sc.skills, sc.bio, sc.studio_preference,
+    sc.studio_preferences, sc.avatar, sc.linkedin, sc.availability, sc.score,
+    cardinality(sc.supporters) AS support, sc.supporters
+  FROM scored sc
+  WHERE p_cursor_score IS NULL
+     OR cardinality(sc.supporters) < p_cursor_support
+     OR (cardinality(sc.supporters) = p_cursor_support
+         AND (sc.score < p_cursor_score
+              OR (sc.score = p_cursor_score AND sc.user_id > p_cursor_id)))
+  ORDER BY cardinality(sc.supporters) DESC, sc.score DESC, sc.user_id ASC
+  LIMIT LEAST(GREATEST(p_limit, 1), 100);
+END;
+$$;
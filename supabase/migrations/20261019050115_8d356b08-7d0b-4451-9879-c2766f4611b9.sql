@@ -0,0 +1,111 @@
+-- Keep teams in a pending merge out of each other's deck
+-- A team that already has a merge request open with the viewer's team
+-- shouldn't come up again while that request is waiting for an answer.
+
+CREATE OR REPLACE FUNCTION public.get_team_deck(
+  p_skills text[] DEFAULT '{}',
+  p_looking_for text[] DEFAULT '{}',
+  p_studios text[] DEFAULT '{}',
+  p_team_size integer DEFAULT NULL,
+  p_cursor_created_at timestamp with time zone DEFAULT NULL,
+  p_cursor_id uuid DEFAULT NULL,
+  p_limit integer DEFAULT 20
+)
+RETURNS TABLE (
+  id uuid,
+  name text,
+  description text,
+  studio text,
+  skills_needed text[],
+  program_needs jsonb,
+  created_by uuid,
+  created_at timestamp with time zone,
+  members jsonb
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_viewer uuid := auth.uid();
+  v_filter_skills text[];
+BEGIN
+  IF v_viewer IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  v_filter_skills := ARRAY(
+    SELECT lower(public.canonicalize_skill(f)) FROM unnest(COALESCE(p_skills, '{}')) f
+  );
+
+  RETURN QUERY
+  WITH team_rows AS (
+    SELECT
+      t.*,
+      (SELECT count(*) FROM public.team_members tm
+       WHERE tm.team_id = t.id AND tm.status = 'confirmed') AS member_count
+    FROM public.teams t
+    WHERE t.recruiting_status = 'open'
+      AND NOT EXISTS (
+        SELECT 1 FROM public.team_members tm
+        WHERE tm.team_id = t.id AND tm.user_id = v_viewer AND tm.status = 'confirmed'
+      )
+      AND NOT EXISTS (
+        SELECT 1 FROM public.matches m
+        WHERE m.user_id = v_viewer
+          AND m.team_id = t.id
+          AND m.match_type = 'individual_to_team'
+      )
+      AND NOT EXISTS (
+        SELECT 1 FROM public.saved_items si
+        WHERE si.user_id = v_viewer AND si.team_id = t.id
+      )
+      -- Teams already discussing a merge with the viewer's team
+      AND NOT EXISTS (
+        SELECT 1 FROM public.matches m
+        JOIN public.team_members vm
+          ON vm.team_id IN (m.team_id, m.target_team_id)
+         AND vm.user_id = v_viewer AND vm.status = 'confirmed'
+        WHERE m.match_type = 'team_to_team'
+          AND m.status = 'pending'
+          AND t.id IN (m.team_id, m.target_team_id)
+      )
+      AND (cardinality(v_filter_skills) = 0
+           OR EXISTS (SELECT 1 FROM unnest(t.skills_needed) s WHERE lower(s) = ANY (v_filter_skills)))
+      AND (cardinality(COALESCE(p_looking_for, '{}')) = 0
+           OR EXISTS (
+             SELECT 1 FROM jsonb_each_text(t.program_needs) n
+             WHERE n.key = ANY (p_looking_for) AND n.value::int > 0
+           ))
+      AND (cardinality(COALESCE(p_studios, '{}')) = 0 OR t.studio = ANY (p_studios))
+      AND (p_cursor_created_at IS NULL OR (t.created_at, t.id) < (p_cursor_created_at, p_cursor_id))
+  )
+  SELECT
+    tr.id, tr.name, tr.description, tr.studio, tr.skills_needed, tr.program_needs,
+    tr.created_by, tr.created_at,
+    COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'user_id', p.user_id,
+        'name', p.name,
+        'program', p.program,
+        'skills', p.skills,
+        'bio', p.bio,
+        'studio_preference', p.studio_preference,
+        'studio_preferences', p.studio_preferences,
+        'avatar', p.avatar,
+        'linkedin', p.linkedin
+      ) ORDER BY tm.created_at)
+      FROM public.team_members tm
+      JOIN public.profiles p ON p.user_id = tm.user_id
+      WHERE tm.team_id = tr.id AND tm.status = 'confirmed'
+    ), '[]'::jsonb) AS members
+  FROM team_rows tr
+  -- 4 means "4 or more" to match the filter panel
+  WHERE p_team_size IS NULL
+     OR (p_team_size >= 4 AND tr.member_count >= 4)
+     OR tr.member_count = p_team_size
+  ORDER BY tr.created_at DESC, tr.id DESC
+  LIMIT LEAST(GREATEST(p_limit, 1), 100);
+END;
+$$;
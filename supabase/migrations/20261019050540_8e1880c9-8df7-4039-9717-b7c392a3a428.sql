@@ -0,0 +1,195 @@
+-- Only convert explicit passes from the second-look deck
+-- A like on someone previously passed on reuses that pass row. Look the
+-- row up by is_pass rather than by status, so a request the other side
+-- declined is never turned back into a pending one.
+
+CREATE OR REPLACE FUNCTION public.create_match_with_conversation(
+  p_user_id uuid,
+  p_target_user_id uuid,
+  p_match_type text,
+  p_team_id uuid DEFAULT NULL,
+  p_conversation_type text DEFAULT 'match',
+  p_application_answers jsonb DEFAULT NULL
+)
+RETURNS json
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_match_id uuid;
+  v_conversation_id uuid;
+  v_reciprocal_id uuid;
+  v_passed_id uuid;
+  v_is_team_member boolean;
+  v_questions jsonb;
+BEGIN
+  -- CRITICAL: Authorization check - user must be creating a match for themselves
+  IF auth.uid() != p_user_id THEN
+    -- For team matches, verify the caller is a confirmed team member
+    IF p_team_id IS NULL THEN
+      RAISE EXCEPTION 'Unauthorized: Can only create matches for yourself';
+    END IF;
+
+    -- Check team membership
+    SELECT EXISTS(
+      SELECT 1 FROM public.team_members tm
+      WHERE tm.team_id = p_team_id
+        AND tm.user_id = auth.uid()
+        AND tm.status = 'confirmed'
+    ) INTO v_is_team_member;
+
+    IF NOT v_is_team_member THEN
+      RAISE EXCEPTION 'Unauthorized: Not a confirmed team member';
+    END IF;
+  END IF;
+
+  -- Validate match_type is one of allowed values
+  IF p_match_type NOT IN ('individual_to_individual', 'team_to_individual',
+                          'individual_to_team', 'team_to_team', 'individual') THEN
+    RAISE EXCEPTION 'Invalid match_type: %', p_match_type;
+  END IF;
+
+  -- Validate conversation_type
+  IF p_conversation_type NOT IN ('match', 'team', 'direct') THEN
+    RAISE EXCEPTION 'Invalid conversation_type: %', p_conversation_type;
+  END IF;
+
+  -- Answers only accompany a request to join a team
+  IF p_application_answers IS NOT NULL THEN
+    IF p_match_type != 'individual_to_team' THEN
+      RAISE EXCEPTION 'Application answers are only allowed on join requests';
+    END IF;
+
+    IF NOT public.valid_application_answers(p_application_answers) THEN
+      RAISE EXCEPTION 'Invalid application answers';
+    END IF;
+  END IF;
+
+  -- A team that asks questions gets an answer to each of them, in order
+  IF p_match_type = 'individual_to_team' THEN
+    SELECT application_questions INTO v_questions
+    FROM public.teams
+    WHERE id = p_team_id;
+
+    IF jsonb_array_length(COALESCE(v_questions, '[]'::jsonb)) > 0 AND (
+      p_application_answers IS NULL
+      OR jsonb_array_length(p_application_answers) != jsonb_array_length(v_questions)
+      OR EXISTS (
+        SELECT 1
+        FROM jsonb_array_elements_text(v_questions) WITH ORDINALITY AS q(question, position)
+        WHERE trim(p_application_answers->(q.position::int - 1)->>'question') IS DISTINCT FROM trim(q.question)
+           OR trim(COALESCE(p_application_answers->(q.position::int - 1)->>'answer', '')) = ''
+      )
+    ) THEN
+      RAISE EXCEPTION 'Answer each of the team''s application questions';
+    END IF;
+  END IF;
+
+  -- Prevent self-matching
+  IF p_user_id = p_target_user_id THEN
+    RAISE EXCEPTION 'Cannot create a match with yourself';
+  END IF;
+
+  IF p_match_type = 'individual_to_individual' THEN
+    -- Serialize likes between the same pair so two simultaneous swipes
+    -- can't both miss each other and end up as two pending rows
+    PERFORM pg_advisory_xact_lock(
+      hashtext(LEAST(p_user_id, p_target_user_id)::text || GREATEST(p_user_id, p_target_user_id)::text)
+    );
+
+    SELECT id INTO v_reciprocal_id
+    FROM public.matches
+    WHERE user_id = p_target_user_id
+      AND target_user_id = p_user_id
+      AND match_type = 'individual_to_individual'
+      AND status IN ('pending', 'matched')
+    FOR UPDATE;
+  END IF;
+
+  -- A like from the second-look deck converts the earlier pass
+  IF p_match_type IN ('individual_to_individual', 'team_to_individual') THEN
+    SELECT id INTO v_passed_id
+    FROM public.matches
+    WHERE user_id = p_user_id
+      AND target_user_id = p_target_user_id
+      AND match_type IN ('individual_to_individual', 'team_to_individual')
+      AND is_pass
+    ORDER BY created_at DESC
+    LIMIT 1
+    FOR UPDATE;
+  END IF;
+
+  IF v_reciprocal_id IS NOT NULL THEN
+    -- Mutual like: record ours as matched and flip theirs
+    IF v_passed_id IS NOT NULL THEN
+      UPDATE public.matches
+      SET match_type = p_match_type, team_id = p_team_id, status = 'matched', target_snapshot = NULL
+      WHERE id = v_passed_id
+      RETURNING id INTO v_match_id;
+    ELSE
+      INSERT INTO public.matches (user_id, target_user_id, match_type, team_id, status)
+      VALUES (p_user_id, p_target_user_id, p_match_type, p_team_id, 'matched')
+      RETURNING id INTO v_match_id;
+    END IF;
+
+    UPDATE public.matches
+    SET status = 'matched'
+    WHERE id = v_reciprocal_id;
+
+    -- Reuse the conversation created by the first like
+    SELECT id INTO v_conversation_id
+    FROM public.conversations
+    WHERE match_id = v_reciprocal_id
+    ORDER BY created_at
+    LIMIT 1;
+
+    IF v_conversation_id IS NULL THEN
+      INSERT INTO public.conversations (type, match_id, team_id)
+      VALUES (p_conversation_type, v_reciprocal_id, p_team_id)
+      RETURNING id INTO v_conversation_id;
+    END IF;
+
+    INSERT INTO public.conversation_participants (conversation_id, user_id)
+    VALUES
+      (v_conversation_id, p_user_id),
+      (v_conversation_id, p_target_user_id)
+    ON CONFLICT (conversation_id, user_id) DO NOTHING;
+
+    RETURN json_build_object(
+      'match_id', v_match_id,
+      'conversation_id', v_conversation_id,
+      'is_mutual', true
+    );
+  END IF;
+
+  -- Create match
+  IF v_passed_id IS NOT NULL THEN
+    UPDATE public.matches
+    SET match_type = p_match_type, team_id = p_team_id, status = 'pending', target_snapshot = NULL
+    WHERE id = v_passed_id
+    RETURNING id INTO v_match_id;
+  ELSE
+    INSERT INTO public.matches (user_id, target_user_id, match_type, team_id, status, application_answers)
+    VALUES (p_user_id, p_target_user_id, p_match_type, p_team_id, 'pending', p_application_answers)
+    RETURNING id INTO v_match_id;
+  END IF;
+
+  -- Create conversation
+  INSERT INTO public.conversations (type, match_id, team_id)
+  VALUES (p_conversation_type, v_match_id, p_team_id)
+  RETURNING id INTO v_conversation_id;
+
+  -- Add participants
+  INSERT INTO public.conversation_participants (conversation_id, user_id)
+  VALUES
+    (v_conversation_id, p_user_id),
+    (v_conversation_id, p_target_user_id);
+
+  RETURN json_build_object(
+    'match_id', v_match_id,
+    'conversation_id', v_conversation_id,
+    'is_mutual', false
+  );
+END;
+$$;
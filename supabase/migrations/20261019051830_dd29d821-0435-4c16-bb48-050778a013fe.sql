@@ -0,0 +1,83 @@
+-- Only real invitations let someone join a team
+-- An invitation is accepted by the person it was sent to, so it has to
+-- have come from a confirmed member of the team. Rows can no longer be
+-- created on behalf of a team the creator isn't on, and nobody can have a
+-- request with themselves.
+
+-- 1. ACCEPTING AN INVITATION CHECKS WHO SENT IT
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.respond_to_join_request(
+  p_match_id uuid,
+  p_accept boolean
+)
+RETURNS json
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_match RECORD;
+BEGIN
+  SELECT * INTO v_match
+  FROM public.matches
+  WHERE id = p_match_id
+    AND match_type IN ('individual_to_team', 'team_to_individual')
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Join request not found';
+  END IF;
+
+  IF v_match.status != 'pending' THEN
+    RAISE EXCEPTION 'Join request is no longer pending';
+  END IF;
+
+  IF v_match.team_id IS NULL THEN
+    RAISE EXCEPTION 'Team no longer exists';
+  END IF;
+
+  IF v_match.match_type = 'individual_to_team' THEN
+    IF NOT public.is_team_admin(v_match.team_id, auth.uid()) THEN
+      RAISE EXCEPTION 'Unauthorized: Only team admins can respond to join requests';
+    END IF;
+
+    IF EXISTS (
+      SELECT 1 FROM public.teams
+      WHERE id = v_match.team_id AND join_vote_quorum IS NOT NULL
+    ) THEN
+      RAISE EXCEPTION 'This team decides join requests by vote';
+    END IF;
+  ELSIF v_match.target_user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Unauthorized: Only the invited person can respond';
+  ELSIF v_match.user_id = v_match.target_user_id
+     OR NOT public.is_team_member(v_match.team_id, v_match.user_id) THEN
+    -- Only an invitation sent by someone on the team can let you in
+    RAISE EXCEPTION 'This invitation is no longer valid';
+  END IF;
+
+  RETURN public.resolve_join_request(p_match_id, p_accept);
+END;
+$$;
+
+-- 2. CREATING MATCHES
+-- =====================================================
+-- A row names its creator as the sender. It can only carry a team the
+-- creator belongs to, except a request to join that team, and it starts
+-- out as a request or a pass; everything else goes through the functions.
+DROP POLICY IF EXISTS "Users can create matches" ON public.matches;
+CREATE POLICY "Users can create matches" ON public.matches
+  FOR INSERT WITH CHECK (
+    auth.uid() = user_id
+    AND status IN ('pending', 'rejected')
+    AND (
+      team_id IS NULL
+      OR match_type = 'individual_to_team'
+      OR public.is_team_member(team_id, auth.uid())
+    )
+  );
+
+-- Rows with yourself were only ever possible by going around the app
+DELETE FROM public.matches WHERE user_id = target_user_id;
+
+ALTER TABLE public.matches ADD CONSTRAINT matches_not_self_check
+CHECK (user_id <> target_user_id);
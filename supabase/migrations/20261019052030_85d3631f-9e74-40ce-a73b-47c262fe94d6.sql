@@ -0,0 +1,178 @@
+-- Settle join request votes when the team changes
+-- A request was only decided when someone voted, so lowering the quorum or
+-- losing a member could leave it waiting even though enough votes were
+-- already in. Both now re-check the team's pending requests.
+
+-- 1. COUNTING VOTES
+-- =====================================================
+-- Votes from current members and the quorum capped at the team's size.
+-- Internal: callers check permissions first.
+CREATE OR REPLACE FUNCTION public.join_request_tally(p_match_id uuid)
+RETURNS TABLE (approvals integer, rejections integer, quorum integer)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_team_id uuid;
+BEGIN
+  SELECT team_id INTO v_team_id FROM public.matches WHERE id = p_match_id;
+
+  SELECT
+    count(*) FILTER (WHERE v.vote = 'approve'),
+    count(*) FILTER (WHERE v.vote = 'reject')
+  INTO approvals, rejections
+  FROM public.join_request_votes v
+  JOIN public.team_members tm
+    ON tm.team_id = v_team_id AND tm.user_id = v.voter_id AND tm.status = 'confirmed'
+  WHERE v.match_id = p_match_id;
+
+  SELECT LEAST(t.join_vote_quorum, (
+    SELECT count(*) FROM public.team_members tm
+    WHERE tm.team_id = t.id AND tm.status = 'confirmed'
+  ))
+  INTO quorum
+  FROM public.teams t
+  WHERE t.id = v_team_id;
+
+  RETURN NEXT;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.join_request_tally(uuid) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.cast_join_request_vote(
+  p_match_id uuid,
+  p_vote text,
+  p_comment text DEFAULT NULL
+)
+RETURNS json
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_match RECORD;
+  v_quorum integer;
+  v_tally RECORD;
+BEGIN
+  IF p_vote NOT IN ('approve', 'reject') THEN
+    RAISE EXCEPTION 'Invalid vote: %', p_vote;
+  END IF;
+
+  SELECT * INTO v_match
+  FROM public.matches
+  WHERE id = p_match_id AND match_type = 'individual_to_team'
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Join request not found';
+  END IF;
+
+  IF v_match.status != 'pending' THEN
+    RAISE EXCEPTION 'Join request is no longer pending';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.team_members
+    WHERE team_id = v_match.team_id AND user_id = auth.uid() AND status = 'confirmed'
+  ) THEN
+    RAISE EXCEPTION 'Unauthorized: Not a confirmed team member';
+  END IF;
+
+  SELECT join_vote_quorum INTO v_quorum FROM public.teams WHERE id = v_match.team_id;
+  IF v_quorum IS NULL THEN
+    RAISE EXCEPTION 'This team does not vote on join requests';
+  END IF;
+
+  INSERT INTO public.join_request_votes (match_id, voter_id, vote, comment)
+  VALUES (p_match_id, auth.uid(), p_vote, NULLIF(trim(p_comment), ''))
+  ON CONFLICT (match_id, voter_id) DO UPDATE
+  SET vote = EXCLUDED.vote, comment = EXCLUDED.comment, updated_at = now();
+
+  SELECT * INTO v_tally FROM public.join_request_tally(p_match_id);
+
+  IF v_tally.approvals + v_tally.rejections >= v_tally.quorum THEN
+    RETURN (
+      jsonb_build_object('approvals', v_tally.approvals, 'rejections', v_tally.rejections, 'quorum', v_tally.quorum)
+      || public.resolve_join_request(p_match_id, v_tally.approvals > v_tally.rejections)::jsonb
+    )::json;
+  END IF;
+
+  RETURN json_build_object(
+    'status', 'pending',
+    'approvals', v_tally.approvals,
+    'rejections', v_tally.rejections,
+    'quorum', v_tally.quorum
+  );
+END;
+$$;
+
+-- 2. RE-CHECK A TEAM'S PENDING REQUESTS
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.settle_join_request_votes(p_team_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_match_id uuid;
+  v_tally RECORD;
+BEGIN
+  FOR v_match_id IN
+    SELECT m.id
+    FROM public.matches m
+    JOIN public.teams t ON t.id = m.team_id
+    WHERE m.team_id = p_team_id
+      AND m.match_type = 'individual_to_team'
+      AND m.status = 'pending'
+      AND t.join_vote_quorum IS NOT NULL
+    FOR UPDATE OF m
+  LOOP
+    SELECT * INTO v_tally FROM public.join_request_tally(v_match_id);
+
+    IF v_tally.quorum > 0 AND v_tally.approvals + v_tally.rejections >= v_tally.quorum THEN
+      PERFORM public.resolve_join_request(v_match_id, v_tally.approvals > v_tally.rejections);
+    END IF;
+  END LOOP;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.settle_join_request_votes(uuid) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.settle_join_request_votes_for_team()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_TABLE_NAME = 'teams' THEN
+    PERFORM public.settle_join_request_votes(NEW.id);
+  ELSE
+    PERFORM public.settle_join_request_votes(OLD.team_id);
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER settle_join_request_votes_on_quorum
+  AFTER UPDATE OF join_vote_quorum ON public.teams
+  FOR EACH ROW
+  WHEN (NEW.join_vote_quorum IS DISTINCT FROM OLD.join_vote_quorum)
+  EXECUTE FUNCTION public.settle_join_request_votes_for_team();
+
+CREATE TRIGGER settle_join_request_votes_on_member_removed
+  AFTER DELETE ON public.team_members
+  FOR EACH ROW
+  WHEN (OLD.status = 'confirmed')
+  EXECUTE FUNCTION public.settle_join_request_votes_for_team();
+
+CREATE TRIGGER settle_join_request_votes_on_member_unconfirmed
+  AFTER UPDATE OF status ON public.team_members
+  FOR EACH ROW
+  WHEN (OLD.status = 'confirmed' AND NEW.status <> 'confirmed')
+  EXECUTE FUNCTION public.settle_join_request_votes_for_team();
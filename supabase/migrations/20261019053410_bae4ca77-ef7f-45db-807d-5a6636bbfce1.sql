@@ -0,0 +1,108 @@
+-- Team teardown audit entries go through log_audit_event
+-- Same entries as before, written by the shared helper so they're
+-- sanitized like every other audit entry.
+
+CREATE OR REPLACE FUNCTION public.delete_team(p_team_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_team RECORD;
+BEGIN
+  SELECT * INTO v_team
+  FROM public.teams
+  WHERE id = p_team_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_team.created_by IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Unauthorized: Only the team owner can delete the team';
+  END IF;
+
+  PERFORM public.log_audit_event('team_deleted', 'teams', p_team_id,
+    jsonb_build_object('name', v_team.name), NULL,
+    jsonb_build_object('member_count', (
+      SELECT COUNT(*) FROM public.team_members
+      WHERE team_id = p_team_id AND status = 'confirmed'
+    )));
+
+  PERFORM public.disband_team(p_team_id);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.leave_team(p_team_id uuid)
+RETURNS json
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_team RECORD;
+  v_others integer;
+BEGIN
+  SELECT * INTO v_team
+  FROM public.teams
+  WHERE id = p_team_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR NOT EXISTS (
+    SELECT 1 FROM public.team_members
+    WHERE team_id = p_team_id AND user_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'You are not a member of this team';
+  END IF;
+
+  SELECT COUNT(*) INTO v_others
+  FROM public.team_members
+  WHERE team_id = p_team_id
+    AND user_id <> auth.uid()
+    AND status = 'confirmed';
+
+  IF v_others = 0 THEN
+    PERFORM public.log_audit_event('team_disbanded', 'teams', p_team_id,
+      jsonb_build_object('name', v_team.name));
+
+    PERFORM public.disband_team(p_team_id);
+    RETURN json_build_object('left', true, 'disbanded', true);
+  END IF;
+
+  IF v_team.created_by = auth.uid() THEN
+    RAISE EXCEPTION 'Transfer ownership to another member before leaving';
+  END IF;
+
+  -- Open join request threads are updated by sync_join_request_participants
+  DELETE FROM public.team_members
+  WHERE team_id = p_team_id AND user_id = auth.uid();
+
+  DELETE FROM public.conversation_participants cp
+  USING public.conversations c
+  WHERE cp.conversation_id = c.id
+    AND c.team_id = p_team_id
+    AND c.type = 'team'
+    AND cp.user_id = auth.uid();
+
+  DELETE FROM public.message_reads mr
+  USING public.conversations c
+  WHERE mr.conversation_id = c.id
+    AND mr.user_id = auth.uid()
+    AND (c.team_id = p_team_id OR c.match_id IN (
+      SELECT id FROM public.matches WHERE team_id = p_team_id
+    ))
+    AND NOT EXISTS (
+      SELECT 1 FROM public.conversation_participants cp
+      WHERE cp.conversation_id = c.id AND cp.user_id = auth.uid()
+    );
+
+  UPDATE public.team_ownership_transfers
+  SET status = 'cancelled', responded_at = now()
+  WHERE team_id = p_team_id
+    AND to_user_id = auth.uid()
+    AND status = 'pending';
+
+  PERFORM public.log_audit_event('team_left', 'teams', p_team_id,
+    jsonb_build_object('name', v_team.name));
+
+  RETURN json_build_object('left', true, 'disbanded', false);
+END;
+$$;
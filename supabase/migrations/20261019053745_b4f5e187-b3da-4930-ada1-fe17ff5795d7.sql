@@ -0,0 +1,28 @@
+-- Match rows can only be answered from the client
+-- The update policy decides who may touch a row; this decides what they
+-- may change. Through the API only the status moves: who sent it, to whom,
+-- for which team and what kind of request it is stay as they were. The
+-- database functions run as their owner and aren't affected.
+
+CREATE OR REPLACE FUNCTION public.protect_match_columns()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF current_user IN ('anon', 'authenticated')
+     AND (to_jsonb(NEW) - ARRAY['status', 'responded_at'])
+         IS DISTINCT FROM (to_jsonb(OLD) - ARRAY['status', 'responded_at']) THEN
+    RAISE EXCEPTION 'Only the status of a match can be changed';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- BEFORE triggers fire in name order, so this runs ahead of the ones that
+-- fill in derived columns (snapshot, expiry, response time, updated_at)
+-- and only sees what the client sent
+CREATE TRIGGER protect_match_columns
+  BEFORE UPDATE ON public.matches
+  FOR EACH ROW EXECUTE FUNCTION public.protect_match_columns();
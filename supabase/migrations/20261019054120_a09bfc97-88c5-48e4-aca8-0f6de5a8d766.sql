@@ -0,0 +1,97 @@
+-- Join requests are keyed by team
+-- A request to join a team used to share the one-row-per-pair index with
+-- everything else between the student and the team's owner, so an old
+-- like, pass or declined request got in the way of a new one. Now a
+-- student can have one open request per team, separate from their own
+-- matches with its members, and earlier requests stay as history with
+-- their conversations.
+
+-- 1. UNIQUENESS
+-- =====================================================
+DROP INDEX IF EXISTS public.idx_matches_user_target_unique;
+CREATE UNIQUE INDEX idx_matches_user_target_unique
+  ON public.matches (user_id, target_user_id)
+  WHERE match_type IN ('individual', 'individual_to_individual', 'team_to_individual')
+    AND status <> 'withdrawn';
+
+CREATE UNIQUE INDEX idx_matches_open_join_request
+  ON public.matches (user_id, team_id)
+  WHERE match_type = 'individual_to_team' AND status = 'pending';
+
+-- 2. REDEEMING AN INVITE OPENS A FRESH REQUEST
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.redeem_team_invite(p_code text)
+RETURNS json
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_invite public.team_invites;
+  v_owner uuid;
+  v_reason text;
+  v_match_id uuid;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_invite
+  FROM public.team_invites
+  WHERE code = upper(trim(p_code))
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN json_build_object('joined', false, 'reason', 'not_found');
+  END IF;
+
+  -- Serialise joins so concurrent redemptions can't overfill the team
+  SELECT created_by INTO v_owner
+  FROM public.teams
+  WHERE id = v_invite.team_id
+  FOR UPDATE;
+
+  v_reason := public.team_invite_refusal(v_invite, auth.uid());
+  IF v_reason IS NOT NULL THEN
+    RETURN json_build_object('joined', false, 'reason', v_reason, 'team_id', v_invite.team_id);
+  END IF;
+
+  -- Reuse an open request between the student and the team, if any
+  SELECT id INTO v_match_id
+  FROM public.matches
+  WHERE team_id = v_invite.team_id
+    AND status = 'pending'
+    AND (
+      (match_type = 'individual_to_team' AND user_id = auth.uid())
+      OR (match_type = 'team_to_individual' AND target_user_id = auth.uid())
+    )
+  LIMIT 1
+  FOR UPDATE;
+
+  IF v_match_id IS NULL THEN
+    INSERT INTO public.matches (user_id, target_user_id, match_type, team_id, status)
+    VALUES (auth.uid(), v_owner, 'individual_to_team', v_invite.team_id, 'pending')
+    RETURNING id INTO v_match_id;
+
+    INSERT INTO public.conversations (type, match_id, team_id)
+    VALUES ('match', v_match_id, v_invite.team_id);
+
+    INSERT INTO public.conversation_participants (conversation_id, user_id)
+    SELECT c.id, auth.uid()
+    FROM public.conversations c
+    WHERE c.match_id = v_match_id
+    ON CONFLICT (conversation_id, user_id) DO NOTHING;
+  END IF;
+
+  PERFORM public.resolve_join_request(v_match_id, true);
+
+  UPDATE public.team_invites
+  SET use_count = use_count + 1
+  WHERE id = v_invite.id;
+
+  PERFORM public.log_audit_event('team_invite_redeemed', 'teams', v_invite.team_id, NULL, NULL,
+    jsonb_build_object('invite_id', v_invite.id));
+
+  RETURN json_build_object('joined', true, 'team_id', v_invite.team_id);
+END;
+$$;
@@ -0,0 +1,480 @@
+-- Withdrawn requests don't hide people from the decks
+-- Once a request is withdrawn the pair is free to ask again, so the decks
+-- only skip people and teams with a request that is still on record.
+
+-- 1. PEOPLE DECK
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.get_discovery_deck(
+  p_skills text[] DEFAULT '{}',
+  p_programs text[] DEFAULT '{}',
+  p_studios text[] DEFAULT '{}',
+  p_min_overlap_hours integer DEFAULT NULL,
+  p_cursor_score integer DEFAULT NULL,
+  p_cursor_id uuid DEFAULT NULL,
+  p_limit integer DEFAULT 20
+)
+RETURNS TABLE (
+  user_id uuid,
+  name text,
+  program text,
+  skills text[],
+  bio text,
+  studio_preference text,
+  studio_preferences text[],
+  avatar text,
+  linkedin text,
+  availability integer[],
+  score integer
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_viewer uuid := auth.uid();
+  v_team_id uuid;
+  v_team_studio text;
+  v_side_members uuid[];
+  v_side_skills text[];
+  v_side_programs text[];
+  v_side_studios text[];
+  v_side_slots integer[];
+  v_scheduled integer;
+  v_skills_needed text[] := '{}';
+  v_program_needs jsonb := '{}';
+  v_has_needs boolean;
+  v_filter_skills text[];
+BEGIN
+  IF v_viewer IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  -- Viewer side: the team if they have one, otherwise just the viewer
+  SELECT tm.team_id, t.studio,
+         COALESCE(ARRAY(SELECT lower(trim(s)) FROM unnest(t.skills_needed) s), '{}'),
+         COALESCE(t.program_needs, '{}')
+  INTO v_team_id, v_team_studio, v_skills_needed, v_program_needs
+  FROM public.team_members tm
+  JOIN public.teams t ON t.id = tm.team_id
+  WHERE tm.user_id = v_viewer AND tm.status = 'confirmed'
+  LIMIT 1;
+
+  v_side_members := ARRAY(
+    SELECT tm.user_id FROM public.team_members tm
+    WHERE tm.team_id = v_team_id AND tm.status = 'confirmed'
+    UNION
+    SELECT v_viewer WHERE v_team_id IS NULL
+  );
+
+  SELECT
+    COALESCE(array_agg(DISTINCT lower(trim(s))) FILTER (WHERE s IS NOT NULL), '{}'),
+    COALESCE(array_agg(DISTINCT m.program), '{}')
+  INTO v_side_skills, v_side_programs
+  FROM public.profiles m
+  LEFT JOIN LATERAL unnest(m.skills) s ON true
+  WHERE m.user_id = ANY (v_side_members);
+
+  IF v_team_id IS NOT NULL THEN
+    v_side_studios := ARRAY[v_team_studio];
+  ELSE
+    SELECT COALESCE(NULLIF(p.studio_preferences, '{}'), ARRAY[p.studio_preference])
+    INTO v_side_studios
+    FROM public.profiles p WHERE p.user_id = v_viewer;
+  END IF;
+
+  -- Free time shared by everyone on the viewer side with a schedule
+  SELECT count(*) INTO v_scheduled
+  FROM public.profiles m
+  WHERE m.user_id = ANY (v_side_members) AND cardinality(m.availability) > 0;
+
+  v_side_slots := ARRAY(
+    SELECT s FROM public.profiles m, unnest(m.availability) s
+    WHERE m.user_id = ANY (v_side_members)
+    GROUP BY s
+    HAVING count(DISTINCT m.user_id) = v_scheduled
+  );
+
+  v_has_needs := EXISTS (
+    SELECT 1 FROM jsonb_each_text(v_program_needs) n WHERE n.value::int > 0
+  );
+
+  -- Stored skills are canonical, so filters only need canonicalizing once
+  v_filter_skills := ARRAY(
+    SELECT lower(public.canonicalize_skill(f)) FROM unnest(COALESCE(p_skills, '{}')) f
+  );
+
+  RETURN QUERY
+  WITH candidates AS (
+    SELECT
+      p.*,
+      ARRAY(SELECT DISTINCT lower(trim(s)) FROM unnest(COALESCE(p.skills, '{}')) s) AS norm_skills,
+      COALESCE(NULLIF(p.studio_preferences, '{}'), ARRAY[p.studio_preference]) AS all_studios,
+      (SELECT count(*) FROM unnest(p.availability) s WHERE s = ANY (v_side_slots)) AS shared_slots
+    FROM public.profiles p
+    WHERE p.user_id <> v_viewer
+      AND NOT EXISTS (
+        SELECT 1 FROM public.team_members tm
+        WHERE tm.user_id = p.user_id AND tm.status = 'confirmed'
+      )
+      AND NOT EXISTS (
+        SELECT 1 FROM public.matches m
+        WHERE m.user_id = v_viewer
+          AND m.target_user_id = p.user_id
+          AND m.match_type IN ('individual_to_individual', 'team_to_individual')
+          AND m.status <> 'withdrawn'
+      )
+      AND NOT EXISTS (
+        SELECT 1 FROM public.saved_items si
+        WHERE si.user_id = v_viewer AND si.target_user_id = p.user_id
+      )
+      AND (cardinality(v_filter_skills) = 0
+           OR EXISTS (SELECT 1 FROM unnest(p.skills) s WHERE lower(s) = ANY (v_filter_skills)))
+      AND (cardinality(COALESCE(p_programs, '{}')) = 0 OR p.program = ANY (p_programs))
+      AND (cardinality(COALESCE(p_studios, '{}')) = 0
+           OR COALESCE(NULLIF(p.studio_preferences, '{}'), ARRAY[p.studio_preference]) && p_studios)
+  ),
+  scored AS (
+    SELECT
+      c.*,
+      (
+        -- Complementary skills, with skills the team asked for counting double
+        CASE WHEN cardinality(c.norm_skills) = 0 THEN 0 ELSE round(
+          (
+            (SELECT count(*) FROM unnest(c.norm_skills) s WHERE NOT s = ANY (v_side_skills))
+            + (SELECT count(*) FROM unnest(c.norm_skills) s WHERE s = ANY (v_skills_needed))
+          )::numeric
+          / (cardinality(c.norm_skills) + (SELECT count(*) FROM unnest(c.norm_skills) s WHERE s = ANY (v_skills_needed)))
+          * 40
+        ) END
+        -- Program fit: declared needs win, otherwise reward diversity
+        + CASE
+            WHEN COALESCE((v_program_needs ->> c.program)::int, 0) > 0 THEN 35
+            WHEN NOT v_has_needs AND NOT c.program = ANY (v_side_programs) THEN 35
+            ELSE 0
+          END
+        -- Studio overlap
+        + round(
+            (SELECT count(*) FROM unnest(c.all_studios) s WHERE s = ANY (v_side_studios))::numeric
+            / GREATEST(cardinality(c.all_studios), 1)
+            * 25
+          )
+        -- Schedule overlap (ranking only; not part of the displayed match %)
+        + CASE WHEN cardinality(v_side_slots) = 0 THEN 0 ELSE round(
+            c.shared_slots::numeric / cardinality(v_side_slots) * 20
+          ) END
+      )::integer AS score
+    FROM candidates c
+    -- Slots are two hours long
+    WHERE p_min_overlap_hours IS NULL OR c.shared_slots * 2 >= p_min_overlap_hours
+  )
+  SELECT
+    sc.user_id, sc.name, sc.program, sc.skills, sc.bio, sc.studio_preference,
+    sc.studio_preferences, sc.avatar, sc.linkedin, sc.availability, sc.score
+  FROM scored sc
+  WHERE p_cursor_score IS NULL
+     OR sc.score < p_cursor_score
+     OR (sc.score = p_cursor_score AND sc.user_id > p_cursor_id)
+  ORDER BY sc.score DESC, sc.user_id ASC
+  LIMIT LEAST(GREATEST(p_limit, 1), 100);
+END;
+$$;
+
+-- 2. TEAM SWIPE DECK
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.get_team_swipe_deck(
+  p_skills text[] DEFAULT '{}',
+  p_programs text[] DEFAULT '{}',
+  p_studios text[] DEFAULT '{}',
+  p_min_overlap_hours integer DEFAULT NULL,
+  p_cursor_support integer DEFAULT NULL,
+  p_cursor_score integer DEFAULT NULL,
+  p_cursor_id uuid DEFAULT NULL,
+  p_limit integer DEFAULT 20
+)
+RETURNS TABLE (
+  user_id uuid,
+  name text,
+  program text,
+  skills text[],
+  bio text,
+  studio_preference text,
+  studio_preferences text[],
+  avatar text,
+  linkedin text,
+  availability integer[],
+  score integer,
+  support integer,
+  supporters text[]
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_viewer uuid := auth.uid();
+  v_team_id uuid;
+  v_team_studio text;
+  v_side_skills text[];
+  v_side_programs text[];
+  v_side_slots integer[];
+  v_scheduled integer;
+  v_skills_needed text[] := '{}';
+  v_program_needs jsonb := '{}';
+  v_has_needs boolean;
+  v_filter_skills text[];
+BEGIN
+  IF v_viewer IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT tm.team_id, t.studio,
+         COALESCE(ARRAY(SELECT lower(trim(s)) FROM unnest(t.skills_needed) s), '{}'),
+         COALESCE(t.program_needs, '{}')
+  INTO v_team_id, v_team_studio, v_skills_needed, v_program_needs
+  FROM public.team_members tm
+  JOIN public.teams t ON t.id = tm.team_id
+  WHERE tm.user_id = v_viewer AND tm.status = 'confirmed'
+  LIMIT 1;
+
+  IF v_team_id IS NULL THEN
+    RAISE EXCEPTION 'Unauthorized: Not a confirmed team member';
+  END IF;
+
+  SELECT
+    COALESCE(array_agg(DISTINCT lower(trim(s))) FILTER (WHERE s IS NOT NULL), '{}'),
+    COALESCE(array_agg(DISTINCT m.program), '{}')
+  INTO v_side_skills, v_side_programs
+  FROM public.profiles m
+  LEFT JOIN LATERAL unnest(m.skills) s ON true
+  WHERE m.user_id IN (
+    SELECT tm.user_id FROM public.team_members tm
+    WHERE tm.team_id = v_team_id AND tm.status = 'confirmed'
+  );
+
+  -- Free time shared by every teammate with a schedule
+  SELECT count(*) INTO v_scheduled
+  FROM public.profiles m
+  JOIN public.team_members tm
+    ON tm.user_id = m.user_id AND tm.team_id = v_team_id AND tm.status = 'confirmed'
+  WHERE cardinality(m.availability) > 0;
+
+  v_side_slots := ARRAY(
+    SELECT s
+    FROM public.profiles m
+    JOIN public.team_members tm
+      ON tm.user_id = m.user_id AND tm.team_id = v_team_id AND tm.status = 'confirmed',
+    unnest(m.availability) s
+    GROUP BY s
+    HAVING count(DISTINCT m.user_id) = v_scheduled
+  );
+
+  v_has_needs := EXISTS (
+    SELECT 1 FROM jsonb_each_text(v_program_needs) n WHERE n.value::int > 0
+  );
+
+  v_filter_skills := ARRAY(
+    SELECT lower(public.canonicalize_skill(f)) FROM unnest(COALESCE(p_skills, '{}')) f
+  );
+
+  RETURN QUERY
+  WITH candidates AS (
+    SELECT
+      p.*,
+      ARRAY(SELECT DISTINCT lower(trim(s)) FROM unnest(COALESCE(p.skills, '{}')) s) AS norm_skills,
+      COALESCE(NULLIF(p.studio_preferences, '{}'), ARRAY[p.studio_preference]) AS all_studios,
+      (SELECT count(*) FROM unnest(p.availability) s WHERE s = ANY (v_side_slots)) AS shared_slots
+    FROM public.profiles p
+    WHERE p.user_id <> v_viewer
+      AND NOT EXISTS (
+        SELECT 1 FROM public.team_members tm
+        WHERE tm.user_id = p.user_id AND tm.status = 'confirmed'
+      )
+      AND NOT EXISTS (
+        SELECT 1 FROM public.matches m
+        WHERE m.target_user_id = p.user_id
+          AND (
+            (m.user_id = v_viewer AND m.match_type IN ('individual_to_individual', 'team_to_individual'))
+            OR (m.team_id = v_team_id AND m.match_type = 'team_to_individual')
+          )
+          AND m.status <> 'withdrawn'
+      )
+      AND NOT EXISTS (
+        SELECT 1 FROM public.team_candidate_votes v
+        WHERE v.team_id = v_team_id AND v.candidate_id = p.user_id AND v.voter_id = v_viewer
+      )
+      AND NOT EXISTS (
+        SELECT 1 FROM public.saved_items si
+        WHERE si.user_id = v_viewer AND si.target_user_id = p.user_id
+      )
+      AND (cardinality(v_filter_skills) = 0
+           OR EXISTS (SELECT 1 FROM unnest(p.skills) s WHERE lower(s) = ANY (v_filter_skills)))
+      AND (cardinality(COALESCE(p_programs, '{}')) = 0 OR p.program = ANY (p_programs))
+      AND (cardinality(COALESCE(p_studios, '{}')) = 0
+           OR COALESCE(NULLIF(p.studio_preferences, '{}'), ARRAY[p.studio_preference]) && p_studios)
+  ),
+  scored AS (
+    SELECT
+      c.*,
+      (
+        CASE WHEN cardinality(c.norm_skills) = 0 THEN 0 ELSE round(
+          (
+            (SELECT count(*) FROM unnest(c.norm_skills) s WHERE NOT s = ANY (v_side_skills))
+            + (SELECT count(*) FROM unnest(c.norm_skills) s WHERE s = ANY (v_skills_needed))
+          )::numeric
+          / (cardinality(c.norm_skills) + (SELECT count(*) FROM unnest(c.norm_skills) s WHERE s = ANY (v_skills_needed)))
+          * 40
+        ) END
+        + CASE
+            WHEN COALESCE((v_program_needs ->> c.program)::int, 0) > 0 THEN 35
+            WHEN NOT v_has_needs AND NOT c.program = ANY (v_side_programs) THEN 35
+            ELSE 0
+          END
+        + round(
+            (SELECT count(*) FROM unnest(c.all_studios) s WHERE s = v_team_studio)::numeric
+            / GREATEST(cardinality(c.all_studios), 1)
+            * 25
+          )
+        + CASE WHEN cardinality(v_side_slots) = 0 THEN 0 ELSE round(
+            c.shared_slots::numeric / cardinality(v_side_slots) * 20
+          ) END
+      )::integer AS score,
+      likes.names AS supporters
+    FROM candidates c
+    -- Likes from current teammates
+    CROSS JOIN LATERAL (
+      SELECT COALESCE(array_agg(lp.name ORDER BY v.created_at), '{}') AS names
+      FROM public.team_candidate_votes v
+      JOIN public.team_members tm
+        ON tm.team_id = v.team_id AND tm.user_id = v.voter_id AND tm.status = 'confirmed'
+      JOIN public.profiles lp ON lp.user_id = v.voter_id
+      WHERE v.team_id = v_team_id AND v.candidate_id = c.user_id AND v.vote = 'like'
+    ) likes
+    WHERE p_min_overlap_hours IS NULL OR c.shared_slots * 2 >= p_min_overlap_hours
+  )
+  SELECT
+    sc.user_id, sc.name, sc.program, sc.skills, sc.bio, sc.studio_preference,
+    sc.studio_preferences, sc.avatar, sc.linkedin, sc.availability, sc.score,
+    cardinality(sc.supporters) AS support, sc.supporters
+  FROM scored sc
+  WHERE p_cursor_score IS NULL
+     OR cardinality(sc.supporters) < p_cursor_support
+     OR (cardinality(sc.supporters) = p_cursor_support
+         AND (sc.score < p_cursor_score
+              OR (sc.score = p_cursor_score AND sc.user_id > p_cursor_id)))
+  ORDER BY cardinality(sc.supporters) DESC, sc.score DESC, sc.user_id ASC
+  LIMIT LEAST(GREATEST(p_limit, 1), 100);
+END;
+$$;
+
+-- 3. TEAM DECK
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.get_team_deck(
+  p_skills text[] DEFAULT '{}',
+  p_looking_for text[] DEFAULT '{}',
+  p_studios text[] DEFAULT '{}',
+  p_team_size integer DEFAULT NULL,
+  p_cursor_created_at timestamp with time zone DEFAULT NULL,
+  p_cursor_id uuid DEFAULT NULL,
+  p_limit integer DEFAULT 20
+)
+RETURNS TABLE (
+  id uuid,
+  name text,
+  description text,
+  studio text,
+  skills_needed text[],
+  program_needs jsonb,
+  created_by uuid,
+  created_at timestamp with time zone,
+  members jsonb
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_viewer uuid := auth.uid();
+  v_filter_skills text[];
+BEGIN
+  IF v_viewer IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  v_filter_skills := ARRAY(
+    SELECT lower(public.canonicalize_skill(f)) FROM unnest(COALESCE(p_skills, '{}')) f
+  );
+
+  RETURN QUERY
+  WITH team_rows AS (
+    SELECT
+      t.*,
+      (SELECT count(*) FROM public.team_members tm
+       WHERE tm.team_id = t.id AND tm.status = 'confirmed') AS member_count
+    FROM public.teams t
+    WHERE t.recruiting_status = 'open'
+      AND NOT EXISTS (
+        SELECT 1 FROM public.team_members tm
+        WHERE tm.team_id = t.id AND tm.user_id = v_viewer AND tm.status = 'confirmed'
+      )
+      AND NOT EXISTS (
+        SELECT 1 FROM public.matches m
+        WHERE m.user_id = v_viewer
+          AND m.team_id = t.id
+          AND m.match_type = 'individual_to_team'
+          AND m.status <> 'withdrawn'
+      )
+      AND NOT EXISTS (
+        SELECT 1 FROM public.saved_items si
+        WHERE si.user_id = v_viewer AND si.team_id = t.id
+      )
+      -- Teams already discussing a merge with the viewer's team
+      AND NOT EXISTS (
+        SELECT 1 FROM public.matches m
+        JOIN public.team_members vm
+          ON vm.team_id IN (m.team_id, m.target_team_id)
+         AND vm.user_id = v_viewer AND vm.status = 'confirmed'
+        WHERE m.match_type = 'team_to_team'
+          AND m.status = 'pending'
+          AND t.id IN (m.team_id, m.target_team_id)
+      )
+      AND (cardinality(v_filter_skills) = 0
+           OR EXISTS (SELECT 1 FROM unnest(t.skills_needed) s WHERE lower(s) = ANY (v_filter_skills)))
+      AND (cardinality(COALESCE(p_looking_for, '{}')) = 0
+           OR EXISTS (
+             SELECT 1 FROM jsonb_each_text(t.program_needs) n
+             WHERE n.key = ANY (p_looking_for) AND n.value::int > 0
+           ))
+      AND (cardinality(COALESCE(p_studios, '{}')) = 0 OR t.studio = ANY (p_studios))
+      AND (p_cursor_created_at IS NULL OR (t.created_at, t.id) < (p_cursor_created_at, p_cursor_id))
+  )
+  SELECT
+    tr.id, tr.name, tr.description, tr.studio, tr.skills_needed, tr.program_needs,
+    tr.created_by, tr.created_at,
+    COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'user_id', p.user_id,
+        'name', p.name,
+        'program', p.program,
+        'skills', p.skills,
+        'bio', p.bio,
+        'studio_preference', p.studio_preference,
+        'studio_preferences', p.studio_preferences,
+        'avatar', p.avatar,
+        'linkedin', p.linkedin
+      ) ORDER BY tm.created_at)
+      FROM public.team_members tm
+      JOIN public.profiles p ON p.user_id = tm.user_id
+      WHERE tm.team_id = tr.id AND tm.status = 'confirmed'
+    ), '[]'::jsonb) AS members
+  FROM team_rows tr
+  -- 4 means "4 or more" to match the filter panel
+  WHERE p_team_size IS NULL
+     OR (p_team_size >= 4 AND tr.member_count >= 4)
+     OR tr.member_count = p_team_size
+  ORDER BY tr.created_at DESC, tr.id DESC
+  LIMIT LEAST(GREATEST(p_limit, 1), 100);
+END;
+$$;
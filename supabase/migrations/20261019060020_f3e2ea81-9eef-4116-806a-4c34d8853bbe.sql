@@ -0,0 +1,324 @@
+-- Team deck requests only go out through the vote
+-- A team with a like quorum sends a request to a candidate once enough
+-- members liked them. Until now only the team deck kept to that: the
+-- shortlist, or any member calling create_match_with_conversation or
+-- inserting a row, could send one on their own. The quorum is now checked
+-- wherever a team request is created. The request goes out in whichever
+-- member's name was free, so any member of the team can undo it.
+
+-- 1. HELPERS
+-- =====================================================
+-- True when the team has no quorum, or enough of its current members
+-- liked the candidate. Matches the count in cast_team_candidate_vote.
+CREATE OR REPLACE FUNCTION public.team_quorum_reached(_team_id uuid, _candidate_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT t.swipe_quorum IS NULL OR (
+    SELECT count(*)
+    FROM public.team_candidate_votes v
+    JOIN public.team_members tm
+      ON tm.team_id = v.team_id AND tm.user_id = v.voter_id AND tm.status = 'confirmed'
+    WHERE v.team_id = t.id
+      AND v.candidate_id = _candidate_id
+      AND v.vote = 'like'
+  ) >= LEAST(t.swipe_quorum, (
+    SELECT count(*)
+    FROM public.team_members
+    WHERE team_id = t.id AND status = 'confirmed'
+  ))
+  FROM public.teams t
+  WHERE t.id = _team_id
+$$;
+
+-- 2. CREATING TEAM REQUESTS
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.create_match_with_conversation(
+  p_user_id uuid,
+  p_target_user_id uuid,
+  p_match_type text,
+  p_team_id uuid DEFAULT NULL,
+  p_conversation_type text DEFAULT 'match',
+  p_application_answers jsonb DEFAULT NULL
+)
+RETURNS json
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_match_id uuid;
+  v_conversation_id uuid;
+  v_reciprocal_id uuid;
+  v_passed_id uuid;
+  v_is_team_member boolean;
+  v_questions jsonb;
+BEGIN
+  -- CRITICAL: Authorization check - user must be creating a match for themselves
+  IF auth.uid() != p_user_id THEN
+    -- For team matches, verify the caller is a confirmed team member
+    IF p_team_id IS NULL THEN
+      RAISE EXCEPTION 'Unauthorized: Can only create matches for yourself';
+    END IF;
+
+    -- Check team membership
+    SELECT EXISTS(
+      SELECT 1 FROM public.team_members tm
+      WHERE tm.team_id = p_team_id
+        AND tm.user_id = auth.uid()
+        AND tm.status = 'confirmed'
+    ) INTO v_is_team_member;
+
+    IF NOT v_is_team_member THEN
+      RAISE EXCEPTION 'Unauthorized: Not a confirmed team member';
+    END IF;
+  END IF;
+
+  -- Validate match_type is one of allowed values
+  IF p_match_type NOT IN ('individual_to_individual', 'team_to_individual',
+                          'individual_to_team', 'team_to_team', 'individual') THEN
+    RAISE EXCEPTION 'Invalid match_type: %', p_match_type;
+  END IF;
+
+  -- Validate conversation_type
+  IF p_conversation_type NOT IN ('match', 'team', 'direct') THEN
+    RAISE EXCEPTION 'Invalid conversation_type: %', p_conversation_type;
+  END IF;
+
+  -- Answers only accompany a request to join a team
+  IF p_application_answers IS NOT NULL THEN
+    IF p_match_type != 'individual_to_team' THEN
+      RAISE EXCEPTION 'Application answers are only allowed on join requests';
+    END IF;
+
+    IF NOT public.valid_application_answers(p_application_answers) THEN
+      RAISE EXCEPTION 'Invalid application answers';
+    END IF;
+  END IF;
+
+  -- A team that asks questions gets an answer to each of them, in order
+  IF p_match_type = 'individual_to_team' THEN
+    SELECT application_questions INTO v_questions
+    FROM public.teams
+    WHERE id = p_team_id;
+
+    IF jsonb_array_length(COALESCE(v_questions, '[]'::jsonb)) > 0 AND (
+      p_application_answers IS NULL
+      OR jsonb_array_length(p_application_answers) != jsonb_array_length(v_questions)
+      OR EXISTS (
+        SELECT 1
+        FROM jsonb_array_elements_text(v_questions) WITH ORDINALITY AS q(question, position)
+        WHERE trim(p_application_answers->(q.position::int - 1)->>'question') IS DISTINCT FROM trim(q.question)
+           OR trim(COALESCE(p_application_answers->(q.position::int - 1)->>'answer', '')) = ''
+      )
+    ) THEN
+      RAISE EXCEPTION 'Answer each of the team''s application questions';
+    END IF;
+  END IF;
+
+  -- A team that swipes together only sends a request once enough of it
+  -- liked the person; the vote that gets there comes through here too
+  IF p_match_type = 'team_to_individual'
+     AND NOT public.team_quorum_reached(p_team_id, p_target_user_id) THEN
+    RAISE EXCEPTION 'Your team hasn''t reached its like quorum for this person';
+  END IF;
+
+  -- Prevent self-matching
+  IF p_user_id = p_target_user_id THEN
+    RAISE EXCEPTION 'Cannot create a match with yourself';
+  END IF;
+
+  IF p_match_type = 'individual_to_individual' THEN
+    -- Serialize likes between the same pair so two simultaneous swipes
+    -- can't both miss each other and end up as two pending rows
+    PERFORM pg_advisory_xact_lock(
+      hashtext(LEAST(p_user_id, p_target_user_id)::text || GREATEST(p_user_id, p_target_user_id)::text)
+    );
+
+    SELECT id INTO v_reciprocal_id
+    FROM public.matches
+    WHERE user_id = p_target_user_id
+      AND target_user_id = p_user_id
+      AND match_type = 'individual_to_individual'
+      AND status IN ('pending', 'matched')
+    FOR UPDATE;
+  END IF;
+
+  -- A like from the second-look deck converts the earlier pass
+  IF p_match_type IN ('individual_to_individual', 'team_to_individual') THEN
+    SELECT id INTO v_passed_id
+    FROM public.matches
+    WHERE user_id = p_user_id
+      AND target_user_id = p_target_user_id
+      AND match_type IN ('individual_to_individual', 'team_to_individual')
+      AND is_pass
+    ORDER BY created_at DESC
+    LIMIT 1
+    FOR UPDATE;
+  END IF;
+
+  IF v_reciprocal_id IS NOT NULL THEN
+    -- Mutual like: record ours as matched and flip theirs
+    IF v_passed_id IS NOT NULL THEN
+      UPDATE public.matches
+      SET match_type = p_match_type, team_id = p_team_id, status = 'matched', target_snapshot = NULL
+      WHERE id = v_passed_id
+      RETURNING id INTO v_match_id;
+    ELSE
+      INSERT INTO public.matches (user_id, target_user_id, match_type, team_id, status)
+      VALUES (p_user_id, p_target_user_id, p_match_type, p_team_id, 'matched')
+      RETURNING id INTO v_match_id;
+    END IF;
+
+    UPDATE public.matches
+    SET status = 'matched'
+    WHERE id = v_reciprocal_id;
+
+    -- Reuse the conversation created by the first like
+    SELECT id INTO v_conversation_id
+    FROM public.conversations
+    WHERE match_id = v_reciprocal_id
+    ORDER BY created_at
+    LIMIT 1;
+
+    IF v_conversation_id IS NULL THEN
+      INSERT INTO public.conversations (type, match_id, team_id)
+      VALUES (p_conversation_type, v_reciprocal_id, p_team_id)
+      RETURNING id INTO v_conversation_id;
+    END IF;
+
+    INSERT INTO public.conversation_participants (conversation_id, user_id)
+    VALUES
+      (v_conversation_id, p_user_id),
+      (v_conversation_id, p_target_user_id)
+    ON CONFLICT (conversation_id, user_id) DO NOTHING;
+
+    RETURN json_build_object(
+      'match_id', v_match_id,
+      'conversation_id', v_conversation_id,
+      'is_mutual', true
+    );
+  END IF;
+
+  -- Create match
+  IF v_passed_id IS NOT NULL THEN
+    UPDATE public.matches
+    SET match_type = p_match_type, team_id = p_team_id, status = 'pending', target_snapshot = NULL
+    WHERE id = v_passed_id
+    RETURNING id INTO v_match_id;
+  ELSE
+    INSERT INTO public.matches (user_id, target_user_id, match_type, team_id, status, application_answers)
+    VALUES (p_user_id, p_target_user_id, p_match_type, p_team_id, 'pending', p_application_answers)
+    RETURNING id INTO v_match_id;
+  END IF;
+
+  -- Create conversation
+  INSERT INTO public.conversations (type, match_id, team_id)
+  VALUES (p_conversation_type, v_match_id, p_team_id)
+  RETURNING id INTO v_conversation_id;
+
+  -- Add participants; on join requests the team has already been added
+  -- by the conversation trigger, which includes the target
+  INSERT INTO public.conversation_participants (conversation_id, user_id)
+  VALUES
+    (v_conversation_id, p_user_id),
+    (v_conversation_id, p_target_user_id)
+  ON CONFLICT (conversation_id, user_id) DO NOTHING;
+
+  RETURN json_build_object(
+    'match_id', v_match_id,
+    'conversation_id', v_conversation_id,
+    'is_mutual', false
+  );
+END;
+$$;
+
+-- Rows inserted directly are held to the same quorum
+DROP POLICY IF EXISTS "Users can create matches" ON public.matches;
+CREATE POLICY "Users can create matches" ON public.matches
+  FOR INSERT WITH CHECK (
+    auth.uid() = user_id
+    AND status IN ('pending', 'rejected')
+    AND (
+      team_id IS NULL
+      OR match_type = 'individual_to_team'
+      OR public.is_team_member(team_id, auth.uid())
+    )
+    AND (
+      match_type <> 'team_to_individual'
+      OR status <> 'pending'
+      OR public.team_quorum_reached(team_id, target_user_id)
+    )
+  );
+
+-- 3. UNDO
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.undo_swipe(p_match_id uuid)
+RETURNS json
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  -- Keep in sync with UNDO_WINDOW_MINUTES in src/lib/undo.ts
+  v_window interval := interval '10 minutes';
+  v_match RECORD;
+BEGIN
+  SELECT * INTO v_match
+  FROM public.matches
+  WHERE id = p_match_id
+  FOR UPDATE;
+
+  -- A team's request can be taken back by any of its members
+  IF NOT FOUND OR NOT (
+    v_match.user_id = auth.uid()
+    OR (
+      v_match.match_type = 'team_to_individual'
+      AND NOT v_match.is_pass
+      AND public.is_team_member(v_match.team_id, auth.uid())
+    )
+  ) THEN
+    RAISE EXCEPTION 'Swipe not found';
+  END IF;
+
+  IF v_match.status IN ('matched', 'accepted') THEN
+    RETURN json_build_object('undone', false, 'reason', 'accepted');
+  END IF;
+
+  -- A rejected row that isn't our own pass was declined by the other side;
+  -- deleting it would erase their answer and the conversation it lives in
+  IF v_match.status = 'rejected' AND (
+    NOT v_match.is_pass
+    OR EXISTS (SELECT 1 FROM public.conversations WHERE match_id = p_match_id)
+  ) THEN
+    RETURN json_build_object('undone', false, 'reason', 'responded');
+  END IF;
+
+  IF v_match.updated_at < now() - v_window THEN
+    RETURN json_build_object('undone', false, 'reason', 'expired');
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM public.conversations c
+    JOIN public.messages msg ON msg.conversation_id = c.id
+    WHERE c.match_id = p_match_id
+      AND msg.sender_id <> v_match.user_id
+      AND NOT (
+        v_match.match_type = 'team_to_individual'
+        AND public.is_team_member(v_match.team_id, msg.sender_id)
+      )
+  ) THEN
+    RETURN json_build_object('undone', false, 'reason', 'replied');
+  END IF;
+
+  -- Participants and messages cascade with the conversation
+  DELETE FROM public.conversations WHERE match_id = p_match_id;
+  DELETE FROM public.matches WHERE id = p_match_id;
+
+  RETURN json_build_object('undone', true);
+END;
+$$;
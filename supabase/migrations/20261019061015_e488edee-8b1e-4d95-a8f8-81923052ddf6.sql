@@ -0,0 +1,7 @@
+-- Matches are only removed through undo_swipe
+-- undo_swipe refuses to take back a swipe that was accepted, answered,
+-- replied to or made too long ago. Deleting the row directly skipped all
+-- of that, and let the recipient erase a request they had been sent. The
+-- app never deletes matches itself, so clients lose the DELETE path.
+
+DROP POLICY IF EXISTS "Users and team admins can delete matches" ON public.matches;
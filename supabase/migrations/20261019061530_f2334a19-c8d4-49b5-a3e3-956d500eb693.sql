@@ -0,0 +1,7 @@
+-- Merge rows don't share the per-user pair
+-- Merge rows are keyed by team_id / target_team_id. The user pair on them is
+-- just the proposer and the target owner, who may well have a match row of
+-- their own already, so the table-wide unique pair has to go. The partial
+-- idx_matches_user_target_unique index covers every other kind of row.
+
+ALTER TABLE public.matches DROP CONSTRAINT IF EXISTS matches_user_id_target_user_id_key;
@@ -0,0 +1,67 @@
+-- Program needs are whole, non-negative counts
+-- The object check on teams.program_needs let through negative, fractional
+-- and non-numeric counts, which the join trigger then tripped over. Needs
+-- are now checked entry by entry, and the trigger only decrements a
+-- program whose count is a number.
+
+-- 1. VALIDATION
+-- =====================================================
+-- An object of whole, non-negative counts; the join trigger relies on it
+CREATE OR REPLACE FUNCTION public.valid_program_needs(p_needs jsonb)
+RETURNS boolean
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT jsonb_typeof(p_needs) = 'object'
+    AND NOT EXISTS (
+      SELECT 1 FROM jsonb_each(p_needs) n
+      WHERE CASE
+        WHEN jsonb_typeof(n.value) = 'number'
+          THEN (n.value)::numeric < 0 OR (n.value)::numeric <> trunc((n.value)::numeric)
+        ELSE true
+      END
+    );
+$$;
+
+ALTER TABLE public.teams DROP CONSTRAINT IF EXISTS teams_program_needs_object_check;
+ALTER TABLE public.teams DROP CONSTRAINT IF EXISTS teams_program_needs_check;
+ALTER TABLE public.teams ADD CONSTRAINT teams_program_needs_check
+CHECK (public.valid_program_needs(program_needs));
+
+-- 2. DECREMENT NEEDS WHEN A MEMBER JOINS
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.decrement_team_program_needs()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_program text;
+BEGIN
+  -- Only newly confirmed members count; the owner was there before the needs
+  IF NEW.status != 'confirmed' OR NEW.role = 'owner' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND OLD.status = 'confirmed' THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT program INTO v_program FROM public.profiles WHERE user_id = NEW.user_id;
+  IF v_program IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  UPDATE public.teams
+  SET program_needs = CASE
+    WHEN (program_needs->>v_program)::integer > 1
+      THEN jsonb_set(program_needs, ARRAY[v_program], to_jsonb((program_needs->>v_program)::integer - 1))
+    ELSE program_needs - v_program
+  END
+  WHERE id = NEW.team_id AND jsonb_typeof(program_needs->v_program) = 'number';
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,67 @@
+-- Mark passes explicitly
+-- A pass is a row inserted as 'rejected'. A like the other side declined is
+-- also 'rejected' but started out pending; is_pass tells them apart so the
+-- second look never resurfaces (or overrides) someone else's decision.
+
+-- 1. SCHEMA
+-- =====================================================
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public' AND table_name = 'matches' AND column_name = 'is_pass'
+  ) THEN
+    ALTER TABLE public.matches ADD COLUMN is_pass boolean NOT NULL DEFAULT false;
+
+    -- Existing passes: rejected without ever getting a conversation
+    UPDATE public.matches m
+    SET is_pass = true
+    WHERE m.status = 'rejected'
+      AND NOT EXISTS (SELECT 1 FROM public.conversations c WHERE c.match_id = m.id);
+  END IF;
+END;
+$$;
+
+-- 2. PROFILE SNAPSHOT ON PASS
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.snapshot_passed_profile()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Set here rather than trusted from the client; a row only stays a pass
+  -- while it is still rejected
+  IF TG_OP = 'INSERT' THEN
+    NEW.is_pass := NEW.status = 'rejected';
+  ELSE
+    NEW.is_pass := OLD.is_pass AND NEW.status = 'rejected';
+  END IF;
+
+  IF NEW.is_pass
+     AND NEW.match_type IN ('individual_to_individual', 'team_to_individual') THEN
+    SELECT jsonb_build_object(
+      'program', p.program,
+      'skills', to_jsonb(COALESCE(p.skills, '{}')),
+      'bio', p.bio,
+      'studio_preferences', to_jsonb(COALESCE(p.studio_preferences, ARRAY[p.studio_preference]))
+    )
+    INTO NEW.target_snapshot
+    FROM public.profiles p
+    WHERE p.user_id = NEW.target_user_id;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+-- Passing again from the second-look deck refreshes the snapshot
+DROP TRIGGER IF EXISTS snapshot_passed_profile ON public.matches;
+CREATE TRIGGER snapshot_passed_profile
+  BEFORE INSERT OR UPDATE OF status, is_pass ON public.matches
+  FOR EACH ROW EXECUTE FUNCTION public.snapshot_passed_profile();
+
+DROP INDEX IF EXISTS public.idx_matches_user_rejected;
+CREATE INDEX IF NOT EXISTS idx_matches_user_passes
+  ON public.matches (user_id, updated_at)
+  WHERE is_pass;
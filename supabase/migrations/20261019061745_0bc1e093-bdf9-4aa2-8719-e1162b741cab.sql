@@ -0,0 +1,30 @@
+-- Only join requests and invitations expire
+-- One-sided likes and team merges have no one waiting on an answer, so
+-- they never get a deadline; the ones that already have one lose it.
+
+UPDATE public.matches
+SET expires_at = NULL, reminded_hours_before = NULL
+WHERE status = 'pending'
+  AND match_type NOT IN ('individual_to_team', 'team_to_individual')
+  AND expires_at IS NOT NULL;
+
+-- Every time a request becomes pending, its clock starts again
+CREATE OR REPLACE FUNCTION public.set_match_expiry()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'pending' AND (TG_OP = 'INSERT' OR OLD.status <> 'pending') THEN
+    NEW.expires_at := CASE
+      WHEN NEW.match_type IN ('individual_to_team', 'team_to_individual')
+      THEN now() + make_interval(days => COALESCE(
+        (SELECT expire_after_days FROM public.request_expiry_settings), 5
+      ))
+    END;
+    NEW.reminded_hours_before := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
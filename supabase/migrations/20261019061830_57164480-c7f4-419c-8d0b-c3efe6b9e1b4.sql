@@ -0,0 +1,34 @@
+-- Shortlists stay hidden from the candidate they describe
+-- A candidate who later joins the team still can't see, or remove, their
+-- own entry or the notes the team wrote about them.
+
+DROP POLICY IF EXISTS "Team members can view their shortlist" ON public.team_shortlist;
+CREATE POLICY "Team members can view their shortlist"
+ON public.team_shortlist
+FOR SELECT
+USING (
+  candidate_id <> auth.uid()
+  AND public.is_team_member(team_id, auth.uid())
+);
+
+DROP POLICY IF EXISTS "Team members can remove shortlisted candidates" ON public.team_shortlist;
+CREATE POLICY "Team members can remove shortlisted candidates"
+ON public.team_shortlist
+FOR DELETE
+USING (
+  candidate_id <> auth.uid()
+  AND public.is_team_member(team_id, auth.uid())
+);
+
+DROP POLICY IF EXISTS "Team members can view shortlist notes" ON public.team_shortlist_notes;
+CREATE POLICY "Team members can view shortlist notes"
+ON public.team_shortlist_notes
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.team_shortlist s
+    WHERE s.id = team_shortlist_notes.shortlist_id
+      AND s.candidate_id <> auth.uid()
+      AND public.is_team_member(s.team_id, auth.uid())
+  )
+);
@@ -0,0 +1,40 @@
+-- Private notes only leave with their author
+-- An admin exporting someone else's data gets the same export as before,
+-- without the notes that user wrote.
+
+CREATE OR REPLACE FUNCTION public.export_user_data(p_user_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_data jsonb;
+BEGIN
+  -- Only allow users to export their own data
+  IF auth.uid() != p_user_id AND NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Unauthorized';
+  END IF;
+
+  SELECT jsonb_build_object(
+    'profile', (SELECT row_to_json(p.*) FROM profiles p WHERE p.user_id = p_user_id),
+    'teams', (SELECT jsonb_agg(row_to_json(t.*)) FROM teams t WHERE t.created_by = p_user_id),
+    'team_memberships', (SELECT jsonb_agg(row_to_json(tm.*)) FROM team_members tm WHERE tm.user_id = p_user_id),
+    'matches', (SELECT jsonb_agg(row_to_json(m.*)) FROM matches m WHERE m.user_id = p_user_id OR m.target_user_id = p_user_id),
+    'messages', (SELECT jsonb_agg(row_to_json(msg.*)) FROM messages msg WHERE msg.sender_id = p_user_id),
+    'exported_at', now()
+  ) INTO v_data;
+
+  IF auth.uid() = p_user_id THEN
+    v_data := v_data || jsonb_build_object(
+      'private_notes', (SELECT jsonb_agg(row_to_json(n.*) ORDER BY n.created_at) FROM private_notes n WHERE n.user_id = p_user_id)
+    );
+  END IF;
+
+  -- Log the export
+  PERFORM public.log_audit_event('data_export', 'profiles', p_user_id, NULL, NULL,
+    jsonb_build_object('export_type', 'full'));
+
+  RETURN v_data;
+END;
+$$;
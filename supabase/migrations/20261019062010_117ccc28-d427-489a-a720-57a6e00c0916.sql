@@ -0,0 +1,19 @@
+-- Match statuses only move through the database functions
+-- Answering, withdrawing, voting on and expiring a request all go through
+-- SECURITY DEFINER functions that check who may do it and clean up after
+-- it (notifications, votes, conversations, team membership). Updating the
+-- status directly skipped all of that: a sender could turn their pending
+-- request into 'rejected' instead of withdrawing it, and a recipient could
+-- mark a request matched or accepted without joining anyone.
+--
+-- The one change left to the client is passing again from the second-look
+-- deck, which re-sets a pass the caller made to 'rejected'.
+
+DROP POLICY IF EXISTS "Users can update their own matches" ON public.matches;
+CREATE POLICY "Users can update their own matches" ON public.matches
+  FOR UPDATE USING (
+    auth.uid() = user_id AND is_pass
+  )
+  WITH CHECK (
+    auth.uid() = user_id AND status = 'rejected'
+  );
@@ -0,0 +1,57 @@
+-- Invites can't put a student on a second team
+-- A student already confirmed on another team can't redeem an invite;
+-- they get 'already_on_team' and have to leave that team first.
+
+CREATE OR REPLACE FUNCTION public.team_invite_refusal(
+  p_invite public.team_invites,
+  p_user_id uuid
+)
+RETURNS text
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_max_members integer;
+BEGIN
+  IF p_invite.revoked_at IS NOT NULL THEN
+    RETURN 'revoked';
+  END IF;
+
+  IF p_invite.expires_at <= now() THEN
+    RETURN 'expired';
+  END IF;
+
+  IF p_invite.max_uses IS NOT NULL AND p_invite.use_count >= p_invite.max_uses THEN
+    RETURN 'used_up';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.team_members
+    WHERE team_id = p_invite.team_id AND user_id = p_user_id AND status = 'confirmed'
+  ) THEN
+    RETURN 'already_member';
+  END IF;
+
+  -- One team at a time
+  IF EXISTS (
+    SELECT 1 FROM public.team_members
+    WHERE user_id = p_user_id AND status = 'confirmed'
+  ) THEN
+    RETURN 'already_on_team';
+  END IF;
+
+  SELECT max_members INTO v_max_members FROM public.teams WHERE id = p_invite.team_id;
+
+  IF v_max_members IS NOT NULL AND (
+    SELECT COUNT(*) FROM public.team_members
+    WHERE team_id = p_invite.team_id AND status = 'confirmed'
+  ) >= v_max_members THEN
+    RETURN 'full';
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
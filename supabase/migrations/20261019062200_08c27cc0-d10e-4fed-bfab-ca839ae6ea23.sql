@@ -0,0 +1,151 @@
+-- Accepted join requests can't put a student on a second team
+-- resolve_join_request used to insert the applicant whatever else they had
+-- joined, so a vote, an owner accept or an invite redemption could stack
+-- memberships. An applicant already confirmed elsewhere now has the request
+-- closed instead, and joining a team closes the student's other open
+-- requests so the remaining paths can't catch up with them later.
+
+-- 1. CLOSE A NEW MEMBER'S OTHER REQUESTS
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.close_requests_for_new_member(p_user_id uuid, p_team_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_student_name text;
+  v_match public.matches;
+  v_party RECORD;
+BEGIN
+  SELECT name INTO v_student_name FROM public.profiles WHERE user_id = p_user_id;
+  v_student_name := COALESCE(v_student_name, 'A student');
+
+  -- Applications to other teams are withdrawn on the student's behalf
+  FOR v_match IN
+    UPDATE public.matches
+    SET status = 'withdrawn'
+    WHERE user_id = p_user_id
+      AND match_type = 'individual_to_team'
+      AND status = 'pending'
+      AND team_id IS DISTINCT FROM p_team_id
+    RETURNING *
+  LOOP
+    DELETE FROM public.join_request_votes WHERE match_id = v_match.id;
+    DELETE FROM public.conversations WHERE match_id = v_match.id;
+
+    SELECT * INTO v_party FROM public.request_party(v_match, false);
+
+    INSERT INTO public.notifications (user_id, type, title, body, data)
+    SELECT
+      admin_id,
+      'request_closed',
+      format('%s joined another team', v_student_name),
+      format('%s has joined another team, so their request to join %s has been closed.', v_student_name, v_party.name),
+      jsonb_build_object('match_id', v_match.id, 'team_id', v_match.team_id)
+    FROM unnest(v_party.user_ids) AS admin_id;
+  END LOOP;
+
+  -- Invitations from other teams read as declined
+  FOR v_match IN
+    UPDATE public.matches
+    SET status = 'rejected'
+    WHERE target_user_id = p_user_id
+      AND match_type = 'team_to_individual'
+      AND status = 'pending'
+      AND team_id IS DISTINCT FROM p_team_id
+    RETURNING *
+  LOOP
+    SELECT * INTO v_party FROM public.request_party(v_match, true);
+
+    INSERT INTO public.notifications (user_id, type, title, body, data)
+    SELECT
+      admin_id,
+      'request_closed',
+      format('%s joined another team', v_student_name),
+      format('%s has joined another team, so the invitation from %s has been closed.', v_student_name, v_party.name),
+      jsonb_build_object('match_id', v_match.id, 'team_id', v_match.team_id)
+    FROM unnest(v_party.user_ids) AS admin_id;
+  END LOOP;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.close_requests_for_new_member(uuid, uuid) FROM PUBLIC, anon, authenticated;
+
+-- 2. RESOLVE JOIN REQUESTS
+-- =====================================================
+-- Applies a decision to a pending join request. Internal: callers check
+-- permissions first.
+CREATE OR REPLACE FUNCTION public.resolve_join_request(
+  p_match_id uuid,
+  p_accept boolean
+)
+RETURNS json
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_match RECORD;
+  v_applicant uuid;
+  v_team_conv uuid;
+  v_team_name text;
+BEGIN
+  SELECT * INTO v_match FROM public.matches WHERE id = p_match_id;
+
+  IF NOT p_accept THEN
+    UPDATE public.matches SET status = 'rejected' WHERE id = p_match_id;
+    RETURN json_build_object('status', 'rejected');
+  END IF;
+
+  v_applicant := CASE WHEN v_match.match_type = 'individual_to_team'
+    THEN v_match.user_id ELSE v_match.target_user_id END;
+
+  -- One team at a time: the request can no longer be honoured
+  IF EXISTS (
+    SELECT 1 FROM public.team_members
+    WHERE user_id = v_applicant
+      AND status = 'confirmed'
+      AND team_id <> v_match.team_id
+  ) THEN
+    UPDATE public.matches SET status = 'rejected' WHERE id = p_match_id;
+    DELETE FROM public.join_request_votes WHERE match_id = p_match_id;
+
+    SELECT name INTO v_team_name FROM public.teams WHERE id = v_match.team_id;
+
+    INSERT INTO public.notifications (user_id, type, title, body, data)
+    VALUES (
+      v_applicant,
+      'request_closed',
+      format('Your request with %s was closed', v_team_name),
+      format('You''re already on another team, so you can''t join %s. Leave your current team first if you''d like to switch.', v_team_name),
+      jsonb_build_object('match_id', p_match_id, 'team_id', v_match.team_id)
+    );
+
+    RETURN json_build_object('status', 'rejected', 'reason', 'already_on_team');
+  END IF;
+
+  UPDATE public.matches SET status = 'accepted' WHERE id = p_match_id;
+
+  INSERT INTO public.team_members (team_id, user_id, role, status)
+  VALUES (v_match.team_id, v_applicant, 'member', 'confirmed')
+  ON CONFLICT (team_id, user_id) DO UPDATE SET status = 'confirmed';
+
+  SELECT id INTO v_team_conv
+  FROM public.conversations
+  WHERE team_id = v_match.team_id AND type = 'team'
+  LIMIT 1;
+
+  IF v_team_conv IS NOT NULL THEN
+    INSERT INTO public.conversation_participants (conversation_id, user_id)
+    VALUES (v_team_conv, v_applicant)
+    ON CONFLICT (conversation_id, user_id) DO NOTHING;
+  END IF;
+
+  PERFORM public.close_requests_for_new_member(v_applicant, v_match.team_id);
+
+  RETURN json_build_object('status', 'accepted', 'team_id', v_match.team_id);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.resolve_join_request(uuid, boolean) FROM PUBLIC, anon, authenticated;
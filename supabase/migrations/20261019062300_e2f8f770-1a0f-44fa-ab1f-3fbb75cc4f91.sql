@@ -0,0 +1,120 @@
+-- Send team deck requests in the deciding voter's name
+-- The vote that reached the quorum used to pick any free member as the
+-- sender, even one who hadn't liked the candidate, and turned that
+-- member's own pass into the team's request. The request now always goes
+-- out from the member whose like decided it.
+
+CREATE OR REPLACE FUNCTION public.cast_team_candidate_vote(
+  p_candidate_id uuid,
+  p_vote text
+)
+RETURNS json
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_team_id uuid;
+  v_quorum integer;
+  v_member_count integer;
+  v_likes integer;
+  v_existing uuid;
+BEGIN
+  IF p_vote NOT IN ('like', 'pass') THEN
+    RAISE EXCEPTION 'Invalid vote: %', p_vote;
+  END IF;
+
+  SELECT tm.team_id, t.swipe_quorum INTO v_team_id, v_quorum
+  FROM public.team_members tm
+  JOIN public.teams t ON t.id = tm.team_id
+  WHERE tm.user_id = auth.uid() AND tm.status = 'confirmed'
+  LIMIT 1;
+
+  IF v_team_id IS NULL THEN
+    RAISE EXCEPTION 'Unauthorized: Not a confirmed team member';
+  END IF;
+
+  IF v_quorum IS NULL THEN
+    RAISE EXCEPTION 'This team does not use the team deck';
+  END IF;
+
+  IF p_candidate_id = auth.uid() OR public.is_team_member(v_team_id, p_candidate_id) THEN
+    RAISE EXCEPTION 'Cannot vote on a member of your own team';
+  END IF;
+
+  -- Serialize votes on the same candidate so two last likes can't both
+  -- miss the quorum or both send the request
+  PERFORM pg_advisory_xact_lock(hashtext(v_team_id::text || p_candidate_id::text));
+
+  INSERT INTO public.team_candidate_votes (team_id, candidate_id, voter_id, vote)
+  VALUES (v_team_id, p_candidate_id, auth.uid(), p_vote)
+  ON CONFLICT (team_id, candidate_id, voter_id) DO UPDATE
+  SET vote = EXCLUDED.vote, updated_at = now();
+
+  -- Only likes from current members count
+  SELECT count(*) INTO v_likes
+  FROM public.team_candidate_votes v
+  JOIN public.team_members tm
+    ON tm.team_id = v.team_id AND tm.user_id = v.voter_id AND tm.status = 'confirmed'
+  WHERE v.team_id = v_team_id
+    AND v.candidate_id = p_candidate_id
+    AND v.vote = 'like';
+
+  SELECT count(*) INTO v_member_count
+  FROM public.team_members
+  WHERE team_id = v_team_id AND status = 'confirmed';
+
+  v_quorum := LEAST(v_quorum, v_member_count);
+
+  SELECT id INTO v_existing
+  FROM public.matches
+  WHERE team_id = v_team_id
+    AND target_user_id = p_candidate_id
+    AND match_type = 'team_to_individual'
+    AND status IN ('pending', 'accepted')
+  LIMIT 1;
+
+  IF v_existing IS NOT NULL THEN
+    RETURN json_build_object(
+      'status', 'already_requested',
+      'likes', v_likes,
+      'quorum', v_quorum,
+      'match_id', v_existing
+    );
+  END IF;
+
+  IF p_vote = 'like' AND v_likes >= v_quorum THEN
+    -- The request goes out in the deciding voter's name: they liked the
+    -- candidate, and a pass of their own is the only one it may convert.
+    -- If they already have their own match or request with the candidate
+    -- it can't be sent until another member's like decides it.
+    IF EXISTS (
+      SELECT 1 FROM public.matches m
+      WHERE m.user_id = auth.uid()
+        AND m.target_user_id = p_candidate_id
+        AND m.match_type IN ('individual', 'individual_to_individual', 'team_to_individual')
+        AND m.status NOT IN ('withdrawn', 'expired')
+        AND NOT m.is_pass
+    ) THEN
+      RETURN json_build_object(
+        'status', 'blocked',
+        'likes', v_likes,
+        'quorum', v_quorum
+      );
+    END IF;
+
+    RETURN (
+      jsonb_build_object('status', 'sent', 'likes', v_likes, 'quorum', v_quorum)
+      || public.create_match_with_conversation(
+           auth.uid(), p_candidate_id, 'team_to_individual', v_team_id, 'match'
+         )::jsonb
+    )::json;
+  END IF;
+
+  RETURN json_build_object(
+    'status', 'pending',
+    'likes', v_likes,
+    'quorum', v_quorum
+  );
+END;
+$$;
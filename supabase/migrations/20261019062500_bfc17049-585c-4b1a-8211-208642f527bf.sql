@@ -0,0 +1,241 @@
+-- Merges respect the size limit and close the absorbed team's requests
+-- Accepting a merge deleted the absorbed team, and with it every open
+-- request it had sent or received: applicants and invitees were never
+-- told, and the request conversations lost their match. Those requests are
+-- now closed with a notification first. A merge is also refused when the
+-- combined team would be bigger than the surviving team's max_members.
+
+-- 1. CLOSE THE ABSORBED TEAM'S REQUESTS
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.close_requests_for_absorbed_team(
+  p_team_id uuid,
+  p_surviving_id uuid
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_team_name text;
+  v_surviving_name text;
+  v_match public.matches;
+  v_party RECORD;
+BEGIN
+  SELECT name INTO v_team_name FROM public.teams WHERE id = p_team_id;
+  SELECT name INTO v_surviving_name FROM public.teams WHERE id = p_surviving_id;
+
+  -- Applications read as declined to the applicant, with an explanation
+  FOR v_match IN
+    UPDATE public.matches
+    SET status = 'rejected'
+    WHERE team_id = p_team_id
+      AND match_type = 'individual_to_team'
+      AND status = 'pending'
+    RETURNING *
+  LOOP
+    DELETE FROM public.join_request_votes WHERE match_id = v_match.id;
+    DELETE FROM public.conversations WHERE match_id = v_match.id;
+
+    INSERT INTO public.notifications (user_id, type, title, body, data)
+    VALUES (
+      v_match.user_id,
+      'request_closed',
+      format('%s merged with %s', v_team_name, v_surviving_name),
+      format('%s has merged into %s, so your request to join has been closed. You''re welcome to send %s a request instead.', v_team_name, v_surviving_name, v_surviving_name),
+      jsonb_build_object('match_id', v_match.id, 'team_id', p_surviving_id)
+    );
+  END LOOP;
+
+  -- Invitations the team can no longer honour
+  FOR v_match IN
+    UPDATE public.matches
+    SET status = 'withdrawn'
+    WHERE team_id = p_team_id
+      AND match_type = 'team_to_individual'
+      AND status = 'pending'
+    RETURNING *
+  LOOP
+    DELETE FROM public.conversations WHERE match_id = v_match.id;
+
+    INSERT INTO public.notifications (user_id, type, title, body, data)
+    VALUES (
+      v_match.target_user_id,
+      'request_closed',
+      format('%s merged with %s', v_team_name, v_surviving_name),
+      format('%s has merged into %s, so their invitation has been withdrawn.', v_team_name, v_surviving_name),
+      jsonb_build_object('match_id', v_match.id, 'team_id', p_surviving_id)
+    );
+  END LOOP;
+
+  -- Other merge proposals, sent or received, go to the other team's admins
+  FOR v_match IN
+    UPDATE public.matches
+    SET status = CASE WHEN team_id = p_team_id THEN 'withdrawn' ELSE 'rejected' END
+    WHERE p_team_id IN (team_id, target_team_id)
+      AND match_type = 'team_to_team'
+      AND status = 'pending'
+    RETURNING *
+  LOOP
+    DELETE FROM public.conversations WHERE match_id = v_match.id;
+
+    SELECT * INTO v_party
+    FROM public.request_party(v_match, v_match.team_id <> p_team_id);
+
+    INSERT INTO public.notifications (user_id, type, title, body, data)
+    SELECT
+      admin_id,
+      'request_closed',
+      format('%s merged with %s', v_team_name, v_surviving_name),
+      format('%s has merged into %s, so the merge proposal between %s and %s has been closed.', v_team_name, v_surviving_name, v_party.name, v_team_name),
+      jsonb_build_object('match_id', v_match.id, 'team_id', p_surviving_id)
+    FROM unnest(v_party.user_ids) AS admin_id;
+  END LOOP;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.close_requests_for_absorbed_team(uuid, uuid) FROM PUBLIC, anon, authenticated;
+
+-- 2. RESPOND TO A MERGE
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.respond_to_team_merge(
+  p_match_id uuid,
+  p_accept boolean
+)
+RETURNS json
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_max_team_size CONSTANT integer := 2;
+  v_match RECORD;
+  v_surviving_id uuid;
+  v_absorbed_id uuid;
+  v_surviving_conv uuid;
+  v_absorbed_conv uuid;
+  v_max_members integer;
+  v_combined_size integer;
+BEGIN
+  SELECT * INTO v_match
+  FROM public.matches
+  WHERE id = p_match_id AND match_type = 'team_to_team'
+  FOR UPDATE;
+
+  IF v_match IS NULL THEN
+    RAISE EXCEPTION 'Merge request not found';
+  END IF;
+
+  IF v_match.status != 'pending' THEN
+    RAISE EXCEPTION 'Merge request is no longer pending';
+  END IF;
+
+  IF v_match.team_id IS NULL OR v_match.target_team_id IS NULL THEN
+    RAISE EXCEPTION 'One of the teams no longer exists';
+  END IF;
+
+  -- The target team's owner or one of its admins decides
+  IF NOT public.is_team_admin(v_match.target_team_id, auth.uid()) THEN
+    RAISE EXCEPTION 'Unauthorized: Only team admins can respond to a merge';
+  END IF;
+
+  IF NOT p_accept THEN
+    UPDATE public.matches SET status = 'rejected' WHERE id = p_match_id;
+    RETURN json_build_object('status', 'rejected');
+  END IF;
+
+  -- Either team may have grown since the proposal; lock both and re-check
+  PERFORM 1 FROM public.teams
+  WHERE id IN (v_match.team_id, v_match.target_team_id)
+  ORDER BY id
+  FOR UPDATE;
+
+  IF (SELECT COUNT(*) FROM public.team_members WHERE team_id = v_match.team_id AND status = 'confirmed') > v_max_team_size
+     OR (SELECT COUNT(*) FROM public.team_members WHERE team_id = v_match.target_team_id AND status = 'confirmed') > v_max_team_size THEN
+    RAISE EXCEPTION 'Only teams of % or fewer members can merge', v_max_team_size;
+  END IF;
+
+  -- Larger team survives; the older team wins ties
+  SELECT t.id INTO v_surviving_id
+  FROM public.teams t
+  WHERE t.id IN (v_match.team_id, v_match.target_team_id)
+  ORDER BY (
+    SELECT COUNT(*) FROM public.team_members tm
+    WHERE tm.team_id = t.id AND tm.status = 'confirmed'
+  ) DESC, t.created_at ASC
+  LIMIT 1;
+
+  v_absorbed_id := CASE WHEN v_surviving_id = v_match.team_id
+    THEN v_match.target_team_id ELSE v_match.team_id END;
+
+  -- The merged team has to fit the surviving team's size limit
+  SELECT max_members INTO v_max_members FROM public.teams WHERE id = v_surviving_id;
+
+  SELECT count(DISTINCT user_id) INTO v_combined_size
+  FROM public.team_members
+  WHERE team_id IN (v_surviving_id, v_absorbed_id) AND status = 'confirmed';
+
+  IF v_max_members IS NOT NULL AND v_combined_size > v_max_members THEN
+    RAISE EXCEPTION 'Together the teams would have % members, more than the limit of %',
+      v_combined_size, v_max_members;
+  END IF;
+
+  -- Move members across
+  INSERT INTO public.team_members (team_id, user_id, role, status)
+  SELECT v_surviving_id, tm.user_id, 'member', 'confirmed'
+  FROM public.team_members tm
+  WHERE tm.team_id = v_absorbed_id AND tm.status = 'confirmed'
+  ON CONFLICT (team_id, user_id) DO UPDATE SET status = 'confirmed';
+
+  -- Consolidate team chat: keep the absorbed team's history in the surviving thread
+  SELECT id INTO v_surviving_conv FROM public.conversations
+  WHERE team_id = v_surviving_id AND type = 'team' LIMIT 1;
+
+  SELECT id INTO v_absorbed_conv FROM public.conversations
+  WHERE team_id = v_absorbed_id AND type = 'team' LIMIT 1;
+
+  IF v_surviving_conv IS NULL THEN
+    INSERT INTO public.conversations (type, team_id)
+    VALUES ('team', v_surviving_id)
+    RETURNING id INTO v_surviving_conv;
+  END IF;
+
+  IF v_absorbed_conv IS NOT NULL THEN
+    UPDATE public.messages SET conversation_id = v_surviving_conv
+    WHERE conversation_id = v_absorbed_conv;
+  END IF;
+
+  INSERT INTO public.conversation_participants (conversation_id, user_id)
+  SELECT v_surviving_conv, tm.user_id
+  FROM public.team_members tm
+  WHERE tm.team_id = v_surviving_id AND tm.status = 'confirmed'
+  ON CONFLICT (conversation_id, user_id) DO NOTHING;
+
+  -- Carry over what the absorbed team was still looking for
+  UPDATE public.teams s
+  SET skills_needed = ARRAY(
+    SELECT DISTINCT unnest(COALESCE(s.skills_needed, '{}') || COALESCE(a.skills_needed, '{}'))
+  )
+  FROM public.teams a
+  WHERE s.id = v_surviving_id AND a.id = v_absorbed_id;
+
+  -- Keep the merge record attached to the surviving team before the other one goes
+  UPDATE public.matches
+  SET status = 'accepted', team_id = v_surviving_id
+  WHERE id = p_match_id;
+
+  PERFORM public.log_audit_event('team_merged', 'teams', v_surviving_id, NULL, NULL,
+    jsonb_build_object('absorbed_team_id', v_absorbed_id, 'match_id', p_match_id));
+
+  -- Deleting the team would take its open requests with it unannounced
+  PERFORM public.close_requests_for_absorbed_team(v_absorbed_id, v_surviving_id);
+
+  DELETE FROM public.teams WHERE id = v_absorbed_id;
+
+  RETURN json_build_object(
+    'status', 'accepted',
+    'surviving_team_id', v_surviving_id,
+    'absorbed_team_id', v_absorbed_id
+  );
+END;
+$$;
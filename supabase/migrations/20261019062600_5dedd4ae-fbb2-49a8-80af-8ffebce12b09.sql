@@ -0,0 +1,124 @@
+-- Time the undo window from the swipe itself
+-- undo_swipe measured its window from updated_at, which moves whenever
+-- anything touches the row: an expiry reminder or a status change could
+-- reopen a long-expired window. Matches now record swiped_at, set when the
+-- row is created and when a pass is turned into a like, and the window is
+-- measured from that.
+
+-- 1. SCHEMA
+-- =====================================================
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public' AND table_name = 'matches' AND column_name = 'swiped_at'
+  ) THEN
+    ALTER TABLE public.matches ADD COLUMN swiped_at timestamp with time zone;
+
+    -- Existing rows: the best record of the swipe is when the row appeared.
+    -- Backfilling mustn't touch updated_at, which times pass cooldowns.
+    ALTER TABLE public.matches DISABLE TRIGGER update_matches_updated_at;
+    UPDATE public.matches SET swiped_at = created_at;
+    ALTER TABLE public.matches ENABLE TRIGGER update_matches_updated_at;
+
+    ALTER TABLE public.matches
+      ALTER COLUMN swiped_at SET DEFAULT now(),
+      ALTER COLUMN swiped_at SET NOT NULL;
+  END IF;
+END;
+$$;
+
+-- 2. STAMP THE SWIPE
+-- =====================================================
+-- Set here rather than trusted from the client
+CREATE OR REPLACE FUNCTION public.stamp_swiped_at()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    NEW.swiped_at := now();
+  ELSIF OLD.is_pass AND NEW.status <> 'rejected' THEN
+    -- A like from the second-look deck is a new swipe
+    NEW.swiped_at := now();
+  ELSE
+    NEW.swiped_at := OLD.swiped_at;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS stamp_swiped_at ON public.matches;
+CREATE TRIGGER stamp_swiped_at
+  BEFORE INSERT OR UPDATE ON public.matches
+  FOR EACH ROW EXECUTE FUNCTION public.stamp_swiped_at();
+
+-- 3. UNDO
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.undo_swipe(p_match_id uuid)
+RETURNS json
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  -- Keep in sync with UNDO_WINDOW_MINUTES in src/lib/undo.ts
+  v_window interval := interval '10 minutes';
+  v_match RECORD;
+BEGIN
+  SELECT * INTO v_match
+  FROM public.matches
+  WHERE id = p_match_id
+  FOR UPDATE;
+
+  -- A team's request can be taken back by any of its members
+  IF NOT FOUND OR NOT (
+    v_match.user_id = auth.uid()
+    OR (
+      v_match.match_type = 'team_to_individual'
+      AND NOT v_match.is_pass
+      AND public.is_team_member(v_match.team_id, auth.uid())
+    )
+  ) THEN
+    RAISE EXCEPTION 'Swipe not found';
+  END IF;
+
+  IF v_match.status IN ('matched', 'accepted') THEN
+    RETURN json_build_object('undone', false, 'reason', 'accepted');
+  END IF;
+
+  -- A rejected row that isn't our own pass was declined by the other side;
+  -- deleting it would erase their answer and the conversation it lives in
+  IF v_match.status = 'rejected' AND (
+    NOT v_match.is_pass
+    OR EXISTS (SELECT 1 FROM public.conversations WHERE match_id = p_match_id)
+  ) THEN
+    RETURN json_build_object('undone', false, 'reason', 'responded');
+  END IF;
+
+  IF v_match.swiped_at < now() - v_window THEN
+    RETURN json_build_object('undone', false, 'reason', 'expired');
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM public.conversations c
+    JOIN public.messages msg ON msg.conversation_id = c.id
+    WHERE c.match_id = p_match_id
+      AND msg.sender_id <> v_match.user_id
+      AND NOT (
+        v_match.match_type = 'team_to_individual'
+        AND public.is_team_member(v_match.team_id, msg.sender_id)
+      )
+  ) THEN
+    RETURN json_build_object('undone', false, 'reason', 'replied');
+  END IF;
+
+  -- Participants and messages cascade with the conversation
+  DELETE FROM public.conversations WHERE match_id = p_match_id;
+  DELETE FROM public.matches WHERE id = p_match_id;
+
+  RETURN json_build_object('undone', true);
+END;
+$$;
@@ -0,0 +1,25 @@
+-- Notifications can only be marked read from the client
+-- The update policy lets users touch their own notifications; this limits
+-- what they may change to read_at. Who a notification is for, what it
+-- says and the data it links to stay as they were written by the
+-- database functions, which run as their owner and aren't affected.
+
+CREATE OR REPLACE FUNCTION public.protect_notification_columns()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF current_user IN ('anon', 'authenticated')
+     AND (to_jsonb(NEW) - 'read_at') IS DISTINCT FROM (to_jsonb(OLD) - 'read_at') THEN
+    RAISE EXCEPTION 'Only the read time of a notification can be changed';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS protect_notification_columns ON public.notifications;
+CREATE TRIGGER protect_notification_columns
+  BEFORE UPDATE ON public.notifications
+  FOR EACH ROW EXECUTE FUNCTION public.protect_notification_columns();